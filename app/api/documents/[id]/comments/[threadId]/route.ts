@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { replyToThread, setThreadResolved } from "@/lib/comments/store";
+import { parseReplyInput, parseResolveInput } from "@/lib/comments/validate";
+import { isValidDocumentId, readDocument } from "@/lib/documents/store";
+
+type Context = { params: Promise<{ id: string; threadId: string }> };
+
+function notFound(what: "Document" | "Thread") {
+  return NextResponse.json({ error: `${what} not found` }, { status: 404 });
+}
+
+// POST { body, author } → 답글
+export async function POST(request: Request, { params }: Context) {
+  const { id, threadId } = await params;
+  if (!isValidDocumentId(id) || !(await readDocument(id))) {
+    return notFound("Document");
+  }
+
+  const body = await request.json().catch(() => null);
+  const input = parseReplyInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid comment" }, { status: 400 });
+  }
+
+  const thread = await replyToThread(id, threadId, input);
+  return thread ? NextResponse.json({ thread }) : notFound("Thread");
+}
+
+// PATCH { resolved, author } → 해결 / 다시 열기
+export async function PATCH(request: Request, { params }: Context) {
+  const { id, threadId } = await params;
+  if (!isValidDocumentId(id) || !(await readDocument(id))) {
+    return notFound("Document");
+  }
+
+  const body = await request.json().catch(() => null);
+  const input = parseResolveInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const thread = await setThreadResolved(id, threadId, input);
+  return thread ? NextResponse.json({ thread }) : notFound("Thread");
+}
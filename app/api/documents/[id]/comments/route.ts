@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { createThread, listThreads } from "@/lib/comments/store";
+import { parseCreateThreadInput } from "@/lib/comments/validate";
+import { isValidDocumentId, readDocument } from "@/lib/documents/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "Document not found" }, { status: 404 });
+}
+
+// GET → { threads } (해결된 스레드 포함)
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidDocumentId(id) || !(await readDocument(id))) return notFound();
+
+  return NextResponse.json({ threads: await listThreads(id) });
+}
+
+// POST { id, quote, body, author } → 새 스레드 (201)
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidDocumentId(id) || !(await readDocument(id))) return notFound();
+
+  const body = await request.json().catch(() => null);
+  const input = parseCreateThreadInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid comment" }, { status: 400 });
+  }
+
+  const thread = await createThread(id, input);
+  if (!thread) {
+    return NextResponse.json({ error: "Thread already exists" }, { status: 409 });
+  }
+  return NextResponse.json({ thread }, { status: 201 });
+}
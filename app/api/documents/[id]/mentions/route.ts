@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { isValidDocumentId, readDocument } from "@/lib/documents/store";
+import { createMentionNotification } from "@/lib/notifications/store";
+import { parseMentionInput } from "@/lib/notifications/validate";
+
+type Context = { params: Promise<{ id: string }> };
+
+// POST { mentionId, userId, excerpt, actor } → 멘션된 사람에게 알림 (201)
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params;
+  const doc = isValidDocumentId(id) ? await readDocument(id) : null;
+  if (!doc) {
+    return NextResponse.json({ error: "Document not found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const input = parseMentionInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid mention" }, { status: 400 });
+  }
+
+  // 자기 자신을 멘션하면 알리지 않는다
+  const notification =
+    input.userId === input.actor.id
+      ? null
+      : await createMentionNotification(doc, input);
+  return NextResponse.json(
+    { notification },
+    { status: notification ? 201 : 200 }
+  );
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { isValidDocumentId, readDocument } from "@/lib/documents/store";
+import { documentToPdf } from "@/lib/pdf/render";
+import { parsePdfExportInput } from "@/lib/pdf/validate";
+
+type Context = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "Document not found" }, { status: 404 });
+}
+
+// POST { title, content, options } → application/pdf
+// 저장을 기다리지 않도록 편집기에 보이는 본문을 그대로 받는다
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidDocumentId(id) || !(await readDocument(id))) return notFound();
+
+  const body = await request.json().catch(() => null);
+  const input = parsePdfExportInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid PDF export" }, { status: 400 });
+  }
+
+  const pdf = await documentToPdf(input.content, {
+    title: input.title,
+    options: input.options,
+    baseUrl: new URL(request.url).origin,
+  });
+  return new Response(new Uint8Array(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Length": String(pdf.length),
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { isValidDocumentId, readDocument } from "@/lib/documents/store";
+import {
+  findPublication,
+  getPublicationStatus,
+  publishDocument,
+  unpublishDocument,
+} from "@/lib/publish/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "Document not found" }, { status: 404 });
+}
+
+// GET → 게시 상태 (게시한 적 없으면 null)
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params;
+  const doc = isValidDocumentId(id) ? await readDocument(id) : null;
+  if (!doc) return notFound();
+
+  const publication = await findPublication(id);
+  return NextResponse.json({
+    publication: publication ? getPublicationStatus(publication, doc) : null,
+  });
+}
+
+// POST → 현재 문서를 게시 (이미 게시했으면 같은 주소로 다시 게시)
+export async function POST(_request: Request, { params }: Context) {
+  const { id } = await params;
+  const doc = isValidDocumentId(id) ? await readDocument(id) : null;
+  if (!doc || doc.deletedAt) return notFound();
+
+  const publication = await publishDocument(doc);
+  return NextResponse.json({
+    publication: getPublicationStatus(publication, doc),
+  });
+}
+
+// DELETE → 게시 취소
+export async function DELETE(_request: Request, { params }: Context) {
+  const { id } = await params;
+  const doc = isValidDocumentId(id) ? await readDocument(id) : null;
+  if (!doc) return notFound();
+
+  const publication = await unpublishDocument(id);
+  if (!publication) {
+    return NextResponse.json({ error: "Not published" }, { status: 404 });
+  }
+  return NextResponse.json({
+    publication: getPublicationStatus(publication, doc),
+  });
+}
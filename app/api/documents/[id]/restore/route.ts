@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { isValidDocumentId, restoreDocument } from "@/lib/documents/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+export async function POST(_request: Request, { params }: Context) {
+  const { id } = await params;
+  const doc = isValidDocumentId(id) ? await restoreDocument(id) : null;
+  if (!doc) {
+    return NextResponse.json({ error: "Document not found" }, { status: 404 });
+  }
+  return NextResponse.json({ document: doc });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import {
+  isValidDocumentId,
+  readDocument,
+  saveDocument,
+  trashDocument,
+} from "@/lib/documents/store";
+import { parseSaveDocumentInput } from "@/lib/documents/validate";
+import { recordAutoVersion } from "@/lib/versions/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "Document not found" }, { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidDocumentId(id)) return notFound();
+
+  const doc = await readDocument(id);
+  if (!doc) return notFound();
+  return NextResponse.json({ document: doc });
+}
+
+export async function PUT(request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidDocumentId(id)) return notFound();
+
+  const body = await request.json().catch(() => null);
+  const input = parseSaveDocumentInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid document" }, { status: 400 });
+  }
+
+  const doc = await saveDocument(id, input);
+  if (!doc) return notFound();
+  await recordAutoVersion(doc);
+  return NextResponse.json({ document: doc });
+}
+
+// DELETE는 휴지통으로 이동만 한다 (POST .../restore로 복원)
+export async function DELETE(_request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidDocumentId(id)) return notFound();
+
+  const doc = await trashDocument(id);
+  if (!doc) return notFound();
+  return NextResponse.json({ document: doc });
+}
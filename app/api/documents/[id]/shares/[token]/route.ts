@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { isValidDocumentId } from "@/lib/documents/store";
+import { revokeShareLink, summarizeShareLink } from "@/lib/shares/store";
+
+type Context = { params: Promise<{ id: string; token: string }> };
+
+// DELETE → 링크 취소 (이미 열어 둔 사람도 다음 요청부터 막힌다)
+export async function DELETE(_request: Request, { params }: Context) {
+  const { id, token } = await params;
+  const link = isValidDocumentId(id) ? await revokeShareLink(id, token) : null;
+  if (!link) {
+    return NextResponse.json(
+      { error: "Share link not found" },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ link: summarizeShareLink(link) });
+}
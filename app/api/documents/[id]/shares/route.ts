@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { isValidDocumentId, readDocument } from "@/lib/documents/store";
+import {
+  createShareLink,
+  listShareLinks,
+  summarizeShareLink,
+} from "@/lib/shares/store";
+import { parseCreateShareInput } from "@/lib/shares/validate";
+
+type Context = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "Document not found" }, { status: 404 });
+}
+
+// GET → 취소/만료되지 않은 공유 링크 목록
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidDocumentId(id) || !(await readDocument(id))) return notFound();
+
+  const links = await listShareLinks(id);
+  return NextResponse.json({ links });
+}
+
+// POST { role, expiresAt?, password? } → 새 공유 링크
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidDocumentId(id) || !(await readDocument(id))) return notFound();
+
+  const body = await request.json().catch(() => null);
+  const input = parseCreateShareInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid share link" }, { status: 400 });
+  }
+
+  const link = await createShareLink(id, input);
+  return NextResponse.json(
+    { link: summarizeShareLink(link) },
+    { status: 201 }
+  );
+}
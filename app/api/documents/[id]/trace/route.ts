@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { isValidDocumentId, readDocument } from "@/lib/documents/store";
+import { appendTraceEvents, readTrace } from "@/lib/trace/store";
+import { parseTraceEvents } from "@/lib/trace/validate";
+
+type Context = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "Document not found" }, { status: 404 });
+}
+
+// GET → 문서의 전체 작성 기록 (없으면 null)
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidDocumentId(id)) return notFound();
+
+  const trace = await readTrace(id);
+  return NextResponse.json({ trace });
+}
+
+// POST { events } → 기록 뒤에 이어 붙인다
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidDocumentId(id) || !(await readDocument(id))) return notFound();
+
+  const body = await request.json().catch(() => null);
+  const events = parseTraceEvents(body);
+  if (!events) {
+    return NextResponse.json({ error: "Invalid trace events" }, { status: 400 });
+  }
+
+  await appendTraceEvents(id, events);
+  return NextResponse.json({ appended: events.length });
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { isValidDocumentId } from "@/lib/documents/store";
+import { readVersion } from "@/lib/versions/store";
+
+type Context = { params: Promise<{ id: string; versionId: string }> };
+
+// GET → { version } (본문 포함)
+export async function GET(_request: Request, { params }: Context) {
+  const { id, versionId } = await params;
+  const version = isValidDocumentId(id)
+    ? await readVersion(id, versionId)
+    : null;
+  if (!version) {
+    return NextResponse.json({ error: "Version not found" }, { status: 404 });
+  }
+  return NextResponse.json({ version });
+}
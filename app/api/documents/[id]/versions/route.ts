@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { isValidDocumentId, readDocument } from "@/lib/documents/store";
+import { createVersion, listVersions } from "@/lib/versions/store";
+import { parseCreateVersionInput } from "@/lib/versions/validate";
+
+type Context = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "Document not found" }, { status: 404 });
+}
+
+// GET → { versions } (본문 제외, 최신이 마지막)
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidDocumentId(id) || !(await readDocument(id))) return notFound();
+
+  return NextResponse.json({ versions: await listVersions(id) });
+}
+
+// POST { kind: "manual", name } | { kind: "restore", restoredFrom } → 새 버전 (201)
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidDocumentId(id)) return notFound();
+  const doc = await readDocument(id);
+  if (!doc) return notFound();
+
+  const body = await request.json().catch(() => null);
+  const input = parseCreateVersionInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid version" }, { status: 400 });
+  }
+
+  const version = await createVersion(doc, input);
+  if (!version) {
+    return NextResponse.json({ error: "Version not found" }, { status: 404 });
+  }
+  return NextResponse.json({ version }, { status: 201 });
+}
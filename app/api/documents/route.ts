@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { createDocument, listDocuments } from "@/lib/documents/store";
+import { parseSaveDocumentInput } from "@/lib/documents/validate";
+
+// GET /api/documents[?trashed=1] → 문서 요약 목록 (최근 수정 순)
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const documents = await listDocuments({
+    trashed: searchParams.get("trashed") === "1",
+  });
+  return NextResponse.json({ documents });
+}
+
+// POST /api/documents → 새 문서 생성
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const input = parseSaveDocumentInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid document" }, { status: 400 });
+  }
+
+  const doc = await createDocument(input);
+  return NextResponse.json({ document: doc }, { status: 201 });
+}
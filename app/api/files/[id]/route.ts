@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { INLINE_MIME_TYPES } from "@/lib/files/policy";
+import { readFileBytes, readFileMeta } from "@/lib/files/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "File not found" }, { status: 404 });
+}
+
+// 한글 파일 이름도 깨지지 않도록 RFC 5987 filename* 사용
+function contentDisposition(kind: "inline" | "attachment", name: string) {
+  const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, "_") || "file";
+  return `${kind}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
+
+// GET ?name=<저장할 이름>&download=1 → 파일 내용
+export async function GET(request: Request, { params }: Context) {
+  const { id } = await params;
+  const meta = await readFileMeta(id);
+  const bytes = meta ? await readFileBytes(id) : null;
+  if (!meta || !bytes) return notFound();
+
+  const url = new URL(request.url);
+  const name = url.searchParams.get("name") || id;
+  const inline =
+    !url.searchParams.has("download") && INLINE_MIME_TYPES.has(meta.type);
+
+  return new Response(new Uint8Array(bytes), {
+    headers: {
+      "Content-Type": meta.type,
+      "Content-Length": String(meta.size),
+      "Content-Disposition": contentDisposition(
+        inline ? "inline" : "attachment",
+        name
+      ),
+      "X-Content-Type-Options": "nosniff",
+      // 내용이 바뀌면 id(해시)도 바뀐다
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
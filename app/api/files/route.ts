@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { checkFile, MAX_FILE_SIZE, resolveMimeType } from "@/lib/files/policy";
+import { saveFile } from "@/lib/files/store";
+import type { UploadedFile } from "@/lib/files/types";
+
+// multipart 경계/필드 이름 등 여유분
+const FORM_OVERHEAD = 64 * 1024;
+
+const REJECTIONS = {
+  empty: { error: "Empty file", status: 400 },
+  "too-large": { error: "File too large", status: 413 },
+  "type-not-allowed": { error: "File type not allowed", status: 415 },
+} as const;
+
+// POST multipart/form-data { file } → { file: UploadedFile }
+export async function POST(request: Request) {
+  // 본문을 다 읽기 전에 크기부터 거른다
+  const length = Number(request.headers.get("content-length") ?? 0);
+  if (length > MAX_FILE_SIZE + FORM_OVERHEAD) {
+    const { error, status } = REJECTIONS["too-large"];
+    return NextResponse.json({ error }, { status });
+  }
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Missing file" }, { status: 400 });
+  }
+
+  const rejection = checkFile(file.name, file.type, file.size);
+  if (rejection) {
+    const { error, status } = REJECTIONS[rejection];
+    return NextResponse.json({ error }, { status });
+  }
+
+  const type = resolveMimeType(file.name, file.type);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const { file: stored, deduped } = await saveFile(bytes, type);
+
+  const uploaded: UploadedFile = { ...stored, name: file.name, deduped };
+  return NextResponse.json({ file: uploaded }, { status: deduped ? 200 : 201 });
+}
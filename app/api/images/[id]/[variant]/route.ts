@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { readFileBytes, readFileMeta } from "@/lib/files/store";
+import { isImageVariant, readImage } from "@/lib/images/store";
+
+type Context = { params: Promise<{ id: string; variant: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "Image not found" }, { status: 404 });
+}
+
+// GET /api/images/<id>/<thumb|1x|2x> → 변형 이미지
+export async function GET(_request: Request, { params }: Context) {
+  const { id, variant } = await params;
+  if (!isImageVariant(variant)) return notFound();
+
+  const image = await readImage(id);
+  const meta = image ? await readFileMeta(image.variants[variant].fileId) : null;
+  const bytes = meta ? await readFileBytes(meta.id) : null;
+  if (!meta || !bytes) return notFound();
+
+  return new Response(new Uint8Array(bytes), {
+    headers: {
+      "Content-Type": meta.type,
+      "Content-Length": String(meta.size),
+      "X-Content-Type-Options": "nosniff",
+      // 에셋 id는 원본 해시라 같은 주소의 내용은 바뀌지 않는다
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import {
+  checkFile,
+  isImageFile,
+  MAX_FILE_SIZE,
+  resolveMimeType,
+} from "@/lib/files/policy";
+import { saveImage } from "@/lib/images/store";
+import type { UploadedImage } from "@/lib/images/types";
+
+// multipart 경계/필드 이름 등 여유분
+const FORM_OVERHEAD = 64 * 1024;
+
+const REJECTIONS = {
+  empty: { error: "Empty file", status: 400 },
+  "too-large": { error: "File too large", status: 413 },
+  "type-not-allowed": { error: "Image type not allowed", status: 415 },
+} as const;
+
+// POST multipart/form-data { file } → { image: UploadedImage }
+export async function POST(request: Request) {
+  const length = Number(request.headers.get("content-length") ?? 0);
+  if (length > MAX_FILE_SIZE + FORM_OVERHEAD) {
+    const { error, status } = REJECTIONS["too-large"];
+    return NextResponse.json({ error }, { status });
+  }
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Missing file" }, { status: 400 });
+  }
+
+  const rejection =
+    checkFile(file.name, file.type, file.size) ??
+    (isImageFile(file.name, file.type) ? null : "type-not-allowed");
+  if (rejection) {
+    const { error, status } = REJECTIONS[rejection];
+    return NextResponse.json({ error }, { status });
+  }
+
+  const type = resolveMimeType(file.name, file.type);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  let result: Awaited<ReturnType<typeof saveImage>>;
+  try {
+    result = await saveImage(bytes, type);
+  } catch {
+    // 확장자/형식만 이미지이고 실제로는 읽을 수 없는 파일
+    return NextResponse.json({ error: "Unreadable image" }, { status: 415 });
+  }
+
+  const uploaded: UploadedImage = { ...result.image, deduped: result.deduped };
+  return NextResponse.json(
+    { image: uploaded },
+    { status: result.deduped ? 200 : 201 }
+  );
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { replyToThread, setThreadResolved } from "@/lib/comments/store";
+import { parseReplyInput, parseResolveInput } from "@/lib/comments/validate";
+import { authorizeShare } from "@/lib/shares/access";
+
+type Context = { params: Promise<{ token: string; threadId: string }> };
+
+function threadNotFound() {
+  return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+}
+
+// POST { body, author } → 답글
+export async function POST(request: Request, { params }: Context) {
+  const { token, threadId } = await params;
+  const access = await authorizeShare(token, {
+    roles: ["commenter", "editor"],
+  });
+  if (access.response) return access.response;
+
+  const body = await request.json().catch(() => null);
+  const input = parseReplyInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid comment" }, { status: 400 });
+  }
+
+  const thread = await replyToThread(access.document.id, threadId, input);
+  return thread ? NextResponse.json({ thread }) : threadNotFound();
+}
+
+// PATCH { resolved, author } → 해결 / 다시 열기
+export async function PATCH(request: Request, { params }: Context) {
+  const { token, threadId } = await params;
+  const access = await authorizeShare(token, {
+    roles: ["commenter", "editor"],
+  });
+  if (access.response) return access.response;
+
+  const body = await request.json().catch(() => null);
+  const input = parseResolveInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const thread = await setThreadResolved(access.document.id, threadId, input);
+  return thread ? NextResponse.json({ thread }) : threadNotFound();
+}
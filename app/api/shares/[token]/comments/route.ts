@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { createThread, listThreads } from "@/lib/comments/store";
+import { parseCreateThreadInput } from "@/lib/comments/validate";
+import { authorizeShare } from "@/lib/shares/access";
+
+type Context = { params: Promise<{ token: string }> };
+
+// GET → { threads }. 보기 전용 링크도 댓글은 읽을 수 있다
+export async function GET(_request: Request, { params }: Context) {
+  const { token } = await params;
+  const access = await authorizeShare(token);
+  if (access.response) return access.response;
+
+  return NextResponse.json({ threads: await listThreads(access.document.id) });
+}
+
+// POST { id, quote, body, author } → 댓글/편집 권한 링크에서만
+export async function POST(request: Request, { params }: Context) {
+  const { token } = await params;
+  const access = await authorizeShare(token, {
+    roles: ["commenter", "editor"],
+  });
+  if (access.response) return access.response;
+
+  const body = await request.json().catch(() => null);
+  const input = parseCreateThreadInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid comment" }, { status: 400 });
+  }
+
+  const thread = await createThread(access.document.id, input);
+  if (!thread) {
+    return NextResponse.json({ error: "Thread already exists" }, { status: 409 });
+  }
+  return NextResponse.json({ thread }, { status: 201 });
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { createMentionNotification } from "@/lib/notifications/store";
+import { parseMentionInput } from "@/lib/notifications/validate";
+import { authorizeShare } from "@/lib/shares/access";
+
+type Context = { params: Promise<{ token: string }> };
+
+// POST { mentionId, userId, excerpt, actor } → 편집 권한 링크에서만
+export async function POST(request: Request, { params }: Context) {
+  const { token } = await params;
+  const access = await authorizeShare(token, { roles: ["editor"] });
+  if (access.response) return access.response;
+
+  const body = await request.json().catch(() => null);
+  const input = parseMentionInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid mention" }, { status: 400 });
+  }
+
+  const notification =
+    input.userId === input.actor.id
+      ? null
+      : await createMentionNotification(access.document, input, {
+          shareToken: token,
+        });
+  if (!notification) return NextResponse.json({ notification: null });
+
+  return NextResponse.json({ notification }, { status: 201 });
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { authorizeShare } from "@/lib/shares/access";
+import { documentToPdf } from "@/lib/pdf/render";
+import { parsePdfExportInput } from "@/lib/pdf/validate";
+
+type Context = { params: Promise<{ token: string }> };
+
+// POST { title, content, options } → application/pdf (보기 권한이면 충분)
+export async function POST(request: Request, { params }: Context) {
+  const { token } = await params;
+  const access = await authorizeShare(token);
+  if (access.response) return access.response;
+
+  const body = await request.json().catch(() => null);
+  const input = parsePdfExportInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid PDF export" }, { status: 400 });
+  }
+
+  const pdf = await documentToPdf(input.content, {
+    title: input.title,
+    options: input.options,
+    baseUrl: new URL(request.url).origin,
+  });
+  return new Response(new Uint8Array(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Length": String(pdf.length),
+      "Cache-Control": "no-store",
+    },
+  });
+}
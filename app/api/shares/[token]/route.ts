@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { getSchema } from "@tiptap/core";
+import { createEditorExtensions } from "@/components/editor/extensions";
+import { isSameIgnoringComments } from "@/lib/comments/content";
+import { saveDocument } from "@/lib/documents/store";
+import { restoreDocumentMentionIds } from "@/lib/mentions/content";
+import { parseSaveDocumentInput } from "@/lib/documents/validate";
+import {
+  authorizeShare,
+  setShareCookie,
+  toSharedContent,
+} from "@/lib/shares/access";
+import { verifySharePassword } from "@/lib/shares/store";
+import { recordAutoVersion } from "@/lib/versions/store";
+
+type Context = { params: Promise<{ token: string }> };
+
+// GET → { role, document } (비밀번호 링크는 쿠키가 있어야 함)
+export async function GET(_request: Request, { params }: Context) {
+  const { token } = await params;
+  const access = await authorizeShare(token);
+  if (access.response) return access.response;
+
+  return NextResponse.json({
+    role: access.link.role,
+    document: toSharedContent(access.document),
+  });
+}
+
+// POST { password } → 비밀번호 확인 후 쿠키를 남기고 GET과 같은 응답
+export async function POST(request: Request, { params }: Context) {
+  const { token } = await params;
+  const access = await authorizeShare(token, { skipPassword: true });
+  if (access.response) return access.response;
+
+  const body = await request.json().catch(() => null);
+  const password = (body as { password?: unknown } | null)?.password;
+  if (
+    typeof password !== "string" ||
+    !(await verifySharePassword(access.link, password))
+  ) {
+    return NextResponse.json({ error: "Wrong password" }, { status: 403 });
+  }
+
+  return setShareCookie(
+    NextResponse.json({
+      role: access.link.role,
+      document: toSharedContent(access.document),
+    }),
+    access.link
+  );
+}
+
+// PUT { title?, content? } → 편집 권한 링크에서 저장.
+// 댓글 권한 링크는 댓글 마크를 달고 떼는 변경만 저장할 수 있다
+export async function PUT(request: Request, { params }: Context) {
+  const { token } = await params;
+  const access = await authorizeShare(token, {
+    roles: ["commenter", "editor"],
+  });
+  if (access.response) return access.response;
+
+  const body = await request.json().catch(() => null);
+  const input = parseSaveDocumentInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid document" }, { status: 400 });
+  }
+  // 응답에서 뺐던 문서 멘션의 id를 저장된 문서에서 되돌린다
+  if (input.content !== undefined) {
+    input.content = restoreDocumentMentionIds(
+      input.content,
+      access.document.content
+    );
+  }
+
+  if (
+    access.link.role === "commenter" &&
+    ((input.title !== undefined && input.title !== access.document.title) ||
+      (input.content !== undefined &&
+        !isSameIgnoringComments(
+          getSchema(createEditorExtensions()),
+          input.content,
+          access.document.content
+        )))
+  ) {
+    return NextResponse.json(
+      { error: "Not allowed for this share link" },
+      { status: 403 }
+    );
+  }
+
+  const doc = await saveDocument(access.document.id, input);
+  if (doc) await recordAutoVersion(doc);
+  return NextResponse.json({ document: doc && toSharedContent(doc) });
+}
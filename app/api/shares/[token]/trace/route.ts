@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { authorizeShare } from "@/lib/shares/access";
+import { appendTraceEvents } from "@/lib/trace/store";
+import { parseTraceEvents } from "@/lib/trace/validate";
+
+type Context = { params: Promise<{ token: string }> };
+
+// POST { events } → 편집 권한 링크로 쓴 내용도 같은 작성 기록에 붙인다
+export async function POST(request: Request, { params }: Context) {
+  const { token } = await params;
+  const access = await authorizeShare(token, { roles: ["editor"] });
+  if (access.response) return access.response;
+
+  const body = await request.json().catch(() => null);
+  const events = parseTraceEvents(body);
+  if (!events) {
+    return NextResponse.json({ error: "Invalid trace events" }, { status: 400 });
+  }
+
+  await appendTraceEvents(access.document.id, events);
+  return NextResponse.json({ appended: events.length });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import {
+  listNotifications,
+  markNotificationsRead,
+} from "@/lib/notifications/store";
+import { parseMarkReadInput } from "@/lib/notifications/validate";
+import { isValidUserId } from "@/lib/users/validate";
+
+type Context = { params: Promise<{ id: string }> };
+
+function invalidUser() {
+  return NextResponse.json({ error: "Invalid user id" }, { status: 400 });
+}
+
+// GET → { notifications } (최신순)
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidUserId(id)) return invalidUser();
+
+  return NextResponse.json({ notifications: await listNotifications(id) });
+}
+
+// PATCH { ids? } → 읽음으로 (ids가 없으면 모두)
+export async function PATCH(request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidUserId(id)) return invalidUser();
+
+  const body = await request.json().catch(() => null);
+  const input = parseMarkReadInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    notifications: await markNotificationsRead(id, input.ids),
+  });
+}
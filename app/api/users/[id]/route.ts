@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { registerUser } from "@/lib/users/store";
+import { isValidUserId, parseRegisterUserInput } from "@/lib/users/validate";
+
+type Context = { params: Promise<{ id: string }> };
+
+// PUT { name, color } → { user }. 편집기를 열 때마다 이름/색과 마지막 접속 시각을 갱신
+export async function PUT(request: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isValidUserId(id)) {
+    return NextResponse.json({ error: "Invalid user id" }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const input = parseRegisterUserInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid user" }, { status: 400 });
+  }
+
+  return NextResponse.json({ user: await registerUser(id, input) });
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { listUsers } from "@/lib/users/store";
+
+// GET /api/users → { users } (멘션할 사람 고르기, 최근에 본 순서)
+export async function GET() {
+  return NextResponse.json({ users: await listUsers() });
+}
@@ -0,0 +1,10 @@
+import AnalyticsView from "@/components/AnalyticsView";
+
+export default async function AnalyticsPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  return <AnalyticsView documentId={id} />;
+}
@@ -0,0 +1,10 @@
+import ReplayView from "@/components/ReplayView";
+
+export default async function ReplayPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  return <ReplayView documentId={id} />;
+}
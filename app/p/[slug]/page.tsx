@@ -0,0 +1,77 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import PageBackground from "@/components/PageBackground";
+import PublishedContent from "@/components/PublishedContent";
+import { getFirstParagraphText } from "@/lib/documents/text";
+import { readLivePublication } from "@/lib/publish/store";
+
+const DESCRIPTION_LENGTH = 160;
+
+type Props = { params: Promise<{ slug: string }> };
+
+function summarize(text: string) {
+  const oneLine = text.replace(/\s+/g, " ").trim();
+  return oneLine.length > DESCRIPTION_LENGTH
+    ? `${oneLine.slice(0, DESCRIPTION_LENGTH - 1)}…`
+    : oneLine;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params;
+  const publication = await readLivePublication(slug);
+  if (!publication) return { title: "Writetracer" };
+
+  const description = summarize(getFirstParagraphText(publication.content));
+  return {
+    title: publication.title,
+    description: description || undefined,
+    openGraph: {
+      type: "article",
+      title: publication.title,
+      description: description || undefined,
+      siteName: "Writetracer",
+      publishedTime: publication.firstPublishedAt,
+      modifiedTime: publication.publishedAt,
+    },
+    twitter: {
+      card: "summary",
+      title: publication.title,
+      description: description || undefined,
+    },
+  };
+}
+
+export default async function PublishedPage({ params }: Props) {
+  const { slug } = await params;
+  const publication = await readLivePublication(slug);
+  if (!publication) notFound();
+
+  return (
+    <div className="min-h-screen bg-[#fbfbfd] text-slate-900">
+      <PageBackground />
+
+      <main className="relative mx-auto max-w-[860px] px-6 py-16">
+        <article className="rounded-[28px] border border-black/6 bg-white/80 backdrop-blur shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_30px_90px_-70px_rgba(0,0,0,0.55)]">
+          <header className="px-6 md:px-12 pt-12">
+            <h1 className="text-[32px] font-bold tracking-tight text-slate-900">
+              {publication.title}
+            </h1>
+            <p className="mt-2 text-[12px] text-slate-500">
+              {new Date(publication.publishedAt).toLocaleDateString("ko-KR", {
+                year: "numeric",
+                month: "long",
+                day: "numeric",
+              })}
+              에 게시됨
+            </p>
+          </header>
+          <PublishedContent content={publication.content} />
+        </article>
+
+        <footer className="mt-6 text-center text-[11px] text-slate-400">
+          Writetracer로 작성한 글
+        </footer>
+      </main>
+    </div>
+  );
+}
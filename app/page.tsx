@@ -1,58 +1,96 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
-import DocEditor from "@/components/DocEditor";
-import SuggestionsPanel from "@/components/SuggestionsPanel";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Copy, FileText, Plus, RotateCcw, Trash2 } from "lucide-react";
+import NotificationBell from "@/components/NotificationBell";
+import PageBackground from "@/components/PageBackground";
+import {
+  createDocument,
+  duplicateDocument,
+  fetchDocuments,
+  restoreDocument,
+  trashDocument,
+} from "@/lib/documents/client";
+import { formatStats } from "@/lib/documents/text";
+import type { DocumentSummary } from "@/lib/documents/types";
 
 function cx(...classes: Array<string | false | undefined | null>) {
   return classes.filter(Boolean).join(" ");
 }
 
+function formatEditedAt(iso: string) {
+  const diff = Date.now() - new Date(iso).getTime();
+  const minutes = Math.floor(diff / 60_000);
+  if (minutes < 1) return "방금 전";
+  if (minutes < 60) return `${minutes}분 전`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}시간 전`;
+  return new Date(iso).toLocaleDateString();
+}
+
+type View = "documents" | "trash";
+
 export default function Home() {
-  const [documentTitle, setDocumentTitle] = useState("Untitled document");
-  const [saveStatus, setSaveStatus] = useState<"Saved" | "Editing">("Saved");
-  const [contentLength, setContentLength] = useState(0);
-  const [paragraphCount, setParagraphCount] = useState(0);
-
-  // ✅ setTimeout 중첩 방지(타이핑 빠를 때 상태 튐 방지)
-  const saveTimerRef = useRef<number | null>(null);
-
-  const handleContentChange = (content: string) => {
-    setContentLength(content.length);
-
-    const paragraphs = content
-      .split("\n")
-      .filter((line) => line.trim().length > 0);
-    setParagraphCount(paragraphs.length);
-
-    if (content.length > 0) {
-      setSaveStatus("Editing");
-      if (saveTimerRef.current) window.clearTimeout(saveTimerRef.current);
-      saveTimerRef.current = window.setTimeout(() => {
-        setSaveStatus("Saved");
-      }, 900);
+  const router = useRouter();
+  const [view, setView] = useState<View>("documents");
+  const [documents, setDocuments] = useState<DocumentSummary[] | null>(null);
+  const [error, setError] = useState(false);
+
+  const load = useCallback(async (target: View) => {
+    try {
+      const docs = await fetchDocuments({ trashed: target === "trash" });
+      setDocuments(docs);
+      setError(false);
+    } catch {
+      setError(true);
     }
-  };
+  }, []);
 
   useEffect(() => {
+    let cancelled = false;
+    fetchDocuments({ trashed: view === "trash" })
+      .then((docs) => {
+        if (!cancelled) setDocuments(docs);
+      })
+      .catch(() => {
+        if (!cancelled) setError(true);
+      });
     return () => {
-      if (saveTimerRef.current) window.clearTimeout(saveTimerRef.current);
+      cancelled = true;
     };
-  }, []);
+  }, [view]);
+
+  const handleCreate = async () => {
+    const doc = await createDocument();
+    router.push(`/doc/${doc.id}`);
+  };
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateDocument(id);
+    await load(view);
+  };
 
-  const subtitle = useMemo(() => {
-    const c = contentLength.toLocaleString();
-    return `${c} chars · ${paragraphCount} paras`;
-  }, [contentLength, paragraphCount]);
+  const handleTrash = async (id: string) => {
+    await trashDocument(id);
+    await load(view);
+  };
+
+  const handleRestore = async (id: string) => {
+    await restoreDocument(id);
+    await load(view);
+  };
+
+  const switchView = (next: View) => {
+    if (next === view) return;
+    setDocuments(null);
+    setView(next);
+  };
 
   return (
     <div className="min-h-screen bg-[#fbfbfd] text-slate-900">
-      {/* subtle background (landing page style) */}
-      <div className="pointer-events-none fixed inset-0">
-        <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_top,rgba(59,130,246,0.10),transparent_55%)]" />
-        <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_bottom,rgba(0,0,0,0.05),transparent_55%)]" />
-        <div className="absolute inset-0 bg-[linear-gradient(to_bottom,rgba(255,255,255,0.85),rgba(255,255,255,0.9))]" />
-      </div>
+      <PageBackground />
 
       {/* Header */}
       <header
@@ -62,110 +100,126 @@ export default function Home() {
           "bg-white/70 backdrop-blur-xl"
         )}
       >
-        <div className="mx-auto max-w-[1720px] px-6 lg:px-10 h-16 flex items-center gap-4">
-          {/* Brand */}
-          <div className="shrink-0 flex items-center gap-2">
-            <span className="text-[15px] font-semibold tracking-tight">
-              Writetracer
-            </span>
-          </div>
-
-          {/* Title + meta */}
-          <div className="min-w-0 flex-1 flex items-center justify-center">
-            <div className="w-full max-w-3xl">
-              <div className="flex items-center justify-center gap-3">
-                <input
-                  type="text"
-                  value={documentTitle}
-                  onChange={(e) => setDocumentTitle(e.target.value)}
-                  className={cx(
-                    "w-full max-w-[520px] text-center",
-                    "bg-transparent outline-none",
-                    "text-[15px] font-semibold text-slate-900",
-                    "placeholder:text-slate-400",
-                    "rounded-lg",
-                    "focus:ring-2 focus:ring-blue-500/20"
-                  )}
-                  placeholder="Untitled document"
-                />
-              </div>
-
-              <div className="mt-1 flex items-center justify-center gap-2 text-[11px] text-slate-500">
-                <span className="inline-flex items-center gap-1 rounded-full bg-black/3 px-2 py-0.5 ring-1 ring-black/6">
-                  <span
-                    className={cx(
-                      "h-1.5 w-1.5 rounded-full",
-                      saveStatus === "Saved"
-                        ? "bg-emerald-500/70"
-                        : "bg-amber-500/70 animate-pulse"
-                    )}
-                  />
-                  {saveStatus}
-                </span>
-                <span className="opacity-60">·</span>
-                <span>{subtitle}</span>
-              </div>
-            </div>
-          </div>
-
-          {/* Right actions (placeholder) */}
-          <div className="shrink-0 hidden md:flex items-center gap-2">
-            <button
-              type="button"
-              className="h-9 rounded-xl px-3 text-[13px] font-medium bg-black/3 hover:bg-black/5 ring-1 ring-black/6 transition"
-            >
-              Share
-            </button>
-            <button
-              type="button"
-              className="h-9 rounded-xl px-3 text-[13px] font-medium bg-blue-600/90 hover:bg-blue-600 text-white ring-1 ring-blue-600/30 transition"
-            >
-              Publish
-            </button>
-          </div>
+        <div className="mx-auto max-w-[1100px] px-6 lg:px-10 h-16 flex items-center gap-4">
+          <span className="text-[15px] font-semibold tracking-tight">
+            Writetracer
+          </span>
+          <div className="flex-1" />
+          <NotificationBell />
+          <button
+            type="button"
+            onClick={handleCreate}
+            className="h-9 inline-flex items-center gap-1.5 rounded-xl px-3 text-[13px] font-medium bg-blue-600/90 hover:bg-blue-600 text-white ring-1 ring-blue-600/30 transition"
+          >
+            <Plus className="h-4 w-4" />새 문서
+          </button>
         </div>
       </header>
 
       {/* Main */}
       <main className="relative pt-16">
-        <div className="mx-auto max-w-[1720px] px-6 lg:px-10 py-10">
-          {/* Responsive layout:
-              - xl: 2 columns (editor + panel)
-              - smaller: panel collapses under editor
-          */}
-          <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,1fr)_380px] gap-8">
-            {/* Editor column */}
-            <section className="min-w-0">
-              {/* Canvas shell: looks like modern doc page */}
-              <div
+        <div className="mx-auto max-w-[1100px] px-6 lg:px-10 py-10">
+          <div className="flex items-center gap-1 rounded-xl bg-white/60 ring-1 ring-black/6 p-1 w-fit">
+            {(
+              [
+                ["documents", "문서"],
+                ["trash", "휴지통"],
+              ] as const
+            ).map(([key, label]) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => switchView(key)}
                 className={cx(
-                  "rounded-[28px]",
-                  "border border-black/6",
-                  "bg-white/80 backdrop-blur",
-                  "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_30px_90px_-70px_rgba(0,0,0,0.55)]"
+                  "rounded-lg px-3 py-1.5 text-[13px] font-medium transition",
+                  view === key
+                    ? "bg-blue-500/10 text-blue-700"
+                    : "text-slate-600 hover:bg-black/4"
                 )}
               >
-                {/* Top padding to feel like page */}
-                <div className="px-5 md:px-7 lg:px-8 py-5">
-                  <DocEditor onContentChange={handleContentChange} />
-                </div>
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div
+            className={cx(
+              "mt-6 rounded-[28px]",
+              "border border-black/6",
+              "bg-white/80 backdrop-blur",
+              "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_30px_90px_-70px_rgba(0,0,0,0.55)]",
+              "divide-y divide-black/6"
+            )}
+          >
+            {error && (
+              <div className="px-6 py-10 text-center text-[13px] text-slate-500">
+                문서 목록을 불러오지 못했습니다.
+              </div>
+            )}
+
+            {!error && documents === null && (
+              <div className="px-6 py-10 text-center text-[13px] text-slate-500">
+                불러오는 중…
               </div>
-            </section>
-
-            {/* Suggestions panel */}
-            <aside className="min-w-0">
-              <div className="xl:sticky xl:top-24">
-                <SuggestionsPanel
-                  contentLength={contentLength}
-                  paragraphCount={paragraphCount}
-                />
+            )}
+
+            {!error && documents?.length === 0 && (
+              <div className="px-6 py-10 text-center text-[13px] text-slate-500">
+                {view === "trash"
+                  ? "휴지통이 비어 있습니다."
+                  : "아직 문서가 없습니다. 새 문서를 만들어보세요."}
               </div>
+            )}
 
-              {/* Mobile hint (optional) */}
-              <div className="mt-3 xl:hidden text-[12px] text-slate-500 text-center">
-                큰 화면에서 추천 패널이 오른쪽에 고정됩니다.
+            {documents?.map((doc) => (
+              <div
+                key={doc.id}
+                className="group flex items-center gap-4 px-6 py-4 hover:bg-black/2 transition"
+              >
+                <FileText className="h-5 w-5 shrink-0 text-slate-400" />
+                <Link href={`/doc/${doc.id}`} className="min-w-0 flex-1">
+                  <div className="truncate text-[14px] font-semibold text-slate-900">
+                    {doc.title || "Untitled document"}
+                  </div>
+                  <div className="mt-0.5 text-[12px] text-slate-500">
+                    {formatEditedAt(doc.updatedAt)} 수정 ·{" "}
+                    {formatStats(doc)}
+                  </div>
+                </Link>
+
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition">
+                  {view === "documents" ? (
+                    <>
+                      <button
+                        type="button"
+                        title="복제"
+                        onClick={() => handleDuplicate(doc.id)}
+                        className="rounded-lg p-2 hover:bg-black/4"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        title="휴지통으로 이동"
+                        onClick={() => handleTrash(doc.id)}
+                        className="rounded-lg p-2 hover:bg-red-500/10 hover:text-red-700"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      type="button"
+                      title="복원"
+                      onClick={() => handleRestore(doc.id)}
+                      className="rounded-lg p-2 hover:bg-black/4"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
               </div>
-            </aside>
+            ))}
           </div>
         </div>
       </main>
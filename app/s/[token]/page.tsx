@@ -0,0 +1,10 @@
+import SharedDocumentView from "@/components/SharedDocumentView";
+
+export default async function SharedDocumentPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  return <SharedDocumentView token={token} />;
+}
@@ -0,0 +1,348 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { getSchema } from "@tiptap/core";
+import { Download } from "lucide-react";
+import PageBackground from "@/components/PageBackground";
+import { createEditorExtensions } from "@/components/editor/extensions";
+import { fetchDocument } from "@/lib/documents/client";
+import {
+  analyticsToCsv,
+  analyzeTrace,
+  PAUSE_BUCKETS,
+  type SessionMetrics,
+} from "@/lib/trace/analytics";
+import { fetchTrace } from "@/lib/trace/client";
+import type { TraceLog } from "@/lib/trace/types";
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function formatDuration(ms: number) {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return `${Math.round(ms / 1000)}초`;
+  if (minutes < 60) return `${minutes}분`;
+  return `${Math.floor(minutes / 60)}시간 ${minutes % 60}분`;
+}
+
+function downloadCsv(csv: string, filename: string) {
+  // 엑셀에서 한글이 깨지지 않도록 BOM 추가
+  const blob = new Blob(["﻿", csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function Card({ children }: { children: React.ReactNode }) {
+  return (
+    <section
+      className={cx(
+        "rounded-2xl border border-black/6",
+        "bg-white/70 backdrop-blur-xl",
+        "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_60px_-55px_rgba(0,0,0,0.45)]",
+        "p-4"
+      )}
+    >
+      {children}
+    </section>
+  );
+}
+
+function CardTitle({ children }: { children: React.ReactNode }) {
+  return (
+    <h2 className="text-[13px] font-semibold text-slate-900 tracking-tight">
+      {children}
+    </h2>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-xl bg-white/60 ring-1 ring-black/6 p-3">
+      <div className="text-[11px] text-slate-500">{label}</div>
+      <div className="mt-1 text-[18px] font-semibold text-slate-900 tabular-nums">
+        {value}
+      </div>
+    </div>
+  );
+}
+
+function BarList({
+  items,
+  color,
+}: {
+  items: Array<{ label: string; value: number; display?: string }>;
+  color: string;
+}) {
+  const max = Math.max(1, ...items.map((i) => i.value));
+  return (
+    <ul className="space-y-1.5">
+      {items.map((item, i) => (
+        <li key={i} className="flex items-center gap-3 text-[12px]">
+          <span className="w-28 shrink-0 truncate text-slate-600">
+            {item.label}
+          </span>
+          <span className="h-2 flex-1 overflow-hidden rounded-full bg-black/5">
+            <span
+              className={cx("block h-full rounded-full", color)}
+              style={{ width: `${(item.value / max) * 100}%` }}
+            />
+          </span>
+          <span className="w-14 shrink-0 text-right tabular-nums text-slate-700">
+            {item.display ?? item.value}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function MetricsDetail({ metrics }: { metrics: SessionMetrics }) {
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <Card>
+        <CardTitle>멈춤 길이 분포</CardTitle>
+        <div className="mt-3">
+          <BarList
+            color="bg-amber-500/70"
+            items={PAUSE_BUCKETS.map((bucket, i) => ({
+              label: bucket.label,
+              value: metrics.pauseHistogram[i],
+            }))}
+          />
+        </div>
+      </Card>
+
+      <Card>
+        <CardTitle>타이핑 버스트 속도 (WPM)</CardTitle>
+        {metrics.bursts.length === 0 ? (
+          <p className="mt-3 text-[12px] text-slate-500">
+            1초 이상 이어서 입력한 구간이 없습니다.
+          </p>
+        ) : (
+          <div className="mt-3 flex h-28 items-end gap-0.5">
+            {metrics.bursts.map((burst, i) => (
+              <span
+                key={i}
+                title={`${new Date(burst.startedAt).toLocaleTimeString()} · ${burst.wpm.toFixed(0)} WPM`}
+                className="flex-1 min-w-[2px] rounded-t bg-blue-500/70"
+                style={{
+                  height: `${(burst.wpm / Math.max(1, metrics.maxBurstWpm)) * 100}%`,
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+interface AnalyticsViewProps {
+  documentId: string;
+}
+
+export default function AnalyticsView({ documentId }: AnalyticsViewProps) {
+  const [title, setTitle] = useState("");
+  const [trace, setTrace] = useState<TraceLog | null | undefined>(undefined);
+  const [loadError, setLoadError] = useState(false);
+  // -1: 문서 전체, 0..n: 세션
+  const [scope, setScope] = useState(-1);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([fetchDocument(documentId), fetchTrace(documentId)])
+      .then(([doc, log]) => {
+        if (cancelled) return;
+        setTitle(doc.title);
+        setTrace(log);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  const analytics = useMemo(() => {
+    if (!trace) return null;
+    const schema = getSchema(createEditorExtensions());
+    return analyzeTrace(trace.events, schema);
+  }, [trace]);
+
+  const selected =
+    analytics && scope >= 0 ? analytics.sessions[scope] : analytics?.total;
+
+  const handleExport = () => {
+    if (!analytics) return;
+    downloadCsv(
+      analyticsToCsv(analytics, title),
+      `${title || "document"}-analytics.csv`
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-[#fbfbfd] text-slate-900">
+      <PageBackground />
+
+      {/* Header */}
+      <header
+        className={cx(
+          "fixed top-0 left-0 right-0 z-50",
+          "border-b border-black/6",
+          "bg-white/70 backdrop-blur-xl"
+        )}
+      >
+        <div className="mx-auto max-w-[1100px] px-6 lg:px-10 h-16 flex items-center gap-4">
+          <Link
+            href="/"
+            className="text-[15px] font-semibold tracking-tight hover:text-blue-700 transition"
+          >
+            Writetracer
+          </Link>
+          <div className="min-w-0 flex-1 text-center">
+            <div className="truncate text-[15px] font-semibold">
+              {title || "Untitled document"}
+            </div>
+            <div className="text-[11px] text-slate-500">작성 분석</div>
+          </div>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={!analytics}
+            className="h-9 inline-flex items-center gap-1.5 rounded-xl px-3 text-[13px] font-medium hover:bg-black/4 disabled:opacity-40 transition"
+          >
+            <Download className="h-4 w-4" />
+            CSV
+          </button>
+          <Link
+            href={`/doc/${documentId}`}
+            className="h-9 inline-flex items-center rounded-xl px-3 text-[13px] font-medium bg-black/3 hover:bg-black/5 ring-1 ring-black/6 transition"
+          >
+            편집기로
+          </Link>
+        </div>
+      </header>
+
+      <main className="relative pt-16">
+        <div className="mx-auto max-w-[1100px] px-6 lg:px-10 py-10 space-y-4">
+          {loadError && (
+            <Card>
+              <p className="text-[13px] text-slate-500">
+                기록을 불러오지 못했습니다.
+              </p>
+            </Card>
+          )}
+
+          {trace === null ||
+          (analytics && analytics.sessions.length === 0) ? (
+            <Card>
+              <p className="text-[13px] text-slate-500">
+                아직 기록된 작성 과정이 없습니다.
+              </p>
+            </Card>
+          ) : null}
+
+          {analytics && selected && analytics.sessions.length > 0 && (
+            <>
+              {/* Scope */}
+              <div className="flex flex-wrap items-center gap-1 rounded-xl bg-white/60 ring-1 ring-black/6 p-1 w-fit">
+                {[-1, ...analytics.sessions.map((_, i) => i)].map((i) => (
+                  <button
+                    key={i}
+                    type="button"
+                    onClick={() => setScope(i)}
+                    className={cx(
+                      "rounded-lg px-3 py-1.5 text-[12px] font-medium transition",
+                      scope === i
+                        ? "bg-blue-500/10 text-blue-700"
+                        : "text-slate-600 hover:bg-black/4"
+                    )}
+                  >
+                    {i < 0 ? "문서 전체" : `세션 ${i + 1}`}
+                  </button>
+                ))}
+              </div>
+
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <Stat label="쓰는 시간" value={formatDuration(selected.activeMs)} />
+                <Stat label="쉬는 시간" value={formatDuration(selected.idleMs)} />
+                <Stat
+                  label="버스트 평균 WPM"
+                  value={selected.avgBurstWpm.toFixed(0)}
+                />
+                <Stat
+                  label="삭제/입력 비율"
+                  value={selected.deletionRatio.toFixed(2)}
+                />
+                <Stat
+                  label="붙여넣기"
+                  value={`${selected.pasteCount}회 · ${selected.pastedChars.toLocaleString()}자`}
+                />
+              </div>
+
+              <MetricsDetail metrics={selected} />
+
+              {/* Per session */}
+              <Card>
+                <CardTitle>세션별 쓰는 시간 / 쉬는 시간</CardTitle>
+                <ul className="mt-3 space-y-2">
+                  {analytics.sessions.map((s, i) => {
+                    const span = Math.max(1, s.activeMs + s.idleMs);
+                    return (
+                      <li key={i} className="flex items-center gap-3 text-[12px]">
+                        <span className="w-40 shrink-0 truncate text-slate-600">
+                          세션 {i + 1} · {new Date(s.startedAt).toLocaleDateString()}
+                        </span>
+                        <span className="flex h-2 flex-1 overflow-hidden rounded-full bg-black/5">
+                          <span
+                            className="h-full bg-emerald-500/70"
+                            style={{ width: `${(s.activeMs / span) * 100}%` }}
+                          />
+                          <span
+                            className="h-full bg-slate-400/50"
+                            style={{ width: `${(s.idleMs / span) * 100}%` }}
+                          />
+                        </span>
+                        <span className="w-28 shrink-0 text-right tabular-nums text-slate-700">
+                          {formatDuration(s.activeMs)} / {formatDuration(s.idleMs)}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </Card>
+
+              {/* Paragraph revisions */}
+              <Card>
+                <CardTitle>문단별 수정 횟수</CardTitle>
+                <div className="mt-3">
+                  {analytics.paragraphs.length === 0 ? (
+                    <p className="text-[12px] text-slate-500">문단이 없습니다.</p>
+                  ) : (
+                    <BarList
+                      color="bg-red-500/60"
+                      items={analytics.paragraphs.map((p) => ({
+                        label: p.preview,
+                        value: p.revisions,
+                      }))}
+                    />
+                  )}
+                </div>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
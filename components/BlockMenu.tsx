@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { createPortal } from "react-dom";
+import type { Editor } from "@tiptap/react";
+import type { Transaction } from "@tiptap/pm/state";
+import {
+  ArrowDown,
+  ArrowUp,
+  Check,
+  Copy,
+  Link as LinkIcon,
+  Trash2,
+  type LucideIcon,
+} from "lucide-react";
+import type { BlockMenuRequest } from "@/components/editor/BlockHandle";
+import { blockHash, ensureBlockId } from "@/components/editor/BlockIds";
+import {
+  canTurnInto,
+  deleteBlock,
+  duplicateBlock,
+  moveBlock,
+  topLevelBlockAt,
+  turnBlockInto,
+  TURN_INTO_OPTIONS,
+} from "@/components/editor/blocks";
+import { useCaretPopover } from "@/hooks/useCaretPopover";
+
+interface BlockMenuProps {
+  editor: Editor;
+  request: BlockMenuRequest;
+  onClose: () => void;
+}
+
+interface BlockAction {
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  shortcut?: string;
+  danger?: boolean;
+  run: (pos: number) => void;
+}
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+/** 블록 핸들을 눌렀을 때의 메뉴: 다른 블록으로 바꾸기, 복제, 이동, 링크 복사, 삭제 */
+export default function BlockMenu({ editor, request, onClose }: BlockMenuProps) {
+  // 메뉴가 열려 있는 동안 다른 사람이 고쳐도 같은 블록을 가리키게
+  const posRef = useRef(request.pos);
+  const block = topLevelBlockAt(editor.state.doc, request.pos);
+  const turnable = !!block && canTurnInto(block.node);
+  const menuRef = useCaretPopover<HTMLDivElement>(
+    request.clientRect,
+    turnable ? TURN_INTO_OPTIONS.length : 0
+  );
+
+  useEffect(() => {
+    const handleTransaction = ({ transaction }: { transaction: Transaction }) => {
+      posRef.current = transaction.mapping.map(posRef.current);
+    };
+    editor.on("transaction", handleTransaction);
+    return () => {
+      editor.off("transaction", handleTransaction);
+    };
+  }, [editor]);
+
+  // 바깥을 누르거나 Escape로 닫는다
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("mousedown", handleMouseDown);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("mousedown", handleMouseDown);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [menuRef, onClose]);
+
+  const dispatch = (tr: Transaction | null) => {
+    if (tr) editor.view.dispatch(tr);
+    editor.commands.focus();
+  };
+
+  const copyLink = async (pos: number) => {
+    const ensured = ensureBlockId(editor.state, pos);
+    if (!ensured) return;
+    if (ensured.tr) editor.view.dispatch(ensured.tr);
+    const url = `${window.location.origin}${window.location.pathname}${blockHash(ensured.blockId)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      window.prompt("링크를 복사하세요", url);
+    }
+  };
+
+  const actions: BlockAction[] = [
+    {
+      id: "duplicate",
+      label: "복제",
+      icon: Copy,
+      run: (pos) => dispatch(duplicateBlock(editor.state, pos)),
+    },
+    {
+      id: "moveUp",
+      label: "위로 옮기기",
+      icon: ArrowUp,
+      shortcut: "Alt+Shift+↑",
+      run: (pos) => dispatch(moveBlock(editor.state, pos, -1)),
+    },
+    {
+      id: "moveDown",
+      label: "아래로 옮기기",
+      icon: ArrowDown,
+      shortcut: "Alt+Shift+↓",
+      run: (pos) => dispatch(moveBlock(editor.state, pos, 1)),
+    },
+    {
+      id: "copyLink",
+      label: "블록 링크 복사",
+      icon: LinkIcon,
+      run: (pos) => {
+        copyLink(pos);
+      },
+    },
+    {
+      id: "delete",
+      label: "삭제",
+      icon: Trash2,
+      danger: true,
+      run: (pos) => dispatch(deleteBlock(editor.state, pos)),
+    },
+  ];
+
+  if (!block) return null;
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      role="menu"
+      aria-label="블록 메뉴"
+      className={cx(
+        "fixed z-[60] w-56",
+        "rounded-xl border border-black/6",
+        "bg-white/95 backdrop-blur-xl",
+        "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_50px_-30px_rgba(0,0,0,0.45)]",
+        "p-1.5"
+      )}
+      style={{ top: -9999, left: -9999 }}
+    >
+      {turnable && (
+        <>
+          <div className="px-2.5 pt-1 pb-1 text-[11px] font-medium text-slate-500">
+            바꾸기
+          </div>
+          {TURN_INTO_OPTIONS.map((option) => {
+            const Icon = option.icon;
+            const active = option.isActive(block.node);
+            return (
+              <button
+                key={option.id}
+                type="button"
+                role="menuitem"
+                onClick={() => {
+                  turnBlockInto(editor, posRef.current, option);
+                  onClose();
+                }}
+                className="w-full flex items-center gap-2.5 rounded-lg px-2.5 py-1.5 text-left text-[13px] text-slate-800 hover:bg-black/4 transition"
+              >
+                <Icon className="h-4 w-4 shrink-0 text-slate-500" />
+                <span className="flex-1">{option.label}</span>
+                {active && <Check className="h-3.5 w-3.5 text-blue-600" />}
+              </button>
+            );
+          })}
+          <div className="my-1 h-px bg-black/6" />
+        </>
+      )}
+      {actions.map((action) => {
+        const Icon = action.icon;
+        return (
+          <button
+            key={action.id}
+            type="button"
+            role="menuitem"
+            onClick={() => {
+              action.run(posRef.current);
+              onClose();
+            }}
+            className={cx(
+              "w-full flex items-center gap-2.5 rounded-lg px-2.5 py-1.5 text-left text-[13px] transition",
+              action.danger
+                ? "text-red-600 hover:bg-red-500/8"
+                : "text-slate-800 hover:bg-black/4"
+            )}
+          >
+            <Icon
+              className={cx(
+                "h-4 w-4 shrink-0",
+                action.danger ? "text-red-500" : "text-slate-500"
+              )}
+            />
+            <span className="flex-1">{action.label}</span>
+            {action.shortcut && (
+              <span className="text-[11px] text-slate-400">
+                {action.shortcut}
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>,
+    document.body
+  );
+}
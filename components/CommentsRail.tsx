@@ -0,0 +1,483 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useEditorState, type Editor } from "@tiptap/react";
+import {
+  addCommentMark,
+  findCommentAnchors,
+  getActiveThreadId,
+  removeCommentMark,
+  setActiveThread,
+  setResolvedThreads,
+  type CommentAnchor,
+} from "@/components/editor/CommentMark";
+import { useCommentThreads } from "@/hooks/useCommentThreads";
+import { getLocalIdentity } from "@/lib/collab/presence";
+import {
+  createThread,
+  replyToThread,
+  setThreadResolved,
+  type CommentTarget,
+} from "@/lib/comments/client";
+import type { CommentThread } from "@/lib/comments/types";
+
+interface CommentsRailProps {
+  editor: Editor | null;
+  /** 공유 링크로 연 경우 { shareToken } (문서 id는 모른다) */
+  target: CommentTarget;
+  /** 보기 전용 링크면 false (목록만 보인다) */
+  canComment: boolean;
+}
+
+/** 새 댓글을 쓰는 중인 스레드 (마크는 이미 본문에 걸려 있다) */
+interface Draft {
+  threadId: string;
+  quote: string;
+}
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString("ko-KR", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// 에디터 선택이 비어 있으면 (읽기 전용 편집기) 브라우저 선택을 위치로 바꾼다
+function readSelection(editor: Editor) {
+  const { from, to } = editor.state.selection;
+  if (from !== to) return { from, to };
+
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+    return null;
+  }
+  const range = selection.getRangeAt(0);
+  const root = editor.view.dom;
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) {
+    return null;
+  }
+  try {
+    const start = editor.view.posAtDOM(range.startContainer, range.startOffset);
+    const end = editor.view.posAtDOM(range.endContainer, range.endOffset);
+    return start < end ? { from: start, to: end } : null;
+  } catch {
+    return null;
+  }
+}
+
+function MessageList({ thread }: { thread: CommentThread }) {
+  return (
+    <ul className="mt-2 space-y-2">
+      {thread.messages.map((message) => (
+        <li key={message.id}>
+          <div className="flex items-center gap-1.5 text-[11px] text-slate-500">
+            <span
+              className="h-1.5 w-1.5 rounded-full"
+              style={{ backgroundColor: message.author.color }}
+            />
+            <span className="font-medium text-slate-700">
+              {message.author.name}
+            </span>
+            <span>{formatTime(message.createdAt)}</span>
+          </div>
+          <p className="mt-0.5 whitespace-pre-wrap break-words text-[12px] leading-relaxed text-slate-800">
+            {message.body}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function CommentBox({
+  placeholder,
+  submitLabel,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState("");
+  const [sending, setSending] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const submit = async () => {
+    const trimmed = body.trim();
+    if (!trimmed || sending) return;
+    setSending(true);
+    setFailed(false);
+    try {
+      await onSubmit(trimmed);
+      setBody("");
+    } catch {
+      setFailed(true);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            submit();
+          } else if (e.key === "Escape") {
+            onCancel?.();
+          }
+        }}
+        rows={2}
+        autoFocus={autoFocus}
+        placeholder={placeholder}
+        className={cx(
+          "w-full resize-none rounded-lg px-2.5 py-2",
+          "bg-white ring-1 ring-black/8 outline-none",
+          "text-[12px] text-slate-800 placeholder:text-slate-400",
+          "focus:ring-2 focus:ring-blue-500/25"
+        )}
+      />
+      {failed && (
+        <p className="mt-1 text-[11px] text-red-600">
+          저장하지 못했습니다. 다시 시도해 주세요.
+        </p>
+      )}
+      <div className="mt-1.5 flex justify-end gap-1.5">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="h-7 rounded-lg px-2.5 text-[12px] text-slate-600 hover:bg-black/4 transition"
+          >
+            취소
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={submit}
+          disabled={!body.trim() || sending}
+          className="h-7 rounded-lg px-2.5 text-[12px] font-medium bg-blue-600/90 text-white hover:bg-blue-600 disabled:opacity-40 transition"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ThreadCard({
+  thread,
+  anchor,
+  active,
+  canComment,
+  onSelect,
+  onReply,
+  onToggleResolved,
+}: {
+  thread: CommentThread;
+  anchor: CommentAnchor | undefined;
+  active: boolean;
+  canComment: boolean;
+  onSelect: () => void;
+  onReply: (body: string) => Promise<void>;
+  onToggleResolved: () => void;
+}) {
+  const resolved = !!thread.resolvedAt;
+
+  return (
+    <div
+      onClick={onSelect}
+      className={cx(
+        "cursor-pointer rounded-xl p-3",
+        "ring-1 ring-black/6 bg-white/60",
+        "transition duration-150 hover:bg-white hover:ring-black/10",
+        active && "ring-2 ring-amber-500/30 bg-amber-500/5",
+        resolved && !active && "opacity-70"
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <blockquote className="min-w-0 border-l-2 border-amber-400/70 pl-2 text-[12px] italic text-slate-600 line-clamp-2">
+          {anchor?.text || thread.quote}
+        </blockquote>
+        {canComment && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleResolved();
+            }}
+            className="shrink-0 h-6 rounded-md px-2 text-[11px] font-medium text-slate-600 ring-1 ring-black/8 hover:bg-black/4 transition"
+          >
+            {resolved ? "다시 열기" : "해결"}
+          </button>
+        )}
+      </div>
+
+      {(!anchor || resolved) && (
+        <div className="mt-1.5 flex flex-wrap gap-1">
+          {!anchor && (
+            <span className="rounded-full bg-slate-500/10 px-2 py-0.5 text-[10px] font-medium text-slate-600">
+              원문 삭제됨
+            </span>
+          )}
+          {resolved && (
+            <span className="rounded-full bg-emerald-500/10 px-2 py-0.5 text-[10px] font-medium text-emerald-700">
+              해결됨
+            </span>
+          )}
+        </div>
+      )}
+
+      <MessageList thread={thread} />
+
+      {active && canComment && !resolved && (
+        <CommentBox placeholder="답글 달기" submitLabel="답글" onSubmit={onReply} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * 본문 범위에 달린 댓글 스레드. 범위는 문서 안의 comment 마크로,
+ * 스레드 내용은 /api/.../comments에 따로 저장한다.
+ * 마크가 걸린 글이 지워지면 스레드는 "원문 삭제됨"으로 남는다.
+ */
+export default function CommentsRail({
+  editor,
+  target,
+  canComment,
+}: CommentsRailProps) {
+  const { threads, failed, upsert } = useCommentThreads(target);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [hint, setHint] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+
+  const editorState = useEditorState({
+    editor,
+    selector: ({ editor }) =>
+      editor
+        ? {
+            anchors: findCommentAnchors(editor.state.doc),
+            activeThreadId: getActiveThreadId(editor.state),
+          }
+        : null,
+    equalityFn: (a, b) =>
+      a?.activeThreadId === b?.activeThreadId &&
+      JSON.stringify(a && Array.from(a.anchors)) ===
+        JSON.stringify(b && Array.from(b.anchors)),
+  });
+  const anchors = editorState?.anchors;
+  const activeThreadId = editorState?.activeThreadId ?? null;
+
+  // 해결된 스레드는 본문 하이라이트를 끈다
+  useEffect(() => {
+    if (!editor || editor.isDestroyed || !threads) return;
+    const resolvedIds = threads.filter((t) => t.resolvedAt).map((t) => t.id);
+    editor.view.dispatch(setResolvedThreads(editor.state.tr, resolvedIds));
+  }, [editor, threads]);
+
+  const sorted = useMemo(() => {
+    const list = threads ?? [];
+    const anchored = list
+      .filter((t) => anchors?.has(t.id))
+      .sort((a, b) => anchors!.get(a.id)!.from - anchors!.get(b.id)!.from);
+    const orphaned = list.filter(
+      (t) => !anchors?.has(t.id) && t.id !== draft?.threadId
+    );
+    return { anchored, orphaned };
+  }, [threads, anchors, draft]);
+
+  const visible = (thread: CommentThread) =>
+    showResolved || !thread.resolvedAt || thread.id === activeThreadId;
+  const resolvedCount = (threads ?? []).filter((t) => t.resolvedAt).length;
+
+  const selectThread = (threadId: string) => {
+    if (!editor) return;
+    editor.view.dispatch(setActiveThread(editor.state.tr, threadId));
+    const anchor = anchors?.get(threadId);
+    if (!anchor) return;
+    const { node } = editor.view.domAtPos(anchor.from);
+    const element = node instanceof Element ? node : node.parentElement;
+    element?.scrollIntoView({ block: "center", behavior: "smooth" });
+  };
+
+  const startThread = () => {
+    if (!editor || draft) return;
+    const range = readSelection(editor);
+    if (!range) {
+      setHint("댓글을 달 부분을 먼저 선택하세요.");
+      return;
+    }
+    const quote = editor.state.doc.textBetween(range.from, range.to, " ").trim();
+    if (!quote) {
+      setHint("글자가 있는 부분을 선택하세요.");
+      return;
+    }
+
+    // 마크를 먼저 걸어 두면 댓글을 쓰는 동안 본문이 바뀌어도 범위가 따라간다
+    const threadId = crypto.randomUUID();
+    editor.view.dispatch(
+      setActiveThread(addCommentMark(editor.state, range, threadId), threadId)
+    );
+    setHint(null);
+    setDraft({ threadId, quote });
+  };
+
+  const cancelDraft = () => {
+    if (!draft) return;
+    if (editor && !editor.isDestroyed) {
+      editor.view.dispatch(removeCommentMark(editor.state, draft.threadId));
+    }
+    setDraft(null);
+  };
+
+  const submitDraft = async (body: string) => {
+    if (!draft) return;
+    const thread = await createThread(target, {
+      id: draft.threadId,
+      quote: draft.quote,
+      body,
+      author: getLocalIdentity(),
+    });
+    upsert(thread);
+    setDraft(null);
+  };
+
+  const reply = async (threadId: string, body: string) => {
+    upsert(await replyToThread(target, threadId, { body, author: getLocalIdentity() }));
+  };
+
+  const toggleResolved = async (thread: CommentThread) => {
+    try {
+      upsert(
+        await setThreadResolved(target, thread.id, {
+          resolved: !thread.resolvedAt,
+          author: getLocalIdentity(),
+        })
+      );
+    } catch {
+      setHint("상태를 바꾸지 못했습니다. 다시 시도해 주세요.");
+    }
+  };
+
+  const renderThread = (thread: CommentThread) => (
+    <ThreadCard
+      key={thread.id}
+      thread={thread}
+      anchor={anchors?.get(thread.id)}
+      active={thread.id === activeThreadId}
+      canComment={canComment}
+      onSelect={() => selectThread(thread.id)}
+      onReply={(body) => reply(thread.id, body)}
+      onToggleResolved={() => toggleResolved(thread)}
+    />
+  );
+
+  const anchoredVisible = sorted.anchored.filter(visible);
+  const orphanedVisible = sorted.orphaned.filter(visible);
+
+  return (
+    <aside
+      className={cx(
+        "max-h-[calc(100vh-8rem)] overflow-y-auto",
+        "rounded-2xl border border-black/6",
+        "bg-white/70 backdrop-blur-xl",
+        "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_60px_-55px_rgba(0,0,0,0.45)]",
+        "p-4"
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <span className="inline-flex items-center gap-1 rounded-full bg-black/4 px-2 py-1 text-[11px] font-medium text-slate-700 ring-1 ring-black/6">
+            <span className="inline-block h-1.5 w-1.5 rounded-full bg-amber-500/70" />
+            Comments
+          </span>
+          <h2 className="mt-2 text-[15px] font-semibold text-slate-900 tracking-tight">
+            댓글
+          </h2>
+        </div>
+        {canComment && (
+          <button
+            type="button"
+            // 버튼을 눌러도 본문 선택이 풀리지 않게
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={startThread}
+            disabled={!editor || !!draft}
+            className="shrink-0 h-8 rounded-lg px-3 text-[12px] font-medium bg-black/3 hover:bg-black/5 ring-1 ring-black/6 disabled:opacity-40 transition"
+          >
+            댓글 달기
+          </button>
+        )}
+      </div>
+
+      {hint && <p className="mt-2 text-[11px] text-slate-500">{hint}</p>}
+
+      {draft && (
+        <div className="mt-4 rounded-xl p-3 ring-2 ring-amber-500/30 bg-amber-500/5">
+          <blockquote className="border-l-2 border-amber-400/70 pl-2 text-[12px] italic text-slate-600 line-clamp-2">
+            {draft.quote}
+          </blockquote>
+          <CommentBox
+            placeholder="댓글을 입력하세요 (⌘/Ctrl + Enter)"
+            submitLabel="댓글"
+            autoFocus
+            onSubmit={submitDraft}
+            onCancel={cancelDraft}
+          />
+        </div>
+      )}
+
+      {failed && (
+        <p className="mt-3 text-[12px] text-red-600">
+          댓글을 불러오지 못했습니다.
+        </p>
+      )}
+
+      <div className="mt-4 space-y-2">
+        {threads && anchoredVisible.length === 0 && !draft && (
+          <p className="rounded-xl bg-white/60 p-3 text-center text-[12px] text-slate-500 ring-1 ring-black/6">
+            {canComment
+              ? "본문을 선택하고 댓글을 달아 보세요."
+              : "아직 댓글이 없습니다."}
+          </p>
+        )}
+        {anchoredVisible.map(renderThread)}
+      </div>
+
+      {orphanedVisible.length > 0 && (
+        <div className="mt-4">
+          <h3 className="text-[11px] font-medium text-slate-500">
+            원문이 삭제된 댓글
+          </h3>
+          <div className="mt-2 space-y-2">{orphanedVisible.map(renderThread)}</div>
+        </div>
+      )}
+
+      {resolvedCount > 0 && (
+        <label className="mt-4 flex items-center gap-2 text-[12px] text-slate-600">
+          <input
+            type="checkbox"
+            checked={showResolved}
+            onChange={(e) => setShowResolved(e.target.checked)}
+            className="accent-blue-600"
+          />
+          해결된 댓글 보기 ({resolvedCount})
+        </label>
+      )}
+    </aside>
+  );
+}
@@ -1,27 +1,60 @@
 "use client";
 
-import { useEditor, EditorContent, Editor } from "@tiptap/react";
-import StarterKit from "@tiptap/starter-kit";
-import { Node, mergeAttributes } from "@tiptap/core";
-import TextAlign from "@tiptap/extension-text-align";
-import Underline from "@tiptap/extension-underline";
-import Link from "@tiptap/extension-link";
-import Highlight from "@tiptap/extension-highlight";
-import Image from "@tiptap/extension-image";
-import Subscript from "@tiptap/extension-subscript";
-import Superscript from "@tiptap/extension-superscript";
-import TaskList from "@tiptap/extension-task-list";
-import TaskItem from "@tiptap/extension-task-item";
-import { Table } from "@tiptap/extension-table";
-import TableRow from "@tiptap/extension-table-row";
-import TableHeader from "@tiptap/extension-table-header";
-import TableCell from "@tiptap/extension-table-cell";
-import Color from "@tiptap/extension-color";
-import { TextStyle } from "@tiptap/extension-text-style";
-import YouTube from "@tiptap/extension-youtube";
-import CodeBlock from "@tiptap/extension-code-block";
+import {
+  useEditor,
+  useEditorState,
+  EditorContent,
+  Editor,
+} from "@tiptap/react";
+import type { JSONContent } from "@tiptap/core";
+import Collaboration from "@tiptap/extension-collaboration";
 import { FileHandler } from "@tiptap/extension-file-handler";
-import { useEffect, useRef } from "react";
+import type { Transaction } from "@tiptap/pm/state";
+import { yCursorPluginKey } from "@tiptap/y-tiptap";
+import { useEffect, useRef, useState } from "react";
+import { attachTraceListener, TraceRecorder } from "@/lib/trace/extension";
+import type { TraceEvent } from "@/lib/trace/types";
+import type { CollaborationSession } from "@/hooks/useCollaboration";
+import { isYjsChange } from "@/lib/collab/transactions";
+import {
+  createEditorExtensions,
+  editorContentClass,
+} from "@/components/editor/extensions";
+import { createCollaboratorCarets } from "@/components/editor/CollaboratorCarets";
+import {
+  getSuggestingAuthor,
+  setSuggesting,
+} from "@/components/editor/SuggestChanges";
+import { importFiles, uploadFiles } from "@/components/editor/uploadFiles";
+import {
+  isSlashMenuOpen,
+  SlashCommand,
+  type SlashMenuState,
+} from "@/components/editor/SlashCommand";
+import SlashMenu from "@/components/SlashMenu";
+import {
+  createMentionSuggestions,
+  isMentionMenuOpen,
+  type MentionMenuState,
+} from "@/components/editor/Mention";
+import MentionMenu, { type MentionDirectory } from "@/components/MentionMenu";
+import {
+  createBlockHandle,
+  type BlockMenuRequest,
+} from "@/components/editor/BlockHandle";
+import BlockMenu from "@/components/BlockMenu";
+import {
+  ToolbarButton,
+  ToolbarDivider,
+  ToolbarGroup,
+} from "@/components/Toolbar";
+import TableToolbar from "@/components/TableToolbar";
+import { LinkShortcut } from "@/components/editor/links";
+import SelectionMenu from "@/components/SelectionMenu";
+import LinkPopover from "@/components/LinkPopover";
+import ImageInsertDialog from "@/components/ImageInsertDialog";
+import YoutubeInsertDialog from "@/components/YoutubeInsertDialog";
+import { getLocalIdentity } from "@/lib/collab/presence";
 
 import {
   Bold,
@@ -46,301 +79,186 @@ import {
   SquarePlay,
   Code,
   FileText,
+  FileInput,
 } from "lucide-react";
 
 interface DocEditorProps {
+  /** 저장소에서 불러온 초기 문서 (ProseMirror JSON) */
+  initialContent?: JSONContent;
   onContentChange?: (content: string) => void;
+  /** 문서가 바뀔 때마다 editor.getJSON() 결과를 전달 (자동 저장용) */
+  onDocumentChange?: (doc: JSONContent) => void;
+  /** 작성 과정 기록 (트랜잭션 단위 이벤트) */
+  onTraceEvent?: (event: TraceEvent) => void;
+  /** 붙여넣은 구간을 칠해서 보여줄지 */
+  showProvenance?: boolean;
+  /** 있으면 Y.Doc에 바인딩 (initialContent는 무시되고 Y.Doc 내용을 씀) */
+  collaboration?: CollaborationSession | null;
+  /** 이 awareness clientId의 커서를 따라 스크롤 (따라가기 모드) */
+  followClientId?: number | null;
+  /** false면 읽기 전용 (툴바도 숨김) */
+  editable?: boolean;
+  /** 에디터가 만들어지고 없어질 때 (댓글 패널 등 바깥 UI용) */
+  onEditorReady?: (editor: Editor | null) => void;
+  /** 있으면 "@"로 사람, "[["/"#"로 문서를 멘션한다 (만들 때 한 번만 본다) */
+  mentions?: MentionDirectory | null;
+  /** 복사한 내용에 남길 문서 id (같은 앱에서 복사한 글은 붙여넣기로 세지 않는다) */
+  documentId?: string | null;
 }
 
-function cx(...classes: Array<string | false | undefined | null>) {
-  return classes.filter(Boolean).join(" ");
-}
-
-function formatBytes(bytes: number) {
-  if (!bytes || Number.isNaN(bytes)) return "";
-  const units = ["B", "KB", "MB", "GB"];
-  const exponent = Math.min(
-    Math.floor(Math.log(bytes) / Math.log(1024)),
-    units.length - 1
-  );
-  const value = bytes / Math.pow(1024, exponent);
-  return `${value.toFixed(value >= 10 || exponent === 0 ? 0 : 1)} ${
-    units[exponent]
-  }`;
-}
-
-const Attachment = Node.create({
-  name: "attachment",
-  group: "block",
-  atom: true,
-  selectable: true,
-  draggable: true,
-  addAttributes() {
-    return {
-      name: { default: "" },
-      size: { default: 0 },
-      type: { default: "" },
-    };
-  },
-  parseHTML() {
-    return [{ tag: "div[data-attachment]" }];
-  },
-  renderHTML({ HTMLAttributes }) {
-    const sizeText = formatBytes(Number(HTMLAttributes.size));
-    return [
-      "div",
-      mergeAttributes(HTMLAttributes, {
-        "data-attachment": "true",
-        class: "attachment-card",
-      }),
-      [
-        "div",
-        { class: "attachment-card__icon", "aria-hidden": "true" },
-        [
-          "svg",
-          {
-            xmlns: "http://www.w3.org/2000/svg",
-            width: "18",
-            height: "18",
-            viewBox: "0 0 24 24",
-            fill: "none",
-            stroke: "currentColor",
-            "stroke-width": "2",
-            "stroke-linecap": "round",
-            "stroke-linejoin": "round",
-            "aria-hidden": "true",
-          },
-          [
-            "path",
-            { d: "M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" },
-          ],
-          ["path", { d: "M14 2v6h6" }],
-        ],
-      ],
-      [
-        "div",
-        { class: "attachment-card__meta" },
-        [
-          "div",
-          { class: "attachment-card__name" },
-          HTMLAttributes.name || "파일",
-        ],
-        ["div", { class: "attachment-card__size" }, sizeText],
-      ],
-      [
-        "button",
-        {
-          type: "button",
-          class: "attachment-card__download",
-          "aria-label": "다운로드 (준비 중)",
-        },
-        [
-          "svg",
-          {
-            xmlns: "http://www.w3.org/2000/svg",
-            width: "18",
-            height: "18",
-            viewBox: "0 0 24 24",
-            fill: "none",
-            stroke: "currentColor",
-            "stroke-width": "2",
-            "stroke-linecap": "round",
-            "stroke-linejoin": "round",
-            "aria-hidden": "true",
-          },
-          ["path", { d: "M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" }],
-          ["path", { d: "M7 10l5 5 5-5" }],
-          ["path", { d: "M12 15V3" }],
-        ],
-      ],
-    ];
-  },
-});
-
-function ToolbarButton({
-  active,
-  disabled,
-  title,
-  onClick,
-  children,
-}: {
-  active?: boolean;
-  disabled?: boolean;
-  title: string;
-  onClick: () => void;
-  children: React.ReactNode;
-}) {
-  return (
-    <button
-      type="button"
-      title={title}
-      onClick={onClick}
-      disabled={disabled}
-      className={cx(
-        "inline-flex items-center justify-center rounded-lg px-2.5 py-2 text-[13px] leading-none",
-        "transition duration-150",
-        "focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500/40 focus-visible:ring-offset-0",
-        disabled && "opacity-40 cursor-not-allowed",
-        !disabled && "hover:bg-black/4 active:bg-black/6",
-        active && "bg-blue-500/10 text-blue-700"
-      )}
-    >
-      {children}
-    </button>
-  );
-}
+// 고정 헤더 + sticky 툴바에 가려지는 높이
+const FOLLOW_VIEWPORT_MARGIN = 140;
 
-function ToolbarGroup({ children }: { children: React.ReactNode }) {
-  return (
-    <div className="flex items-center gap-1 rounded-xl bg-white/60 ring-1 ring-black/6 px-1 py-1 backdrop-blur">
-      {children}
-    </div>
+function scrollToCaret(root: HTMLElement, clientId: number) {
+  const caret = root.querySelector<HTMLElement>(
+    `.collab-caret[data-client-id="${clientId}"]`
   );
+  if (!caret) return;
+
+  const rect = caret.getBoundingClientRect();
+  const visible =
+    rect.top >= FOLLOW_VIEWPORT_MARGIN &&
+    rect.bottom <= window.innerHeight - FOLLOW_VIEWPORT_MARGIN / 2;
+  if (!visible) {
+    caret.scrollIntoView({ block: "center", behavior: "smooth" });
+  }
 }
 
-function Divider() {
-  return <div className="mx-2 h-6 w-px bg-black/6" />;
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
 }
 
-export default function DocEditor({ onContentChange }: DocEditorProps) {
+export default function DocEditor({
+  initialContent,
+  onContentChange,
+  onDocumentChange,
+  onTraceEvent,
+  showProvenance = false,
+  collaboration = null,
+  followClientId = null,
+  editable = true,
+  onEditorReady,
+  mentions = null,
+  documentId = null,
+}: DocEditorProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
   const isComposingRef = useRef(false);
   const pendingEnterRef = useRef(false);
   const suppressNextEnterRef = useRef(false);
 
+  const [slashMenu, setSlashMenu] = useState<SlashMenuState | null>(null);
+  const [mentionMenu, setMentionMenu] = useState<MentionMenuState | null>(
+    null
+  );
+  const [blockMenu, setBlockMenu] = useState<BlockMenuRequest | null>(null);
+  const [linkEditing, setLinkEditing] = useState(false);
+  const [insertDialog, setInsertDialog] = useState<"image" | "youtube" | null>(
+    null
+  );
+
   const editor = useEditor({
     immediatelyRender: false,
+    editable,
     extensions: [
-      StarterKit.configure({
-        heading: { levels: [1, 2, 3] },
-        codeBlock: false, // 우리가 직접 추가할 CodeBlock 사용
-      }),
-      TextAlign.configure({
-        types: ["heading", "paragraph"],
-        defaultAlignment: "left",
-      }),
-      Underline,
-      Link.configure({
-        openOnClick: false,
-        HTMLAttributes: {
-          class:
-            "text-blue-600 underline underline-offset-4 decoration-blue-300 hover:decoration-blue-500",
-        },
-      }),
-      Highlight.configure({ multicolor: false }),
-      Image.configure({
-        HTMLAttributes: {
-          class: "max-w-full h-auto rounded-xl my-6 ring-1 ring-black/10",
-        },
-      }),
-      Subscript,
-      Superscript,
-      TaskList,
-      TaskItem.configure({ nested: true }),
-      Table.configure({
-        resizable: true,
-        HTMLAttributes: {
-          class:
-            "border-collapse my-6 w-full overflow-hidden rounded-xl ring-1 ring-black/10",
-        },
+      ...createEditorExtensions({
+        collaborative: !!collaboration,
+        documentId,
+        mentionSuggestions: mentions
+          ? createMentionSuggestions({
+              documents: mentions.documents !== null,
+              onChange: setMentionMenu,
+            })
+          : [],
       }),
-      TableRow,
-      TableHeader.configure({
-        HTMLAttributes: {
-          class: "bg-black/[0.03] font-semibold",
-        },
-      }),
-      TableCell,
-      Color,
-      TextStyle,
-      YouTube.configure({
-        HTMLAttributes: {
-          class: "rounded-xl my-6 ring-1 ring-black/10 overflow-hidden",
-        },
-      }),
-      CodeBlock.configure({
-        HTMLAttributes: {
-          class: "rounded-lg my-4",
-        },
-      }),
-      Attachment,
+      ...(collaboration
+        ? [
+            Collaboration.configure({
+              document: collaboration.doc,
+              provider: collaboration.provider,
+            }),
+            createCollaboratorCarets(collaboration),
+          ]
+        : []),
+      TraceRecorder,
+      SlashCommand.configure({ onChange: setSlashMenu }),
+      ...createBlockHandle({ onOpenMenu: setBlockMenu }),
+      LinkShortcut.configure({ onEditLink: () => setLinkEditing(true) }),
       FileHandler.configure({
-        onDrop: (currentEditor, files) => {
-          files.forEach((file) => {
-            if (file.type.startsWith("image/")) {
-              const fileReader = new FileReader();
-              fileReader.readAsDataURL(file);
-              fileReader.onload = () => {
-                currentEditor
-                  .chain()
-                  .focus()
-                  .setImage({ src: fileReader.result as string })
-                  .run();
-              };
-              return;
-            }
-
-            currentEditor
-              .chain()
-              .focus()
-              .insertContent({
-                type: "attachment",
-                attrs: {
-                  name: file.name,
-                  size: file.size,
-                  type: file.type,
-                },
-              })
-              .run();
-          });
+        onDrop: (currentEditor, files, pos) => {
+          uploadFiles(currentEditor, files, pos);
         },
         onPaste: (currentEditor, files) => {
-          files.forEach((file) => {
-            if (file.type.startsWith("image/")) {
-              const fileReader = new FileReader();
-              fileReader.readAsDataURL(file);
-              fileReader.onload = () => {
-                currentEditor
-                  .chain()
-                  .focus()
-                  .setImage({ src: fileReader.result as string })
-                  .run();
-              };
-              return;
-            }
-
-            currentEditor
-              .chain()
-              .focus()
-              .insertContent({
-                type: "attachment",
-                attrs: {
-                  name: file.name,
-                  size: file.size,
-                  type: file.type,
-                },
-              })
-              .run();
-          });
+          uploadFiles(currentEditor, files);
         },
       }),
     ],
-    content: "",
+    content: collaboration ? undefined : (initialContent ?? ""),
     editorProps: {
       attributes: {
-        class: cx(
-          // typography: landing page 느낌의 깔끔한 prose
-          "prose prose-lg max-w-none",
-          "focus:outline-none",
-          // spacing
-          "min-h-[720px] px-12 py-10",
-          // selection 느낌 조금 더 모던하게 (선택은 tailwind 기본)
-          "selection:bg-blue-500/15"
-        ),
+        class: editorContentClass,
       },
     },
   });
 
+  // 제안 모드에서는 입력/삭제/서식이 제안으로 남는다 (목록/삽입은 추적하지 않아 막는다)
+  const suggesting =
+    useEditorState({
+      editor,
+      selector: ({ editor }) => !!editor && !!getSuggestingAuthor(editor.state),
+    }) ?? false;
+
+  const toggleSuggesting = (next: boolean) => {
+    if (!editor) return;
+    editor.view.dispatch(
+      setSuggesting(editor.state.tr, next ? getLocalIdentity() : null)
+    );
+    editor.commands.focus();
+  };
+
+  useEffect(() => {
+    if (!editor || !onEditorReady) return;
+    onEditorReady(editor);
+    return () => onEditorReady(null);
+  }, [editor, onEditorReady]);
+
+  useEffect(() => {
+    if (!editor || !onTraceEvent) return;
+    return attachTraceListener(editor, onTraceEvent);
+  }, [editor, onTraceEvent]);
+
+  // 블록 메뉴가 열려 있는 동안 핸들을 그 블록에 둔다
+  useEffect(() => {
+    if (!editor || !blockMenu) return;
+    editor.commands.lockDragHandle();
+    return () => {
+      if (!editor.isDestroyed) editor.commands.unlockDragHandle();
+    };
+  }, [editor, blockMenu]);
+
+  useEffect(() => {
+    if (!editor || editor.isEditable === editable) return;
+    editor.setEditable(editable);
+  }, [editor, editable]);
+
+  useEffect(() => {
+    if (!editor || followClientId === null) return;
+
+    // 커서 decoration은 원격 편집이나 awareness 변경 트랜잭션 뒤에 다시 그려진다
+    const handleTransaction = ({ transaction }: { transaction: Transaction }) => {
+      if (isYjsChange(transaction) || transaction.getMeta(yCursorPluginKey)) {
+        scrollToCaret(editor.view.dom, followClientId);
+      }
+    };
+    scrollToCaret(editor.view.dom, followClientId);
+
+    editor.on("transaction", handleTransaction);
+    return () => {
+      editor.off("transaction", handleTransaction);
+    };
+  }, [editor, followClientId]);
+
   useEffect(() => {
     if (!editor) return;
 
@@ -355,6 +273,10 @@ export default function DocEditor({ onContentChange }: DocEditorProps) {
       if (pendingEnterRef.current) {
         pendingEnterRef.current = false;
         suppressNextEnterRef.current = true;
+        // "/", "@" 메뉴에서는 글자만 확정한다 (항목을 고르거나 줄을 바꾸지 않는다)
+        if (isSlashMenuOpen(editor.state) || isMentionMenuOpen(editor.state)) {
+          return;
+        }
         // 조합 완료를 DOM에 확실히 반영한 뒤 줄바꿈
         editorElement.blur();
         editorElement.focus();
@@ -397,54 +319,50 @@ export default function DocEditor({ onContentChange }: DocEditorProps) {
       onContentChange(editor.getText());
     };
 
+    // 불러온 문서의 글자 수/문단 수도 바로 반영
+    onContentChange(editor.getText());
+
     editor.on("update", handleUpdate);
     return () => {
       editor.off("update", handleUpdate);
     };
   }, [editor, onContentChange]);
 
+  useEffect(() => {
+    if (!editor || !onDocumentChange) return;
+
+    const handleUpdate = ({ editor }: { editor: Editor }) => {
+      onDocumentChange(editor.getJSON());
+    };
+
+    editor.on("update", handleUpdate);
+    return () => {
+      editor.off("update", handleUpdate);
+    };
+  }, [editor, onDocumentChange]);
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0 || !editor) return;
 
-    Array.from(files).forEach((file) => {
-      if (file.type.startsWith("image/")) {
-        const fileReader = new FileReader();
-        fileReader.readAsDataURL(file);
-        fileReader.onload = () => {
-          editor
-            .chain()
-            .focus()
-            .setImage({ src: fileReader.result as string })
-            .run();
-        };
-        return;
-      }
-
-      editor
-        .chain()
-        .focus()
-        .insertContent({
-          type: "attachment",
-          attrs: {
-            name: file.name,
-            size: file.size,
-            type: file.type,
-          },
-        })
-        .run();
-    });
+    uploadFiles(editor, Array.from(files));
 
     // input 초기화 (같은 파일을 다시 선택할 수 있도록)
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
+    e.target.value = "";
+  };
+
+  const handleImportSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0 || !editor) return;
+
+    importFiles(editor, Array.from(files));
+    e.target.value = "";
   };
 
   if (!editor) return null;
 
   return (
-    <div className="w-full">
+    <div className={cx("w-full", showProvenance && "provenance-view")}>
       {/* 숨겨진 파일 input */}
       <input
         ref={fileInputRef}
@@ -454,247 +372,297 @@ export default function DocEditor({ onContentChange }: DocEditorProps) {
         className="hidden"
         onChange={handleFileSelect}
       />
+      {/* 가져오기: 첨부하지 않고 내용을 본문으로 옮긴다 */}
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".md,.markdown,.docx,text/markdown"
+        className="hidden"
+        onChange={handleImportSelect}
+      />
 
-      {/* Toolbar wrapper (glass / sticky) */}
-      <div className="sticky top-0 z-30">
-        <div
-          className={cx(
-            "rounded-2xl",
-            "border border-black/6",
-            "bg-white/70 backdrop-blur-xl",
-            "px-3 py-2",
-            // heavy shadow 대신: 아주 은은한 하이라이트 + 미세한 그림자
-            "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_8px_24px_-20px_rgba(0,0,0,0.35)]"
-          )}
-        >
-          <div className="flex flex-wrap items-center gap-2">
-            {/* Text styles */}
-            <ToolbarGroup>
-              <ToolbarButton
-                title="굵게 (Ctrl+B)"
-                active={editor.isActive("bold")}
-                disabled={!editor.can().chain().focus().toggleBold().run()}
-                onClick={() => editor.chain().focus().toggleBold().run()}
-              >
-                <Bold className="h-4 w-4" />
-              </ToolbarButton>
-
-              <ToolbarButton
-                title="기울임 (Ctrl+I)"
-                active={editor.isActive("italic")}
-                disabled={!editor.can().chain().focus().toggleItalic().run()}
-                onClick={() => editor.chain().focus().toggleItalic().run()}
-              >
-                <Italic className="h-4 w-4" />
-              </ToolbarButton>
-
-              <ToolbarButton
-                title="밑줄 (Ctrl+U)"
-                active={editor.isActive("underline")}
-                onClick={() => editor.chain().focus().toggleUnderline().run()}
-              >
-                <UnderlineIcon className="h-4 w-4" />
-              </ToolbarButton>
-
-              <ToolbarButton
-                title="취소선"
-                active={editor.isActive("strike")}
-                onClick={() => editor.chain().focus().toggleStrike().run()}
-              >
-                <Strikethrough className="h-4 w-4" />
-              </ToolbarButton>
-            </ToolbarGroup>
-
-            <Divider />
-
-            {/* Headings */}
-            <ToolbarGroup>
-              <ToolbarButton
-                title="제목 1"
-                active={editor.isActive("heading", { level: 1 })}
-                onClick={() =>
-                  editor.chain().focus().toggleHeading({ level: 1 }).run()
-                }
-              >
-                <Heading1 className="h-4 w-4" />
-              </ToolbarButton>
-              <ToolbarButton
-                title="제목 2"
-                active={editor.isActive("heading", { level: 2 })}
-                onClick={() =>
-                  editor.chain().focus().toggleHeading({ level: 2 }).run()
-                }
-              >
-                <Heading2 className="h-4 w-4" />
-              </ToolbarButton>
-              <ToolbarButton
-                title="제목 3"
-                active={editor.isActive("heading", { level: 3 })}
-                onClick={() =>
-                  editor.chain().focus().toggleHeading({ level: 3 }).run()
-                }
-              >
-                <Heading3 className="h-4 w-4" />
-              </ToolbarButton>
-            </ToolbarGroup>
-
-            <Divider />
-
-            {/* Alignment */}
-            <ToolbarGroup>
-              <ToolbarButton
-                title="왼쪽 정렬"
-                active={editor.isActive({ textAlign: "left" })}
-                onClick={() =>
-                  editor.chain().focus().setTextAlign("left").run()
-                }
-              >
-                <AlignLeft className="h-4 w-4" />
-              </ToolbarButton>
-              <ToolbarButton
-                title="가운데 정렬"
-                active={editor.isActive({ textAlign: "center" })}
-                onClick={() =>
-                  editor.chain().focus().setTextAlign("center").run()
-                }
-              >
-                <AlignCenter className="h-4 w-4" />
-              </ToolbarButton>
-              <ToolbarButton
-                title="오른쪽 정렬"
-                active={editor.isActive({ textAlign: "right" })}
-                onClick={() =>
-                  editor.chain().focus().setTextAlign("right").run()
-                }
-              >
-                <AlignRight className="h-4 w-4" />
-              </ToolbarButton>
-            </ToolbarGroup>
-
-            <Divider />
-
-            {/* Lists */}
-            <ToolbarGroup>
-              <ToolbarButton
-                title="글머리 기호"
-                active={editor.isActive("bulletList")}
-                onClick={() => editor.chain().focus().toggleBulletList().run()}
-              >
-                <List className="h-4 w-4" />
-              </ToolbarButton>
-              <ToolbarButton
-                title="번호 매기기"
-                active={editor.isActive("orderedList")}
-                onClick={() => editor.chain().focus().toggleOrderedList().run()}
-              >
-                <ListOrdered className="h-4 w-4" />
-              </ToolbarButton>
-              <ToolbarButton
-                title="할 일 목록"
-                active={editor.isActive("taskList")}
-                onClick={() => editor.chain().focus().toggleTaskList().run()}
-              >
-                <CheckSquare className="h-4 w-4" />
-              </ToolbarButton>
-            </ToolbarGroup>
-
-            <Divider />
-
-            {/* Inserts */}
-            <ToolbarGroup>
-              <ToolbarButton
-                title="이미지 삽입"
-                onClick={() => {
-                  const url = window.prompt("이미지 URL을 입력하세요:");
-                  if (url) editor.chain().focus().setImage({ src: url }).run();
-                }}
-              >
-                <ImageIcon className="h-4 w-4" />
-              </ToolbarButton>
-
-              <ToolbarButton
-                title="파일 첨부"
-                onClick={() => {
-                  fileInputRef.current?.click();
-                }}
-              >
-                <FileText className="h-4 w-4" />
-              </ToolbarButton>
-
-              <ToolbarButton
-                title="YouTube 동영상"
-                onClick={() => {
-                  const url = window.prompt("YouTube URL을 입력하세요:");
-                  if (url)
-                    editor.chain().focus().setYoutubeVideo({ src: url }).run();
-                }}
-              >
-                <SquarePlay className="h-4 w-4" />
-              </ToolbarButton>
-
-              <ToolbarButton
-                title="링크 삽입"
-                active={editor.isActive("link")}
-                onClick={() => {
-                  const url = window.prompt("링크 URL을 입력하세요:");
-                  if (url) editor.chain().focus().setLink({ href: url }).run();
-                }}
-              >
-                <LinkIcon className="h-4 w-4" />
-              </ToolbarButton>
-
-              <ToolbarButton
-                title="표 삽입"
-                onClick={() =>
-                  editor
-                    .chain()
-                    .focus()
-                    .insertTable({ rows: 3, cols: 3, withHeaderRow: true })
-                    .run()
-                }
-              >
-                <TableIcon className="h-4 w-4" />
-              </ToolbarButton>
-
-              <ToolbarButton
-                title="하이라이트"
-                active={editor.isActive("highlight")}
-                onClick={() => editor.chain().focus().toggleHighlight().run()}
-              >
-                <Highlighter className="h-4 w-4" />
-              </ToolbarButton>
-
-              <ToolbarButton
-                title="인용구"
-                active={editor.isActive("blockquote")}
-                onClick={() => editor.chain().focus().toggleBlockquote().run()}
-              >
-                <Quote className="h-4 w-4" />
-              </ToolbarButton>
-
-              <ToolbarButton
-                title="구분선"
-                onClick={() => editor.chain().focus().setHorizontalRule().run()}
-              >
-                <Minus className="h-4 w-4" />
-              </ToolbarButton>
-
-              <ToolbarButton
-                title="코드 블록"
-                active={editor.isActive("codeBlock")}
-                onClick={() => editor.chain().focus().toggleCodeBlock().run()}
-              >
-                <Code className="h-4 w-4" />
-              </ToolbarButton>
-            </ToolbarGroup>
+      {/* Toolbar wrapper (glass / sticky) — 읽기 전용이면 숨김 */}
+      {editable && (
+        <div className="sticky top-0 z-30">
+          <div
+            className={cx(
+              "rounded-2xl",
+              "border border-black/6",
+              "bg-white/70 backdrop-blur-xl",
+              "px-3 py-2",
+              // heavy shadow 대신: 아주 은은한 하이라이트 + 미세한 그림자
+              "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_8px_24px_-20px_rgba(0,0,0,0.35)]"
+            )}
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              {/* Text styles */}
+              <ToolbarGroup>
+                <ToolbarButton
+                  title="굵게 (Ctrl+B)"
+                  active={editor.isActive("bold")}
+                  disabled={!editor.can().chain().focus().toggleBold().run()}
+                  onClick={() => editor.chain().focus().toggleBold().run()}
+                >
+                  <Bold className="h-4 w-4" />
+                </ToolbarButton>
+
+                <ToolbarButton
+                  title="기울임 (Ctrl+I)"
+                  active={editor.isActive("italic")}
+                  disabled={!editor.can().chain().focus().toggleItalic().run()}
+                  onClick={() => editor.chain().focus().toggleItalic().run()}
+                >
+                  <Italic className="h-4 w-4" />
+                </ToolbarButton>
+
+                <ToolbarButton
+                  title="밑줄 (Ctrl+U)"
+                  active={editor.isActive("underline")}
+                  onClick={() => editor.chain().focus().toggleUnderline().run()}
+                >
+                  <UnderlineIcon className="h-4 w-4" />
+                </ToolbarButton>
+
+                <ToolbarButton
+                  title="취소선"
+                  active={editor.isActive("strike")}
+                  onClick={() => editor.chain().focus().toggleStrike().run()}
+                >
+                  <Strikethrough className="h-4 w-4" />
+                </ToolbarButton>
+              </ToolbarGroup>
+
+              <ToolbarDivider />
+
+              {/* Headings */}
+              <ToolbarGroup>
+                <ToolbarButton
+                  title="제목 1"
+                  active={editor.isActive("heading", { level: 1 })}
+                  onClick={() =>
+                    editor.chain().focus().toggleHeading({ level: 1 }).run()
+                  }
+                >
+                  <Heading1 className="h-4 w-4" />
+                </ToolbarButton>
+                <ToolbarButton
+                  title="제목 2"
+                  active={editor.isActive("heading", { level: 2 })}
+                  onClick={() =>
+                    editor.chain().focus().toggleHeading({ level: 2 }).run()
+                  }
+                >
+                  <Heading2 className="h-4 w-4" />
+                </ToolbarButton>
+                <ToolbarButton
+                  title="제목 3"
+                  active={editor.isActive("heading", { level: 3 })}
+                  onClick={() =>
+                    editor.chain().focus().toggleHeading({ level: 3 }).run()
+                  }
+                >
+                  <Heading3 className="h-4 w-4" />
+                </ToolbarButton>
+              </ToolbarGroup>
+
+              <ToolbarDivider />
+
+              {/* Alignment */}
+              <ToolbarGroup>
+                <ToolbarButton
+                  title="왼쪽 정렬"
+                  active={editor.isActive({ textAlign: "left" })}
+                  onClick={() =>
+                    editor.chain().focus().setTextAlign("left").run()
+                  }
+                >
+                  <AlignLeft className="h-4 w-4" />
+                </ToolbarButton>
+                <ToolbarButton
+                  title="가운데 정렬"
+                  active={editor.isActive({ textAlign: "center" })}
+                  onClick={() =>
+                    editor.chain().focus().setTextAlign("center").run()
+                  }
+                >
+                  <AlignCenter className="h-4 w-4" />
+                </ToolbarButton>
+                <ToolbarButton
+                  title="오른쪽 정렬"
+                  active={editor.isActive({ textAlign: "right" })}
+                  onClick={() =>
+                    editor.chain().focus().setTextAlign("right").run()
+                  }
+                >
+                  <AlignRight className="h-4 w-4" />
+                </ToolbarButton>
+              </ToolbarGroup>
+
+              <ToolbarDivider />
+
+              {/* Lists */}
+              <ToolbarGroup>
+                <ToolbarButton
+                  title="글머리 기호"
+                  disabled={suggesting}
+                  active={editor.isActive("bulletList")}
+                  onClick={() => editor.chain().focus().toggleBulletList().run()}
+                >
+                  <List className="h-4 w-4" />
+                </ToolbarButton>
+                <ToolbarButton
+                  title="번호 매기기"
+                  disabled={suggesting}
+                  active={editor.isActive("orderedList")}
+                  onClick={() => editor.chain().focus().toggleOrderedList().run()}
+                >
+                  <ListOrdered className="h-4 w-4" />
+                </ToolbarButton>
+                <ToolbarButton
+                  title="할 일 목록"
+                  disabled={suggesting}
+                  active={editor.isActive("taskList")}
+                  onClick={() => editor.chain().focus().toggleTaskList().run()}
+                >
+                  <CheckSquare className="h-4 w-4" />
+                </ToolbarButton>
+              </ToolbarGroup>
+
+              <ToolbarDivider />
+
+              {/* Inserts */}
+              <ToolbarGroup>
+                <ToolbarButton
+                  title="이미지 삽입"
+                  disabled={suggesting}
+                  onClick={() => setInsertDialog("image")}
+                >
+                  <ImageIcon className="h-4 w-4" />
+                </ToolbarButton>
+
+                <ToolbarButton
+                  title="파일 첨부"
+                  disabled={suggesting}
+                  onClick={() => {
+                    fileInputRef.current?.click();
+                  }}
+                >
+                  <FileText className="h-4 w-4" />
+                </ToolbarButton>
+
+                <ToolbarButton
+                  title="가져오기 (Markdown, Word)"
+                  disabled={suggesting}
+                  onClick={() => importInputRef.current?.click()}
+                >
+                  <FileInput className="h-4 w-4" />
+                </ToolbarButton>
+
+                <ToolbarButton
+                  title="YouTube 동영상"
+                  disabled={suggesting}
+                  onClick={() => setInsertDialog("youtube")}
+                >
+                  <SquarePlay className="h-4 w-4" />
+                </ToolbarButton>
+
+                <ToolbarButton
+                  title="링크 (Ctrl+K)"
+                  active={editor.isActive("link")}
+                  onClick={() => setLinkEditing(true)}
+                >
+                  <LinkIcon className="h-4 w-4" />
+                </ToolbarButton>
+
+                <ToolbarButton
+                  title="표 삽입"
+                  disabled={suggesting}
+                  onClick={() =>
+                    editor
+                      .chain()
+                      .focus()
+                      .insertTable({ rows: 3, cols: 3, withHeaderRow: true })
+                      .run()
+                  }
+                >
+                  <TableIcon className="h-4 w-4" />
+                </ToolbarButton>
+
+                <ToolbarButton
+                  title="하이라이트"
+                  active={editor.isActive("highlight")}
+                  onClick={() => editor.chain().focus().toggleHighlight().run()}
+                >
+                  <Highlighter className="h-4 w-4" />
+                </ToolbarButton>
+
+                <ToolbarButton
+                  title="인용구"
+                  disabled={suggesting}
+                  active={editor.isActive("blockquote")}
+                  onClick={() => editor.chain().focus().toggleBlockquote().run()}
+                >
+                  <Quote className="h-4 w-4" />
+                </ToolbarButton>
+
+                <ToolbarButton
+                  title="구분선"
+                  disabled={suggesting}
+                  onClick={() => editor.chain().focus().setHorizontalRule().run()}
+                >
+                  <Minus className="h-4 w-4" />
+                </ToolbarButton>
+
+                <ToolbarButton
+                  title="코드 블록"
+                  active={editor.isActive("codeBlock")}
+                  onClick={() => editor.chain().focus().toggleCodeBlock().run()}
+                >
+                  <Code className="h-4 w-4" />
+                </ToolbarButton>
+              </ToolbarGroup>
+
+              {/* Editing / Suggesting */}
+              <div className="ml-auto flex items-center rounded-xl bg-black/3 p-0.5 ring-1 ring-black/6">
+                {[
+                  { value: false, label: "편집" },
+                  { value: true, label: "제안" },
+                ].map(({ value, label }) => (
+                  <button
+                    key={label}
+                    type="button"
+                    aria-pressed={suggesting === value}
+                    title={
+                      value
+                        ? "고친 내용을 수락/거절할 수 있는 제안으로 남깁니다"
+                        : "본문을 바로 고칩니다"
+                    }
+                    onClick={() => toggleSuggesting(value)}
+                    className={cx(
+                      "rounded-lg px-2.5 py-1.5 text-[12px] font-medium leading-none transition",
+                      suggesting === value
+                        ? value
+                          ? "bg-emerald-600/90 text-white shadow-sm"
+                          : "bg-white text-slate-900 shadow-sm"
+                        : "text-slate-600 hover:text-slate-900"
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <TableToolbar editor={editor} disabled={suggesting} />
           </div>
         </div>
-      </div>
+      )}
 
       {/* Editor surface (landing page card) */}
       <div
         className={cx(
-          "mt-4 overflow-hidden rounded-3xl",
+          "overflow-hidden rounded-3xl",
+          editable && "mt-4",
           "border border-black/6",
           "bg-white",
           // 과한 shadow 대신 '카드' 느낌만 살짝
@@ -702,11 +670,59 @@ export default function DocEditor({ onContentChange }: DocEditorProps) {
         )}
       >
         {/* subtle background like modern docs */}
-        <div className="relative">
+        <div className={cx("relative", suggesting && "is-suggesting")}>
           <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(ellipse_at_top,rgba(59,130,246,0.08),transparent_55%)]" />
           <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(ellipse_at_bottom,rgba(0,0,0,0.035),transparent_50%)]" />
           <EditorContent editor={editor} />
         </div>
+        {slashMenu && (
+          <SlashMenu
+            editor={editor}
+            state={slashMenu}
+            actions={{
+              insertImage: () => setInsertDialog("image"),
+              insertYoutube: () => setInsertDialog("youtube"),
+              pickFile: () => fileInputRef.current?.click(),
+            }}
+          />
+        )}
+        {blockMenu && editor && (
+          <BlockMenu
+            editor={editor}
+            request={blockMenu}
+            onClose={() => setBlockMenu(null)}
+          />
+        )}
+        {mentionMenu && mentions && (
+          <MentionMenu editor={editor} state={mentionMenu} directory={mentions} />
+        )}
+        {editable && (
+          <>
+            {!linkEditing && (
+              <SelectionMenu
+                editor={editor}
+                onEditLink={() => setLinkEditing(true)}
+              />
+            )}
+            <LinkPopover
+              editor={editor}
+              editing={linkEditing}
+              onEditingChange={setLinkEditing}
+            />
+          </>
+        )}
+        {editable && insertDialog === "image" && (
+          <ImageInsertDialog
+            editor={editor}
+            onClose={() => setInsertDialog(null)}
+          />
+        )}
+        {editable && insertDialog === "youtube" && (
+          <YoutubeInsertDialog
+            editor={editor}
+            onClose={() => setInsertDialog(null)}
+          />
+        )}
       </div>
     </div>
   );
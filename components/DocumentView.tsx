@@ -0,0 +1,652 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import type { JSONContent } from "@tiptap/core";
+import type { Editor } from "@tiptap/react";
+import CommentsRail from "@/components/CommentsRail";
+import DocEditor from "@/components/DocEditor";
+import type { MentionDirectory } from "@/components/MentionMenu";
+import {
+  findBlockById,
+  parseBlockHash,
+  setBlockHighlight,
+} from "@/components/editor/BlockIds";
+import { setMentionLabels } from "@/components/editor/mentionLabels";
+import DownloadMenu from "@/components/DownloadMenu";
+import OutlinePanel from "@/components/OutlinePanel";
+import PageBackground from "@/components/PageBackground";
+import PresenceAvatars from "@/components/PresenceAvatars";
+import ProvenancePanel from "@/components/ProvenancePanel";
+import PublishDialog from "@/components/PublishDialog";
+import ShareDialog from "@/components/ShareDialog";
+import SuggestedChangesPanel from "@/components/SuggestedChangesPanel";
+import SuggestionsPanel from "@/components/SuggestionsPanel";
+import VersionHistoryDialog from "@/components/VersionHistoryDialog";
+import { useAutosave } from "@/hooks/useAutosave";
+import {
+  isCollaborationEnabled,
+  useCollaboration,
+} from "@/hooks/useCollaboration";
+import { usePresence } from "@/hooks/usePresence";
+import { useTraceUploader, type TraceUpload } from "@/hooks/useTraceUploader";
+import { getLocalIdentity } from "@/lib/collab/presence";
+import { shareRoomName } from "@/lib/collab/rooms";
+import type { CommentTarget } from "@/lib/comments/client";
+import {
+  fetchDocument,
+  fetchDocuments,
+  restoreDocument,
+  saveDocument,
+} from "@/lib/documents/client";
+import { formatStats, getTextStats } from "@/lib/documents/text";
+import { parseMentionHash } from "@/lib/mentions/content";
+import { notifyMention } from "@/lib/notifications/client";
+import { exportPdf, exportSharedPdf } from "@/lib/pdf/client";
+import { computeProvenance, type ProvenanceStats } from "@/lib/provenance";
+import {
+  appendSharedTraceEvents,
+  openSharedDocument,
+  saveSharedDocument,
+} from "@/lib/shares/client";
+import {
+  SHARE_ROLE_LABELS,
+  type SharedDocumentContent,
+  type ShareRole,
+} from "@/lib/shares/types";
+import { appendTraceEvents } from "@/lib/trace/client";
+import { createVersion } from "@/lib/versions/client";
+import type { StoredVersion } from "@/lib/versions/types";
+import { fetchUsers, registerUser } from "@/lib/users/client";
+import type { UserProfile } from "@/lib/users/types";
+import {
+  DEFAULT_DOCUMENT_TITLE,
+  type DocumentSummary,
+  type SaveDocumentInput,
+} from "@/lib/documents/types";
+
+// 알림/블록 링크로 들어온 자리를 잠깐 강조하는 시간(ms)
+const LINK_HIGHLIGHT_MS = 2400;
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+/**
+ * 공유 링크로 연 경우에는 문서 id 없이 share만 받는다.
+ * 저장/기록/댓글/공동 편집 모두 토큰으로 하고, 서버가 역할을 확인한다.
+ */
+type DocumentViewProps =
+  | { documentId: string; share?: undefined }
+  | { documentId?: undefined; share: { token: string; role: ShareRole } };
+
+export default function DocumentView({ documentId, share }: DocumentViewProps) {
+  const shareToken = share?.token ?? null;
+  const readOnly = share ? share.role !== "editor" : false;
+  const canComment = !share || share.role !== "viewer";
+  const [doc, setDoc] = useState<SharedDocumentContent | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [documentTitle, setDocumentTitle] = useState(DEFAULT_DOCUMENT_TITLE);
+  const [contentLength, setContentLength] = useState(0);
+  const [paragraphCount, setParagraphCount] = useState(0);
+  const [showProvenance, setShowProvenance] = useState(false);
+  const [provenance, setProvenance] = useState<ProvenanceStats | null>(null);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [publishOpen, setPublishOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [editor, setEditor] = useState<Editor | null>(null);
+  const [people, setPeople] = useState<UserProfile[]>([]);
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+
+  // 제목/본문 중 한쪽만 바뀌어도 둘 다 저장되도록 최신 값을 보관
+  const latestRef = useRef<SaveDocumentInput | null>(null);
+
+  // 댓글/멘션 API에 보낼 대상
+  const target = useMemo<CommentTarget>(
+    () => (share ? { shareToken: share.token } : { documentId }),
+    [documentId, share]
+  );
+
+  const persist = useCallback(
+    async (input: SaveDocumentInput) => {
+      if (share) await saveSharedDocument(share.token, input);
+      else await saveDocument(documentId, input);
+    },
+    [documentId, share]
+  );
+
+  const uploadTrace = useCallback<TraceUpload>(
+    (events, options) =>
+      share
+        ? appendSharedTraceEvents(share.token, events, options)
+        : appendTraceEvents(documentId, events, options),
+    [documentId, share]
+  );
+
+  const { status: saveStatus, schedule, retry, flush } =
+    useAutosave(persist);
+  const recordTraceEvent = useTraceUploader(uploadTrace);
+  const { session: collaboration, status: connectionStatus } =
+    useCollaboration(share ? shareRoomName(share.token) : documentId);
+  // 공동 편집 중이면 첫 동기화가 끝난 뒤에 에디터를 그린다
+  const editorReady = doc && (!isCollaborationEnabled || collaboration);
+  const peers = usePresence(collaboration);
+  const [followClientId, setFollowClientId] = useState<number | null>(null);
+  // 따라가던 사람이 나가면 자동으로 해제
+  const followed = peers.find((peer) => peer.clientId === followClientId);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        let loaded: SharedDocumentContent;
+        if (share) {
+          const opened = await openSharedDocument(share.token);
+          if (opened.status !== "ok") throw new Error(opened.status);
+          loaded = opened.shared.document;
+        } else {
+          loaded = await fetchDocument(documentId);
+        }
+        if (cancelled) return;
+        latestRef.current = { title: loaded.title, content: loaded.content };
+        setProvenance(computeProvenance(loaded.content));
+        setDoc(loaded);
+        setDocumentTitle(loaded.title);
+      } catch {
+        if (!cancelled) setLoadError(true);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, share]);
+
+  // 멘션할 수 있는 사람/문서 (멘션에 보이는 이름도 여기서 지금 이름으로 바뀐다)
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        await registerUser(getLocalIdentity());
+        const users = await fetchUsers();
+        if (cancelled) return;
+        setPeople(users);
+        setMentionLabels(
+          "person",
+          users.map(({ id, name }) => ({ id, label: name }))
+        );
+        // 공유 링크로 연 사람은 다른 문서 목록을 볼 수 없다
+        if (shareToken) return;
+        const summaries = await fetchDocuments();
+        if (cancelled) return;
+        setDocuments(summaries);
+        setMentionLabels(
+          "document",
+          summaries.map(({ id, title }) => ({ id, label: title }))
+        );
+      } catch {
+        // 목록을 못 불러와도 편집은 된다 (멘션 후보만 비어 있다)
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [shareToken]);
+
+  useEffect(() => {
+    if (!documentId) return;
+    setMentionLabels("document", [{ id: documentId, label: documentTitle }]);
+  }, [documentId, documentTitle]);
+
+  // 알림의 "#mention-<id>" 링크로 들어오면 그 멘션이 있는 문단으로 스크롤
+  useEffect(() => {
+    if (!editor) return;
+    const mentionId = parseMentionHash(window.location.hash);
+    if (!mentionId) return;
+    const mention = editor.view.dom.querySelector<HTMLElement>(
+      `[data-mention-id="${mentionId}"]`
+    );
+    if (!mention) return;
+
+    mention.scrollIntoView({ block: "center", behavior: "smooth" });
+    // 멘션 노드 뷰는 DOM 변경을 무시하므로 클래스를 직접 붙여도 된다
+    mention.classList.add("mention-target");
+    const timer = window.setTimeout(
+      () => mention.classList.remove("mention-target"),
+      LINK_HIGHLIGHT_MS
+    );
+    return () => {
+      window.clearTimeout(timer);
+      mention.classList.remove("mention-target");
+    };
+  }, [editor]);
+
+  // "블록 링크 복사"로 만든 "#block-<id>" 링크
+  useEffect(() => {
+    if (!editor) return;
+    const blockId = parseBlockHash(window.location.hash);
+    const pos = blockId ? findBlockById(editor.state.doc, blockId) : null;
+    if (pos === null) return;
+
+    (editor.view.nodeDOM(pos) as HTMLElement | null)?.scrollIntoView({
+      block: "center",
+      behavior: "smooth",
+    });
+    editor.view.dispatch(setBlockHighlight(editor.state.tr, pos));
+    const timer = window.setTimeout(() => {
+      if (!editor.isDestroyed) {
+        editor.view.dispatch(setBlockHighlight(editor.state.tr, null));
+      }
+    }, LINK_HIGHLIGHT_MS);
+    return () => window.clearTimeout(timer);
+  }, [editor]);
+
+  const mentions = useMemo<MentionDirectory | null>(
+    () =>
+      readOnly
+        ? null
+        : {
+            people,
+            documents: shareToken ? null : documents,
+            onMentionPerson: (input) => {
+              notifyMention(target, {
+                ...input,
+                actor: getLocalIdentity(),
+              }).catch(() => {
+                // 알림은 부가 기능이라 실패해도 멘션은 그대로 둔다
+              });
+            },
+          },
+    [documents, people, readOnly, shareToken, target]
+  );
+
+  const handleContentChange = useCallback((content: string) => {
+    const stats = getTextStats(content);
+    setContentLength(stats.characters);
+    setParagraphCount(stats.paragraphs);
+  }, []);
+
+  const handleDocumentChange = useCallback(
+    (content: JSONContent) => {
+      if (!latestRef.current) return;
+      latestRef.current = { ...latestRef.current, content };
+      schedule(latestRef.current);
+      setProvenance(computeProvenance(content));
+    },
+    [schedule]
+  );
+
+  const handleTitleChange = (title: string) => {
+    setDocumentTitle(title);
+    if (!latestRef.current) return;
+    latestRef.current = { ...latestRef.current, title };
+    schedule(latestRef.current);
+  };
+
+  const handleRestore = async () => {
+    if (share) return;
+    const restored = await restoreDocument(documentId);
+    setDoc((current) =>
+      current ? { ...current, deletedAt: restored.deletedAt } : current
+    );
+  };
+
+  // 편집기에 보이는 지금 내용 (저장 대기 중인 편집 포함)
+  const getCurrentDocument = () =>
+    editor
+      ? { title: documentTitle, content: editor.getJSON() }
+      : latestRef.current;
+
+  // 되돌리기 전 상태를 서버가 버전으로 남긴 뒤, 편집기 내용을 바꿔 저장한다
+  // (공동 편집 중이면 Y.Doc을 거쳐 다른 사람에게도 반영된다)
+  const handleRestoreVersion = async (version: StoredVersion) => {
+    if (!editor || share) return;
+    await flush();
+    const restored = await createVersion(documentId, {
+      kind: "restore",
+      restoredFrom: version.id,
+    });
+    editor.commands.setContent(restored.content, { emitUpdate: true });
+    handleTitleChange(restored.title);
+    await flush();
+  };
+
+  const subtitle = useMemo(
+    () =>
+      formatStats({ characters: contentLength, paragraphs: paragraphCount }),
+    [contentLength, paragraphCount]
+  );
+
+  return (
+    <div className="min-h-screen bg-[#fbfbfd] text-slate-900">
+      <PageBackground />
+
+      {/* Header */}
+      <header
+        className={cx(
+          "fixed top-0 left-0 right-0 z-50",
+          "border-b border-black/6",
+          "bg-white/70 backdrop-blur-xl"
+        )}
+      >
+        <div className="mx-auto max-w-[1720px] px-6 lg:px-10 h-16 flex items-center gap-4">
+          {/* Brand */}
+          <div className="shrink-0 flex items-center gap-2">
+            {share ? (
+              // 공유 받은 사람에게 작업 공간 목록은 보여주지 않는다
+              <span className="text-[15px] font-semibold tracking-tight">
+                Writetracer
+              </span>
+            ) : (
+              <Link
+                href="/"
+                className="text-[15px] font-semibold tracking-tight hover:text-blue-700 transition"
+              >
+                Writetracer
+              </Link>
+            )}
+          </div>
+
+          {/* Title + meta */}
+          <div className="min-w-0 flex-1 flex items-center justify-center">
+            <div className="w-full max-w-3xl">
+              <div className="flex items-center justify-center gap-3">
+                <input
+                  type="text"
+                  value={documentTitle}
+                  onChange={(e) => handleTitleChange(e.target.value)}
+                  disabled={!doc || readOnly}
+                  className={cx(
+                    "w-full max-w-[520px] text-center",
+                    "bg-transparent outline-none",
+                    "text-[15px] font-semibold text-slate-900",
+                    "placeholder:text-slate-400",
+                    "rounded-lg",
+                    "focus:ring-2 focus:ring-blue-500/20"
+                  )}
+                  placeholder="Untitled document"
+                />
+              </div>
+
+              <div className="mt-1 flex items-center justify-center gap-2 text-[11px] text-slate-500">
+                {readOnly && share ? (
+                  <span className="inline-flex items-center gap-1 rounded-full bg-black/3 px-2 py-0.5 ring-1 ring-black/6">
+                    <span className="h-1.5 w-1.5 rounded-full bg-slate-400" />
+                    {SHARE_ROLE_LABELS[share.role]} 전용
+                  </span>
+                ) : saveStatus === "Failed" ? (
+                  <button
+                    type="button"
+                    onClick={retry}
+                    className="inline-flex items-center gap-1 rounded-full bg-red-500/10 px-2 py-0.5 text-red-700 ring-1 ring-red-500/20 hover:bg-red-500/15 transition"
+                  >
+                    <span className="h-1.5 w-1.5 rounded-full bg-red-500/70" />
+                    Failed — retry
+                  </button>
+                ) : (
+                  <span className="inline-flex items-center gap-1 rounded-full bg-black/3 px-2 py-0.5 ring-1 ring-black/6">
+                    <span
+                      className={cx(
+                        "h-1.5 w-1.5 rounded-full",
+                        saveStatus === "Saved"
+                          ? "bg-emerald-500/70"
+                          : "bg-amber-500/70 animate-pulse"
+                      )}
+                    />
+                    {saveStatus}
+                  </span>
+                )}
+                <span className="opacity-60">·</span>
+                <span>{subtitle}</span>
+                {isCollaborationEnabled && (
+                  <>
+                    <span className="opacity-60">·</span>
+                    <span className="inline-flex items-center gap-1">
+                      <span
+                        className={cx(
+                          "h-1.5 w-1.5 rounded-full",
+                          connectionStatus === "connected"
+                            ? "bg-emerald-500/70"
+                            : connectionStatus === "connecting"
+                              ? "bg-amber-500/70 animate-pulse"
+                              : "bg-red-500/70"
+                        )}
+                      />
+                      {connectionStatus === "connected" ? "Live" : "Offline"}
+                    </span>
+                  </>
+                )}
+                {followed && (
+                  <>
+                    <span className="opacity-60">·</span>
+                    <button
+                      type="button"
+                      onClick={() => setFollowClientId(null)}
+                      className="inline-flex items-center gap-1 rounded-full bg-black/3 px-2 py-0.5 ring-1 ring-black/6 hover:bg-black/5 transition"
+                    >
+                      <span
+                        className="h-1.5 w-1.5 rounded-full"
+                        style={{ backgroundColor: followed.color }}
+                      />
+                      {followed.name} 따라가는 중 ✕
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Right actions */}
+          <div className="shrink-0 hidden md:flex items-center gap-2">
+            {!share && (
+              <>
+                <Link
+                  href={`/doc/${documentId}/replay`}
+                  className="h-9 inline-flex items-center rounded-xl px-3 text-[13px] font-medium hover:bg-black/4 transition"
+                >
+                  Replay
+                </Link>
+                <Link
+                  href={`/doc/${documentId}/analytics`}
+                  className="h-9 inline-flex items-center rounded-xl px-3 text-[13px] font-medium hover:bg-black/4 transition"
+                >
+                  Analytics
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => setHistoryOpen(true)}
+                  className="h-9 rounded-xl px-3 text-[13px] font-medium hover:bg-black/4 transition"
+                >
+                  History
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowProvenance((v) => !v)}
+                  className={cx(
+                    "h-9 rounded-xl px-3 text-[13px] font-medium transition",
+                    showProvenance
+                      ? "bg-violet-500/10 text-violet-700 ring-1 ring-violet-500/20"
+                      : "hover:bg-black/4"
+                  )}
+                >
+                  Provenance
+                </button>
+              </>
+            )}
+            <PresenceAvatars
+              peers={peers}
+              followingClientId={followed?.clientId ?? null}
+              onFollow={setFollowClientId}
+            />
+            <DownloadMenu
+              getDocument={getCurrentDocument}
+              createPdf={(input) =>
+                share
+                  ? exportSharedPdf(share.token, input)
+                  : exportPdf(documentId, input)
+              }
+            />
+            {!share && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setShareOpen(true)}
+                  className="h-9 rounded-xl px-3 text-[13px] font-medium bg-black/3 hover:bg-black/5 ring-1 ring-black/6 transition"
+                >
+                  Share
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPublishOpen(true)}
+                  className="h-9 rounded-xl px-3 text-[13px] font-medium bg-blue-600/90 hover:bg-blue-600 text-white ring-1 ring-blue-600/30 transition"
+                >
+                  Publish
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </header>
+
+      {/* Main */}
+      <main className="relative pt-16">
+        <div className="mx-auto max-w-[1720px] px-6 lg:px-10 py-10">
+          {share && share.role !== "editor" && (
+            <div className="mb-6 rounded-2xl bg-black/3 px-4 py-3 text-[13px] text-slate-600 ring-1 ring-black/6">
+              {share.role === "viewer"
+                ? "보기 전용 링크로 열린 문서입니다."
+                : "댓글만 남길 수 있는 링크로 열린 문서입니다. 본문을 선택해 댓글을 달 수 있습니다."}
+            </div>
+          )}
+
+          {doc?.deletedAt && (
+            <div className="mb-6 flex items-center justify-between gap-3 rounded-2xl bg-amber-500/10 px-4 py-3 text-[13px] text-amber-900 ring-1 ring-amber-500/20">
+              <span>이 문서는 휴지통에 있습니다.</span>
+              <button
+                type="button"
+                onClick={handleRestore}
+                className="h-8 rounded-lg px-3 text-[12px] font-medium bg-white/70 hover:bg-white ring-1 ring-black/6 transition"
+              >
+                복원
+              </button>
+            </div>
+          )}
+
+          {/* Responsive layout:
+              - 2xl: 3 columns (editor + comments + panel)
+              - xl: 2 columns (editor + comments/panel stacked)
+              - smaller: panels collapse under editor
+          */}
+          <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,1fr)_380px] 2xl:grid-cols-[minmax(0,1fr)_320px_380px] gap-8">
+            {/* Editor column */}
+            <section className="min-w-0 xl:row-span-2 2xl:row-span-1">
+              {/* Canvas shell: looks like modern doc page */}
+              <div
+                className={cx(
+                  "rounded-[28px]",
+                  "border border-black/6",
+                  "bg-white/80 backdrop-blur",
+                  "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_30px_90px_-70px_rgba(0,0,0,0.55)]"
+                )}
+              >
+                {/* Top padding to feel like page */}
+                <div className="px-5 md:px-7 lg:px-8 py-5">
+                  {editorReady ? (
+                    <DocEditor
+                      key={documentId ?? shareToken}
+                      initialContent={doc.content}
+                      onContentChange={handleContentChange}
+                      onDocumentChange={
+                        // 댓글 권한은 댓글 마크만 저장한다 (공동 편집이면 Y.Doc으로)
+                        !readOnly ||
+                        (canComment && !isCollaborationEnabled)
+                          ? handleDocumentChange
+                          : undefined
+                      }
+                      onTraceEvent={readOnly ? undefined : recordTraceEvent}
+                      showProvenance={showProvenance}
+                      collaboration={collaboration}
+                      followClientId={followed?.clientId ?? null}
+                      editable={!readOnly}
+                      onEditorReady={setEditor}
+                      mentions={mentions}
+                      documentId={documentId ?? null}
+                    />
+                  ) : (
+                    <div className="min-h-[720px] flex items-center justify-center text-[13px] text-slate-500">
+                      {loadError
+                        ? "문서를 불러오지 못했습니다. 새로고침 해주세요."
+                        : doc
+                          ? "공동 편집 서버에 연결하는 중…"
+                          : "문서를 불러오는 중…"}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </section>
+
+            {/* Suggested changes + comments rail */}
+            <div className="min-w-0">
+              <div className="2xl:sticky 2xl:top-24 space-y-4">
+                <SuggestedChangesPanel editor={editor} canResolve={!readOnly} />
+                <CommentsRail
+                  editor={editor}
+                  target={target}
+                  canComment={canComment}
+                />
+              </div>
+            </div>
+
+            {/* Suggestions panel */}
+            <aside className="min-w-0">
+              <div className="xl:sticky xl:top-24 space-y-4">
+                <OutlinePanel editor={editor} canReorder={!readOnly} />
+                {showProvenance && provenance ? (
+                  <ProvenancePanel stats={provenance} />
+                ) : (
+                  <SuggestionsPanel
+                    contentLength={contentLength}
+                    paragraphCount={paragraphCount}
+                  />
+                )}
+              </div>
+
+              {/* Mobile hint (optional) */}
+              <div className="mt-3 xl:hidden text-[12px] text-slate-500 text-center">
+                큰 화면에서 추천 패널이 오른쪽에 고정됩니다.
+              </div>
+            </aside>
+          </div>
+        </div>
+      </main>
+
+      {shareOpen && documentId && (
+        <ShareDialog
+          documentId={documentId}
+          onClose={() => setShareOpen(false)}
+        />
+      )}
+
+      {publishOpen && documentId && (
+        <PublishDialog
+          documentId={documentId}
+          onBeforePublish={flush}
+          onClose={() => setPublishOpen(false)}
+        />
+      )}
+
+      {historyOpen && documentId && (
+        <VersionHistoryDialog
+          documentId={documentId}
+          getCurrent={getCurrentDocument}
+          onBeforeSnapshot={flush}
+          onRestore={handleRestoreVersion}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
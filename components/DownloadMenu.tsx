@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Download } from "lucide-react";
+import type { JSONContent } from "@tiptap/core";
+import { documentFileName, downloadBlob } from "@/lib/documents/download";
+import { documentToDocx } from "@/lib/docx/export";
+import { loadDocxImage } from "@/lib/docx/images";
+import { DOCX_MIME_TYPE } from "@/lib/docx/styles";
+import type { PdfExportInput } from "@/lib/pdf/validate";
+import PdfExportDialog from "./PdfExportDialog";
+import { documentToMarkdown } from "@/lib/markdown/serialize";
+
+interface DownloadMenuProps {
+  createPdf: (input: PdfExportInput) => Promise<Blob>;
+  /** 내려받는 순간의 제목과 본문 (편집기에 보이는 내용) */
+  getDocument: () => { title: string; content: JSONContent } | null;
+}
+
+interface DownloadFormat {
+  label: string;
+  description: string;
+  download: (doc: { title: string; content: JSONContent }) => void | Promise<void>;
+}
+
+const FORMATS: DownloadFormat[] = [
+  {
+    label: "Markdown (.md)",
+    description: "글자 색·셀 배경색·정렬·이미지 크기는 빠집니다",
+    download: ({ title, content }) =>
+      downloadBlob(
+        new Blob([documentToMarkdown(content)], {
+          type: "text/markdown;charset=utf-8",
+        }),
+        documentFileName(title, "md")
+      ),
+  },
+  {
+    label: "Word (.docx)",
+    description: "코드 블록 언어와 댓글은 빠집니다",
+    download: async ({ title, content }) => {
+      const bytes = await documentToDocx(content, {
+        title,
+        loadImage: loadDocxImage,
+        resolveUrl: (href) => new URL(href, window.location.origin).toString(),
+      });
+      downloadBlob(
+        new Blob([bytes as Uint8Array<ArrayBuffer>], { type: DOCX_MIME_TYPE }),
+        documentFileName(title, "docx")
+      );
+    },
+  },
+];
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+export default function DownloadMenu({
+  createPdf,
+  getDocument,
+}: DownloadMenuProps) {
+  const [open, setOpen] = useState(false);
+  // PDF는 쪽 설정을 고른 뒤 서버에서 만든다
+  const [pdfOpen, setPdfOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // 바깥을 누르거나 Escape로 닫는다
+  useEffect(() => {
+    if (!open) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    window.addEventListener("mousedown", handleMouseDown);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("mousedown", handleMouseDown);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [open]);
+
+  const handleSelect = (format: DownloadFormat) => {
+    const doc = getDocument();
+    setOpen(false);
+    if (!doc) return;
+    Promise.resolve(format.download(doc)).catch(() => {
+      window.alert(`${format.label} 파일을 만들지 못했습니다.`);
+    });
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        title="내려받기"
+        className={cx(
+          "h-9 inline-flex items-center gap-1.5 rounded-xl px-3 text-[13px] font-medium transition",
+          open ? "bg-black/5" : "hover:bg-black/4"
+        )}
+      >
+        <Download className="h-4 w-4" />
+        Download
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          className={cx(
+            "absolute right-0 top-11 z-[60] w-64",
+            "rounded-xl border border-black/6",
+            "bg-white/95 backdrop-blur-xl",
+            "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_50px_-30px_rgba(0,0,0,0.45)]",
+            "p-1.5"
+          )}
+        >
+          {FORMATS.map((format) => (
+            <button
+              key={format.label}
+              type="button"
+              role="menuitem"
+              onClick={() => handleSelect(format)}
+              className="w-full rounded-lg px-3 py-2 text-left hover:bg-black/4 transition"
+            >
+              <div className="text-[13px] font-medium text-slate-900">
+                {format.label}
+              </div>
+              <div className="mt-0.5 text-[11px] text-slate-500">
+                {format.description}
+              </div>
+            </button>
+          ))}
+          <button
+            type="button"
+            role="menuitem"
+            onClick={() => {
+              setOpen(false);
+              setPdfOpen(true);
+            }}
+            className="w-full rounded-lg px-3 py-2 text-left hover:bg-black/4 transition"
+          >
+            <div className="text-[13px] font-medium text-slate-900">
+              PDF (.pdf)…
+            </div>
+            <div className="mt-0.5 text-[11px] text-slate-500">
+              용지·여백·표지·목차·쪽 번호를 골라 인쇄용으로
+            </div>
+          </button>
+        </div>
+      )}
+
+      {pdfOpen && (
+        <PdfExportDialog
+          createPdf={createPdf}
+          getDocument={getDocument}
+          onClose={() => setPdfOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
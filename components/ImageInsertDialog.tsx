@@ -0,0 +1,253 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Editor } from "@tiptap/react";
+import { ImagePlus } from "lucide-react";
+import { uploadFiles } from "@/components/editor/uploadFiles";
+import InsertPopover from "@/components/InsertPopover";
+import { INLINE_MIME_TYPES } from "@/lib/files/policy";
+
+interface ImageInsertDialogProps {
+  editor: Editor;
+  onClose: () => void;
+}
+
+type ImageSource = "file" | "url";
+
+interface FilePreview {
+  file: File;
+  url: string;
+}
+
+interface UrlPreview {
+  src: string;
+  width: number;
+  height: number;
+}
+
+// 에셋 파이프라인이 받는 형식만 고르게 한다
+const IMAGE_ACCEPT = Array.from(INLINE_MIME_TYPES).join(",");
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function normalizeImageUrl(input: string) {
+  const text = input.trim();
+  if (!/^https?:\/\//i.test(text)) return null;
+  try {
+    return new URL(text).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 이미지 넣기: 파일을 고르거나 주소를 붙여넣고, 미리보기를 확인한 뒤 넣는다.
+ * 파일은 붙여넣기/끌어놓기와 같은 업로드 과정을 거친다.
+ */
+export default function ImageInsertDialog({
+  editor,
+  onClose,
+}: ImageInsertDialogProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<ImageSource>("file");
+  const [files, setFiles] = useState<FilePreview[]>([]);
+  const [url, setUrl] = useState("");
+  const [alt, setAlt] = useState("");
+  // 미리보기를 불러온 결과 (주소가 바뀌면 다시)
+  const [loaded, setLoaded] = useState<
+    { src: string; preview: UrlPreview | null } | null
+  >(null);
+
+  const src = normalizeImageUrl(url);
+  const preview = loaded && loaded.src === src ? loaded.preview : null;
+  const failed = !!src && loaded?.src === src && !loaded.preview;
+
+  useEffect(
+    () => () => files.forEach((item) => URL.revokeObjectURL(item.url)),
+    [files]
+  );
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (selected.length === 0) return;
+    setFiles(
+      selected.map((file) => ({ file, url: URL.createObjectURL(file) }))
+    );
+  };
+
+  const handleInsert = () => {
+    if (source === "file") {
+      if (files.length === 0) return;
+      editor.commands.focus();
+      uploadFiles(
+        editor,
+        files.map((item) => item.file)
+      );
+    } else {
+      if (!preview) return;
+      editor
+        .chain()
+        .focus()
+        .setImage({
+          src: preview.src,
+          alt: alt.trim() || undefined,
+          width: preview.width,
+          height: preview.height,
+        })
+        .run();
+    }
+    onClose();
+  };
+
+  const ready = source === "file" ? files.length > 0 : !!preview;
+
+  return (
+    <InsertPopover
+      editor={editor}
+      title="이미지"
+      size={source === "file" ? files.length : preview ? 1 : 0}
+      onClose={onClose}
+    >
+      <div className="grid grid-cols-2 gap-1 rounded-xl bg-black/3 p-1">
+        {(
+          [
+            { value: "file", label: "파일 올리기" },
+            { value: "url", label: "주소로 넣기" },
+          ] as const
+        ).map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            aria-pressed={source === value}
+            onClick={() => setSource(value)}
+            className={cx(
+              "rounded-lg px-2 py-1.5 text-[12px] font-medium transition",
+              source === value
+                ? "bg-white text-blue-700 ring-1 ring-black/6"
+                : "text-slate-600 hover:bg-black/4"
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <form
+        className="mt-2.5"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleInsert();
+        }}
+      >
+        {source === "file" ? (
+          <>
+            <input
+              ref={inputRef}
+              type="file"
+              accept={IMAGE_ACCEPT}
+              multiple
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+            {files.length === 0 ? (
+              <button
+                type="button"
+                onClick={() => inputRef.current?.click()}
+                className="flex h-28 w-full flex-col items-center justify-center gap-1.5 rounded-lg border border-dashed border-black/15 text-[12px] text-slate-500 hover:bg-black/3 transition"
+              >
+                <ImagePlus className="h-5 w-5" />
+                이미지 파일 고르기
+              </button>
+            ) : (
+              <>
+                <div className="grid max-h-56 grid-cols-3 gap-1.5 overflow-y-auto">
+                  {files.map((item) => (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      key={item.url}
+                      src={item.url}
+                      alt={item.file.name}
+                      title={item.file.name}
+                      className="aspect-square w-full rounded-lg object-cover ring-1 ring-black/6"
+                    />
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => inputRef.current?.click()}
+                  className="mt-1.5 text-[11px] text-blue-600 hover:underline"
+                >
+                  다른 파일 고르기
+                </button>
+              </>
+            )}
+          </>
+        ) : (
+          <>
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://…/image.png"
+              autoFocus
+              className="h-9 w-full rounded-xl bg-white px-3 text-[12px] ring-1 ring-black/6 outline-none placeholder:text-slate-400 focus:ring-2 focus:ring-blue-500/20"
+            />
+            {url.trim() !== "" && !src && (
+              <p className="mt-1.5 text-[11px] text-red-600">
+                http:// 또는 https://로 시작하는 주소를 입력하세요.
+              </p>
+            )}
+            {failed && (
+              <p className="mt-1.5 text-[11px] text-red-600">
+                이 주소에서 이미지를 불러오지 못했습니다.
+              </p>
+            )}
+            {src && !failed && (
+              <div className="mt-2.5 flex max-h-56 items-center justify-center overflow-hidden rounded-lg bg-slate-100 ring-1 ring-black/6">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  key={src}
+                  src={src}
+                  alt={alt}
+                  onLoad={(e) =>
+                    setLoaded({
+                      src,
+                      preview: {
+                        src,
+                        width: e.currentTarget.naturalWidth,
+                        height: e.currentTarget.naturalHeight,
+                      },
+                    })
+                  }
+                  onError={() => setLoaded({ src, preview: null })}
+                  className="max-h-56 w-auto object-contain"
+                />
+              </div>
+            )}
+            <input
+              value={alt}
+              onChange={(e) => setAlt(e.target.value)}
+              placeholder="대체 텍스트 (화면 낭독기용, 선택)"
+              className="mt-2 h-9 w-full rounded-xl bg-white px-3 text-[12px] ring-1 ring-black/6 outline-none placeholder:text-slate-400 focus:ring-2 focus:ring-blue-500/20"
+            />
+          </>
+        )}
+
+        <div className="mt-3 flex justify-end">
+          <button
+            type="submit"
+            disabled={!ready}
+            className="h-8 rounded-xl px-3 text-[12px] font-medium bg-blue-600/90 hover:bg-blue-600 text-white ring-1 ring-blue-600/30 disabled:opacity-50 transition"
+          >
+            {source === "file" && files.length > 1
+              ? `${files.length}개 넣기`
+              : "넣기"}
+          </button>
+        </div>
+      </form>
+    </InsertPopover>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { posToDOMRect } from "@tiptap/core";
+import type { Editor } from "@tiptap/react";
+import { X } from "lucide-react";
+import { useCaretPopover } from "@/hooks/useCaretPopover";
+
+interface InsertPopoverProps {
+  editor: Editor;
+  title: string;
+  /** 미리보기가 생기는 등 높이가 바뀌면 달라지는 값 (위치를 다시 잡는다) */
+  size: number;
+  onClose: () => void;
+  children: React.ReactNode;
+}
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+/**
+ * 이미지/YouTube 넣기 창의 틀. 넣을 자리(열 때의 커서) 아래에 붙고,
+ * 바깥을 누르거나 Escape로 닫는다 (Escape는 편집기로 돌아간다).
+ */
+export default function InsertPopover({
+  editor,
+  title,
+  size,
+  onClose,
+  children,
+}: InsertPopoverProps) {
+  const [clientRect] = useState(() => {
+    const { from } = editor.state.selection;
+    return () => posToDOMRect(editor.view, from, from);
+  });
+  const popoverRef = useCaretPopover<HTMLDivElement>(clientRect, size);
+
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!popoverRef.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      onClose();
+      editor.commands.focus();
+    };
+    window.addEventListener("mousedown", handleMouseDown);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("mousedown", handleMouseDown);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [editor, popoverRef, onClose]);
+
+  return createPortal(
+    <div
+      ref={popoverRef}
+      role="dialog"
+      aria-label={title}
+      className={cx(
+        "fixed z-[60] w-[360px]",
+        "rounded-xl border border-black/6",
+        "bg-white/95 backdrop-blur-xl",
+        "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_50px_-30px_rgba(0,0,0,0.45)]",
+        "p-3"
+      )}
+      style={{ top: -9999, left: -9999 }}
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="text-[13px] font-semibold text-slate-900">{title}</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          title="닫기"
+          className="rounded-lg p-1 text-slate-500 hover:bg-black/4 transition"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="mt-2.5">{children}</div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { posToDOMRect } from "@tiptap/core";
+import { useEditorState, type Editor } from "@tiptap/react";
+import type { Transaction } from "@tiptap/pm/state";
+import { ExternalLink, Pencil, Unlink } from "lucide-react";
+import {
+  getLinkAt,
+  getLinkTarget,
+  normalizeLinkUrl,
+  setLinkAt,
+  unsetLinkAt,
+  type LinkRange,
+} from "@/components/editor/links";
+import { useCaretPopover } from "@/hooks/useCaretPopover";
+
+interface LinkPopoverProps {
+  editor: Editor;
+  /** true면 링크를 걸거나 고치는 입력 창, 아니면 커서가 링크 안에 있을 때의 미리보기 */
+  editing: boolean;
+  onEditingChange: (editing: boolean) => void;
+}
+
+const popoverClass = [
+  "fixed z-[60]",
+  "rounded-xl border border-black/6",
+  "bg-white/95 backdrop-blur-xl",
+  "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_50px_-30px_rgba(0,0,0,0.45)]",
+].join(" ");
+
+const inputClass =
+  "h-9 w-full rounded-xl bg-white px-3 text-[12px] ring-1 ring-black/6 outline-none placeholder:text-slate-400 focus:ring-2 focus:ring-blue-500/20 disabled:bg-black/3 disabled:text-slate-500";
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function openLink(href: string) {
+  window.open(href, "_blank", "noopener,noreferrer");
+}
+
+/** 커서가 링크 안에 있을 때: 주소 보기, 열기, 고치기, 링크 해제 */
+function LinkPreview({
+  editor,
+  link,
+  onEdit,
+}: {
+  editor: Editor;
+  link: LinkRange & { href: string };
+  onEdit: () => void;
+}) {
+  const { from, to, href } = link;
+  const clientRect = useCallback(
+    () => posToDOMRect(editor.view, from, to),
+    [editor, from, to]
+  );
+  const popoverRef = useCaretPopover<HTMLDivElement>(clientRect, 0);
+
+  const unlink = () => {
+    editor.view.dispatch(unsetLinkAt(editor.state, link));
+    editor.commands.focus();
+  };
+
+  return createPortal(
+    <div
+      ref={popoverRef}
+      role="dialog"
+      aria-label="링크"
+      className={cx(popoverClass, "flex max-w-[360px] items-center gap-1 p-1")}
+      style={{ top: -9999, left: -9999 }}
+      // 눌러도 편집기 커서가 그대로 있게 (커서가 링크를 벗어나면 닫힌다)
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={href}
+        className="min-w-0 flex-1 truncate px-2 text-[12px] text-blue-600 hover:underline"
+      >
+        {href}
+      </a>
+      <button
+        type="button"
+        title="링크 열기"
+        onClick={() => openLink(href)}
+        className="rounded-lg p-1.5 text-slate-600 hover:bg-black/4 transition"
+      >
+        <ExternalLink className="h-4 w-4" />
+      </button>
+      <button
+        type="button"
+        title="링크 고치기 (Ctrl+K)"
+        onClick={onEdit}
+        className="rounded-lg p-1.5 text-slate-600 hover:bg-black/4 transition"
+      >
+        <Pencil className="h-4 w-4" />
+      </button>
+      <button
+        type="button"
+        title="링크 해제"
+        onClick={unlink}
+        className="rounded-lg p-1.5 text-slate-600 hover:bg-black/4 transition"
+      >
+        <Unlink className="h-4 w-4" />
+      </button>
+    </div>,
+    document.body
+  );
+}
+
+/** 링크를 걸거나 고치는 창: 주소와 보이는 글자 */
+function LinkForm({ editor, onDone }: { editor: Editor; onDone: () => void }) {
+  // 창을 여는 순간의 구간 (링크 안이면 링크 전체, 아니면 선택)
+  const [target, setTarget] = useState(() => getLinkTarget(editor.state));
+  const [href, setHref] = useState(target.href ?? "");
+  const [text, setText] = useState(target.text);
+  const [invalid, setInvalid] = useState(false);
+  // 여러 문단에 걸친 선택은 글자를 바꾸면 문단이 합쳐지므로 주소만 고친다
+  const [singleBlock] = useState(() =>
+    editor.state.doc.resolve(target.from).sameParent(editor.state.doc.resolve(target.to))
+  );
+  const { from, to } = target;
+  const clientRect = useCallback(
+    () => posToDOMRect(editor.view, from, to),
+    [editor, from, to]
+  );
+  const popoverRef = useCaretPopover<HTMLDivElement>(clientRect, invalid ? 1 : 0);
+
+  // 창이 열려 있는 동안 다른 사람이 고쳐도 같은 구간을 가리키게
+  useEffect(() => {
+    const handleTransaction = ({ transaction }: { transaction: Transaction }) => {
+      if (!transaction.docChanged) return;
+      setTarget((current) => {
+        const nextFrom = transaction.mapping.map(current.from);
+        const nextTo = Math.max(nextFrom, transaction.mapping.map(current.to, -1));
+        return { ...current, from: nextFrom, to: nextTo };
+      });
+    };
+    editor.on("transaction", handleTransaction);
+    return () => {
+      editor.off("transaction", handleTransaction);
+    };
+  }, [editor]);
+
+  // 바깥을 누르면 닫고, Escape는 편집기로 돌아간다
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!popoverRef.current?.contains(e.target as Node)) onDone();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      onDone();
+      editor.commands.focus();
+    };
+    window.addEventListener("mousedown", handleMouseDown);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("mousedown", handleMouseDown);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [editor, popoverRef, onDone]);
+
+  const finish = (tr: Transaction) => {
+    editor.view.dispatch(tr);
+    editor.commands.focus();
+    onDone();
+  };
+
+  const handleSubmit = () => {
+    const url = normalizeLinkUrl(href);
+    if (!url) {
+      setInvalid(true);
+      return;
+    }
+    // 글자를 비워 두면 원래 글자, 그것도 없으면 주소를 보여준다
+    const label = singleBlock && text.trim() ? text : target.text || url;
+    finish(setLinkAt(editor.state, target, { href: url, text: label }));
+  };
+
+  return createPortal(
+    <div
+      ref={popoverRef}
+      role="dialog"
+      aria-label={target.href ? "링크 고치기" : "링크 걸기"}
+      className={cx(popoverClass, "w-[320px] p-3")}
+      style={{ top: -9999, left: -9999 }}
+    >
+      <form
+        className="space-y-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSubmit();
+        }}
+      >
+        <div>
+          <input
+            value={href}
+            onChange={(e) => {
+              setHref(e.target.value);
+              setInvalid(false);
+            }}
+            placeholder="주소 (https://…, 메일 주소)"
+            aria-label="링크 주소"
+            aria-invalid={invalid}
+            autoFocus
+            className={cx(inputClass, invalid && "ring-red-500/40")}
+          />
+          {invalid && (
+            <p className="mt-1.5 text-[11px] text-red-600">
+              웹 주소, 메일 주소 또는 /로 시작하는 문서 주소를 입력하세요.
+            </p>
+          )}
+        </div>
+        <input
+          value={singleBlock ? text : ""}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={singleBlock ? "보이는 글자" : "여러 문단에 걸친 링크는 주소만 고칩니다"}
+          aria-label="보이는 글자"
+          disabled={!singleBlock}
+          className={inputClass}
+        />
+        <div className="flex items-center justify-between gap-2 pt-1">
+          {target.href ? (
+            <button
+              type="button"
+              onClick={() => finish(unsetLinkAt(editor.state, target))}
+              className="inline-flex items-center gap-1.5 rounded-lg px-2 py-1.5 text-[12px] text-red-600 hover:bg-red-500/8 transition"
+            >
+              <Unlink className="h-3.5 w-3.5" />
+              링크 해제
+            </button>
+          ) : (
+            <span />
+          )}
+          <button
+            type="submit"
+            disabled={!href.trim()}
+            className="h-8 rounded-xl px-3 text-[12px] font-medium bg-blue-600/90 hover:bg-blue-600 text-white ring-1 ring-blue-600/30 disabled:opacity-50 transition"
+          >
+            {target.href ? "고치기" : "링크 걸기"}
+          </button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+}
+
+/**
+ * 링크 고치기. 커서가 링크 안에 들어가면 작은 미리보기가 뜨고,
+ * 툴바/선택 메뉴의 링크 버튼이나 Ctrl/⌘+K로 입력 창을 연다.
+ */
+export default function LinkPopover({
+  editor,
+  editing,
+  onEditingChange,
+}: LinkPopoverProps) {
+  const link = useEditorState({
+    editor,
+    selector: ({ editor }) =>
+      editor.isFocused && editor.state.selection.empty
+        ? getLinkAt(editor.state)
+        : null,
+    equalityFn: (a, b) => JSON.stringify(a) === JSON.stringify(b),
+  });
+
+  if (editing) {
+    return <LinkForm editor={editor} onDone={() => onEditingChange(false)} />;
+  }
+  if (!link?.href) return null;
+  return (
+    <LinkPreview
+      editor={editor}
+      link={{ ...link, href: link.href }}
+      onEdit={() => onEditingChange(true)}
+    />
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import type { Editor } from "@tiptap/react";
+import { FileText } from "lucide-react";
+import {
+  attachMentionMenuKeys,
+  closeMentionMenu,
+  createMentionId,
+  type MentionMenuState,
+} from "@/components/editor/Mention";
+import { fuzzyScore } from "@/lib/fuzzy";
+import { DEFAULT_DOCUMENT_TITLE, type DocumentSummary } from "@/lib/documents/types";
+import type { UserProfile } from "@/lib/users/types";
+import { useCaretPopover } from "@/hooks/useCaretPopover";
+
+// 한 번에 보여줄 후보 수
+const MAX_ITEMS = 8;
+
+export interface MentionDirectory {
+  people: UserProfile[];
+  /** null이면 문서 멘션("[[", "#")을 쓰지 않는다 (공유 링크로 연 사람) */
+  documents: DocumentSummary[] | null;
+  /** 사람을 멘션했을 때 (알림 보내기) */
+  onMentionPerson: (input: {
+    userId: string;
+    mentionId: string;
+    excerpt: string;
+  }) => void;
+}
+
+interface MentionMenuProps {
+  editor: Editor;
+  state: MentionMenuState;
+  directory: MentionDirectory;
+}
+
+interface MentionCandidate {
+  id: string;
+  label: string;
+  color?: string;
+}
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+export default function MentionMenu({
+  editor,
+  state,
+  directory,
+}: MentionMenuProps) {
+  // 검색어가 바뀌면 첫 항목부터 다시 고른다
+  const [selection, setSelection] = useState({ query: state.query, index: 0 });
+  const selectedIndex = selection.query === state.query ? selection.index : 0;
+
+  const visible = useMemo(() => {
+    const candidates: MentionCandidate[] =
+      state.kind === "person"
+        ? directory.people.map(({ id, name, color }) => ({
+            id,
+            label: name,
+            color,
+          }))
+        : (directory.documents ?? []).map(({ id, title }) => ({
+            id,
+            label: title || DEFAULT_DOCUMENT_TITLE,
+          }));
+
+    // 점수가 같으면 원래 순서 (사람은 최근에 본 순, 문서는 최근에 고친 순)
+    return candidates
+      .flatMap((candidate, order) => {
+        const score = fuzzyScore(state.query, candidate.label);
+        return score === null ? [] : [{ candidate, order, score }];
+      })
+      .sort((a, b) => b.score - a.score || a.order - b.order)
+      .slice(0, MAX_ITEMS)
+      .map(({ candidate }) => candidate);
+  }, [directory, state.kind, state.query]);
+
+  const menuRef = useCaretPopover<HTMLDivElement>(
+    state.clientRect,
+    visible.length
+  );
+
+  const select = (candidate: MentionCandidate) => {
+    const mentionId = createMentionId();
+    state.command({
+      kind: state.kind,
+      id: candidate.id,
+      label: candidate.label,
+      mentionId,
+    });
+    if (state.kind === "person") {
+      directory.onMentionPerson({
+        userId: candidate.id,
+        mentionId,
+        excerpt: editor.state.selection.$from.parent.textContent,
+      });
+    }
+  };
+
+  useEffect(() =>
+    attachMentionMenuKeys(editor, (event) => {
+      const move = (delta: number) => {
+        if (visible.length === 0) return;
+        setSelection({
+          query: state.query,
+          index: (selectedIndex + delta + visible.length) % visible.length,
+        });
+      };
+
+      switch (event.key) {
+        case "ArrowDown":
+          move(1);
+          return true;
+        case "ArrowUp":
+          move(-1);
+          return true;
+        case "Enter":
+        case "Tab": {
+          const candidate = visible[selectedIndex];
+          // 맞는 항목이 없으면 Enter는 평소처럼 줄을 바꾼다
+          if (!candidate) return false;
+          select(candidate);
+          return true;
+        }
+        default:
+          return false;
+      }
+    })
+  );
+
+  // 편집기 밖을 누르면 닫는다 (메뉴 안은 mousedown을 막아서 포커스가 그대로다)
+  useEffect(() => {
+    const handleBlur = () => closeMentionMenu(editor);
+    editor.on("blur", handleBlur);
+    return () => {
+      editor.off("blur", handleBlur);
+    };
+  }, [editor]);
+
+  useEffect(() => {
+    menuRef.current
+      ?.querySelector(".suggestion-item.is-selected")
+      ?.scrollIntoView({ block: "nearest" });
+  }, [menuRef, selectedIndex, state.query]);
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      role="listbox"
+      aria-label={state.kind === "person" ? "사람 멘션" : "문서 링크"}
+      className="suggestion-list"
+      style={{ top: -9999, left: -9999 }}
+      // 메뉴를 눌러도 편집기 커서가 그대로 있게
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {visible.length === 0 ? (
+        <div className="px-3 py-2.5 text-[13px] text-(--text-muted)">
+          {state.kind === "person" ? "맞는 사람이 없습니다" : "맞는 문서가 없습니다"}
+        </div>
+      ) : (
+        visible.map((candidate, index) => (
+          <button
+            key={candidate.id}
+            type="button"
+            role="option"
+            aria-selected={index === selectedIndex}
+            className={cx(
+              "suggestion-item",
+              index === selectedIndex && "is-selected"
+            )}
+            onMouseEnter={() => setSelection({ query: state.query, index })}
+            onClick={() => select(candidate)}
+          >
+            {state.kind === "person" ? (
+              <span
+                className="h-2.5 w-2.5 shrink-0 rounded-full"
+                style={{ backgroundColor: candidate.color }}
+              />
+            ) : (
+              <FileText className="h-4 w-4 shrink-0" />
+            )}
+            <span className="min-w-0 truncate text-[13px] font-medium">
+              {candidate.label}
+            </span>
+          </button>
+        ))
+      )}
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Bell } from "lucide-react";
+import { getLocalIdentity } from "@/lib/collab/presence";
+import { documentHref, mentionHash } from "@/lib/mentions/content";
+import {
+  fetchNotifications,
+  markNotificationsRead,
+} from "@/lib/notifications/client";
+import type { Notification } from "@/lib/notifications/types";
+import { registerUser } from "@/lib/users/client";
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function formatNotifiedAt(iso: string) {
+  const diff = Date.now() - new Date(iso).getTime();
+  const minutes = Math.floor(diff / 60_000);
+  if (minutes < 1) return "방금 전";
+  if (minutes < 60) return `${minutes}분 전`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}시간 전`;
+  return new Date(iso).toLocaleDateString();
+}
+
+// 공유 링크에서 받은 멘션은 그 공유 링크로 연다 (알림에 문서 id가 없다)
+function notificationHref(item: Notification) {
+  const page =
+    item.documentId === undefined
+      ? `/s/${item.shareToken}`
+      : documentHref(item.documentId);
+  return `${page}${mentionHash(item.mentionId)}`;
+}
+
+async function loadOwnNotifications() {
+  const identity = getLocalIdentity();
+  // 한 번도 문서를 열지 않았어도 멘션 후보에 보이도록
+  await registerUser(identity);
+  return fetchNotifications(identity.id);
+}
+
+/** 나를 멘션한 알림 (이 브라우저의 신원 기준) */
+export default function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const unread = notifications.filter((item) => !item.readAt).length;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const loaded = await loadOwnNotifications();
+        if (!cancelled) setNotifications(loaded);
+      } catch {
+        // 알림을 못 불러오면 빈 목록으로 둔다
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // 바깥을 누르거나 Escape로 닫는다
+  useEffect(() => {
+    if (!open) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    window.addEventListener("mousedown", handleMouseDown);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("mousedown", handleMouseDown);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [open]);
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      setNotifications(
+        await markNotificationsRead(getLocalIdentity().id, ids)
+      );
+    } catch {
+      // 다음에 열 때 다시 읽지 않음으로 보인다
+    }
+  };
+
+  // 열 때마다 새로 받아 온다
+  const toggle = () => {
+    if (!open) {
+      loadOwnNotifications()
+        .then(setNotifications)
+        .catch(() => {});
+    }
+    setOpen((v) => !v);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={toggle}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        title="알림"
+        className={cx(
+          "relative h-9 w-9 inline-flex items-center justify-center rounded-xl transition",
+          open ? "bg-black/5" : "hover:bg-black/4"
+        )}
+      >
+        <Bell className="h-4 w-4" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-rose-500 text-white text-[10px] font-semibold leading-[18px] text-center">
+            {unread > 99 ? "99+" : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          className={cx(
+            "absolute right-0 top-11 z-[60] w-80",
+            "rounded-xl border border-black/6",
+            "bg-white/95 backdrop-blur-xl",
+            "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_50px_-30px_rgba(0,0,0,0.45)]",
+            "p-1.5"
+          )}
+        >
+          <div className="flex items-center justify-between px-3 pt-1.5 pb-2">
+            <span className="text-[12px] font-semibold text-slate-900">
+              알림
+            </span>
+            {unread > 0 && (
+              <button
+                type="button"
+                onClick={() => markRead()}
+                className="text-[11px] font-medium text-blue-600 hover:text-blue-700"
+              >
+                모두 읽음
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <div className="px-3 py-6 text-center text-[12px] text-slate-500">
+              아직 알림이 없습니다.
+            </div>
+          ) : (
+            <div className="max-h-[360px] overflow-y-auto">
+              {notifications.map((item) => (
+                <Link
+                  key={item.id}
+                  role="menuitem"
+                  href={notificationHref(item)}
+                  onClick={() => {
+                    setOpen(false);
+                    if (!item.readAt) markRead([item.id]);
+                  }}
+                  className={cx(
+                    "flex gap-2.5 rounded-lg px-3 py-2 hover:bg-black/4 transition",
+                    !item.readAt && "bg-blue-500/5"
+                  )}
+                >
+                  <span
+                    className="mt-1 h-2.5 w-2.5 shrink-0 rounded-full"
+                    style={{ backgroundColor: item.actor.color }}
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-[13px] text-slate-900">
+                      <span className="font-medium">{item.actor.name}</span>
+                      님이{" "}
+                      <span className="font-medium">{item.documentTitle}</span>
+                      에서 회원님을 언급했습니다
+                    </span>
+                    {item.excerpt && (
+                      <span className="mt-0.5 block truncate text-[12px] text-slate-500">
+                        {item.excerpt}
+                      </span>
+                    )}
+                    <span className="mt-0.5 block text-[11px] text-slate-400">
+                      {formatNotifiedAt(item.createdAt)}
+                    </span>
+                  </span>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
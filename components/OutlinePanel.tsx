@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useEditorState, type Editor } from "@tiptap/react";
+import { GripVertical } from "lucide-react";
+import {
+  getOutline,
+  goToHeading,
+  moveSection,
+} from "@/components/editor/outline";
+import { getSuggestingAuthor } from "@/components/editor/SuggestChanges";
+
+interface OutlinePanelProps {
+  editor: Editor | null;
+  /** 편집 권한이 있어야 섹션을 끌어서 옮길 수 있다 */
+  canReorder: boolean;
+}
+
+// 고정 헤더 + sticky 툴바 아래에서 제목이 지나가면 그 섹션을 읽는 중으로 본다
+const ACTIVE_OFFSET = 150;
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+/**
+ * 제목(H1–H3)으로 만든 문서 개요. 지금 보고 있는 섹션을 표시하고,
+ * 누르면 그 제목으로 가며, 끌어서 놓으면 섹션(제목 + 하위 내용)을 통째로 옮긴다.
+ * 제목이 없으면 아무것도 그리지 않는다.
+ */
+export default function OutlinePanel({ editor, canReorder }: OutlinePanelProps) {
+  // 위치는 글자를 칠 때마다 바뀌므로 목록에는 수준/글자만 두고, 쓸 때 다시 찾는다
+  const headings =
+    useEditorState({
+      editor,
+      selector: ({ editor }) =>
+        editor
+          ? getOutline(editor.state.doc).map(({ level, text }) => ({
+              level,
+              text,
+            }))
+          : [],
+      equalityFn: (a, b) => JSON.stringify(a) === JSON.stringify(b),
+    }) ?? [];
+  // 제안 모드에서는 블록 이동을 제안으로 남길 수 없어 막는다
+  const suggesting =
+    useEditorState({
+      editor,
+      selector: ({ editor }) => !!editor && !!getSuggestingAuthor(editor.state),
+    }) ?? false;
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const draggable = canReorder && !suggesting;
+  const hasHeadings = headings.length > 0;
+
+  // 스크롤 위치로 지금 섹션을 찾는다 (ACTIVE_OFFSET 위로 올라간 마지막 제목)
+  useEffect(() => {
+    if (!editor || !hasHeadings) return;
+
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const outline = getOutline(editor.state.doc);
+        let active = -1;
+        outline.forEach((item, index) => {
+          const dom = editor.view.nodeDOM(item.pos) as HTMLElement | null;
+          if (dom && dom.getBoundingClientRect().top <= ACTIVE_OFFSET) {
+            active = index;
+          }
+        });
+        setActiveIndex(active);
+      });
+    };
+
+    update();
+    window.addEventListener("scroll", update, true);
+    window.addEventListener("resize", update);
+    editor.on("update", update);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", update, true);
+      window.removeEventListener("resize", update);
+      editor.off("update", update);
+    };
+  }, [editor, hasHeadings]);
+
+  if (!editor || !hasHeadings) return null;
+
+  // 섹션 안쪽(자기 자신과 하위 제목 사이)으로는 옮길 수 없다
+  const canDropAt = (index: number) => {
+    if (dragIndex === null) return false;
+    const outline = getOutline(editor.state.doc);
+    const section = outline[dragIndex];
+    const target = outline[index]?.pos ?? editor.state.doc.content.size;
+    return !!section && (target < section.pos || target > section.end);
+  };
+
+  const handleDrop = () => {
+    if (dragIndex !== null && dropIndex !== null && canDropAt(dropIndex)) {
+      const outline = getOutline(editor.state.doc);
+      const target = outline[dropIndex]?.pos ?? editor.state.doc.content.size;
+      const tr = moveSection(editor.state, outline[dragIndex], target);
+      if (tr) {
+        editor.view.dispatch(tr);
+        editor.commands.focus(undefined, { scrollIntoView: false });
+      }
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const select = (index: number) => {
+    const item = getOutline(editor.state.doc)[index];
+    if (item) goToHeading(editor, item);
+  };
+
+  const topLevel = Math.min(...headings.map(({ level }) => level));
+  const showDrop = (index: number) =>
+    dropIndex === index && canDropAt(index);
+
+  return (
+    <aside
+      className={cx(
+        "max-h-[50vh] overflow-y-auto",
+        "rounded-2xl border border-black/6",
+        "bg-white/70 backdrop-blur-xl",
+        "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_60px_-55px_rgba(0,0,0,0.45)]",
+        "p-4"
+      )}
+    >
+      {/* Header */}
+      <span className="inline-flex items-center gap-1 rounded-full bg-black/4 px-2 py-1 text-[11px] font-medium text-slate-700 ring-1 ring-black/6">
+        <span className="inline-block h-1.5 w-1.5 rounded-full bg-indigo-500/70" />
+        Outline
+      </span>
+      <h2 className="mt-2 text-[15px] font-semibold text-slate-900 tracking-tight">
+        개요
+      </h2>
+
+      <ol
+        className="mt-3 space-y-0.5"
+        onDragOver={(e) => {
+          if (dragIndex === null) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = "move";
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleDrop();
+        }}
+      >
+        {headings.map((heading, index) => (
+          <li
+            key={index}
+            draggable={draggable}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move";
+              e.dataTransfer.setData("text/plain", heading.text);
+              setDragIndex(index);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            // 항목의 위쪽 절반이면 그 앞, 아래쪽 절반이면 그 뒤에 놓는다
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              const rect = e.currentTarget.getBoundingClientRect();
+              setDropIndex(
+                e.clientY < rect.top + rect.height / 2 ? index : index + 1
+              );
+            }}
+            className={cx(
+              "group relative flex items-center gap-1 rounded-lg",
+              dragIndex === index && "opacity-40",
+              showDrop(index) &&
+                "before:absolute before:-top-px before:inset-x-1 before:h-0.5 before:rounded-full before:bg-blue-500",
+              index === headings.length - 1 &&
+                showDrop(headings.length) &&
+                "after:absolute after:-bottom-px after:inset-x-1 after:h-0.5 after:rounded-full after:bg-blue-500"
+            )}
+            style={{ paddingLeft: (heading.level - topLevel) * 14 }}
+          >
+            {draggable && (
+              <GripVertical
+                aria-hidden="true"
+                className="h-3.5 w-3.5 shrink-0 cursor-grab text-slate-300 opacity-0 group-hover:opacity-100 transition"
+              />
+            )}
+            <button
+              type="button"
+              onClick={() => select(index)}
+              aria-current={index === activeIndex ? "location" : undefined}
+              className={cx(
+                "min-w-0 flex-1 truncate rounded-md px-2 py-1 text-left text-[13px] transition",
+                heading.level === topLevel && "font-medium",
+                index === activeIndex
+                  ? "bg-blue-500/10 text-blue-700"
+                  : "text-slate-700 hover:bg-black/4"
+              )}
+            >
+              {heading.text || "(제목 없음)"}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </aside>
+  );
+}
@@ -0,0 +1,10 @@
+// subtle background (landing page style)
+export default function PageBackground() {
+  return (
+    <div className="pointer-events-none fixed inset-0">
+      <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_top,rgba(59,130,246,0.10),transparent_55%)]" />
+      <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_bottom,rgba(0,0,0,0.05),transparent_55%)]" />
+      <div className="absolute inset-0 bg-[linear-gradient(to_bottom,rgba(255,255,255,0.85),rgba(255,255,255,0.9))]" />
+    </div>
+  );
+}
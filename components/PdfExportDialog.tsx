@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import type { JSONContent } from "@tiptap/core";
+import { documentFileName, downloadBlob } from "@/lib/documents/download";
+import {
+  DEFAULT_PDF_OPTIONS,
+  type PdfMargin,
+  type PdfOptions,
+  type PdfPageSize,
+} from "@/lib/pdf/types";
+import type { PdfExportInput } from "@/lib/pdf/validate";
+
+interface PdfExportDialogProps {
+  /** 문서 주인/공유 링크에 따라 다른 API로 만든다 */
+  createPdf: (input: PdfExportInput) => Promise<Blob>;
+  /** 만드는 순간의 제목과 본문 (편집기에 보이는 내용) */
+  getDocument: () => { title: string; content: JSONContent } | null;
+  onClose: () => void;
+}
+
+const PAGE_SIZE_LABELS: Record<PdfPageSize, string> = {
+  A4: "A4",
+  Letter: "Letter",
+};
+
+const MARGIN_LABELS: Record<PdfMargin, string> = {
+  narrow: "좁게",
+  normal: "보통",
+  wide: "넓게",
+};
+
+const TOGGLES: Array<{
+  key: "titlePage" | "tableOfContents" | "pageNumbers";
+  label: string;
+  description: string;
+}> = [
+  { key: "titlePage", label: "표지", description: "첫 쪽에 문서 제목" },
+  { key: "tableOfContents", label: "목차", description: "제목 1~3으로 만들기" },
+  { key: "pageNumbers", label: "쪽 번호", description: "아래 가운데" },
+];
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+export default function PdfExportDialog({
+  createPdf,
+  getDocument,
+  onClose,
+}: PdfExportDialogProps) {
+  const [options, setOptions] = useState<PdfOptions>(DEFAULT_PDF_OPTIONS);
+  const [busy, setBusy] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const handleExport = async () => {
+    const doc = getDocument();
+    if (!doc) return;
+
+    setBusy(true);
+    setFailed(false);
+    try {
+      const blob = await createPdf({ ...doc, options });
+      downloadBlob(blob, documentFileName(doc.title, "pdf"));
+      onClose();
+    } catch {
+      setFailed(true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const segment = <T extends string>(
+    labels: Record<T, string>,
+    value: T,
+    onChange: (value: T) => void
+  ) => (
+    <div className="inline-flex rounded-xl bg-black/4 p-0.5">
+      {(Object.keys(labels) as T[]).map((key) => (
+        <button
+          key={key}
+          type="button"
+          onClick={() => onChange(key)}
+          aria-pressed={value === key}
+          className={cx(
+            "h-7 rounded-[10px] px-3 text-[12px] font-medium transition",
+            value === key
+              ? "bg-white text-slate-900 shadow-sm"
+              : "text-slate-600 hover:text-slate-900"
+          )}
+        >
+          {labels[key]}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-start justify-center bg-slate-900/20 backdrop-blur-sm px-4 pt-24"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="pdf-export-dialog-title"
+        className={cx(
+          "w-full max-w-[420px] rounded-2xl border border-black/6",
+          "bg-white/90 backdrop-blur-xl",
+          "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_30px_90px_-40px_rgba(0,0,0,0.55)]",
+          "p-5"
+        )}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <h2
+            id="pdf-export-dialog-title"
+            className="text-[15px] font-semibold text-slate-900 tracking-tight"
+          >
+            PDF로 내려받기
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            title="닫기"
+            className="rounded-lg p-1.5 text-slate-500 hover:bg-black/4 transition"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="mt-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-[12px] font-medium text-slate-700">용지</span>
+            {segment(PAGE_SIZE_LABELS, options.pageSize, (pageSize) =>
+              setOptions((current) => ({ ...current, pageSize }))
+            )}
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-[12px] font-medium text-slate-700">여백</span>
+            {segment(MARGIN_LABELS, options.margin, (margin) =>
+              setOptions((current) => ({ ...current, margin }))
+            )}
+          </div>
+
+          <div className="rounded-xl bg-white/60 ring-1 ring-black/6 divide-y divide-black/5">
+            {TOGGLES.map(({ key, label, description }) => (
+              <label
+                key={key}
+                className="flex items-center gap-3 px-3 py-2 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={options[key]}
+                  onChange={(e) =>
+                    setOptions((current) => ({
+                      ...current,
+                      [key]: e.target.checked,
+                    }))
+                  }
+                  className="h-4 w-4 accent-blue-600"
+                />
+                <span className="text-[12px] font-medium text-slate-800">
+                  {label}
+                </span>
+                <span className="ml-auto text-[11px] text-slate-500">
+                  {description}
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {failed && (
+            <p className="text-[12px] text-red-600">
+              PDF를 만들지 못했습니다.
+            </p>
+          )}
+
+          <div className="flex items-center justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="h-9 rounded-xl px-3 text-[12px] font-medium text-slate-700 hover:bg-black/4 transition"
+            >
+              취소
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={busy}
+              className="h-9 rounded-xl px-3 text-[12px] font-medium bg-blue-600/90 hover:bg-blue-600 text-white ring-1 ring-blue-600/30 disabled:opacity-50 transition"
+            >
+              {busy ? "만드는 중…" : "PDF 만들기"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { getInitial, type PresenceUser } from "@/lib/collab/presence";
+
+const MAX_VISIBLE = 4;
+
+interface PresenceAvatarsProps {
+  peers: PresenceUser[];
+  followingClientId: number | null;
+  /** 같은 사람을 다시 누르면 null (따라가기 해제) */
+  onFollow: (clientId: number | null) => void;
+}
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+export default function PresenceAvatars({
+  peers,
+  followingClientId,
+  onFollow,
+}: PresenceAvatarsProps) {
+  if (peers.length === 0) return null;
+
+  const visible = peers.slice(0, MAX_VISIBLE);
+  const hidden = peers.slice(MAX_VISIBLE);
+
+  return (
+    <div className="flex items-center -space-x-1.5">
+      {visible.map((peer) => {
+        const following = peer.clientId === followingClientId;
+        return (
+          <button
+            key={peer.clientId}
+            type="button"
+            onClick={() => onFollow(following ? null : peer.clientId)}
+            title={cx(
+              peer.name,
+              peer.idle && "(자리 비움)",
+              following ? "— 따라가기 해제" : "— 클릭해서 따라가기"
+            )}
+            aria-pressed={following}
+            className={cx(
+              "relative h-8 w-8 shrink-0 rounded-full",
+              "inline-flex items-center justify-center",
+              "text-[12px] font-semibold text-white",
+              "ring-2 ring-white transition duration-300",
+              "hover:z-10 hover:-translate-y-0.5",
+              peer.idle && !following && "opacity-40 grayscale",
+              following && "z-10"
+            )}
+            style={{
+              backgroundColor: peer.color,
+              // 따라가는 사람은 본인 색 테두리를 한 겹 더
+              boxShadow: following
+                ? `0 0 0 2px #fff, 0 0 0 4px ${peer.color}`
+                : undefined,
+            }}
+          >
+            {getInitial(peer.name)}
+          </button>
+        );
+      })}
+      {hidden.length > 0 && (
+        <span
+          title={hidden.map((peer) => peer.name).join(", ")}
+          className="relative h-8 w-8 shrink-0 rounded-full inline-flex items-center justify-center bg-slate-200 text-[11px] font-semibold text-slate-700 ring-2 ring-white"
+        >
+          +{hidden.length}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import type { ProvenanceStats } from "@/lib/provenance";
+
+interface ProvenancePanelProps {
+  stats: ProvenanceStats;
+}
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function formatPastedAt(at: number | null) {
+  return at ? new Date(at).toLocaleString() : "시각 정보 없음";
+}
+
+export default function ProvenancePanel({ stats }: ProvenancePanelProps) {
+  const pastedPct = Math.round(stats.pastedRatio * 100);
+  const typedPct = stats.typed + stats.pasted > 0 ? 100 - pastedPct : 0;
+
+  return (
+    <section
+      className={cx(
+        "rounded-2xl border border-black/6",
+        "bg-white/70 backdrop-blur-xl",
+        "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_60px_-55px_rgba(0,0,0,0.45)]",
+        "p-4"
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center gap-2">
+        <span className="inline-flex items-center gap-1 rounded-full bg-black/4 px-2 py-1 text-[11px] font-medium text-slate-700 ring-1 ring-black/6">
+          <span className="inline-block h-1.5 w-1.5 rounded-full bg-violet-500/60" />
+          Provenance
+        </span>
+        <span className="text-[11px] text-slate-500">
+          붙여넣기 {stats.pastes.length}회
+        </span>
+      </div>
+      <h2 className="mt-2 text-[15px] font-semibold text-slate-900 tracking-tight">
+        입력 vs 붙여넣기
+      </h2>
+      <p className="mt-1 text-[12px] text-slate-600 leading-relaxed">
+        본문에서 보라색으로 칠해진 부분이 외부에서 붙여넣은 글이에요.
+      </p>
+
+      {/* Ratio */}
+      <div className="mt-4 rounded-xl bg-white/60 ring-1 ring-black/6 p-3">
+        <div className="flex h-2 w-full overflow-hidden rounded-full bg-black/5">
+          <div
+            className="h-full bg-emerald-500/70"
+            style={{ width: `${typedPct}%` }}
+          />
+          <div
+            className="h-full bg-violet-500/70"
+            style={{ width: `${pastedPct}%` }}
+          />
+        </div>
+        <div className="mt-2 flex items-center justify-between text-[12px]">
+          <span className="inline-flex items-center gap-1.5 text-slate-700">
+            <span className="h-1.5 w-1.5 rounded-full bg-emerald-500/70" />
+            입력 {stats.typed.toLocaleString()}자 ({typedPct}%)
+          </span>
+          <span className="inline-flex items-center gap-1.5 text-slate-700">
+            <span className="h-1.5 w-1.5 rounded-full bg-violet-500/70" />
+            붙여넣기 {stats.pasted.toLocaleString()}자 ({pastedPct}%)
+          </span>
+        </div>
+      </div>
+
+      {/* Paste list */}
+      {stats.pastes.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {stats.pastes.map((paste) => {
+            const kept =
+              paste.originalLength > 0
+                ? Math.min(
+                    100,
+                    Math.round((paste.remaining / paste.originalLength) * 100)
+                  )
+                : 100;
+            return (
+              <li
+                key={paste.id}
+                className="rounded-xl bg-white/60 ring-1 ring-black/6 p-3"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-[12px] font-medium text-slate-800">
+                    {paste.originalLength.toLocaleString()}자 붙여넣기
+                  </span>
+                  <span className="shrink-0 rounded-full bg-violet-500/10 px-2 py-0.5 text-[10px] font-medium text-violet-700 ring-1 ring-violet-500/15">
+                    {paste.source === "html" ? "HTML" : "Plain"}
+                  </span>
+                </div>
+                <div className="mt-1 text-[11px] text-slate-500">
+                  {formatPastedAt(paste.pastedAt)} · 현재 {kept}% 남음
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Copy, ExternalLink, X } from "lucide-react";
+import {
+  fetchPublication,
+  publicationUrl,
+  publishDocument,
+  unpublishDocument,
+} from "@/lib/publish/client";
+import type { PublicationStatus } from "@/lib/publish/types";
+
+interface PublishDialogProps {
+  documentId: string;
+  /** 게시 직전에 자동 저장 대기분을 먼저 저장 */
+  onBeforePublish: () => Promise<void>;
+  onClose: () => void;
+}
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+export default function PublishDialog({
+  documentId,
+  onBeforePublish,
+  onClose,
+}: PublishDialogProps) {
+  // undefined: 불러오는 중, null: 게시한 적 없음
+  const [publication, setPublication] = useState<
+    PublicationStatus | null | undefined
+  >(undefined);
+  const [busy, setBusy] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchPublication(documentId)
+      .then((loaded) => {
+        if (!cancelled) setPublication(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const run = async (action: () => Promise<PublicationStatus>) => {
+    setBusy(true);
+    setFailed(false);
+    try {
+      setPublication(await action());
+    } catch {
+      setFailed(true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePublish = () =>
+    run(async () => {
+      await onBeforePublish();
+      return publishDocument(documentId);
+    });
+
+  const handleUnpublish = () => run(() => unpublishDocument(documentId));
+
+  const handleCopy = async (slug: string) => {
+    try {
+      await navigator.clipboard.writeText(publicationUrl(slug));
+      setCopied(true);
+    } catch {
+      window.prompt("주소를 복사하세요", publicationUrl(slug));
+    }
+  };
+
+  const live = publication && !publication.unpublishedAt;
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-start justify-center bg-slate-900/20 backdrop-blur-sm px-4 pt-24"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="publish-dialog-title"
+        className={cx(
+          "w-full max-w-[460px] rounded-2xl border border-black/6",
+          "bg-white/90 backdrop-blur-xl",
+          "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_30px_90px_-40px_rgba(0,0,0,0.55)]",
+          "p-5"
+        )}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <h2
+            id="publish-dialog-title"
+            className="text-[15px] font-semibold text-slate-900 tracking-tight"
+          >
+            웹에 게시
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            title="닫기"
+            className="rounded-lg p-1.5 text-slate-500 hover:bg-black/4 transition"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <p className="mt-2 text-[12px] text-slate-600 leading-relaxed">
+          지금 내용을 스냅샷으로 공개합니다. 이후 편집 내용은 다시 게시하기
+          전까지 공개 페이지에 반영되지 않아요.
+        </p>
+
+        {publication === undefined && !failed ? (
+          <p className="mt-4 text-[12px] text-slate-500">불러오는 중…</p>
+        ) : (
+          <div className="mt-4 space-y-3">
+            {publication && (
+              <div className="rounded-xl bg-white/60 ring-1 ring-black/6 p-3">
+                <div className="flex items-center gap-2">
+                  <span
+                    className={cx(
+                      "shrink-0 rounded-full px-2 py-0.5 text-[10px] font-medium ring-1",
+                      live
+                        ? "bg-emerald-500/10 text-emerald-700 ring-emerald-500/20"
+                        : "bg-black/3 text-slate-600 ring-black/6"
+                    )}
+                  >
+                    {live ? "공개 중" : "게시 취소됨"}
+                  </span>
+                  <span className="min-w-0 flex-1 truncate text-[12px] text-slate-800">
+                    /p/{publication.slug}
+                  </span>
+                  {live && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => handleCopy(publication.slug)}
+                        title="주소 복사"
+                        className="rounded-lg p-1.5 text-slate-600 hover:bg-black/4 transition"
+                      >
+                        {copied ? (
+                          <Check className="h-4 w-4 text-emerald-600" />
+                        ) : (
+                          <Copy className="h-4 w-4" />
+                        )}
+                      </button>
+                      <a
+                        href={`/p/${publication.slug}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        title="새 탭에서 열기"
+                        className="rounded-lg p-1.5 text-slate-600 hover:bg-black/4 transition"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    </>
+                  )}
+                </div>
+                <div className="mt-1 text-[11px] text-slate-500">
+                  {new Date(publication.publishedAt).toLocaleString()}에 게시한
+                  버전
+                  {live && publication.hasUnpublishedChanges && (
+                    <span className="text-amber-700">
+                      {" "}
+                      · 이후 수정한 내용이 있어요
+                    </span>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {failed && (
+              <p className="text-[12px] text-red-600">
+                게시 상태를 불러오거나 바꾸지 못했습니다.
+              </p>
+            )}
+
+            <div className="flex items-center justify-end gap-2">
+              {live && (
+                <button
+                  type="button"
+                  onClick={handleUnpublish}
+                  disabled={busy}
+                  className="h-9 rounded-xl px-3 text-[12px] font-medium text-red-600 hover:bg-red-500/10 disabled:opacity-50 transition"
+                >
+                  게시 취소
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handlePublish}
+                disabled={busy}
+                className="h-9 rounded-xl px-3 text-[12px] font-medium bg-blue-600/90 hover:bg-blue-600 text-white ring-1 ring-blue-600/30 disabled:opacity-50 transition"
+              >
+                {publication ? "다시 게시" : "게시하기"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import type { JSONContent } from "@tiptap/core";
+import type { DOMOutputSpec, Node as PMNode } from "@tiptap/pm/model";
+import {
+  domOutputSpecToReactElement,
+  renderToReactElement,
+} from "@tiptap/static-renderer/pm/react";
+import { createEditorExtensions } from "@/components/editor/extensions";
+import { formatBytes } from "@/components/editor/Attachment";
+import { getOutline } from "@/components/editor/outline";
+import { normalizeCellColor } from "@/components/editor/tables";
+import { fileUrl } from "@/lib/files/client";
+import { imageSrcSet } from "@/lib/images/client";
+import { toPublishedContent } from "@/lib/publish/content";
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+type NodeProps = { node: PMNode; parent?: PMNode; children?: React.ReactNode };
+
+/** 목차 링크가 가리키는 제목 id: 최상위 제목 순서대로 #heading-1, #heading-2, … */
+function headingAnchor(index: number) {
+  return `heading-${index + 1}`;
+}
+
+/** 개요/목차에 들어가는 제목(문서 바로 아래)이면 그 순서, 아니면 -1 */
+function outlineIndex(node: PMNode, parent?: PMNode) {
+  if (parent?.type.name !== "doc") return -1;
+  return getOutline(parent).findIndex((item) => parent.nodeAt(item.pos) === node);
+}
+
+/** 표 메뉴에서 고른 셀 배경색 */
+function cellStyle(node: PMNode) {
+  const color = normalizeCellColor(node.attrs.backgroundColor);
+  return color ? { backgroundColor: color } : undefined;
+}
+
+/** 에디터와 같은 embed 주소를 쓰도록 YouTube 확장의 toDOM 결과에서 꺼낸다 */
+function youtubeEmbedSrc(node: PMNode) {
+  const spec = node.type.spec.toDOM?.(node) as DOMOutputSpec | undefined;
+  const iframe = Array.isArray(spec) ? spec[2] : null;
+  const attrs = Array.isArray(iframe) ? iframe[1] : null;
+  return typeof attrs?.src === "string" ? attrs.src : null;
+}
+
+/*
+ * 기본 변환(renderHTML → React)을 그대로 쓰면 colspan, allowfullscreen,
+ * stroke-width 같은 HTML 속성 이름이 React 경고를 내거나 빠지므로
+ * 해당 노드만 직접 그린다.
+ */
+const nodeMapping = {
+  // 에디터와 같은 태그/속성(정렬, 블록 id)에 목차 링크용 id만 더한다
+  heading: ({ node, parent, children }: NodeProps) => {
+    const [tag, attrs] = node.type.spec.toDOM?.(node) as [string, Record<string, unknown>];
+    const index = outlineIndex(node, parent);
+    return domOutputSpecToReactElement([
+      tag,
+      index < 0 ? attrs : { ...attrs, id: headingAnchor(index) },
+      0,
+    ])(children);
+  },
+  // 편집기의 목차 블록처럼 그릴 때 제목을 모은다 (항목은 제목으로 가는 링크)
+  tableOfContents: ({ parent }: NodeProps) => {
+    const items = parent ? getOutline(parent) : [];
+    if (items.length === 0) return null;
+    return (
+      <nav data-type="table-of-contents" className="toc-block">
+        <p className="toc-block__title">목차</p>
+        <ol className="toc-block__list">
+          {items.map((item, index) => (
+            <li
+              key={index}
+              className={cx("toc-block__item", `toc-block__item--h${item.level}`)}
+            >
+              <a href={`#${headingAnchor(index)}`}>{item.text || "(제목 없음)"}</a>
+            </li>
+          ))}
+        </ol>
+      </nav>
+    );
+  },
+  taskItem: ({ node, children }: NodeProps) => (
+    <li data-type="taskItem" data-checked={node.attrs.checked ? "true" : "false"}>
+      <label>
+        <input type="checkbox" checked={!!node.attrs.checked} readOnly disabled />
+        <span />
+      </label>
+      <div>{children}</div>
+    </li>
+  ),
+  tableCell: ({ node, children }: NodeProps) => (
+    <td
+      colSpan={node.attrs.colspan}
+      rowSpan={node.attrs.rowspan}
+      style={cellStyle(node)}
+    >
+      {children}
+    </td>
+  ),
+  tableHeader: ({ node, children }: NodeProps) => (
+    <th
+      colSpan={node.attrs.colspan}
+      rowSpan={node.attrs.rowspan}
+      className="bg-black/[0.03] font-semibold"
+      style={cellStyle(node)}
+    >
+      {children}
+    </th>
+  ),
+  youtube: ({ node }: NodeProps) => {
+    const src = youtubeEmbedSrc(node);
+    if (!src) return null;
+    return (
+      <div data-youtube-video="">
+        <iframe
+          src={src}
+          width={node.attrs.width}
+          height={node.attrs.height}
+          allowFullScreen
+          loading="lazy"
+          className="rounded-xl my-6 ring-1 ring-black/10 overflow-hidden max-w-full"
+        />
+      </div>
+    );
+  },
+  image: ({ node }: NodeProps) => {
+    // 업로드가 끝나지 않은 채 게시된 자리표시자는 건너뛴다
+    if (!node.attrs.src) return null;
+    return (
+      <figure
+        className="image-figure"
+        data-type="image"
+        data-align={node.attrs.align}
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={node.attrs.src}
+          srcSet={
+            node.attrs.assetId ? imageSrcSet(node.attrs.assetId) : undefined
+          }
+          alt={node.attrs.alt ?? ""}
+          title={node.attrs.title ?? undefined}
+          width={node.attrs.width ?? undefined}
+          height={node.attrs.height ?? undefined}
+          loading="lazy"
+          decoding="async"
+          className="max-w-full h-auto rounded-xl ring-1 ring-black/10"
+        />
+        {node.attrs.caption && <figcaption>{node.attrs.caption}</figcaption>}
+      </figure>
+    );
+  },
+  attachment: ({ node }: NodeProps) => (
+    <div data-attachment="true" className="attachment-card">
+      <div className="attachment-card__icon" aria-hidden="true">
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="18"
+          height="18"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+          <path d="M14 2v6h6" />
+        </svg>
+      </div>
+      <div className="attachment-card__meta">
+        <div className="attachment-card__name">{node.attrs.name || "파일"}</div>
+        <div className="attachment-card__size">
+          {formatBytes(Number(node.attrs.size))}
+        </div>
+      </div>
+      {node.attrs.fileId && (
+        <a
+          className="attachment-card__download"
+          href={fileUrl(node.attrs.fileId, {
+            name: node.attrs.name,
+            download: true,
+          })}
+          download={node.attrs.name || true}
+          aria-label={`${node.attrs.name || "파일"} 다운로드`}
+          title="다운로드"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            aria-hidden="true"
+          >
+            <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+            <path d="M7 10l5 5 5-5" />
+            <path d="M12 15V3" />
+          </svg>
+        </a>
+      )}
+    </div>
+  ),
+};
+
+interface PublishedContentProps {
+  content: JSONContent;
+}
+
+/** 게시본 본문을 서버에서 정적인 HTML로 그린다 (에디터와 같은 스키마/스타일) */
+export default function PublishedContent({ content }: PublishedContentProps) {
+  return (
+    <div
+      className={cx(
+        // 에디터 본문(.tiptap)과 같은 타이포그래피
+        "tiptap prose prose-lg max-w-none",
+        "px-6 md:px-12 py-10"
+      )}
+    >
+      {renderToReactElement({
+        // 예전에 게시한 스냅샷에 남아 있을 수 있는 제안도 반영하지 않는다
+        content: toPublishedContent(content),
+        extensions: createEditorExtensions(),
+        options: { nodeMapping },
+      })}
+    </div>
+  );
+}
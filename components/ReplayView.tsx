@@ -0,0 +1,334 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { EditorContent, useEditor } from "@tiptap/react";
+import { Pause, Play, RotateCcw } from "lucide-react";
+import PageBackground from "@/components/PageBackground";
+import {
+  createEditorExtensions,
+  editorContentClass,
+} from "@/components/editor/extensions";
+import { fetchDocument } from "@/lib/documents/client";
+import { fetchTrace } from "@/lib/trace/client";
+import {
+  frameIndexAt,
+  layoutTimeline,
+  reconstructFrames,
+  type ReplayMarkerKind,
+} from "@/lib/trace/replay";
+import type { TraceEvent, TraceLog } from "@/lib/trace/types";
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+const SPEEDS = [1, 2, 4, 8, 16, 32] as const;
+
+const EVENT_LABELS: Record<TraceEvent["kind"], string> = {
+  session: "세션 시작",
+  insert: "입력",
+  delete: "삭제",
+  replace: "고쳐 쓰기",
+  paste: "붙여넣기",
+  format: "서식 변경",
+  node: "블록 삽입",
+  structure: "구조 변경",
+  remote: "공동 편집자 변경",
+  composition: "IME 조합",
+};
+
+const MARKER_STYLES: Record<ReplayMarkerKind, string> = {
+  pause: "bg-amber-500/70",
+  delete: "bg-red-500/70",
+  paste: "bg-violet-500/80",
+};
+
+function formatClock(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+interface ReplayViewProps {
+  documentId: string;
+}
+
+export default function ReplayView({ documentId }: ReplayViewProps) {
+  const [title, setTitle] = useState("");
+  const [trace, setTrace] = useState<TraceLog | null | undefined>(undefined);
+  const [loadError, setLoadError] = useState(false);
+
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<(typeof SPEEDS)[number]>(1);
+  const [skipIdle, setSkipIdle] = useState(true);
+  const timeRef = useRef(0);
+
+  // 라이브 에디터와 같은 확장 목록을 읽기 전용으로 사용
+  const editor = useEditor({
+    immediatelyRender: false,
+    editable: false,
+    extensions: createEditorExtensions(),
+    content: "",
+    editorProps: {
+      attributes: {
+        class: editorContentClass,
+      },
+    },
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([fetchDocument(documentId), fetchTrace(documentId)])
+      .then(([doc, log]) => {
+        if (cancelled) return;
+        setTitle(doc.title);
+        setTrace(log);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  // Step은 에디터 스키마로 복원해야 문서에 그대로 넣을 수 있다
+  const frames = useMemo(
+    () => (trace && editor ? reconstructFrames(trace.events, editor.schema) : []),
+    [trace, editor]
+  );
+  const timeline = useMemo(
+    () => layoutTimeline(frames, { skipIdle }),
+    [frames, skipIdle]
+  );
+  const frameIndex = frameIndexAt(timeline.times, time);
+  const currentEvent = frames[frameIndex]?.event;
+
+  useEffect(() => {
+    const frame = frames[frameIndex];
+    if (!editor || !frame) return;
+
+    const { state } = editor.view;
+    editor.view.dispatch(
+      state.tr
+        .replaceWith(0, state.doc.content.size, frame.doc.content)
+        .setMeta("addToHistory", false)
+    );
+  }, [editor, frames, frameIndex]);
+
+  useEffect(() => {
+    if (!playing) return;
+
+    let raf = 0;
+    let last = performance.now();
+
+    const tick = (now: number) => {
+      const next = Math.min(
+        timeRef.current + (now - last) * speed,
+        timeline.duration
+      );
+      last = now;
+      timeRef.current = next;
+      setTime(next);
+
+      if (next >= timeline.duration) {
+        setPlaying(false);
+        return;
+      }
+      raf = requestAnimationFrame(tick);
+    };
+
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [playing, speed, timeline.duration]);
+
+  const seek = (next: number) => {
+    timeRef.current = next;
+    setTime(next);
+  };
+
+  const togglePlay = () => {
+    if (!playing && time >= timeline.duration) seek(0);
+    setPlaying((p) => !p);
+  };
+
+  const toggleSkipIdle = () => {
+    // 공백 압축 여부가 바뀌어도 보고 있던 프레임은 그대로 유지
+    const next = layoutTimeline(frames, { skipIdle: !skipIdle });
+    seek(next.times[frameIndex] ?? 0);
+    setSkipIdle(!skipIdle);
+  };
+
+  const duration = Math.max(timeline.duration, 1);
+
+  return (
+    <div className="min-h-screen bg-[#fbfbfd] text-slate-900">
+      <PageBackground />
+
+      {/* Header */}
+      <header
+        className={cx(
+          "fixed top-0 left-0 right-0 z-50",
+          "border-b border-black/6",
+          "bg-white/70 backdrop-blur-xl"
+        )}
+      >
+        <div className="mx-auto max-w-[1100px] px-6 lg:px-10 h-16 flex items-center gap-4">
+          <Link
+            href="/"
+            className="text-[15px] font-semibold tracking-tight hover:text-blue-700 transition"
+          >
+            Writetracer
+          </Link>
+          <div className="min-w-0 flex-1 text-center">
+            <div className="truncate text-[15px] font-semibold">
+              {title || "Untitled document"}
+            </div>
+            <div className="text-[11px] text-slate-500">작성 과정 재생</div>
+          </div>
+          <Link
+            href={`/doc/${documentId}`}
+            className="h-9 inline-flex items-center rounded-xl px-3 text-[13px] font-medium bg-black/3 hover:bg-black/5 ring-1 ring-black/6 transition"
+          >
+            편집기로
+          </Link>
+        </div>
+      </header>
+
+      <main className="relative pt-16">
+        <div className="mx-auto max-w-[1100px] px-6 lg:px-10 py-10">
+          {/* Controls */}
+          <div className="sticky top-20 z-30 rounded-2xl border border-black/6 bg-white/70 backdrop-blur-xl px-4 py-3 shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_8px_24px_-20px_rgba(0,0,0,0.35)]">
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                type="button"
+                onClick={togglePlay}
+                disabled={frames.length === 0}
+                title={playing ? "일시정지" : "재생"}
+                className="inline-flex h-9 w-9 items-center justify-center rounded-xl bg-blue-600/90 text-white hover:bg-blue-600 disabled:opacity-40 transition"
+              >
+                {playing ? (
+                  <Pause className="h-4 w-4" />
+                ) : (
+                  <Play className="h-4 w-4" />
+                )}
+              </button>
+              <button
+                type="button"
+                onClick={() => seek(0)}
+                disabled={frames.length === 0}
+                title="처음으로"
+                className="inline-flex h-9 w-9 items-center justify-center rounded-xl hover:bg-black/4 disabled:opacity-40 transition"
+              >
+                <RotateCcw className="h-4 w-4" />
+              </button>
+
+              <div className="flex items-center gap-1 rounded-xl bg-white/60 ring-1 ring-black/6 p-1">
+                {SPEEDS.map((s) => (
+                  <button
+                    key={s}
+                    type="button"
+                    onClick={() => setSpeed(s)}
+                    className={cx(
+                      "rounded-lg px-2 py-1 text-[12px] font-medium transition",
+                      speed === s
+                        ? "bg-blue-500/10 text-blue-700"
+                        : "text-slate-600 hover:bg-black/4"
+                    )}
+                  >
+                    {s}x
+                  </button>
+                ))}
+              </div>
+
+              <label className="inline-flex items-center gap-2 text-[12px] text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={skipIdle}
+                  onChange={toggleSkipIdle}
+                  className="h-4 w-4 accent-blue-600"
+                />
+                공백 구간 건너뛰기
+              </label>
+
+              <div className="ml-auto text-[12px] tabular-nums text-slate-600">
+                {formatClock(time)} / {formatClock(timeline.duration)}
+              </div>
+            </div>
+
+            {/* Scrubber + markers */}
+            <div className="relative mt-3 h-6">
+              <div className="absolute inset-x-0 top-1/2 h-1.5 -translate-y-1/2 rounded-full bg-black/5" />
+              <div
+                className="absolute left-0 top-1/2 h-1.5 -translate-y-1/2 rounded-full bg-blue-500/70"
+                style={{ width: `${(time / duration) * 100}%` }}
+              />
+              {timeline.markers.map((marker, i) => (
+                <span
+                  key={i}
+                  title={
+                    marker.kind === "pause"
+                      ? `멈춤 ${formatClock(marker.duration ?? 0)}`
+                      : EVENT_LABELS[marker.kind]
+                  }
+                  className={cx(
+                    "pointer-events-none absolute top-0 h-6 w-0.5 rounded-full",
+                    MARKER_STYLES[marker.kind]
+                  )}
+                  style={{ left: `${(marker.time / duration) * 100}%` }}
+                />
+              ))}
+              <input
+                type="range"
+                min={0}
+                max={timeline.duration}
+                step={1}
+                value={time}
+                onChange={(e) => seek(Number(e.target.value))}
+                aria-label="재생 위치"
+                className="absolute inset-0 h-6 w-full cursor-pointer opacity-0"
+              />
+            </div>
+
+            <div className="mt-2 flex flex-wrap items-center gap-4 text-[11px] text-slate-500">
+              {(["pause", "delete", "paste"] as const).map((kind) => (
+                <span key={kind} className="inline-flex items-center gap-1.5">
+                  <span
+                    className={cx("h-2.5 w-0.5 rounded-full", MARKER_STYLES[kind])}
+                  />
+                  {kind === "pause" ? "머뭇거림" : EVENT_LABELS[kind]}
+                </span>
+              ))}
+              {currentEvent && (
+                <span className="ml-auto">
+                  {EVENT_LABELS[currentEvent.kind]} ·{" "}
+                  {new Date(currentEvent.at).toLocaleString()}
+                </span>
+              )}
+            </div>
+          </div>
+
+          {/* Read-only document */}
+          <div className="mt-6 overflow-hidden rounded-3xl border border-black/6 bg-white shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_60px_-50px_rgba(0,0,0,0.5)]">
+            {loadError ? (
+              <div className="min-h-[320px] flex items-center justify-center text-[13px] text-slate-500">
+                기록을 불러오지 못했습니다.
+              </div>
+            ) : trace === null || (trace && frames.length === 0 && editor) ? (
+              <div className="min-h-[320px] flex items-center justify-center text-[13px] text-slate-500">
+                아직 기록된 작성 과정이 없습니다.
+              </div>
+            ) : (
+              <EditorContent editor={editor} />
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useEditorState, type Editor } from "@tiptap/react";
+import { BubbleMenu } from "@tiptap/react/menus";
+import { TextSelection } from "@tiptap/pm/state";
+import {
+  Bold,
+  Code,
+  Highlighter,
+  Italic,
+  Link as LinkIcon,
+  Strikethrough,
+  Underline as UnderlineIcon,
+  type LucideIcon,
+} from "lucide-react";
+import { isMentionMenuOpen } from "@/components/editor/Mention";
+import { isSlashMenuOpen } from "@/components/editor/SlashCommand";
+
+interface SelectionMenuProps {
+  editor: Editor;
+  /** 링크 버튼: 선택한 글자에 링크를 거는 창을 연다 */
+  onEditLink: () => void;
+}
+
+interface MarkButton {
+  mark: string;
+  title: string;
+  icon: LucideIcon;
+  toggle: (editor: Editor) => void;
+}
+
+const MARK_BUTTONS: MarkButton[] = [
+  {
+    mark: "bold",
+    title: "굵게 (Ctrl+B)",
+    icon: Bold,
+    toggle: (editor) => editor.chain().focus().toggleBold().run(),
+  },
+  {
+    mark: "italic",
+    title: "기울임 (Ctrl+I)",
+    icon: Italic,
+    toggle: (editor) => editor.chain().focus().toggleItalic().run(),
+  },
+  {
+    mark: "underline",
+    title: "밑줄 (Ctrl+U)",
+    icon: UnderlineIcon,
+    toggle: (editor) => editor.chain().focus().toggleUnderline().run(),
+  },
+  {
+    mark: "strike",
+    title: "취소선",
+    icon: Strikethrough,
+    toggle: (editor) => editor.chain().focus().toggleStrike().run(),
+  },
+  {
+    mark: "code",
+    title: "인라인 코드",
+    icon: Code,
+    toggle: (editor) => editor.chain().focus().toggleCode().run(),
+  },
+  {
+    mark: "highlight",
+    title: "하이라이트",
+    icon: Highlighter,
+    toggle: (editor) => editor.chain().focus().toggleHighlight().run(),
+  },
+];
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+/**
+ * 글자를 고르면 그 위에 뜨는 서식 메뉴 (굵게, 기울임, … 링크).
+ * 코드 블록, 표 칸 여러 개 선택, "/"·"@" 메뉴가 열려 있을 때는 띄우지 않는다.
+ */
+export default function SelectionMenu({ editor, onEditLink }: SelectionMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const active =
+    useEditorState({
+      editor,
+      selector: ({ editor }) =>
+        Object.fromEntries(
+          [...MARK_BUTTONS.map(({ mark }) => mark), "link"].map((mark) => [
+            mark,
+            editor.isActive(mark),
+          ])
+        ),
+      equalityFn: (a, b) => JSON.stringify(a) === JSON.stringify(b),
+    }) ?? {};
+
+  // 메뉴 요소는 body에 붙으므로 sticky 툴바(z-30) 위로 올린다
+  useEffect(() => {
+    if (menuRef.current) menuRef.current.style.zIndex = "60";
+  }, [menuRef]);
+
+  return (
+    <BubbleMenu
+      ref={menuRef}
+      editor={editor}
+      pluginKey="selectionMenu"
+      appendTo={() => document.body}
+      options={{ strategy: "fixed", placement: "top", offset: 8, flip: true, shift: { padding: 8 } }}
+      shouldShow={({ editor, view, state, from, to }) =>
+        editor.isEditable &&
+        view.hasFocus() &&
+        state.selection instanceof TextSelection &&
+        from !== to &&
+        !state.selection.$from.parent.type.spec.code &&
+        state.doc.textBetween(from, to).trim() !== "" &&
+        !isSlashMenuOpen(state) &&
+        !isMentionMenuOpen(state)
+      }
+      className={cx(
+        "flex items-center gap-0.5",
+        "rounded-xl border border-black/6",
+        "bg-white/95 backdrop-blur-xl",
+        "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_50px_-30px_rgba(0,0,0,0.45)]",
+        "p-1"
+      )}
+      // 눌러도 선택이 그대로 있게
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {MARK_BUTTONS.map(({ mark, title, icon: Icon, toggle }) => (
+        <button
+          key={mark}
+          type="button"
+          title={title}
+          aria-pressed={!!active[mark]}
+          onClick={() => toggle(editor)}
+          className={cx(
+            "inline-flex items-center justify-center rounded-lg p-1.5 transition",
+            active[mark]
+              ? "bg-blue-500/10 text-blue-700"
+              : "text-slate-700 hover:bg-black/4"
+          )}
+        >
+          <Icon className="h-4 w-4" />
+        </button>
+      ))}
+      <div className="mx-0.5 h-5 w-px bg-black/6" />
+      <button
+        type="button"
+        title="링크 (Ctrl+K)"
+        aria-pressed={!!active.link}
+        onClick={onEditLink}
+        className={cx(
+          "inline-flex items-center justify-center rounded-lg p-1.5 transition",
+          active.link
+            ? "bg-blue-500/10 text-blue-700"
+            : "text-slate-700 hover:bg-black/4"
+        )}
+      >
+        <LinkIcon className="h-4 w-4" />
+      </button>
+    </BubbleMenu>
+  );
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Copy, Lock, X } from "lucide-react";
+import {
+  createShareLink,
+  fetchShareLinks,
+  revokeShareLink,
+  shareUrl,
+} from "@/lib/shares/client";
+import {
+  SHARE_ROLE_LABELS,
+  SHARE_ROLES,
+  type ShareLinkSummary,
+  type ShareRole,
+} from "@/lib/shares/types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS = [
+  { label: "만료 없음", ms: null },
+  { label: "1일", ms: DAY },
+  { label: "7일", ms: 7 * DAY },
+  { label: "30일", ms: 30 * DAY },
+] as const;
+
+const ROLE_DESCRIPTIONS: Record<ShareRole, string> = {
+  viewer: "읽기만 가능",
+  commenter: "읽기 + 댓글",
+  editor: "함께 편집",
+};
+
+interface ShareDialogProps {
+  documentId: string;
+  onClose: () => void;
+}
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function formatExpiry(expiresAt: string | null) {
+  return expiresAt
+    ? `${new Date(expiresAt).toLocaleString()} 만료`
+    : "만료 없음";
+}
+
+export default function ShareDialog({ documentId, onClose }: ShareDialogProps) {
+  const [links, setLinks] = useState<ShareLinkSummary[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [role, setRole] = useState<ShareRole>("viewer");
+  const [expiry, setExpiry] = useState(0);
+  const [password, setPassword] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchShareLinks(documentId)
+      .then((loaded) => {
+        if (!cancelled) setLinks(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      setCopiedToken(token);
+    } catch {
+      window.prompt("링크를 복사하세요", shareUrl(token));
+    }
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const ms = EXPIRY_OPTIONS[expiry].ms;
+      const link = await createShareLink(documentId, {
+        role,
+        expiresAt: ms === null ? null : new Date(Date.now() + ms).toISOString(),
+        password: password || null,
+      });
+      setLinks((current) => [link, ...(current ?? [])]);
+      setPassword("");
+      void handleCopy(link.token);
+    } catch {
+      setLoadError(true);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: string) => {
+    await revokeShareLink(documentId, token);
+    setLinks((current) =>
+      (current ?? []).filter((link) => link.token !== token)
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-start justify-center bg-slate-900/20 backdrop-blur-sm px-4 pt-24"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="share-dialog-title"
+        className={cx(
+          "w-full max-w-[520px] rounded-2xl border border-black/6",
+          "bg-white/90 backdrop-blur-xl",
+          "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_30px_90px_-40px_rgba(0,0,0,0.55)]",
+          "p-5"
+        )}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <h2
+            id="share-dialog-title"
+            className="text-[15px] font-semibold text-slate-900 tracking-tight"
+          >
+            공유 링크
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            title="닫기"
+            className="rounded-lg p-1.5 text-slate-500 hover:bg-black/4 transition"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {/* New link */}
+        <div className="mt-4 rounded-xl bg-white/60 ring-1 ring-black/6 p-3 space-y-3">
+          <div className="grid grid-cols-3 gap-1 rounded-xl bg-black/3 p-1">
+            {SHARE_ROLES.map((r) => (
+              <button
+                key={r}
+                type="button"
+                onClick={() => setRole(r)}
+                className={cx(
+                  "rounded-lg px-2 py-1.5 text-left transition",
+                  role === r
+                    ? "bg-white text-blue-700 ring-1 ring-black/6"
+                    : "text-slate-600 hover:bg-black/4"
+                )}
+              >
+                <div className="text-[12px] font-medium">
+                  {SHARE_ROLE_LABELS[r]}
+                </div>
+                <div className="text-[10px] text-slate-500">
+                  {ROLE_DESCRIPTIONS[r]}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={expiry}
+              onChange={(e) => setExpiry(Number(e.target.value))}
+              className="h-9 rounded-xl bg-white px-2 text-[12px] ring-1 ring-black/6 outline-none focus:ring-2 focus:ring-blue-500/20"
+            >
+              {EXPIRY_OPTIONS.map((option, i) => (
+                <option key={option.label} value={i}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="비밀번호 (선택)"
+              autoComplete="new-password"
+              className="h-9 min-w-0 flex-1 rounded-xl bg-white px-3 text-[12px] ring-1 ring-black/6 outline-none placeholder:text-slate-400 focus:ring-2 focus:ring-blue-500/20"
+            />
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={creating}
+              className="h-9 shrink-0 rounded-xl px-3 text-[12px] font-medium bg-blue-600/90 hover:bg-blue-600 text-white ring-1 ring-blue-600/30 disabled:opacity-50 transition"
+            >
+              링크 만들기
+            </button>
+          </div>
+        </div>
+
+        {/* Active links */}
+        <div className="mt-4">
+          <div className="text-[11px] font-medium text-slate-500">
+            활성 링크
+          </div>
+          {loadError ? (
+            <p className="mt-2 text-[12px] text-red-600">
+              공유 링크를 불러오거나 만들지 못했습니다.
+            </p>
+          ) : links === null ? (
+            <p className="mt-2 text-[12px] text-slate-500">불러오는 중…</p>
+          ) : links.length === 0 ? (
+            <p className="mt-2 text-[12px] text-slate-500">
+              아직 만든 링크가 없습니다.
+            </p>
+          ) : (
+            <ul className="mt-2 space-y-2">
+              {links.map((link) => (
+                <li
+                  key={link.token}
+                  className="flex items-center gap-2 rounded-xl bg-white/60 ring-1 ring-black/6 px-3 py-2"
+                >
+                  <span className="shrink-0 rounded-full bg-blue-500/10 px-2 py-0.5 text-[10px] font-medium text-blue-700 ring-1 ring-blue-500/15">
+                    {SHARE_ROLE_LABELS[link.role]}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-[12px] text-slate-800">
+                      /s/{link.token}
+                    </div>
+                    <div className="flex items-center gap-1 text-[11px] text-slate-500">
+                      {link.hasPassword && <Lock className="h-3 w-3" />}
+                      {formatExpiry(link.expiresAt)}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleCopy(link.token)}
+                    title="링크 복사"
+                    className="rounded-lg p-1.5 text-slate-600 hover:bg-black/4 transition"
+                  >
+                    {copiedToken === link.token ? (
+                      <Check className="h-4 w-4 text-emerald-600" />
+                    ) : (
+                      <Copy className="h-4 w-4" />
+                    )}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(link.token)}
+                    className="rounded-lg px-2 py-1 text-[11px] font-medium text-red-600 hover:bg-red-500/10 transition"
+                  >
+                    취소
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import DocumentView from "@/components/DocumentView";
+import PageBackground from "@/components/PageBackground";
+import { openSharedDocument, type OpenShareResult } from "@/lib/shares/client";
+import type { ShareRole } from "@/lib/shares/types";
+
+interface SharedDocumentViewProps {
+  token: string;
+}
+
+type GateState =
+  | { status: "loading" }
+  | { status: "error" }
+  | { status: "open"; share: { token: string; role: ShareRole } }
+  | Exclude<OpenShareResult, { status: "ok" }>;
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function toGateState(token: string, result: OpenShareResult): GateState {
+  return result.status === "ok"
+    ? { status: "open", share: { token, role: result.shared.role } }
+    : result;
+}
+
+const MESSAGES: Partial<Record<GateState["status"], string>> = {
+  loading: "공유 문서를 여는 중…",
+  error: "문서를 열지 못했습니다. 잠시 후 다시 시도해 주세요.",
+  expired: "만료된 공유 링크입니다.",
+  "not-found": "취소되었거나 없는 공유 링크입니다.",
+};
+
+/** 공유 링크(/s/<token>) 진입점. 비밀번호가 걸려 있으면 먼저 물어본다 */
+export default function SharedDocumentView({ token }: SharedDocumentViewProps) {
+  const [gate, setGate] = useState<GateState>({ status: "loading" });
+  const [password, setPassword] = useState("");
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    openSharedDocument(token)
+      .then((result) => {
+        if (!cancelled) setGate(toGateState(token, result));
+      })
+      .catch(() => {
+        if (!cancelled) setGate({ status: "error" });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setChecking(true);
+    try {
+      setGate(toGateState(token, await openSharedDocument(token, password)));
+    } catch {
+      setGate({ status: "error" });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (gate.status === "open") {
+    return <DocumentView share={gate.share} />;
+  }
+
+  const needsPassword =
+    gate.status === "password" || gate.status === "wrong-password";
+
+  return (
+    <div className="min-h-screen bg-[#fbfbfd] text-slate-900">
+      <PageBackground />
+
+      <main className="relative flex min-h-screen items-center justify-center px-6">
+        <div
+          className={cx(
+            "w-full max-w-[380px] rounded-2xl border border-black/6",
+            "bg-white/70 backdrop-blur-xl",
+            "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_60px_-55px_rgba(0,0,0,0.45)]",
+            "p-5"
+          )}
+        >
+          <div className="text-[15px] font-semibold tracking-tight">
+            Writetracer
+          </div>
+
+          {needsPassword ? (
+            <form onSubmit={handleSubmit} className="mt-3 space-y-3">
+              <p className="text-[12px] text-slate-600">
+                비밀번호가 걸린 공유 문서입니다.
+              </p>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus
+                placeholder="비밀번호"
+                className="h-9 w-full rounded-xl bg-white px-3 text-[13px] ring-1 ring-black/6 outline-none placeholder:text-slate-400 focus:ring-2 focus:ring-blue-500/20"
+              />
+              {gate.status === "wrong-password" && (
+                <p className="text-[12px] text-red-600">
+                  비밀번호가 맞지 않습니다.
+                </p>
+              )}
+              <button
+                type="submit"
+                disabled={checking || !password}
+                className="h-9 w-full rounded-xl text-[13px] font-medium bg-blue-600/90 hover:bg-blue-600 text-white ring-1 ring-blue-600/30 disabled:opacity-50 transition"
+              >
+                열기
+              </button>
+            </form>
+          ) : (
+            <p className="mt-3 text-[13px] text-slate-500">
+              {MESSAGES[gate.status]}
+            </p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
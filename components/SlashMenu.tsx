@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import type { Editor } from "@tiptap/react";
+import {
+  attachSlashMenuKeys,
+  closeSlashMenu,
+  type SlashMenuState,
+} from "@/components/editor/SlashCommand";
+import {
+  filterSlashCommands,
+  loadRecentSlashCommands,
+  rememberSlashCommand,
+  SLASH_COMMANDS,
+  type SlashCommandActions,
+  type SlashCommandItem,
+} from "@/components/editor/slashCommands";
+import { useCaretPopover } from "@/hooks/useCaretPopover";
+
+interface SlashMenuProps {
+  editor: Editor;
+  state: SlashMenuState;
+  actions: SlashCommandActions;
+}
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+export default function SlashMenu({ editor, state, actions }: SlashMenuProps) {
+  const [recent, setRecent] = useState(loadRecentSlashCommands);
+  // 검색어가 바뀌면 첫 항목부터 다시 고른다
+  const [selection, setSelection] = useState({ query: state.query, index: 0 });
+  const selectedIndex = selection.query === state.query ? selection.index : 0;
+
+  // 검색어가 없으면 최근 사용 → 나머지, 있으면 잘 맞는 순서
+  const sections = useMemo(() => {
+    if (state.query) {
+      return [
+        {
+          label: null,
+          items: filterSlashCommands(SLASH_COMMANDS, state.query, recent),
+        },
+      ];
+    }
+    const recentItems = recent.flatMap((id) =>
+      SLASH_COMMANDS.filter((item) => item.id === id)
+    );
+    if (recentItems.length === 0) {
+      return [{ label: null, items: SLASH_COMMANDS }];
+    }
+    return [
+      { label: "최근 사용", items: recentItems },
+      {
+        label: "블록",
+        items: SLASH_COMMANDS.filter((item) => !recent.includes(item.id)),
+      },
+    ];
+  }, [recent, state.query]);
+  const visible = sections.flatMap((section) => section.items);
+  const menuRef = useCaretPopover<HTMLDivElement>(
+    state.clientRect,
+    visible.length
+  );
+
+  const select = (item: SlashCommandItem) => {
+    setRecent(rememberSlashCommand(item.id));
+    item.run(editor, state.range, actions);
+  };
+
+  useEffect(() =>
+    attachSlashMenuKeys(editor, (event) => {
+      const move = (delta: number) => {
+        if (visible.length === 0) return;
+        setSelection({
+          query: state.query,
+          index: (selectedIndex + delta + visible.length) % visible.length,
+        });
+      };
+
+      switch (event.key) {
+        case "ArrowDown":
+          move(1);
+          return true;
+        case "ArrowUp":
+          move(-1);
+          return true;
+        case "Enter":
+        case "Tab": {
+          const item = visible[selectedIndex];
+          // 맞는 항목이 없으면 Enter는 평소처럼 줄을 바꾼다
+          if (!item) return false;
+          select(item);
+          return true;
+        }
+        default:
+          return false;
+      }
+    })
+  );
+
+  // 편집기 밖을 누르면 닫는다 (메뉴 안은 mousedown을 막아서 포커스가 그대로다)
+  useEffect(() => {
+    const handleBlur = () => closeSlashMenu(editor);
+    editor.on("blur", handleBlur);
+    return () => {
+      editor.off("blur", handleBlur);
+    };
+  }, [editor]);
+
+  useEffect(() => {
+    menuRef.current
+      ?.querySelector(".suggestion-item.is-selected")
+      ?.scrollIntoView({ block: "nearest" });
+  }, [menuRef, selectedIndex, state.query]);
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      role="listbox"
+      aria-label="블록 넣기"
+      className="suggestion-list"
+      style={{ top: -9999, left: -9999 }}
+      // 메뉴를 눌러도 편집기 커서가 그대로 있게
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {visible.length === 0 ? (
+        <div className="px-3 py-2.5 text-[13px] text-(--text-muted)">
+          맞는 블록이 없습니다
+        </div>
+      ) : (
+        sections.map((section, sectionIndex) => (
+          <div key={section.label ?? "all"}>
+            {section.label && (
+              <div className="px-3 pt-2 pb-1 text-[11px] font-medium text-(--text-muted)">
+                {section.label}
+              </div>
+            )}
+            {section.items.map((item, i) => {
+              const itemIndex =
+                sections
+                  .slice(0, sectionIndex)
+                  .reduce((sum, { items }) => sum + items.length, 0) + i;
+              const Icon = item.icon;
+              return (
+                <button
+                  key={item.id}
+                  type="button"
+                  role="option"
+                  aria-selected={itemIndex === selectedIndex}
+                  className={cx(
+                    "suggestion-item",
+                    itemIndex === selectedIndex && "is-selected"
+                  )}
+                  onMouseEnter={() =>
+                    setSelection({ query: state.query, index: itemIndex })
+                  }
+                  onClick={() => select(item)}
+                >
+                  <Icon className="h-4 w-4 shrink-0" />
+                  <span className="min-w-0">
+                    <span className="block text-[13px] font-medium leading-tight">
+                      {item.title}
+                    </span>
+                    <span className="suggestion-item-description block truncate text-[12px] leading-tight mt-0.5">
+                      {item.description}
+                    </span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        ))
+      )}
+    </div>,
+    document.body
+  );
+}
+
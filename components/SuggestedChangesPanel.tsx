@@ -0,0 +1,224 @@
+"use client";
+
+import { useEditorState, type Editor } from "@tiptap/react";
+import { TextSelection } from "@tiptap/pm/state";
+import {
+  findSuggestedChanges,
+  resolveSuggestions,
+  type SuggestedChange,
+} from "@/components/editor/SuggestChanges";
+
+interface SuggestedChangesPanelProps {
+  editor: Editor | null;
+  /** 편집 권한이 있어야 수락/거절할 수 있다 */
+  canResolve: boolean;
+}
+
+const MARK_LABELS: Record<string, string> = {
+  bold: "굵게",
+  italic: "기울임",
+  underline: "밑줄",
+  strike: "취소선",
+  highlight: "하이라이트",
+  link: "링크",
+  code: "인라인 코드",
+  subscript: "아래 첨자",
+  superscript: "위 첨자",
+  textStyle: "글자 색",
+};
+
+const ALIGN_LABELS: Record<string, string> = {
+  left: "왼쪽",
+  center: "가운데",
+  right: "오른쪽",
+  justify: "양쪽",
+};
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function formatTime(ms: number) {
+  return new Date(ms).toLocaleString("ko-KR", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function blockLabel({ type, attrs }: { type: string; attrs: Record<string, unknown> }) {
+  if (type === "heading") return `제목 ${attrs.level}`;
+  if (type === "codeBlock") return "코드 블록";
+  return "본문";
+}
+
+function describeChange(change: SuggestedChange) {
+  if (change.kind === "insert") return "추가";
+  if (change.kind === "delete") return "삭제";
+  const { format } = change;
+  if (format?.type === "mark") {
+    return format.added
+      ? `${MARK_LABELS[format.added] ?? format.added} 적용`
+      : `${MARK_LABELS[format.removed ?? ""] ?? format.removed} 해제`;
+  }
+  if (format?.type === "block") {
+    const before = blockLabel(format.before);
+    const after = blockLabel(format.after);
+    if (before !== after) return `${before} → ${after}`;
+    const align = String(format.after.attrs.textAlign ?? "left");
+    return `${ALIGN_LABELS[align] ?? align} 정렬`;
+  }
+  return "서식";
+}
+
+const KIND_STYLES: Record<SuggestedChange["kind"], string> = {
+  insert: "bg-emerald-500/10 text-emerald-700 ring-emerald-500/15",
+  delete: "bg-red-500/10 text-red-700 ring-red-500/15",
+  format: "bg-violet-500/10 text-violet-700 ring-violet-500/15",
+};
+
+/**
+ * 제안 모드로 남긴 변경 목록. 하나씩 또는 한꺼번에 수락/거절한다.
+ * 제안이 없으면 아무것도 그리지 않는다.
+ */
+export default function SuggestedChangesPanel({
+  editor,
+  canResolve,
+}: SuggestedChangesPanelProps) {
+  const changes =
+    useEditorState({
+      editor,
+      selector: ({ editor }) =>
+        editor ? findSuggestedChanges(editor.state.doc) : [],
+      equalityFn: (a, b) => JSON.stringify(a) === JSON.stringify(b),
+    }) ?? [];
+
+  if (!editor || changes.length === 0) return null;
+
+  const resolve = (ids: string[] | null, accept: boolean) => {
+    editor.view.dispatch(resolveSuggestions(editor.state, ids, accept));
+  };
+
+  const select = (change: SuggestedChange) => {
+    const { doc } = editor.state;
+    const to = Math.min(change.to, doc.content.size);
+    // 블록 서식 제안은 노드 경계라서 안쪽 글자 위치로 맞춘다
+    editor.view.dispatch(
+      editor.state.tr
+        .setSelection(
+          TextSelection.between(doc.resolve(change.from), doc.resolve(to))
+        )
+        .scrollIntoView()
+    );
+    editor.commands.focus();
+  };
+
+  return (
+    <aside
+      className={cx(
+        "max-h-[40vh] overflow-y-auto",
+        "rounded-2xl border border-black/6",
+        "bg-white/70 backdrop-blur-xl",
+        "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_60px_-55px_rgba(0,0,0,0.45)]",
+        "p-4"
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <span className="inline-flex items-center gap-1 rounded-full bg-black/4 px-2 py-1 text-[11px] font-medium text-slate-700 ring-1 ring-black/6">
+            <span className="inline-block h-1.5 w-1.5 rounded-full bg-emerald-500/70" />
+            Suggested changes
+          </span>
+          <h2 className="mt-2 text-[15px] font-semibold text-slate-900 tracking-tight">
+            제안 {changes.length}개
+          </h2>
+        </div>
+        {canResolve && (
+          <div className="shrink-0 flex gap-1.5">
+            <button
+              type="button"
+              onClick={() => resolve(null, true)}
+              className="h-8 rounded-lg px-2.5 text-[12px] font-medium bg-emerald-600/90 text-white hover:bg-emerald-600 transition"
+            >
+              모두 수락
+            </button>
+            <button
+              type="button"
+              onClick={() => resolve(null, false)}
+              className="h-8 rounded-lg px-2.5 text-[12px] font-medium bg-black/3 hover:bg-black/5 ring-1 ring-black/6 transition"
+            >
+              모두 거절
+            </button>
+          </div>
+        )}
+      </div>
+
+      <ul className="mt-4 space-y-2">
+        {changes.map((change) => (
+          <li
+            key={change.id}
+            onClick={() => select(change)}
+            className="cursor-pointer rounded-xl p-3 ring-1 ring-black/6 bg-white/60 transition duration-150 hover:bg-white hover:ring-black/10"
+          >
+            <div className="flex items-center gap-1.5 text-[11px] text-slate-500">
+              <span
+                className="h-1.5 w-1.5 rounded-full"
+                style={{ backgroundColor: change.authorColor }}
+              />
+              <span className="font-medium text-slate-700">
+                {change.authorName}
+              </span>
+              <span>{formatTime(change.createdAt)}</span>
+              <span
+                className={cx(
+                  "ml-auto rounded-full px-2 py-0.5 text-[10px] font-medium ring-1",
+                  KIND_STYLES[change.kind]
+                )}
+              >
+                {describeChange(change)}
+              </span>
+            </div>
+
+            <p
+              className={cx(
+                "mt-1.5 line-clamp-2 break-words text-[12px] leading-relaxed",
+                change.kind === "delete"
+                  ? "text-red-700/80 line-through"
+                  : "text-slate-800"
+              )}
+            >
+              {change.text || "(빈 블록)"}
+            </p>
+
+            {canResolve && (
+              <div className="mt-2 flex justify-end gap-1.5">
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    resolve([change.id], true);
+                  }}
+                  className="h-7 rounded-lg px-2.5 text-[12px] font-medium text-emerald-700 ring-1 ring-emerald-500/25 hover:bg-emerald-500/10 transition"
+                >
+                  수락
+                </button>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    resolve([change.id], false);
+                  }}
+                  className="h-7 rounded-lg px-2.5 text-[12px] font-medium text-slate-600 ring-1 ring-black/8 hover:bg-black/4 transition"
+                >
+                  거절
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useEditorState, type Editor } from "@tiptap/react";
+import {
+  AlignCenter,
+  AlignLeft,
+  AlignRight,
+  ArrowDownAZ,
+  ArrowDownZA,
+  Ban,
+  BetweenHorizontalEnd,
+  BetweenHorizontalStart,
+  BetweenVerticalEnd,
+  BetweenVerticalStart,
+  Columns3,
+  Grid2x2X,
+  PaintBucket,
+  PanelLeft,
+  PanelTop,
+  Rows3,
+  TableCellsMerge,
+  TableCellsSplit,
+} from "lucide-react";
+import {
+  CELL_COLORS,
+  getTableState,
+  setColumnAlign,
+  sortTableByColumn,
+  type CellAlign,
+  type SortDirection,
+} from "@/components/editor/tables";
+import {
+  ToolbarButton,
+  ToolbarDivider,
+  ToolbarGroup,
+} from "@/components/Toolbar";
+
+interface TableToolbarProps {
+  editor: Editor;
+  /** 제안 모드에서는 표 구조 변경을 추적하지 않으므로 막는다 */
+  disabled: boolean;
+}
+
+const ALIGNMENTS: Array<{ value: CellAlign; title: string; icon: typeof AlignLeft }> = [
+  { value: "left", title: "열 왼쪽 정렬", icon: AlignLeft },
+  { value: "center", title: "열 가운데 정렬", icon: AlignCenter },
+  { value: "right", title: "열 오른쪽 정렬", icon: AlignRight },
+];
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+/**
+ * 선택이 표 안에 있을 때 툴바 아래에 붙는 표 편집 줄.
+ * 행/열 추가·삭제, 병합/분할, 머리글, 셀 배경색, 열 정렬, 열로 정렬하기.
+ */
+export default function TableToolbar({ editor, disabled }: TableToolbarProps) {
+  const table = useEditorState({
+    editor,
+    selector: ({ editor }) => {
+      const state = getTableState(editor.state);
+      return state
+        ? {
+            ...state,
+            canMerge: editor.can().mergeCells(),
+            canSplit: editor.can().splitCell(),
+          }
+        : null;
+    },
+    equalityFn: (a, b) => JSON.stringify(a) === JSON.stringify(b),
+  });
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const paletteRef = useRef<HTMLDivElement>(null);
+
+  // 바깥을 누르거나 Escape로 닫는다
+  useEffect(() => {
+    if (!paletteOpen) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!paletteRef.current?.contains(e.target as Node)) setPaletteOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setPaletteOpen(false);
+    };
+    window.addEventListener("mousedown", handleMouseDown);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("mousedown", handleMouseDown);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [paletteOpen]);
+
+  if (!table) return null;
+
+  const sort = (direction: SortDirection) => {
+    const tr = sortTableByColumn(editor.state, direction);
+    if (tr) editor.view.dispatch(tr.scrollIntoView());
+    editor.commands.focus();
+  };
+
+  const align = (value: CellAlign) => {
+    const tr = setColumnAlign(editor.state, value);
+    if (tr) editor.view.dispatch(tr);
+    editor.commands.focus();
+  };
+
+  const setBackground = (color: string | null) => {
+    setPaletteOpen(false);
+    editor.chain().focus().setCellAttribute("backgroundColor", color).run();
+  };
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 border-t border-black/6 pt-2">
+      <span className="px-1 text-[12px] font-medium text-slate-500">표</span>
+
+      {/* Rows / columns */}
+      <ToolbarGroup>
+        <ToolbarButton
+          title="위에 행 추가"
+          disabled={disabled}
+          onClick={() => editor.chain().focus().addRowBefore().run()}
+        >
+          <BetweenHorizontalStart className="h-4 w-4" />
+        </ToolbarButton>
+        <ToolbarButton
+          title="아래에 행 추가"
+          disabled={disabled}
+          onClick={() => editor.chain().focus().addRowAfter().run()}
+        >
+          <BetweenHorizontalEnd className="h-4 w-4" />
+        </ToolbarButton>
+        <ToolbarButton
+          title="왼쪽에 열 추가"
+          disabled={disabled}
+          onClick={() => editor.chain().focus().addColumnBefore().run()}
+        >
+          <BetweenVerticalStart className="h-4 w-4" />
+        </ToolbarButton>
+        <ToolbarButton
+          title="오른쪽에 열 추가"
+          disabled={disabled}
+          onClick={() => editor.chain().focus().addColumnAfter().run()}
+        >
+          <BetweenVerticalEnd className="h-4 w-4" />
+        </ToolbarButton>
+      </ToolbarGroup>
+
+      <ToolbarGroup>
+        <ToolbarButton
+          title="행 삭제"
+          disabled={disabled}
+          onClick={() => editor.chain().focus().deleteRow().run()}
+        >
+          <Rows3 className="h-4 w-4" />
+        </ToolbarButton>
+        <ToolbarButton
+          title="열 삭제"
+          disabled={disabled}
+          onClick={() => editor.chain().focus().deleteColumn().run()}
+        >
+          <Columns3 className="h-4 w-4" />
+        </ToolbarButton>
+        <ToolbarButton
+          title="표 삭제"
+          disabled={disabled}
+          onClick={() => editor.chain().focus().deleteTable().run()}
+        >
+          <Grid2x2X className="h-4 w-4" />
+        </ToolbarButton>
+      </ToolbarGroup>
+
+      <ToolbarDivider />
+
+      {/* Cells */}
+      <ToolbarGroup>
+        <ToolbarButton
+          title="셀 병합 (여러 칸을 끌어서 고른 뒤)"
+          disabled={disabled || !table.canMerge}
+          onClick={() => editor.chain().focus().mergeCells().run()}
+        >
+          <TableCellsMerge className="h-4 w-4" />
+        </ToolbarButton>
+        <ToolbarButton
+          title="셀 나누기"
+          disabled={disabled || !table.canSplit}
+          onClick={() => editor.chain().focus().splitCell().run()}
+        >
+          <TableCellsSplit className="h-4 w-4" />
+        </ToolbarButton>
+        <ToolbarButton
+          title="머리글 행"
+          disabled={disabled}
+          active={table.headerRow}
+          onClick={() => editor.chain().focus().toggleHeaderRow().run()}
+        >
+          <PanelTop className="h-4 w-4" />
+        </ToolbarButton>
+        <ToolbarButton
+          title="머리글 열"
+          disabled={disabled}
+          active={table.headerColumn}
+          onClick={() => editor.chain().focus().toggleHeaderColumn().run()}
+        >
+          <PanelLeft className="h-4 w-4" />
+        </ToolbarButton>
+
+        <div ref={paletteRef} className="relative">
+          <ToolbarButton
+            title="셀 배경색"
+            disabled={disabled}
+            active={paletteOpen}
+            onClick={() => setPaletteOpen((v) => !v)}
+          >
+            <PaintBucket className="h-4 w-4" />
+            <span
+              className="ml-1 h-3 w-3 rounded-sm ring-1 ring-black/10"
+              style={{ background: table.background ?? "transparent" }}
+            />
+          </ToolbarButton>
+
+          {paletteOpen && (
+            <div
+              role="menu"
+              aria-label="셀 배경색"
+              className={cx(
+                "absolute left-0 top-11 z-[60] flex items-center gap-1",
+                "rounded-xl border border-black/6",
+                "bg-white/95 backdrop-blur-xl",
+                "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_18px_50px_-30px_rgba(0,0,0,0.45)]",
+                "p-1.5"
+              )}
+            >
+              <button
+                type="button"
+                role="menuitem"
+                title="배경색 없음"
+                onClick={() => setBackground(null)}
+                className={cx(
+                  "inline-flex h-7 w-7 items-center justify-center rounded-lg text-slate-500 hover:bg-black/4",
+                  !table.background && "ring-2 ring-blue-500/40"
+                )}
+              >
+                <Ban className="h-4 w-4" />
+              </button>
+              {CELL_COLORS.map(({ label, color }) => (
+                <button
+                  key={color}
+                  type="button"
+                  role="menuitem"
+                  title={label}
+                  onClick={() => setBackground(color)}
+                  className={cx(
+                    "h-7 w-7 rounded-lg ring-1 ring-black/10 transition hover:scale-105",
+                    table.background === color && "ring-2 ring-blue-500/60"
+                  )}
+                  style={{ background: color }}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </ToolbarGroup>
+
+      <ToolbarDivider />
+
+      {/* Column alignment / sorting */}
+      <ToolbarGroup>
+        {ALIGNMENTS.map(({ value, title, icon: Icon }) => (
+          <ToolbarButton
+            key={value}
+            title={title}
+            disabled={disabled}
+            active={table.align === value}
+            onClick={() => align(value)}
+          >
+            <Icon className="h-4 w-4" />
+          </ToolbarButton>
+        ))}
+      </ToolbarGroup>
+
+      <ToolbarGroup>
+        <ToolbarButton
+          title={
+            table.sortable
+              ? "이 열로 오름차순 정렬"
+              : "병합된 셀이 있는 표는 정렬할 수 없습니다"
+          }
+          disabled={disabled || !table.sortable}
+          onClick={() => sort("asc")}
+        >
+          <ArrowDownAZ className="h-4 w-4" />
+        </ToolbarButton>
+        <ToolbarButton
+          title={
+            table.sortable
+              ? "이 열로 내림차순 정렬"
+              : "병합된 셀이 있는 표는 정렬할 수 없습니다"
+          }
+          disabled={disabled || !table.sortable}
+          onClick={() => sort("desc")}
+        >
+          <ArrowDownZA className="h-4 w-4" />
+        </ToolbarButton>
+      </ToolbarGroup>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+/** 편집기 툴바의 버튼과 묶음 (기본 툴바와 표 툴바가 같이 쓴다) */
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+export function ToolbarButton({
+  active,
+  disabled,
+  title,
+  onClick,
+  children,
+}: {
+  active?: boolean;
+  disabled?: boolean;
+  title: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className={cx(
+        "inline-flex items-center justify-center rounded-lg px-2.5 py-2 text-[13px] leading-none",
+        "transition duration-150",
+        "focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500/40 focus-visible:ring-offset-0",
+        disabled && "opacity-40 cursor-not-allowed",
+        !disabled && "hover:bg-black/4 active:bg-black/6",
+        active && "bg-blue-500/10 text-blue-700"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+export function ToolbarGroup({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="flex items-center gap-1 rounded-xl bg-white/60 ring-1 ring-black/6 px-1 py-1 backdrop-blur">
+      {children}
+    </div>
+  );
+}
+
+export function ToolbarDivider() {
+  return <div className="mx-2 h-6 w-px bg-black/6" />;
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import { useState, type CSSProperties } from "react";
+import type {
+  DiffBlock,
+  DiffBlockInfo,
+  DiffSegment,
+} from "@/lib/versions/diff";
+
+export type DiffLayout = "split" | "inline";
+
+interface VersionDiffViewProps {
+  blocks: DiffBlock[];
+  /** split: 이전/이후를 나란히, inline: 한 흐름에 섞어서 */
+  layout: DiffLayout;
+}
+
+const MARK_LABELS: Record<string, string> = {
+  bold: "굵게",
+  italic: "기울임",
+  underline: "밑줄",
+  strike: "취소선",
+  highlight: "하이라이트",
+  link: "링크",
+  code: "인라인 코드",
+  subscript: "아래 첨자",
+  superscript: "위 첨자",
+  textStyle: "글자 색",
+};
+
+const ALIGN_LABELS: Record<string, string> = {
+  left: "왼쪽",
+  center: "가운데",
+  right: "오른쪽",
+  justify: "양쪽",
+};
+
+const BLOCK_LABELS: Record<string, string> = {
+  paragraph: "본문",
+  codeBlock: "코드 블록",
+  image: "이미지",
+  attachment: "첨부 파일",
+  youtube: "동영상",
+  horizontalRule: "구분선",
+};
+
+// 같은 블록이 이보다 길게 이어지면 앞뒤만 남기고 접는다
+const COLLAPSE_AFTER = 4;
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function blockLabel({ type, attrs }: DiffBlockInfo) {
+  if (type === "heading") return `제목 ${attrs.level}`;
+  return BLOCK_LABELS[type] ?? type;
+}
+
+/** 글자는 그대로인데 블록 종류/정렬/위치가 바뀐 경우의 설명 */
+function blockNotes(block: DiffBlock) {
+  const { before, after } = block;
+  if (block.status !== "change" || !before || !after) return [];
+
+  const notes: string[] = [];
+  if (blockLabel(before) !== blockLabel(after)) {
+    notes.push(`${blockLabel(before)} → ${blockLabel(after)}`);
+  }
+  const alignBefore = String(before.attrs.textAlign ?? "left");
+  const alignAfter = String(after.attrs.textAlign ?? "left");
+  if (alignBefore !== alignAfter) {
+    notes.push(
+      `정렬 ${ALIGN_LABELS[alignBefore] ?? alignBefore} → ${ALIGN_LABELS[alignAfter] ?? alignAfter}`
+    );
+  }
+  if (before.containers.join("/") !== after.containers.join("/")) {
+    notes.push("위치 이동 (목록/표/인용)");
+  }
+  return notes;
+}
+
+function describeFormat(format: NonNullable<DiffSegment["format"]>) {
+  return [
+    ...format.added.map((mark) => `${MARK_LABELS[mark] ?? mark} 적용`),
+    ...format.removed.map((mark) => `${MARK_LABELS[mark] ?? mark} 해제`),
+  ].join(", ");
+}
+
+function markClasses(marks: string[]) {
+  return cx(
+    marks.includes("bold") && "font-semibold",
+    marks.includes("italic") && "italic",
+    marks.includes("underline") && "underline",
+    marks.includes("strike") && "line-through",
+    marks.includes("code") && "font-mono text-[0.92em]"
+  );
+}
+
+function Segment({ segment }: { segment: DiffSegment }) {
+  if (segment.op === "insert") {
+    return (
+      <ins
+        className={cx(
+          "rounded-sm bg-emerald-500/15 text-emerald-900 no-underline",
+          markClasses(segment.marks)
+        )}
+      >
+        {segment.text}
+      </ins>
+    );
+  }
+  if (segment.op === "delete") {
+    return (
+      <del
+        className={cx(
+          "rounded-sm bg-red-500/12 text-red-800/80",
+          markClasses(segment.marks)
+        )}
+      >
+        {segment.text}
+      </del>
+    );
+  }
+  if (segment.format) {
+    const label = describeFormat(segment.format);
+    return (
+      <span
+        title={label}
+        className={cx(
+          "rounded-sm bg-violet-500/10 border-b border-dotted border-violet-500",
+          markClasses(segment.marks)
+        )}
+      >
+        {segment.text}
+      </span>
+    );
+  }
+  return <span className={markClasses(segment.marks)}>{segment.text}</span>;
+}
+
+function BlockText({
+  shape,
+  segments,
+}: {
+  shape: DiffBlockInfo;
+  segments: DiffSegment[];
+}) {
+  const inList = shape.containers.some((type) => type.endsWith("List"));
+  return (
+    <div
+      className={cx(
+        "whitespace-pre-wrap break-words text-slate-800",
+        shape.type === "heading"
+          ? Number(shape.attrs.level) === 1
+            ? "text-[20px] font-semibold tracking-tight"
+            : "text-[16px] font-semibold"
+          : "text-[14px] leading-relaxed",
+        shape.type === "codeBlock" &&
+          "font-mono text-[12.5px] rounded-md bg-black/4 px-2 py-1",
+        shape.containers.includes("blockquote") &&
+          "border-l-2 border-black/10 pl-3 text-slate-600"
+      )}
+      style={{
+        marginLeft: shape.containers.length * 16,
+        textAlign: shape.attrs.textAlign as CSSProperties["textAlign"],
+      }}
+    >
+      {inList && <span className="mr-1.5 text-slate-400">•</span>}
+      {segments.length === 0 ? (
+        <span className="text-slate-400">(빈 줄)</span>
+      ) : (
+        segments.map((segment, index) => (
+          <Segment key={index} segment={segment} />
+        ))
+      )}
+    </div>
+  );
+}
+
+function BlockRow({ block, layout }: { block: DiffBlock; layout: DiffLayout }) {
+  const notes = [
+    ...blockNotes(block),
+    ...block.segments
+      .map((segment) => segment.format)
+      .filter((format) => format !== undefined)
+      .map(describeFormat),
+  ];
+  const statusClass = cx(
+    "rounded-lg py-1 px-3 border-l-2",
+    block.status === "insert" && "border-emerald-500/70 bg-emerald-500/5",
+    block.status === "delete" && "border-red-500/70 bg-red-500/5",
+    block.status === "change" && "border-violet-500/60",
+    block.status === "equal" && "border-transparent"
+  );
+
+  const noteList = notes.length > 0 && (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {notes.map((note, index) => (
+        <span
+          key={index}
+          className="rounded-full bg-violet-500/10 px-2 py-0.5 text-[10px] font-medium text-violet-700 ring-1 ring-violet-500/15"
+        >
+          {note}
+        </span>
+      ))}
+    </div>
+  );
+
+  if (layout === "inline") {
+    return (
+      <div className={statusClass}>
+        <BlockText
+          shape={block.after ?? block.before!}
+          segments={block.segments}
+        />
+        {noteList}
+      </div>
+    );
+  }
+
+  // 나란히: 왼쪽은 이전 버전(삭제 표시), 오른쪽은 이후 버전(추가 표시)
+  return (
+    <div className={cx("grid grid-cols-2 gap-4", statusClass)}>
+      <div className="min-w-0">
+        {block.before && (
+          <BlockText
+            shape={block.before}
+            segments={block.segments.filter((s) => s.op !== "insert")}
+          />
+        )}
+      </div>
+      <div className="min-w-0">
+        {block.after && (
+          <BlockText
+            shape={block.after}
+            segments={block.segments.filter((s) => s.op !== "delete")}
+          />
+        )}
+        {noteList}
+      </div>
+    </div>
+  );
+}
+
+type Row =
+  | { type: "block"; block: DiffBlock; key: number }
+  | { type: "collapsed"; blocks: DiffBlock[]; key: number };
+
+/** 바뀐 곳 주변만 보이도록 길게 이어지는 같은 블록을 접는다 */
+function toRows(blocks: DiffBlock[]) {
+  const rows: Row[] = [];
+  let run: DiffBlock[] = [];
+  let start = 0;
+
+  const flushRun = (end: number) => {
+    const atStart = start === 0;
+    const atEnd = end === blocks.length;
+    // 양끝은 바뀐 곳 쪽 한 블록만, 가운데는 앞뒤 한 블록씩 남긴다
+    const head = atStart ? 0 : 1;
+    const tail = atEnd ? 0 : 1;
+    if (run.length <= COLLAPSE_AFTER || run.length <= head + tail) {
+      run.forEach((block, index) =>
+        rows.push({ type: "block", block, key: start + index })
+      );
+    } else {
+      run.slice(0, head).forEach((block, index) =>
+        rows.push({ type: "block", block, key: start + index })
+      );
+      rows.push({
+        type: "collapsed",
+        blocks: run.slice(head, run.length - tail),
+        key: start + head,
+      });
+      run.slice(run.length - tail).forEach((block, index) =>
+        rows.push({ type: "block", block, key: end - tail + index })
+      );
+    }
+    run = [];
+  };
+
+  blocks.forEach((block, index) => {
+    if (block.status === "equal") {
+      if (run.length === 0) start = index;
+      run.push(block);
+      return;
+    }
+    if (run.length > 0) flushRun(index);
+    rows.push({ type: "block", block, key: index });
+  });
+  if (run.length > 0) flushRun(blocks.length);
+  return rows;
+}
+
+/**
+ * 두 버전의 비교 결과. 추가는 초록, 삭제는 빨강 취소선,
+ * 서식만 바뀐 글자는 보라 점선으로 표시하고 바뀐 서식을 블록 아래에 적는다.
+ */
+export default function VersionDiffView({
+  blocks,
+  layout,
+}: VersionDiffViewProps) {
+  const [expanded, setExpanded] = useState<Set<number>>(() => new Set());
+  const unchanged = blocks.every((block) => block.status === "equal");
+
+  if (blocks.length === 0 || unchanged) {
+    return (
+      <p className="py-10 text-center text-[13px] text-slate-500">
+        두 버전의 내용이 같습니다.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {toRows(blocks).map((row) =>
+        row.type === "block" ? (
+          <BlockRow key={row.key} block={row.block} layout={layout} />
+        ) : expanded.has(row.key) ? (
+          row.blocks.map((block, index) => (
+            <BlockRow key={row.key + index} block={block} layout={layout} />
+          ))
+        ) : (
+          <button
+            key={row.key}
+            type="button"
+            onClick={() =>
+              setExpanded((current) => new Set(current).add(row.key))
+            }
+            className="w-full rounded-lg py-1.5 text-[12px] text-slate-500 bg-black/3 hover:bg-black/5 transition"
+          >
+            바뀌지 않은 블록 {row.blocks.length}개 펼치기
+          </button>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,432 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { History, X } from "lucide-react";
+import type { JSONContent } from "@tiptap/core";
+import VersionDiffView, { type DiffLayout } from "@/components/VersionDiffView";
+import { diffDocuments, summarizeDiff } from "@/lib/versions/diff";
+import {
+  createVersion,
+  fetchVersion,
+  fetchVersions,
+} from "@/lib/versions/client";
+import {
+  VERSION_KIND_LABELS,
+  type StoredVersion,
+  type VersionSummary,
+} from "@/lib/versions/types";
+
+interface VersionHistoryDialogProps {
+  documentId: string;
+  /** 편집기에 보이는 지금 내용 ("현재 문서"와 비교할 때) */
+  getCurrent: () => { title: string; content: JSONContent } | null;
+  /** 버전을 남기기 직전에 자동 저장 대기분을 먼저 저장 */
+  onBeforeSnapshot: () => Promise<void>;
+  /** 편집기 내용을 고른 버전으로 바꾼다 */
+  onRestore: (version: StoredVersion) => Promise<void>;
+  onClose: () => void;
+}
+
+// 비교 대상: 버전 id, 지금 편집기 내용, 빈 문서(첫 버전의 이전)
+const CURRENT = "current";
+const EMPTY = "empty";
+
+const EMPTY_DOC: JSONContent = { type: "doc", content: [] };
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString("ko-KR", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function versionLabel(version: VersionSummary) {
+  return version.name ?? VERSION_KIND_LABELS[version.kind];
+}
+
+export default function VersionHistoryDialog({
+  documentId,
+  getCurrent,
+  onBeforeSnapshot,
+  onRestore,
+  onClose,
+}: VersionHistoryDialogProps) {
+  // undefined: 불러오는 중 (최신 버전이 마지막)
+  const [versions, setVersions] = useState<VersionSummary[] | undefined>(
+    undefined
+  );
+  const [loaded, setLoaded] = useState<Record<string, StoredVersion>>({});
+  const [baseId, setBaseId] = useState<string>(EMPTY);
+  const [targetId, setTargetId] = useState<string>(CURRENT);
+  const [layout, setLayout] = useState<DiffLayout>("split");
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [failed, setFailed] = useState(false);
+  // 열었을 때의 편집기 내용 (복원하면 다시 읽는다)
+  const [current, setCurrent] = useState(getCurrent);
+
+  const reload = useCallback(async () => {
+    const list = await fetchVersions(documentId);
+    setVersions(list);
+    return list;
+  }, [documentId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchVersions(documentId)
+      .then((list) => {
+        if (cancelled) return;
+        setVersions(list);
+        // 처음에는 마지막 버전 → 지금 내용
+        if (list.length > 0) setBaseId(list[list.length - 1].id);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  // 비교에 필요한 버전 본문을 불러온다
+  useEffect(() => {
+    let cancelled = false;
+    const missing = [baseId, targetId].filter(
+      (id) => id !== CURRENT && id !== EMPTY && !loaded[id]
+    );
+    missing.forEach((id) => {
+      fetchVersion(documentId, id)
+        .then((version) => {
+          if (!cancelled) {
+            setLoaded((prev) => ({ ...prev, [version.id]: version }));
+          }
+        })
+        .catch(() => {
+          if (!cancelled) setFailed(true);
+        });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, baseId, targetId, loaded]);
+
+  const contentOf = useCallback(
+    (id: string) => {
+      if (id === EMPTY) return EMPTY_DOC;
+      if (id === CURRENT) return current?.content ?? null;
+      return loaded[id]?.content ?? null;
+    },
+    [current, loaded]
+  );
+
+  const before = contentOf(baseId);
+  const after = contentOf(targetId);
+  const blocks = useMemo(
+    () => (before && after ? diffDocuments(before, after) : null),
+    [before, after]
+  );
+  const summary = blocks && summarizeDiff(blocks);
+
+  const newestFirst = useMemo(
+    () => [...(versions ?? [])].reverse(),
+    [versions]
+  );
+
+  // 목록에서 고르면 그 버전을 바로 이전 버전과 비교한다
+  const selectVersion = (id: string) => {
+    const index = versions?.findIndex((version) => version.id === id) ?? -1;
+    setTargetId(id);
+    setBaseId(index > 0 ? versions![index - 1].id : EMPTY);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setFailed(false);
+    try {
+      await action();
+    } catch {
+      setFailed(true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () =>
+    run(async () => {
+      await onBeforeSnapshot();
+      const version = await createVersion(documentId, {
+        kind: "manual",
+        name: name.trim() || null,
+      });
+      setName("");
+      setLoaded((prev) => ({ ...prev, [version.id]: version }));
+      await reload();
+      setCurrent(getCurrent());
+      setBaseId(version.id);
+      setTargetId(CURRENT);
+    });
+
+  const handleRestore = (id: string) =>
+    run(async () => {
+      const version = loaded[id] ?? (await fetchVersion(documentId, id));
+      await onRestore(version);
+      const list = await reload();
+      setCurrent(getCurrent());
+      // 복원 직전 상태와 복원 결과를 비교해 보여준다
+      setBaseId(list.length > 1 ? list[list.length - 2].id : EMPTY);
+      setTargetId(list[list.length - 1]?.id ?? CURRENT);
+    });
+
+  const targetVersion = versions?.find((version) => version.id === targetId);
+
+  const options = (
+    <>
+      <option value={CURRENT}>현재 문서</option>
+      {newestFirst.map((version) => (
+        <option key={version.id} value={version.id}>
+          {versionLabel(version)} · {formatTime(version.createdAt)}
+        </option>
+      ))}
+      <option value={EMPTY}>빈 문서</option>
+    </>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-start justify-center bg-slate-900/20 backdrop-blur-sm px-4 pt-20 pb-6"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="history-dialog-title"
+        className={cx(
+          "w-full max-w-[1180px] h-full max-h-[860px] flex flex-col",
+          "rounded-2xl border border-black/6",
+          "bg-white/90 backdrop-blur-xl",
+          "shadow-[0_1px_0_0_rgba(0,0,0,0.02),0_30px_90px_-40px_rgba(0,0,0,0.55)]",
+          "p-5"
+        )}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <h2
+            id="history-dialog-title"
+            className="inline-flex items-center gap-2 text-[15px] font-semibold text-slate-900 tracking-tight"
+          >
+            <History className="h-4 w-4 text-slate-500" />
+            버전 기록
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            title="닫기"
+            className="rounded-lg p-1.5 text-slate-500 hover:bg-black/4 transition"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="mt-4 min-h-0 flex-1 grid grid-cols-1 md:grid-cols-[260px_minmax(0,1fr)] gap-5">
+          {/* Version list */}
+          <div className="min-h-0 flex flex-col">
+            <form
+              className="flex gap-1.5"
+              onSubmit={(e) => {
+                e.preventDefault();
+                void handleSave();
+              }}
+            >
+              <input
+                type="text"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="버전 이름 (예: 지도교수님께 보낸 초안)"
+                className="min-w-0 flex-1 h-8 rounded-lg bg-white/70 px-2.5 text-[12px] ring-1 ring-black/8 outline-none focus:ring-2 focus:ring-blue-500/25"
+              />
+              <button
+                type="submit"
+                disabled={busy}
+                className="shrink-0 h-8 rounded-lg px-2.5 text-[12px] font-medium bg-blue-600/90 text-white hover:bg-blue-600 disabled:opacity-50 transition"
+              >
+                버전 저장
+              </button>
+            </form>
+
+            <ul className="mt-3 min-h-0 flex-1 overflow-y-auto space-y-1.5 pr-1">
+              <li>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setTargetId(CURRENT);
+                    setBaseId(versions?.at(-1)?.id ?? EMPTY);
+                  }}
+                  className={cx(
+                    "w-full rounded-xl p-2.5 text-left ring-1 transition",
+                    targetId === CURRENT
+                      ? "bg-blue-500/8 ring-blue-500/25"
+                      : "bg-white/60 ring-black/6 hover:bg-white"
+                  )}
+                >
+                  <div className="text-[13px] font-medium text-slate-900">
+                    현재 문서
+                  </div>
+                  <div className="mt-0.5 text-[11px] text-slate-500">
+                    저장되지 않은 편집 포함
+                  </div>
+                </button>
+              </li>
+              {versions === undefined && !failed && (
+                <li className="px-1 text-[12px] text-slate-500">
+                  불러오는 중…
+                </li>
+              )}
+              {versions?.length === 0 && (
+                <li className="px-1 text-[12px] text-slate-500 leading-relaxed">
+                  아직 버전이 없습니다. 편집하는 동안 자동으로 쌓이고, 위에서
+                  이름을 붙여 저장할 수도 있어요.
+                </li>
+              )}
+              {newestFirst.map((version) => (
+                <li key={version.id}>
+                  <button
+                    type="button"
+                    onClick={() => selectVersion(version.id)}
+                    className={cx(
+                      "w-full rounded-xl p-2.5 text-left ring-1 transition",
+                      targetId === version.id
+                        ? "bg-blue-500/8 ring-blue-500/25"
+                        : "bg-white/60 ring-black/6 hover:bg-white"
+                    )}
+                  >
+                    <div className="flex items-center gap-1.5">
+                      <span className="min-w-0 flex-1 truncate text-[13px] font-medium text-slate-900">
+                        {versionLabel(version)}
+                      </span>
+                      {version.name && (
+                        <span className="shrink-0 rounded-full bg-black/3 px-1.5 py-0.5 text-[10px] text-slate-600 ring-1 ring-black/6">
+                          {VERSION_KIND_LABELS[version.kind]}
+                        </span>
+                      )}
+                    </div>
+                    <div className="mt-0.5 text-[11px] text-slate-500">
+                      {formatTime(version.createdAt)} ·{" "}
+                      {version.characters.toLocaleString()}자
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Diff */}
+          <div className="min-h-0 flex flex-col">
+            <div className="flex flex-wrap items-center gap-2 text-[12px] text-slate-600">
+              <label className="inline-flex items-center gap-1.5">
+                이전
+                <select
+                  value={baseId}
+                  onChange={(e) => setBaseId(e.target.value)}
+                  className="h-8 max-w-[220px] rounded-lg bg-white/70 px-2 ring-1 ring-black/8 outline-none"
+                >
+                  {options}
+                </select>
+              </label>
+              <span className="opacity-60">→</span>
+              <label className="inline-flex items-center gap-1.5">
+                이후
+                <select
+                  value={targetId}
+                  onChange={(e) => setTargetId(e.target.value)}
+                  className="h-8 max-w-[220px] rounded-lg bg-white/70 px-2 ring-1 ring-black/8 outline-none"
+                >
+                  {options}
+                </select>
+              </label>
+
+              <div className="ml-auto flex items-center gap-2">
+                <div className="inline-flex rounded-lg bg-black/3 p-0.5 ring-1 ring-black/6">
+                  {(["split", "inline"] as const).map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setLayout(value)}
+                      className={cx(
+                        "h-7 rounded-md px-2 text-[12px] font-medium transition",
+                        layout === value
+                          ? "bg-white text-slate-900 shadow-sm"
+                          : "text-slate-500 hover:text-slate-800"
+                      )}
+                    >
+                      {value === "split" ? "나란히" : "한 줄로"}
+                    </button>
+                  ))}
+                </div>
+                {targetVersion && (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => handleRestore(targetVersion.id)}
+                    className="h-8 rounded-lg px-2.5 text-[12px] font-medium bg-black/3 hover:bg-black/5 ring-1 ring-black/6 disabled:opacity-50 transition"
+                  >
+                    이 버전으로 복원
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {summary && (
+              <div className="mt-3 flex items-center gap-3 text-[11px] text-slate-500">
+                <span className="text-emerald-700">
+                  +{summary.inserted.toLocaleString()}자
+                </span>
+                <span className="text-red-700">
+                  −{summary.deleted.toLocaleString()}자
+                </span>
+                <span className="text-violet-700">
+                  서식 변경 {summary.formatted}곳
+                </span>
+              </div>
+            )}
+
+            {failed && (
+              <p className="mt-3 text-[12px] text-red-700">
+                버전 기록을 불러오거나 저장하지 못했습니다. 잠시 후 다시
+                시도해 주세요.
+              </p>
+            )}
+
+            <div className="mt-3 min-h-0 flex-1 overflow-y-auto rounded-xl bg-white/60 ring-1 ring-black/6 p-4">
+              {blocks ? (
+                <VersionDiffView blocks={blocks} layout={layout} />
+              ) : (
+                <p className="py-10 text-center text-[13px] text-slate-500">
+                  불러오는 중…
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
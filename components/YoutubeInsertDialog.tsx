@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import type { Editor } from "@tiptap/react";
+import { Play } from "lucide-react";
+import {
+  youtubeThumbnailUrl,
+  youtubeVideoId,
+  youtubeWatchUrl,
+} from "@/components/editor/youtube";
+import InsertPopover from "@/components/InsertPopover";
+
+interface YoutubeInsertDialogProps {
+  editor: Editor;
+  onClose: () => void;
+}
+
+/** YouTube 주소를 받아 썸네일로 확인한 뒤 넣는다 */
+export default function YoutubeInsertDialog({
+  editor,
+  onClose,
+}: YoutubeInsertDialogProps) {
+  const [url, setUrl] = useState("");
+  const videoId = youtubeVideoId(url);
+  const invalid = url.trim() !== "" && !videoId;
+
+  const handleInsert = () => {
+    if (!videoId) return;
+    editor
+      .chain()
+      .focus()
+      .setYoutubeVideo({ src: youtubeWatchUrl(videoId) })
+      .run();
+    onClose();
+  };
+
+  return (
+    <InsertPopover
+      editor={editor}
+      title="YouTube 동영상"
+      size={videoId ? 1 : 0}
+      onClose={onClose}
+    >
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleInsert();
+        }}
+      >
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://www.youtube.com/watch?v=…"
+          autoFocus
+          className="h-9 w-full rounded-xl bg-white px-3 text-[12px] ring-1 ring-black/6 outline-none placeholder:text-slate-400 focus:ring-2 focus:ring-blue-500/20"
+        />
+        {invalid && (
+          <p className="mt-1.5 text-[11px] text-red-600">
+            YouTube 동영상 주소가 아닙니다.
+          </p>
+        )}
+
+        {videoId && (
+          <div className="relative mt-2.5 aspect-video overflow-hidden rounded-lg bg-slate-100 ring-1 ring-black/6">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={youtubeThumbnailUrl(videoId)}
+              alt=""
+              className="h-full w-full object-cover"
+            />
+            <span className="absolute inset-0 flex items-center justify-center">
+              <span className="rounded-full bg-black/60 p-2.5 text-white">
+                <Play className="h-5 w-5" />
+              </span>
+            </span>
+          </div>
+        )}
+
+        <div className="mt-3 flex justify-end">
+          <button
+            type="submit"
+            disabled={!videoId}
+            className="h-8 rounded-xl px-3 text-[12px] font-medium bg-blue-600/90 hover:bg-blue-600 text-white ring-1 ring-blue-600/30 disabled:opacity-50 transition"
+          >
+            넣기
+          </button>
+        </div>
+      </form>
+    </InsertPopover>
+  );
+}
@@ -0,0 +1,212 @@
+import { Node, mergeAttributes } from "@tiptap/core";
+import { DOMSerializer, type DOMOutputSpec } from "@tiptap/pm/model";
+import { fileUrl } from "@/lib/files/client";
+import { getUploadProgress, subscribeUpload } from "./uploads";
+
+export function formatBytes(bytes: number) {
+  if (!bytes || Number.isNaN(bytes)) return "";
+  const units = ["B", "KB", "MB", "GB"];
+  const exponent = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(1024)),
+    units.length - 1
+  );
+  const value = bytes / Math.pow(1024, exponent);
+  return `${value.toFixed(value >= 10 || exponent === 0 ? 0 : 1)} ${
+    units[exponent]
+  }`;
+}
+
+const SVG_ATTRS = {
+  width: "18",
+  height: "18",
+  viewBox: "0 0 24 24",
+  fill: "none",
+  stroke: "currentColor",
+  "stroke-width": "2",
+  "stroke-linecap": "round",
+  "stroke-linejoin": "round",
+  "aria-hidden": "true",
+};
+
+// renderSpec은 "네임스페이스 태그" 형식이어야 실제 SVG 요소를 만든다 (자식은 상속)
+const SVG = "http://www.w3.org/2000/svg svg";
+
+function downloadSpec(fileId: string | null, name: string): DOMOutputSpec {
+  const icon: DOMOutputSpec = [
+    SVG,
+    SVG_ATTRS,
+    ["path", { d: "M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" }],
+    ["path", { d: "M7 10l5 5 5-5" }],
+    ["path", { d: "M12 15V3" }],
+  ];
+
+  // 업로드가 끝나기 전(또는 예전 문서)에는 받을 파일이 없다
+  if (!fileId) {
+    return [
+      "span",
+      {
+        class: "attachment-card__download",
+        "aria-disabled": "true",
+        title: "파일이 아직 업로드되지 않았습니다",
+      },
+      icon,
+    ];
+  }
+
+  return [
+    "a",
+    {
+      class: "attachment-card__download",
+      href: fileUrl(fileId, { name, download: true }),
+      download: name,
+      "aria-label": `${name} 다운로드`,
+      title: "다운로드",
+    },
+    icon,
+  ];
+}
+
+function sizeText(size: number, uploadId: string | null, fileId: string | null) {
+  if (fileId || !uploadId) return formatBytes(size);
+  const progress = getUploadProgress(uploadId);
+  return progress === undefined
+    ? "업로드 중…"
+    : `업로드 중 ${Math.round(progress * 100)}%`;
+}
+
+function cardSpec(
+  HTMLAttributes: Record<string, unknown>,
+  attrs: Record<string, unknown>
+): DOMOutputSpec {
+  const name = String(attrs.name || "파일");
+  const fileId = (attrs.fileId as string | null) ?? null;
+  const uploadId = (attrs.uploadId as string | null) ?? null;
+
+  return [
+    "div",
+    mergeAttributes(HTMLAttributes, {
+      "data-attachment": "true",
+      class: "attachment-card",
+    }),
+    [
+      "div",
+      { class: "attachment-card__icon", "aria-hidden": "true" },
+      [
+        SVG,
+        SVG_ATTRS,
+        [
+          "path",
+          { d: "M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" },
+        ],
+        ["path", { d: "M14 2v6h6" }],
+      ],
+    ],
+    [
+      "div",
+      { class: "attachment-card__meta" },
+      ["div", { class: "attachment-card__name" }, name],
+      [
+        "div",
+        { class: "attachment-card__size" },
+        sizeText(Number(attrs.size), uploadId, fileId),
+      ],
+    ],
+    downloadSpec(fileId, name),
+  ];
+}
+
+export const Attachment = Node.create({
+  name: "attachment",
+  group: "block",
+  atom: true,
+  selectable: true,
+  draggable: true,
+  addAttributes() {
+    return {
+      name: { default: "" },
+      size: { default: 0 },
+      type: { default: "" },
+      // 내용 주소 기반 저장소의 파일 id (sha256). null이면 아직 업로드 전
+      fileId: {
+        default: null,
+        parseHTML: (el) => el.getAttribute("data-file-id"),
+        renderHTML: (attrs) =>
+          attrs.fileId ? { "data-file-id": attrs.fileId } : {},
+      },
+      // 업로드 중일 때만 있는 임시 id (진행률은 uploads.ts에)
+      uploadId: {
+        default: null,
+        parseHTML: (el) => el.getAttribute("data-upload-id"),
+        renderHTML: (attrs) =>
+          attrs.uploadId ? { "data-upload-id": attrs.uploadId } : {},
+      },
+    };
+  },
+  parseHTML() {
+    return [{ tag: "div[data-attachment]" }];
+  },
+  renderHTML({ node, HTMLAttributes }) {
+    return cardSpec(HTMLAttributes, node.attrs);
+  },
+  addNodeView() {
+    return ({ node, HTMLAttributes }) => {
+      let current = node;
+      let unsubscribe: (() => void) | null = null;
+
+      const { dom } = DOMSerializer.renderSpec(
+        document,
+        cardSpec(HTMLAttributes, node.attrs)
+      );
+      const card = dom as HTMLElement;
+      const progressBar = document.createElement("div");
+      progressBar.className = "attachment-card__progress";
+
+      const render = () => {
+        const { dom: next } = DOMSerializer.renderSpec(
+          document,
+          cardSpec(HTMLAttributes, current.attrs)
+        );
+        card.replaceChildren(...Array.from(next.childNodes));
+
+        const { uploadId, fileId } = current.attrs;
+        if (uploadId && !fileId) {
+          const progress = getUploadProgress(uploadId) ?? 0;
+          progressBar.style.width = `${Math.round(progress * 100)}%`;
+          card.append(progressBar);
+        }
+      };
+
+      const watch = () => {
+        unsubscribe?.();
+        unsubscribe = null;
+        const { uploadId, fileId } = current.attrs;
+        if (uploadId && !fileId) {
+          unsubscribe = subscribeUpload(uploadId, render);
+        }
+      };
+
+      render();
+      watch();
+
+      return {
+        dom: card,
+        update: (updated) => {
+          if (updated.type !== current.type) return false;
+          const uploadChanged =
+            updated.attrs.uploadId !== current.attrs.uploadId ||
+            updated.attrs.fileId !== current.attrs.fileId;
+          current = updated;
+          render();
+          if (uploadChanged) watch();
+          return true;
+        },
+        // 다운로드 링크 클릭은 에디터가 가로채지 않게
+        stopEvent: (event) =>
+          event.target instanceof Element &&
+          event.target.closest("a.attachment-card__download") !== null,
+        ignoreMutation: () => true,
+        destroy: () => unsubscribe?.(),
+      };
+    };
+  },
+});
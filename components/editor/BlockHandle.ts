@@ -0,0 +1,92 @@
+import { Extension, type Extensions } from "@tiptap/core";
+import DragHandle from "@tiptap/extension-drag-handle";
+import { DOMSerializer, type DOMOutputSpec } from "@tiptap/pm/model";
+import { moveBlock } from "./blocks";
+import { getSuggestingAuthor } from "./SuggestChanges";
+
+/**
+ * 최상위 블록 왼쪽의 핸들. 끌면 블록을 옮기고(놓을 자리는 dropcursor가 표시),
+ * 누르면 블록 메뉴(BlockMenu)를 연다. 편집기에서만 쓴다 (floating-ui 등 브라우저 전용).
+ */
+
+export interface BlockMenuRequest {
+  /** 핸들이 가리키던 최상위 블록 위치 */
+  pos: number;
+  /** 메뉴를 붙일 위치 (핸들) */
+  clientRect: () => DOMRect | null;
+}
+
+// 6점 손잡이 (lucide grip-vertical)
+const GRIP_SPEC: DOMOutputSpec = [
+  "http://www.w3.org/2000/svg svg",
+  {
+    width: "16",
+    height: "16",
+    viewBox: "0 0 24 24",
+    fill: "currentColor",
+    "aria-hidden": "true",
+  },
+  ...[5, 12, 19].flatMap((y) => [
+    ["circle", { cx: "9", cy: String(y), r: "1.5" }],
+    ["circle", { cx: "15", cy: String(y), r: "1.5" }],
+  ]),
+];
+
+/** Alt+Shift+↑/↓: 커서가 있는 최상위 블록을 위/아래로 */
+const BlockKeys = Extension.create({
+  name: "blockKeys",
+
+  addKeyboardShortcuts() {
+    const move = (direction: -1 | 1) => {
+      const { state, view } = this.editor;
+      // 제안 모드에서는 블록 이동을 제안으로 남길 수 없다
+      if (getSuggestingAuthor(state)) return false;
+      const tr = moveBlock(state, state.selection.from, direction);
+      if (tr) view.dispatch(tr);
+      // 맨 위/아래여도 커서가 움직이지 않게 키는 먹는다
+      return true;
+    };
+
+    return {
+      "Alt-Shift-ArrowUp": () => move(-1),
+      "Alt-Shift-ArrowDown": () => move(1),
+    };
+  },
+});
+
+export function createBlockHandle({
+  onOpenMenu,
+}: {
+  onOpenMenu: (request: BlockMenuRequest) => void;
+}): Extensions {
+  // 마우스가 올라가 있는 블록 (없으면 -1)
+  let hoveredPos = -1;
+
+  return [
+    DragHandle.configure({
+      render: () => {
+        const handle = document.createElement("div");
+        handle.className = "block-handle";
+        handle.setAttribute("role", "button");
+        handle.setAttribute("aria-label", "블록 메뉴");
+        handle.title = "끌어서 옮기기 · 눌러서 메뉴 열기";
+        handle.append(
+DOMSerializer.renderSpec(document, GRIP_SPEC).dom
+        );
+        handle.addEventListener("click", () => {
+          if (hoveredPos < 0) return;
+          onOpenMenu({
+            pos: hoveredPos,
+            clientRect: () => handle.getBoundingClientRect(),
+          });
+        });
+        return handle;
+      },
+      // 실제로는 pos도 넘어온다 (타입 선언에 빠져 있다)
+      onNodeChange: (data) => {
+        hoveredPos = (data as typeof data & { pos: number }).pos;
+      },
+    }),
+    BlockKeys,
+  ];
+}
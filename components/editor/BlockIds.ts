@@ -0,0 +1,158 @@
+import { Extension } from "@tiptap/core";
+import { Fragment, Slice, type Node as PMNode } from "@tiptap/pm/model";
+import {
+  Plugin,
+  PluginKey,
+  type EditorState,
+  type Transaction,
+} from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+
+/**
+ * "블록 링크 복사"용 블록 id.
+ * 링크를 복사할 때만 그 블록에 id를 붙이고(data-block-id), "#block-<id>"로
+ * 들어오면 그 블록을 찾아 잠깐 강조한다.
+ */
+
+const BLOCK_TYPES = [
+  "paragraph",
+  "heading",
+  "blockquote",
+  "codeBlock",
+  "bulletList",
+  "orderedList",
+  "taskList",
+  "table",
+  "horizontalRule",
+  "image",
+  "youtube",
+  "attachment",
+  "tableOfContents",
+];
+
+const blockHighlightKey = new PluginKey<number | null>("blockHighlight");
+
+export function blockHash(blockId: string) {
+  return `#block-${blockId}`;
+}
+
+export function parseBlockHash(hash: string) {
+  return /^#block-([A-Za-z0-9_-]+)$/.exec(hash)?.[1] ?? null;
+}
+
+function createBlockId() {
+  return `bl_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function findBlockById(doc: PMNode, blockId: string) {
+  let found: number | null = null;
+  doc.descendants((node, pos) => {
+    if (found !== null) return false;
+    if (node.attrs.blockId === blockId) found = pos;
+  });
+  return found;
+}
+
+/** pos의 블록 id (없으면 새로 붙이는 트랜잭션과 함께) */
+export function ensureBlockId(
+  state: EditorState,
+  pos: number
+): { blockId: string; tr: Transaction | null } | null {
+  const node = state.doc.nodeAt(pos);
+  if (!node || !BLOCK_TYPES.includes(node.type.name)) return null;
+  if (node.attrs.blockId) return { blockId: node.attrs.blockId, tr: null };
+
+  const blockId = createBlockId();
+  const tr = state.tr
+    .setNodeAttribute(pos, "blockId", blockId)
+    // 되돌리기 대상도, 제안 모드의 서식 제안도 아니다
+    .setMeta("addToHistory", false);
+  return { blockId, tr };
+}
+
+/** 복제/붙여넣기한 블록이 원래 블록의 링크를 가로채지 않게 id를 뺀다 */
+export function stripBlockIds(fragment: Fragment): Fragment {
+  const children: PMNode[] = [];
+  fragment.forEach((child) => {
+    if (child.isText) {
+      children.push(child);
+      return;
+    }
+    const attrs = child.attrs.blockId
+      ? { ...child.attrs, blockId: null }
+      : child.attrs;
+    children.push(
+      child.type.create(attrs, stripBlockIds(child.content), child.marks)
+    );
+  });
+  return Fragment.from(children);
+}
+
+/** 강조할 블록 위치 (null이면 해제) */
+export function setBlockHighlight(tr: Transaction, pos: number | null) {
+  return tr.setMeta(blockHighlightKey, pos);
+}
+
+export const BlockIds = Extension.create({
+  name: "blockIds",
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: BLOCK_TYPES,
+        attributes: {
+          blockId: {
+            default: null,
+            // Enter로 나눈 뒷부분은 새 블록이다
+            keepOnSplit: false,
+            parseHTML: (element) => element.getAttribute("data-block-id"),
+            renderHTML: (attrs) =>
+              attrs.blockId ? { "data-block-id": attrs.blockId } : {},
+          },
+        },
+      },
+    ];
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<number | null>({
+        key: blockHighlightKey,
+        state: {
+          init: () => null,
+          apply: (tr, pos) => {
+            const meta = tr.getMeta(blockHighlightKey) as
+              | number
+              | null
+              | undefined;
+            if (meta !== undefined) return meta;
+            return pos === null ? null : tr.mapping.map(pos);
+          },
+        },
+        props: {
+          decorations: (state) => {
+            const pos = blockHighlightKey.getState(state);
+            const node = pos === null || pos === undefined
+              ? null
+              : state.doc.nodeAt(pos);
+            if (pos === null || pos === undefined || !node) return null;
+            return DecorationSet.create(state.doc, [
+              Decoration.node(pos, pos + node.nodeSize, {
+                class: "block-target",
+              }),
+            ]);
+          },
+          // 끌어서 옮기는 경우만 id를 그대로 둔다 (복사해 붙이면 새 블록)
+          transformPasted: (slice, view) =>
+            view.dragging?.move
+              ? slice
+              : new Slice(
+                  stripBlockIds(slice.content),
+                  slice.openStart,
+                  slice.openEnd
+                ),
+        },
+      }),
+    ];
+  },
+});
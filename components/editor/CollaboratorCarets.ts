@@ -0,0 +1,41 @@
+import CollaborationCaret from "@tiptap/extension-collaboration-caret";
+import type { CollaborationSession } from "@/hooks/useCollaboration";
+import type { PresenceUser } from "@/lib/collab/presence";
+
+// 선택 영역 배경은 커서 색에 투명도만 붙여서 쓴다 (#rrggbb + aa)
+const SELECTION_ALPHA = "33";
+
+function renderCaret(user: PresenceUser) {
+  const caret = document.createElement("span");
+  caret.className = "collab-caret";
+  caret.dataset.clientId = String(user.clientId);
+  if (user.idle) caret.dataset.idle = "true";
+  caret.style.borderColor = user.color;
+
+  const label = document.createElement("span");
+  label.className = "collab-caret__label";
+  label.style.backgroundColor = user.color;
+  label.textContent = user.name;
+
+  caret.append(label);
+  return caret;
+}
+
+function renderSelection(user: PresenceUser) {
+  return {
+    nodeName: "span",
+    class: "collab-selection",
+    style: `background-color: ${user.color}${SELECTION_ALPHA}`,
+    "data-client-id": String(user.clientId),
+  };
+}
+
+/** 다른 사람의 커서와 선택 영역을 이름표와 함께 보여준다 */
+export function createCollaboratorCarets(session: CollaborationSession) {
+  return CollaborationCaret.configure({
+    provider: session.provider,
+    user: session.user,
+    render: (user) => renderCaret(user as PresenceUser),
+    selectionRender: (user) => renderSelection(user as PresenceUser),
+  });
+}
@@ -0,0 +1,180 @@
+import { Mark, mergeAttributes } from "@tiptap/core";
+import type { Node as PMNode } from "@tiptap/pm/model";
+import {
+  Plugin,
+  PluginKey,
+  type EditorState,
+  type Transaction,
+} from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { COMMENT_MARK } from "@/lib/comments/content";
+
+interface CommentPluginState {
+  /** 댓글 패널에서 고른 스레드 (본문에서 진하게 표시) */
+  activeThreadId: string | null;
+  /** 해결된 스레드는 본문 하이라이트를 끈다 */
+  resolvedThreadIds: ReadonlySet<string>;
+}
+
+type CommentMeta =
+  | { type: "activate"; threadId: string | null }
+  | { type: "resolved"; threadIds: string[] }
+  | { type: "mark" };
+
+export const commentPluginKey = new PluginKey<CommentPluginState>("comments");
+
+export interface CommentAnchor {
+  from: number;
+  to: number;
+  text: string;
+}
+
+/** 댓글 마크를 달거나 뗀 트랜잭션 (본문 편집이 아님) */
+export function isCommentChange(tr: Transaction) {
+  return (tr.getMeta(commentPluginKey) as CommentMeta | undefined)?.type === "mark";
+}
+
+export function getActiveThreadId(state: EditorState) {
+  return commentPluginKey.getState(state)?.activeThreadId ?? null;
+}
+
+export function setActiveThread(tr: Transaction, threadId: string | null) {
+  return tr.setMeta(commentPluginKey, { type: "activate", threadId });
+}
+
+export function setResolvedThreads(tr: Transaction, threadIds: string[]) {
+  return tr.setMeta(commentPluginKey, { type: "resolved", threadIds });
+}
+
+/** 범위에 스레드 마크를 건다. 읽기 전용(댓글 권한) 편집기에서도 쓸 수 있다 */
+export function addCommentMark(
+  state: EditorState,
+  { from, to }: { from: number; to: number },
+  threadId: string
+) {
+  const type = state.schema.marks[COMMENT_MARK];
+  return state.tr
+    .addMark(from, to, type.create({ threadId }))
+    .setMeta(commentPluginKey, { type: "mark" });
+}
+
+export function removeCommentMark(state: EditorState, threadId: string) {
+  const type = state.schema.marks[COMMENT_MARK];
+  const tr = state.tr.setMeta(commentPluginKey, { type: "mark" });
+  findCommentAnchors(state.doc).forEach((anchor, id) => {
+    if (id === threadId) {
+      tr.removeMark(anchor.from, anchor.to, type.create({ threadId }));
+    }
+  });
+  return tr;
+}
+
+/**
+ * 스레드별로 마크가 걸린 범위. 편집으로 마크가 여러 조각으로 나뉘면
+ * 처음부터 끝까지를 한 범위로 본다. 문서에 없는 스레드는 고아 스레드.
+ */
+export function findCommentAnchors(doc: PMNode) {
+  const anchors = new Map<string, CommentAnchor>();
+  doc.descendants((node, pos) => {
+    if (!node.isText) return;
+    node.marks.forEach((mark) => {
+      if (mark.type.name !== COMMENT_MARK) return;
+      const threadId = String(mark.attrs.threadId);
+      const existing = anchors.get(threadId);
+      const to = pos + node.nodeSize;
+      anchors.set(
+        threadId,
+        existing
+          ? { from: existing.from, to, text: existing.text + node.text }
+          : { from: pos, to, text: node.text ?? "" }
+      );
+    });
+  });
+  return anchors;
+}
+
+function threadIdAt(state: EditorState, pos: number) {
+  const $pos = state.doc.resolve(pos);
+  const marks = [...($pos.nodeAfter?.marks ?? []), ...$pos.marks()];
+  const mark = marks.find((m) => m.type.name === COMMENT_MARK);
+  return mark ? String(mark.attrs.threadId) : null;
+}
+
+/**
+ * 댓글 스레드가 걸린 범위. 같은 글자에 여러 스레드가 겹칠 수 있다
+ * (excludes: ""). 스레드 내용은 문서 밖(/api/.../comments)에 있다.
+ */
+export const CommentMark = Mark.create({
+  name: COMMENT_MARK,
+  inclusive: false,
+  excludes: "",
+
+  addAttributes() {
+    return {
+      threadId: {
+        default: null,
+        parseHTML: (el) => el.getAttribute("data-comment-id"),
+        renderHTML: (attrs) => ({ "data-comment-id": attrs.threadId }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "span[data-comment-id]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["span", mergeAttributes(HTMLAttributes, { class: "comment-mark" }), 0];
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<CommentPluginState>({
+        key: commentPluginKey,
+        state: {
+          init: () => ({ activeThreadId: null, resolvedThreadIds: new Set() }),
+          apply: (tr, value) => {
+            const meta = tr.getMeta(commentPluginKey) as CommentMeta | undefined;
+            if (meta?.type === "activate") {
+              return { ...value, activeThreadId: meta.threadId };
+            }
+            if (meta?.type === "resolved") {
+              return { ...value, resolvedThreadIds: new Set(meta.threadIds) };
+            }
+            return value;
+          },
+        },
+        props: {
+          // 하이라이트는 마크가 아니라 decoration으로: 해결된 스레드는 숨기고
+          // 고른 스레드는 진하게
+          decorations: (state) => {
+            const { activeThreadId, resolvedThreadIds } =
+              commentPluginKey.getState(state)!;
+
+            const decorations: Decoration[] = [];
+            findCommentAnchors(state.doc).forEach((anchor, threadId) => {
+              const active = threadId === activeThreadId;
+              if (!active && resolvedThreadIds.has(threadId)) return;
+              decorations.push(
+                Decoration.inline(anchor.from, anchor.to, {
+                  class: active
+                    ? "comment-highlight comment-highlight--active"
+                    : "comment-highlight",
+                })
+              );
+            });
+            return DecorationSet.create(state.doc, decorations);
+          },
+          // 본문의 댓글 범위를 누르면 해당 스레드를 고른다
+          handleClick: (view, pos) => {
+            const threadId = threadIdAt(view.state, pos);
+            if (threadId !== getActiveThreadId(view.state)) {
+              view.dispatch(setActiveThread(view.state.tr, threadId));
+            }
+            return false;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,179 @@
+import type { NodeViewRendererProps } from "@tiptap/core";
+import Image from "@tiptap/extension-image";
+import {
+  DOMSerializer,
+  type DOMOutputSpec,
+  type Node as PMNode,
+} from "@tiptap/pm/model";
+import { imageSrcSet } from "@/lib/images/client";
+import { createImageNodeView, IMAGE_ALIGNMENTS } from "./imageNodeView";
+import {
+  getUploadPreview,
+  getUploadProgress,
+  subscribeUpload,
+} from "./uploads";
+
+function isUploading(attrs: Record<string, unknown>) {
+  return !attrs.src && !!attrs.uploadId;
+}
+
+function progressText(uploadId: string) {
+  const progress = getUploadProgress(uploadId);
+  return progress === undefined
+    ? "이미지 업로드 중…"
+    : `이미지 업로드 중 ${Math.round(progress * 100)}%`;
+}
+
+// 크기를 아직 모르면 CSS 기본 비율(16:9)을 쓴다
+function placeholderSpec(attrs: Record<string, unknown>): DOMOutputSpec {
+  const { width, height } = attrs;
+  return [
+    "div",
+    {
+      class: "image-upload",
+      "data-upload-id": String(attrs.uploadId),
+      ...(width && height
+        ? { style: `width: ${width}px; aspect-ratio: ${width} / ${height}` }
+        : {}),
+    },
+    ["div", { class: "image-upload__label" }, "이미지 업로드 중…"],
+  ];
+}
+
+/** <img>에 들어갈 속성. 캡션/정렬은 <figure>가 가진다 */
+function imageAttributes(node: PMNode, className: string) {
+  const { src, alt, title, width, height, assetId } = node.attrs;
+  const attributes: Record<string, string> = { class: className, src };
+  if (alt) attributes.alt = alt;
+  if (title) attributes.title = title;
+  if (width) attributes.width = String(width);
+  if (height) attributes.height = String(height);
+  if (assetId) {
+    attributes["data-asset-id"] = assetId;
+    attributes.srcset = imageSrcSet(assetId);
+  }
+  return attributes;
+}
+
+function figureAttributes(node: PMNode) {
+  return {
+    class: "image-figure",
+    "data-type": "image",
+    "data-align": node.attrs.align,
+  };
+}
+
+function createUploadPlaceholder({ node }: NodeViewRendererProps) {
+  const uploadId = String(node.attrs.uploadId);
+  const { dom } = DOMSerializer.renderSpec(document, placeholderSpec(node.attrs));
+  const placeholder = dom as HTMLElement;
+  const label = placeholder.querySelector(".image-upload__label");
+
+  // 올리는 탭에서는 로컬 미리보기를 흐리게 보여준다
+  const preview = getUploadPreview(uploadId);
+  if (preview) {
+    const img = document.createElement("img");
+    img.className = "image-upload__preview";
+    img.src = preview;
+    img.alt = "";
+    placeholder.prepend(img);
+  }
+
+  const progressBar = document.createElement("div");
+  progressBar.className = "image-upload__progress";
+  placeholder.append(progressBar);
+
+  const render = () => {
+    if (label) label.textContent = progressText(uploadId);
+    const progress = getUploadProgress(uploadId) ?? 0;
+    progressBar.style.width = `${Math.round(progress * 100)}%`;
+  };
+  render();
+  const unsubscribe = subscribeUpload(uploadId, render);
+
+  return {
+    dom: placeholder,
+    // 업로드가 끝나 src가 생기면 새 노드 뷰(이미지)로 바꾼다
+    update: (updated: PMNode) => updated.sameMarkup(node),
+    ignoreMutation: () => true,
+    destroy: unsubscribe,
+  };
+}
+
+/**
+ * 에셋 저장소(/api/images)에 올린 이미지. src는 1x 변형 주소이고
+ * assetId가 있으면 2x 변형을 srcset으로 함께 건다.
+ * 업로드 중에는 src 없이 uploadId만 있는 자리표시자로 보인다.
+ * 캡션과 정렬을 담으려고 <figure>로 감싸서 내보낸다.
+ */
+export const ImageAsset = Image.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      assetId: {
+        default: null,
+        parseHTML: (el) => el.getAttribute("data-asset-id"),
+      },
+      uploadId: {
+        default: null,
+        parseHTML: (el) => el.getAttribute("data-upload-id"),
+      },
+      caption: {
+        default: null,
+        parseHTML: (el) =>
+          el.querySelector("figcaption")?.textContent?.trim() || null,
+      },
+      align: {
+        default: "center",
+        parseHTML: (el) => {
+          const align = el.getAttribute("data-align");
+          return IMAGE_ALIGNMENTS.find((value) => value === align) ?? null;
+        },
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'figure[data-type="image"]',
+        // 속성 파서는 <figure>를 받으므로 <img>의 속성은 여기서 꺼낸다
+        getAttrs: (figure) => {
+          const img = figure.querySelector("img");
+          const src = img?.getAttribute("src");
+          if (!img || !src || src.startsWith("data:")) return false;
+          return {
+            src,
+            alt: img.getAttribute("alt"),
+            title: img.getAttribute("title"),
+            width: Number(img.getAttribute("width")) || null,
+            height: Number(img.getAttribute("height")) || null,
+            assetId: img.getAttribute("data-asset-id"),
+          };
+        },
+      },
+      ...(this.parent?.() ?? []),
+    ];
+  },
+
+  renderHTML({ node }) {
+    if (isUploading(node.attrs)) return placeholderSpec(node.attrs);
+
+    const img: DOMOutputSpec = [
+      "img",
+      imageAttributes(node, this.options.HTMLAttributes.class),
+    ];
+    return node.attrs.caption
+      ? ["figure", figureAttributes(node), img, ["figcaption", node.attrs.caption]]
+      : ["figure", figureAttributes(node), img];
+  },
+
+  addNodeView() {
+    return (props) =>
+      isUploading(props.node.attrs)
+        ? createUploadPlaceholder(props)
+        : createImageNodeView(props, (node) =>
+            imageAttributes(node, this.options.HTMLAttributes.class)
+          );
+  },
+});
@@ -0,0 +1,295 @@
+import { mergeAttributes, type Editor } from "@tiptap/core";
+import BaseMention, {
+  type MentionNodeAttrs,
+  type MentionOptions,
+} from "@tiptap/extension-mention";
+import { DOMSerializer, type DOMOutputSpec } from "@tiptap/pm/model";
+import { PluginKey, type EditorState } from "@tiptap/pm/state";
+import { exitSuggestion } from "@tiptap/suggestion";
+import { DEFAULT_DOCUMENT_TITLE } from "@/lib/documents/types";
+import {
+  documentHref,
+  MENTION_NODE,
+  type MentionKind,
+} from "@/lib/mentions/content";
+import { getMentionLabel, subscribeMentionLabels } from "./mentionLabels";
+
+export interface MentionAttrs {
+  kind: MentionKind;
+  /** 사람이면 사용자 id, 문서면 문서 id */
+  id: string;
+  /** 넣을 때의 이름 (지금 이름을 모를 때만 보인다) */
+  label: string;
+  /** 이 멘션 하나의 id (알림에서 그 문단으로 바로 가기) */
+  mentionId: string;
+}
+
+export interface MentionMenuState {
+  kind: MentionKind;
+  query: string;
+  range: { from: number; to: number };
+  clientRect: () => DOMRect | null;
+  /** "@검색어" 자리에 멘션을 넣는다 */
+  command: (attrs: MentionAttrs) => void;
+}
+
+export interface MentionStorage {
+  /** 고르기 메뉴가 열려 있는 동안의 키 입력. true를 돌려주면 편집기는 무시한다 */
+  keyDown: ((event: KeyboardEvent) => boolean) | null;
+}
+
+declare module "@tiptap/core" {
+  interface Storage {
+    mention: MentionStorage;
+  }
+}
+
+// "@"는 사람, "[["와 "#"은 문서
+const TRIGGERS: Array<{ char: string; kind: MentionKind; key: PluginKey }> = [
+  { char: "@", kind: "person", key: new PluginKey("mention-person") },
+  { char: "[[", kind: "document", key: new PluginKey("mention-document") },
+  { char: "#", kind: "document", key: new PluginKey("mention-hash") },
+];
+
+export function isMentionMenuOpen(state: EditorState) {
+  return TRIGGERS.some(({ key }) => !!key.getState(state)?.active);
+}
+
+export function closeMentionMenu(editor: Editor) {
+  TRIGGERS.forEach(({ key }) => {
+    if (key.getState(editor.state)?.active) exitSuggestion(editor.view, key);
+  });
+}
+
+export function createMentionId() {
+  return `mn_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function displayLabel(attrs: Record<string, unknown>) {
+  const kind = attrs.kind === "document" ? "document" : "person";
+  const id = String(attrs.id ?? "");
+  const label =
+    getMentionLabel(kind, id) ??
+    (typeof attrs.label === "string" && attrs.label ? attrs.label : null) ??
+    (kind === "document" ? DEFAULT_DOCUMENT_TITLE : id);
+  return kind === "document" ? label : `@${label}`;
+}
+
+function mentionSpec(
+  HTMLAttributes: Record<string, unknown>,
+  attrs: Record<string, unknown>
+): DOMOutputSpec {
+  // 공유 링크로 열면 문서 id가 빠져 있다: 링크 없이 제목만
+  if (attrs.kind === "document" && !attrs.id) {
+    return [
+      "span",
+      mergeAttributes(HTMLAttributes, { class: "mention mention--document" }),
+      displayLabel(attrs),
+    ];
+  }
+  if (attrs.kind === "document") {
+    return [
+      "a",
+      mergeAttributes(HTMLAttributes, {
+        href: documentHref(String(attrs.id)),
+        class: "mention mention--document",
+      }),
+      displayLabel(attrs),
+    ];
+  }
+  return [
+    "span",
+    mergeAttributes(HTMLAttributes, { class: "mention mention--person" }),
+    displayLabel(attrs),
+  ];
+}
+
+/** 메뉴 컴포넌트(MentionMenu)가 화살표/Enter를 받도록 연결한다 */
+export function attachMentionMenuKeys(
+  editor: Editor,
+  keyDown: (event: KeyboardEvent) => boolean
+) {
+  const storage = editor.storage.mention;
+  storage.keyDown = keyDown;
+
+  return () => {
+    if (storage.keyDown === keyDown) storage.keyDown = null;
+  };
+}
+
+/**
+ * 편집기에서만 쓰는 멘션 고르기 (재생기/게시 페이지에는 없다).
+ * 목록은 편집기 밖의 React 컴포넌트가 그리고, 여기서는 열림/검색어/키만 넘긴다.
+ */
+export function createMentionSuggestions({
+  documents,
+  onChange,
+}: {
+  /** false면 "[["/"#" 문서 고르기를 켜지 않는다 (공유 링크로 연 사람) */
+  documents: boolean;
+  onChange: (state: MentionMenuState | null) => void;
+}): MentionOptions["suggestions"] {
+  return TRIGGERS.filter(({ kind }) => documents || kind === "person").map(
+    ({ char, kind, key }) => {
+      let editor: Editor | null = null;
+      const toMenuState = ({
+        editor: current,
+        query,
+        range,
+        clientRect,
+        command,
+      }: {
+        editor: Editor;
+        query: string;
+        range: { from: number; to: number };
+        clientRect?: (() => DOMRect | null) | null;
+        command: (attrs: MentionNodeAttrs) => void;
+      }): MentionMenuState => ({
+        kind,
+        // "[[제목]]"처럼 닫는 괄호까지 친 경우
+        query: query.replace(/\]+$/, ""),
+        range,
+        clientRect: () => {
+          const rect = clientRect?.();
+          if (rect) return rect;
+          const { left, top, bottom } = current.view.coordsAtPos(range.from);
+          return new DOMRect(left, top, 0, bottom - top);
+        },
+        command: (attrs) => command(attrs as unknown as MentionNodeAttrs),
+      });
+
+      return {
+        char,
+        pluginKey: key,
+        // 한글 조합 중에 들어온 기호로는 열지 않는다. 멘션을 넣을 수 없는 곳(코드 블록 등)도 제외
+        allow: ({ editor: current, state, range, isActive }) => {
+          if (!isActive && current.view.composing) return false;
+          const type = state.schema.nodes[MENTION_NODE];
+          return !!state.doc
+            .resolve(range.from)
+            .parent.type.contentMatch.matchType(type);
+        },
+        render: () => ({
+          onStart: (props) => {
+            editor = props.editor;
+            onChange(toMenuState(props));
+          },
+          onUpdate: (props) => onChange(toMenuState(props)),
+          onExit: () => onChange(null),
+          onKeyDown: ({ event }) => {
+            // 한글 조합을 끝내는 Enter 등은 DocEditor의 IME 처리에 맡긴다
+            if (event.isComposing || event.keyCode === 229) return false;
+            return editor?.storage.mention.keyDown?.(event) ?? false;
+          },
+        }),
+      };
+    }
+  );
+}
+
+/**
+ * 사람/문서 멘션. id를 남기고, 보이는 이름은 mentionLabels에서 지금 이름을 찾는다.
+ * 문서 멘션은 그 문서로 가는 링크다.
+ */
+export const Mention = BaseMention.extend<MentionOptions, MentionStorage>({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      kind: {
+        default: "person",
+        parseHTML: (element) =>
+          element.getAttribute("data-kind") === "document"
+            ? "document"
+            : "person",
+        renderHTML: (attrs) => ({ "data-kind": attrs.kind }),
+      },
+      mentionId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-mention-id"),
+        renderHTML: (attrs) =>
+          attrs.mentionId ? { "data-mention-id": attrs.mentionId } : {},
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      { tag: `span[data-type="${this.name}"]` },
+      { tag: `a[data-type="${this.name}"]` },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return mentionSpec(
+      mergeAttributes({ "data-type": this.name }, HTMLAttributes),
+      node.attrs
+    );
+  },
+
+  renderText({ node }) {
+    return displayLabel(node.attrs);
+  },
+
+  addStorage() {
+    return { keyDown: null };
+  },
+
+  addNodeView() {
+    return ({ node, HTMLAttributes, editor }) => {
+      let current = node;
+      const attributes = mergeAttributes(
+        { "data-type": this.name },
+        HTMLAttributes
+      );
+      const { dom } = DOMSerializer.renderSpec(
+        document,
+        mentionSpec(attributes, node.attrs)
+      );
+      const element = dom as HTMLElement;
+
+      const render = () => {
+        element.textContent = displayLabel(current.attrs);
+      };
+      const unsubscribe = subscribeMentionLabels(render);
+
+      // 편집 중에는 링크를 눌러도 커서만 옮기고, Ctrl/⌘+클릭이면 새 탭에서 연다
+      const handleClick = (event: MouseEvent) => {
+        if (current.attrs.kind !== "document" || !editor.isEditable) return;
+        event.preventDefault();
+        if (event.metaKey || event.ctrlKey) {
+          window.open(documentHref(String(current.attrs.id)), "_blank");
+        }
+      };
+      element.addEventListener("click", handleClick);
+      if (current.attrs.kind === "document") {
+        element.title = "Ctrl/⌘+클릭으로 열기";
+      }
+
+      return {
+        dom: element,
+        update: (updated) => {
+          if (
+            updated.type !== current.type ||
+            updated.attrs.kind !== current.attrs.kind ||
+            updated.attrs.id !== current.attrs.id
+          ) {
+            return false;
+          }
+          current = updated;
+          render();
+          return true;
+        },
+        ignoreMutation: () => true,
+        destroy: () => {
+          unsubscribe();
+          element.removeEventListener("click", handleClick);
+        },
+      };
+    };
+  },
+
+  // 고르기 메뉴는 편집기에서 suggestions를 넘길 때만 (기본 "@" 제안은 쓰지 않는다)
+  addProseMirrorPlugins() {
+    return this.options.suggestions.length > 0 ? (this.parent?.() ?? []) : [];
+  },
+});
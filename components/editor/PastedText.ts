@@ -0,0 +1,225 @@
+import {
+  Mark,
+  combineTransactionSteps,
+  getChangedRanges,
+  mergeAttributes,
+} from "@tiptap/core";
+import {
+  DOMSerializer,
+  Fragment,
+  Slice,
+  type Node as PMNode,
+} from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { isHistoryTransaction } from "@tiptap/pm/history";
+import { isYjsChange } from "@/lib/collab/transactions";
+import type { PasteFormat } from "@/lib/trace/types";
+import { isCommentChange } from "./CommentMark";
+import { isSuggestionChange } from "./SuggestChanges";
+
+export const PASTED_MARK = "pasted";
+
+/**
+ * Writetracer 편집기에서 복사한 HTML에 붙이는 표시 (값은 원래 문서 id).
+ * data-pm-slice는 ProseMirror/Tiptap을 쓰는 모든 사이트가 붙이므로 기준이 될 수 없다.
+ */
+const COPY_SOURCE_ATTR = "data-writetracer-doc";
+
+interface PastedTextOptions {
+  /** 복사한 HTML에 남길 문서 id (공유 링크로 연 문서처럼 모르면 null) */
+  documentId: string | null;
+}
+
+interface PasteInfo {
+  source: PasteFormat;
+  /** Writetracer 문서에서 복사한 내용이면 원래 표시를 그대로 둔다 */
+  internal: boolean;
+}
+
+function createPasteId() {
+  return `p_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function mapTextNodes(
+  fragment: Fragment,
+  map: (node: PMNode) => PMNode
+): Fragment {
+  const children: PMNode[] = [];
+  fragment.forEach((child) => {
+    children.push(
+      child.isText ? map(child) : child.copy(mapTextNodes(child.content, map))
+    );
+  });
+  return Fragment.fromArray(children);
+}
+
+/** 복사할 때 최상위 요소마다 출처 표시를 단다 (글자만 있으면 span으로 감싼다) */
+class CopySourceSerializer extends DOMSerializer {
+  constructor(
+    base: DOMSerializer,
+    private readonly documentId: string | null
+  ) {
+    super(base.nodes, base.marks);
+  }
+
+  serializeFragment(
+    fragment: Fragment,
+    options: { document?: Document } = {},
+    target?: HTMLElement | DocumentFragment
+  ) {
+    const dom = super.serializeFragment(fragment, options, target);
+    // 노드 안쪽을 채우는 재귀 호출(target 있음)은 건드리지 않는다
+    if (target) return dom;
+
+    const doc = options.document ?? window.document;
+    Array.from(dom.childNodes).forEach((child) => {
+      let element: Element;
+      if (child.nodeType === 1) {
+        element = child as Element;
+      } else {
+        element = doc.createElement("span");
+        dom.replaceChild(element, child);
+        element.appendChild(child);
+      }
+      element.setAttribute(COPY_SOURCE_ATTR, this.documentId ?? "");
+    });
+    return dom;
+  }
+}
+
+function isWritetracerCopy(html: string) {
+  if (!html.includes(COPY_SOURCE_ATTR)) return false;
+  const dom = new DOMParser().parseFromString(html, "text/html");
+  return dom.querySelector(`[${COPY_SOURCE_ATTR}]`) !== null;
+}
+
+/**
+ * 외부에서 붙여넣은 텍스트에 붙는 마크.
+ * inclusive: false라서 붙여넣은 구간 끝에 이어 쓴 글자는 "입력"으로 남고,
+ * 구간 안에서 새로 입력한 글자는 appendTransaction이 마크를 벗겨낸다.
+ */
+export const PastedText = Mark.create<PastedTextOptions>({
+  name: PASTED_MARK,
+  inclusive: false,
+
+  addOptions() {
+    return {
+      documentId: null,
+    };
+  },
+
+  addAttributes() {
+    return {
+      id: {
+        default: null,
+        parseHTML: (el) => el.getAttribute("data-paste-id"),
+        renderHTML: (attrs) => ({ "data-paste-id": attrs.id }),
+      },
+      source: {
+        default: "plain",
+        parseHTML: (el) => el.getAttribute("data-paste-source"),
+        renderHTML: (attrs) => ({ "data-paste-source": attrs.source }),
+      },
+      pastedAt: {
+        default: null,
+        parseHTML: (el) => Number(el.getAttribute("data-pasted-at")) || null,
+        renderHTML: (attrs) => ({ "data-pasted-at": attrs.pastedAt }),
+      },
+      // 붙여넣을 당시의 글자 수 (이후 편집으로 줄어든 만큼과 비교용)
+      length: {
+        default: 0,
+        parseHTML: (el) => Number(el.getAttribute("data-paste-length")) || 0,
+        renderHTML: (attrs) => ({ "data-paste-length": attrs.length }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "span[data-pasted]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["span", mergeAttributes(HTMLAttributes, { "data-pasted": "true" }), 0];
+  },
+
+  addProseMirrorPlugins() {
+    const markType = this.type;
+    const clipboardSerializer = new CopySourceSerializer(
+      DOMSerializer.fromSchema(this.editor.schema),
+      this.options.documentId
+    );
+    let pending: PasteInfo | null = null;
+
+    return [
+      new Plugin({
+        key: new PluginKey("pastedText"),
+        props: {
+          clipboardSerializer,
+          handleDOMEvents: {
+            paste: (_view, event) => {
+              const html = event.clipboardData?.getData("text/html") ?? "";
+              pending = {
+                source: html ? "html" : "plain",
+                internal: isWritetracerCopy(html),
+              };
+              return false;
+            },
+          },
+          transformPasted: (slice) => {
+            const info = pending;
+            pending = null;
+            if (!info || info.internal) return slice;
+
+            const text = slice.content.textBetween(0, slice.content.size, "", "");
+            if (text.length === 0) return slice;
+
+            const mark = markType.create({
+              id: createPasteId(),
+              source: info.source,
+              pastedAt: Date.now(),
+              length: text.length,
+            });
+
+            return new Slice(
+              mapTextNodes(slice.content, (node) =>
+                node.mark(mark.addToSet(node.marks))
+              ),
+              slice.openStart,
+              slice.openEnd
+            );
+          },
+        },
+        appendTransaction: (transactions, oldState, newState) => {
+          const skip = transactions.some((tr) => {
+            const uiEvent = tr.getMeta("uiEvent");
+            return (
+              uiEvent === "paste" ||
+              uiEvent === "drop" ||
+              isHistoryTransaction(tr) ||
+              isYjsChange(tr) ||
+              isCommentChange(tr) ||
+              isSuggestionChange(tr)
+            );
+          });
+          if (skip || !transactions.some((tr) => tr.docChanged)) return null;
+
+          // 붙여넣은 구간 "안에서" 새로 입력한 글자는 입력으로 본다
+          const transform = combineTransactionSteps(oldState.doc, [
+            ...transactions,
+          ]);
+          const tr = newState.tr;
+          getChangedRanges(transform).forEach(({ newRange }) => {
+            if (
+              newRange.to > newRange.from &&
+              newState.doc.rangeHasMark(newRange.from, newRange.to, markType)
+            ) {
+              tr.removeMark(newRange.from, newRange.to, markType);
+            }
+          });
+
+          return tr.docChanged ? tr : null;
+        },
+      }),
+    ];
+  },
+});
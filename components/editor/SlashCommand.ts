@@ -0,0 +1,124 @@
+import { Extension, type Editor, type Range } from "@tiptap/core";
+import { PluginKey, type EditorState } from "@tiptap/pm/state";
+import Suggestion, { exitSuggestion } from "@tiptap/suggestion";
+import { getSuggestingAuthor } from "./SuggestChanges";
+
+/**
+ * "/"로 여는 블록 삽입 메뉴.
+ * 플러그인은 "/검색어" 구간과 키 입력만 다루고(Esc로 닫기 포함), 목록을
+ * 그리고 고르는 일은 편집기 바깥의 React 컴포넌트(SlashMenu)가 맡는다.
+ */
+
+export interface SlashMenuState {
+  /** "/" 뒤에 입력한 글자 (조합 중인 한글 포함) */
+  query: string;
+  /** "/검색어" 구간 — 항목을 고르면 지우고 그 자리에 블록을 넣는다 */
+  range: Range;
+  /** 메뉴를 붙일 위치 */
+  clientRect: () => DOMRect | null;
+}
+
+interface SlashCommandOptions {
+  /** 메뉴가 열리거나 검색어가 바뀔 때 (닫히면 null) */
+  onChange: (state: SlashMenuState | null) => void;
+}
+
+export interface SlashCommandStorage {
+  /** 메뉴가 열려 있는 동안의 키 입력. true를 돌려주면 편집기는 무시한다 */
+  keyDown: ((event: KeyboardEvent) => boolean) | null;
+}
+
+declare module "@tiptap/core" {
+  interface Storage {
+    slashCommand: SlashCommandStorage;
+  }
+}
+
+export const slashCommandPluginKey = new PluginKey("slashCommand");
+
+export function isSlashMenuOpen(state: EditorState) {
+  return !!slashCommandPluginKey.getState(state)?.active;
+}
+
+export function closeSlashMenu(editor: Editor) {
+  exitSuggestion(editor.view, slashCommandPluginKey);
+}
+
+/** 메뉴 컴포넌트가 화살표/Enter를 받도록 연결한다 */
+export function attachSlashMenuKeys(
+  editor: Editor,
+  keyDown: (event: KeyboardEvent) => boolean
+) {
+  const storage = editor.storage.slashCommand;
+  storage.keyDown = keyDown;
+
+  return () => {
+    if (storage.keyDown === keyDown) storage.keyDown = null;
+  };
+}
+
+export const SlashCommand = Extension.create<
+  SlashCommandOptions,
+  SlashCommandStorage
+>({
+  name: "slashCommand",
+
+  // 목록/코드 블록의 Enter, 화살표 단축키보다 먼저 메뉴가 키를 받는다
+  priority: 200,
+
+  addOptions() {
+    return {
+      onChange: () => {},
+    };
+  },
+
+  addStorage() {
+    return { keyDown: null };
+  },
+
+  addProseMirrorPlugins() {
+    const { editor, options, storage } = this;
+
+    const toMenuState = ({
+      query,
+      range,
+      clientRect,
+    }: {
+      query: string | null;
+      range: Range;
+      clientRect?: (() => DOMRect | null) | null;
+    }): SlashMenuState => ({
+      query: query ?? "",
+      range,
+      clientRect: () => {
+        const rect = clientRect?.();
+        if (rect) return rect;
+        const { left, top, bottom } = editor.view.coordsAtPos(range.from);
+        return new DOMRect(left, top, 0, bottom - top);
+      },
+    });
+
+    return [
+      Suggestion({
+        editor,
+        pluginKey: slashCommandPluginKey,
+        char: "/",
+        decorationClass: "slash-command-query",
+        // 한글 조합 중에 들어온 "/"로는 열지 않는다 (열린 뒤의 조합은 검색어로 받는다).
+        // 제안 모드에서는 블록 삽입을 추적하지 않으므로 메뉴도 쓰지 않는다
+        allow: ({ state, isActive }) =>
+          !getSuggestingAuthor(state) && (isActive || !editor.view.composing),
+        render: () => ({
+          onStart: (props) => options.onChange(toMenuState(props)),
+          onUpdate: (props) => options.onChange(toMenuState(props)),
+          onExit: () => options.onChange(null),
+          onKeyDown: ({ event }) => {
+            // 한글 조합을 끝내는 Enter 등은 DocEditor의 IME 처리에 맡긴다
+            if (event.isComposing || event.keyCode === 229) return false;
+            return storage.keyDown?.(event) ?? false;
+          },
+        }),
+      }),
+    ];
+  },
+});
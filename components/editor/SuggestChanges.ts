@@ -0,0 +1,726 @@
+import { Extension, Mark, mergeAttributes } from "@tiptap/core";
+import {
+  Fragment,
+  Slice,
+  type Mark as PMMark,
+  type Node as PMNode,
+} from "@tiptap/pm/model";
+import {
+  Plugin,
+  PluginKey,
+  TextSelection,
+  type EditorState,
+  type Transaction,
+} from "@tiptap/pm/state";
+import {
+  AddMarkStep,
+  AttrStep,
+  Mapping,
+  RemoveMarkStep,
+  ReplaceAroundStep,
+  ReplaceStep,
+  type Step,
+} from "@tiptap/pm/transform";
+import { isHistoryTransaction } from "@tiptap/pm/history";
+import { isYjsChange } from "@/lib/collab/transactions";
+import type { CollaboratorIdentity } from "@/lib/collab/presence";
+import { COMMENT_MARK } from "@/lib/comments/content";
+import { PASTED_MARK } from "./PastedText";
+
+export const INSERTION_MARK = "insertion";
+export const DELETION_MARK = "deletion";
+export const FORMAT_CHANGE_MARK = "formatChange";
+
+/** 블록 서식(제목/문단/코드 블록, 정렬) 제안은 노드 속성에 남긴다 */
+const TRACKED_BLOCKS = ["paragraph", "heading", "codeBlock"];
+
+// 서식 제안으로 기록하지 않는 마크 (제안/댓글/붙여넣기 표시용).
+// PastedText와 서로 import하므로 모듈을 읽을 때가 아니라 쓸 때 상수를 읽는다
+function isUntrackedMark(name: string) {
+  return [
+    INSERTION_MARK,
+    DELETION_MARK,
+    FORMAT_CHANGE_MARK,
+    COMMENT_MARK,
+    PASTED_MARK,
+  ].includes(name);
+}
+
+export type SuggestionAuthor = CollaboratorIdentity;
+
+/** 제안 마크와 블록 제안 속성이 공통으로 갖는 값 */
+export interface SuggestionInfo {
+  id: string;
+  authorId: string;
+  authorName: string;
+  authorColor: string;
+  createdAt: number;
+}
+
+/** 블록 서식 제안: 제안 전 노드로 되돌릴 수 있게 원래 타입/속성을 보관 */
+export interface BlockSuggestion extends SuggestionInfo {
+  previous: { type: string; attrs: Record<string, unknown> };
+}
+
+export type SuggestedChangeKind = "insert" | "delete" | "format";
+
+export interface SuggestedChange extends SuggestionInfo {
+  kind: SuggestedChangeKind;
+  from: number;
+  to: number;
+  /** 넣거나 지운 글자 (서식 제안이면 대상 글자) */
+  text: string;
+  /** 서식 제안일 때: 더하거나 뺀 마크, 또는 바꾸기 전후 블록 */
+  format?:
+    | { type: "mark"; added: string | null; removed: string | null }
+    | {
+        type: "block";
+        before: BlockSuggestion["previous"];
+        after: BlockSuggestion["previous"];
+      };
+}
+
+interface SuggestPluginState {
+  /** null이면 편집 모드, 있으면 이 사람 이름으로 변경을 제안한다 */
+  author: SuggestionAuthor | null;
+}
+
+const META_CHANGE = "change";
+
+type SuggestMeta =
+  | { type: "mode"; author: SuggestionAuthor | null }
+  | { type: typeof META_CHANGE };
+
+export const suggestPluginKey = new PluginKey<SuggestPluginState>("suggestChanges");
+
+function createSuggestionId() {
+  return `s_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function suggestionInfo(author: SuggestionAuthor): SuggestionInfo {
+  return {
+    id: createSuggestionId(),
+    authorId: author.id,
+    authorName: author.name,
+    authorColor: author.color,
+    createdAt: Date.now(),
+  };
+}
+
+function infoOf(attrs: Record<string, unknown>): SuggestionInfo {
+  return {
+    id: String(attrs.id),
+    authorId: String(attrs.authorId),
+    authorName: String(attrs.authorName),
+    authorColor: String(attrs.authorColor),
+    createdAt: Number(attrs.createdAt),
+  };
+}
+
+export function getSuggestingAuthor(state: EditorState) {
+  return suggestPluginKey.getState(state)?.author ?? null;
+}
+
+/** 제안 모드 켜기(author) / 끄기(null) */
+export function setSuggesting(tr: Transaction, author: SuggestionAuthor | null) {
+  return tr.setMeta(suggestPluginKey, { type: "mode", author });
+}
+
+/** 제안을 기록하거나 수락/거절한 트랜잭션 (다시 제안으로 기록하지 않는다) */
+export function isSuggestionChange(tr: Transaction) {
+  return (tr.getMeta(suggestPluginKey) as SuggestMeta | undefined)?.type === META_CHANGE;
+}
+
+const suggestionAttributes = {
+  id: {
+    default: null,
+    parseHTML: (el: HTMLElement) => el.getAttribute("data-suggestion-id"),
+    renderHTML: (attrs: Record<string, unknown>) => ({
+      "data-suggestion-id": attrs.id,
+    }),
+  },
+  authorId: {
+    default: null,
+    parseHTML: (el: HTMLElement) => el.getAttribute("data-author-id"),
+    renderHTML: (attrs: Record<string, unknown>) => ({
+      "data-author-id": attrs.authorId,
+    }),
+  },
+  authorName: {
+    default: null,
+    parseHTML: (el: HTMLElement) => el.getAttribute("data-author-name"),
+    renderHTML: (attrs: Record<string, unknown>) => ({
+      "data-author-name": attrs.authorName,
+      title: attrs.authorName,
+    }),
+  },
+  authorColor: {
+    default: null,
+    parseHTML: (el: HTMLElement) => el.getAttribute("data-author-color"),
+    renderHTML: (attrs: Record<string, unknown>) => ({
+      "data-author-color": attrs.authorColor,
+      style: `--suggestion-color: ${attrs.authorColor}`,
+    }),
+  },
+  createdAt: {
+    default: null,
+    parseHTML: (el: HTMLElement) => Number(el.getAttribute("data-created-at")) || null,
+    renderHTML: (attrs: Record<string, unknown>) => ({
+      "data-created-at": attrs.createdAt,
+    }),
+  },
+};
+
+// 제안한 사람이 이어서 입력하면 같은 제안으로 이어지도록 inclusive
+const InsertionMark = Mark.create({
+  name: INSERTION_MARK,
+  inclusive: true,
+  addAttributes: () => suggestionAttributes,
+  parseHTML: () => [{ tag: "ins[data-suggestion-id]" }],
+  renderHTML: ({ HTMLAttributes }) => [
+    "ins",
+    mergeAttributes(HTMLAttributes, { class: "suggestion-insert" }),
+    0,
+  ],
+});
+
+const DeletionMark = Mark.create({
+  name: DELETION_MARK,
+  inclusive: false,
+  addAttributes: () => suggestionAttributes,
+  parseHTML: () => [{ tag: "del[data-suggestion-id]" }],
+  renderHTML: ({ HTMLAttributes }) => [
+    "del",
+    mergeAttributes(HTMLAttributes, { class: "suggestion-delete" }),
+    0,
+  ],
+});
+
+// 같은 글자에 서식 제안이 여러 개 겹칠 수 있다 (굵게 + 기울임 등)
+const FormatChangeMark = Mark.create({
+  name: FORMAT_CHANGE_MARK,
+  inclusive: false,
+  excludes: "",
+  addAttributes: () => ({
+    ...suggestionAttributes,
+    // 더하거나 뺀 마크 (Mark JSON)
+    added: {
+      default: null,
+      parseHTML: (el) => parseJsonAttribute(el.getAttribute("data-added")),
+      renderHTML: (attrs) =>
+        attrs.added ? { "data-added": JSON.stringify(attrs.added) } : {},
+    },
+    removed: {
+      default: null,
+      parseHTML: (el) => parseJsonAttribute(el.getAttribute("data-removed")),
+      renderHTML: (attrs) =>
+        attrs.removed ? { "data-removed": JSON.stringify(attrs.removed) } : {},
+    },
+  }),
+  parseHTML: () => [{ tag: "span[data-format-suggestion]" }],
+  renderHTML: ({ HTMLAttributes }) => [
+    "span",
+    mergeAttributes(HTMLAttributes, {
+      "data-format-suggestion": "",
+      class: "suggestion-format",
+    }),
+    0,
+  ],
+});
+
+function parseJsonAttribute(value: string | null) {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+function isInsertion(mark: PMMark) {
+  return mark.type.name === INSERTION_MARK;
+}
+
+function isDeletion(mark: PMMark) {
+  return mark.type.name === DELETION_MARK;
+}
+
+/** 제안 중에 넣었던 글자를 다시 지우면 제안을 거두는 것이므로 그대로 지운다 */
+function withoutInsertions(fragment: Fragment): Fragment {
+  const children: PMNode[] = [];
+  fragment.forEach((child) => {
+    if (child.isText) {
+      if (!child.marks.some(isInsertion)) children.push(child);
+    } else {
+      children.push(child.copy(withoutInsertions(child.content)));
+    }
+  });
+  return Fragment.from(children);
+}
+
+/** 범위 양옆에 같은 사람의 같은 종류 제안이 있으면 그 제안으로 잇는다 */
+function adjacentSuggestion(
+  doc: PMNode,
+  from: number,
+  to: number,
+  markName: string,
+  author: SuggestionAuthor
+) {
+  const candidates = [
+    doc.resolve(from).nodeBefore,
+    doc.resolve(to).nodeAfter,
+  ].flatMap((node) => node?.marks ?? []);
+  const mark = candidates.find(
+    (m) => m.type.name === markName && m.attrs.authorId === author.id
+  );
+  return mark ? infoOf(mark.attrs) : null;
+}
+
+// 범위 안에서 아직 해당 마크가 없는 글자에만 마크를 건다
+function markText(
+  tr: Transaction,
+  from: number,
+  to: number,
+  mark: PMMark,
+  skip: (node: PMNode) => boolean
+) {
+  const ranges: Array<[number, number]> = [];
+  tr.doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isText || skip(node)) return;
+    ranges.push([Math.max(from, pos), Math.min(to, pos + node.nodeSize)]);
+  });
+  ranges.forEach(([start, end]) => tr.addMark(start, end, mark));
+}
+
+/** suggestion을 뺀 블록 속성 (키 순서를 맞춰 비교할 수 있게) */
+function blockAttrs(node: PMNode) {
+  return Object.fromEntries(
+    Object.entries(node.attrs)
+      .filter(([key]) => key !== "suggestion")
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+interface TrackedStep {
+  step: Step;
+  /** step 적용 전 문서 */
+  doc: PMNode;
+  /** step 뒤의 나머지 변경 (원래 트랜잭션들의 최종 문서 좌표로 옮길 때) */
+  rest: Mapping;
+}
+
+function collectSteps(transactions: readonly Transaction[]) {
+  const steps: Array<{ step: Step; doc: PMNode }> = [];
+  const maps = transactions.flatMap((tr) => {
+    tr.steps.forEach((step, index) => steps.push({ step, doc: tr.docs[index] }));
+    return tr.mapping.maps;
+  });
+  return steps.map<TrackedStep>((entry, index) => ({
+    ...entry,
+    rest: new Mapping(maps.slice(index + 1)),
+  }));
+}
+
+/**
+ * 원래 트랜잭션을 제안으로 바꾸는 후속 트랜잭션을 만든다.
+ * - 넣은 글자: insertion 마크
+ * - 지운 글자: 다시 넣고 deletion 마크 (취소선)
+ * - 마크 서식: formatChange 마크에 더하거나 뺀 마크를 기록
+ * - 블록 서식: 노드의 suggestion 속성에 원래 타입/속성을 기록
+ * 목록/표처럼 구조를 바꾸는 변경은 추적하지 않는다.
+ */
+function trackChanges(
+  transactions: readonly Transaction[],
+  oldState: EditorState,
+  newState: EditorState,
+  author: SuggestionAuthor
+) {
+  const { schema } = newState;
+  const insertionType = schema.marks[INSERTION_MARK];
+  const deletionType = schema.marks[DELETION_MARK];
+  const formatType = schema.marks[FORMAT_CHANGE_MARK];
+  const out = newState.tr;
+  let backspaceAt: number | null = null;
+
+  for (const { step, doc, rest } of collectSteps(transactions)) {
+    if (step instanceof ReplaceStep) {
+      const { from, to, slice } = step;
+
+      // 넣은 글자
+      if (slice.size > 0) {
+        const start = out.mapping.map(rest.map(from, 1));
+        const end = out.mapping.map(rest.map(from + slice.size, -1));
+        if (end > start) {
+          // 지운 글자 사이에 입력하면 deletion 마크를 물려받으므로 떼어 낸다
+          out.removeMark(start, end, deletionType);
+          out.removeMark(start, end, formatType);
+          const info =
+            adjacentSuggestion(out.doc, start, end, INSERTION_MARK, author) ??
+            suggestionInfo(author);
+          markText(out, start, end, insertionType.create(info), (node) =>
+            node.marks.some(
+              (m) => isInsertion(m) && m.attrs.authorId === author.id
+            )
+          );
+        }
+      }
+
+      // 지운 글자는 되살려서 취소선으로
+      if (to > from) {
+        const removed = doc.slice(from, to);
+        const deleted = withoutInsertions(removed.content);
+        if (deleted.size === 0) continue;
+        const at = out.mapping.map(rest.map(from, -1), -1);
+        const sizeBefore = out.doc.content.size;
+        out.replace(at, at, new Slice(deleted, removed.openStart, removed.openEnd));
+        const end = at + (out.doc.content.size - sizeBefore);
+
+        const info =
+          adjacentSuggestion(out.doc, at, end, DELETION_MARK, author) ??
+          suggestionInfo(author);
+        markText(out, at, end, deletionType.create(info), (node) =>
+          node.marks.some(isDeletion)
+        );
+
+        // Backspace면 커서를 지운 글자 앞으로 (Delete면 뒤로)
+        const { selection } = oldState;
+        if (selection.empty && slice.size === 0 && to === selection.from) {
+          backspaceAt = at;
+        }
+      }
+      continue;
+    }
+
+    if (step instanceof AddMarkStep || step instanceof RemoveMarkStep) {
+      const { from, to, mark } = step;
+      if (isUntrackedMark(mark.type.name)) continue;
+      const start = out.mapping.map(rest.map(from, 1));
+      const end = out.mapping.map(rest.map(to, -1));
+      if (end <= start) continue;
+
+      const adding = step instanceof AddMarkStep;
+      // 같은 마크를 반대로 제안했던 것은 서로 상쇄된다
+      let cancelled = false;
+      out.doc.nodesBetween(start, end, (node, pos) => {
+        node.marks.forEach((m) => {
+          if (m.type !== formatType) return;
+          const opposite = (adding ? m.attrs.removed : m.attrs.added) as
+            | { type?: string }
+            | null;
+          if (opposite?.type === mark.type.name) {
+            out.removeMark(Math.max(start, pos), Math.min(end, pos + node.nodeSize), m);
+            cancelled = true;
+          }
+        });
+      });
+      if (cancelled) continue;
+
+      markText(
+        out,
+        start,
+        end,
+        formatType.create({
+          ...suggestionInfo(author),
+          added: adding ? mark.toJSON() : null,
+          removed: adding ? null : mark.toJSON(),
+        }),
+        () => false
+      );
+      continue;
+    }
+
+    // setNodeMarkup (제목 전환, 정렬 등): 노드 하나를 같은 내용으로 감싸 바꾸는 step
+    const isMarkupChange =
+      step instanceof ReplaceAroundStep &&
+      step.gapFrom === step.from + 1 &&
+      step.gapTo === step.to - 1 &&
+      step.insert === 1 &&
+      step.slice.content.childCount === 1 &&
+      step.slice.openStart === 0 &&
+      step.slice.openEnd === 0;
+    if (!isMarkupChange && !(step instanceof AttrStep)) continue;
+
+    const pos = step instanceof AttrStep ? step.pos : (step as ReplaceAroundStep).from;
+    const before = doc.nodeAt(pos);
+    const mapped = out.mapping.map(rest.map(pos, 1));
+    const after = out.doc.nodeAt(mapped);
+    if (
+      !before ||
+      !after ||
+      !TRACKED_BLOCKS.includes(before.type.name) ||
+      !TRACKED_BLOCKS.includes(after.type.name)
+    ) {
+      continue;
+    }
+
+    const existing = before.attrs.suggestion as BlockSuggestion | null;
+    const previous = existing?.previous ?? {
+      type: before.type.name,
+      attrs: blockAttrs(before),
+    };
+    // 원래대로 돌아왔으면 제안이 아니다
+    const reverted =
+      previous.type === after.type.name &&
+      JSON.stringify(previous.attrs) === JSON.stringify(blockAttrs(after));
+    out.setNodeAttribute(
+      mapped,
+      "suggestion",
+      reverted
+        ? null
+        : {
+            ...(existing ?? suggestionInfo(author)),
+            previous,
+          }
+    );
+  }
+
+  if (!out.docChanged) return null;
+  if (backspaceAt !== null) {
+    out.setSelection(TextSelection.create(out.doc, backspaceAt));
+  }
+  return out.setMeta(suggestPluginKey, { type: META_CHANGE });
+}
+
+/** 편집 모드에서 제안 옆/안에 입력한 글자가 제안 마크를 물려받지 않게 */
+function clearInheritedSuggestions(
+  transactions: readonly Transaction[],
+  newState: EditorState
+) {
+  const { schema } = newState;
+  const types = [INSERTION_MARK, DELETION_MARK, FORMAT_CHANGE_MARK].map(
+    (name) => schema.marks[name]
+  );
+  const out = newState.tr;
+
+  for (const { step, rest } of collectSteps(transactions)) {
+    if (!(step instanceof ReplaceStep) || step.slice.size === 0) continue;
+    const start = rest.map(step.from, 1);
+    const end = rest.map(step.from + step.slice.size, -1);
+    if (end <= start) continue;
+    types.forEach((type) => {
+      if (newState.doc.rangeHasMark(start, end, type)) {
+        out.removeMark(start, end, type);
+      }
+    });
+  }
+
+  return out.docChanged ? out.setMeta(suggestPluginKey, { type: META_CHANGE }) : null;
+}
+
+/**
+ * 조합(IME) 중에 마크를 새로 걸면 조합 중인 글자가 다시 그려져 입력이 깨진다.
+ * 조합을 시작할 때 insertion 마크를 stored mark로 미리 넣어 둔다.
+ */
+function storeInsertionMark(state: EditorState, author: SuggestionAuthor) {
+  const { $from, from, to } = state.selection;
+  const marks = state.storedMarks ?? $from.marks();
+  if (marks.some((m) => isInsertion(m) && m.attrs.authorId === author.id)) {
+    return null;
+  }
+  const info =
+    adjacentSuggestion(state.doc, from, to, INSERTION_MARK, author) ??
+    suggestionInfo(author);
+  const mark = state.schema.marks[INSERTION_MARK].create(info);
+  const kept = marks.filter(
+    (m) => !isDeletion(m) && m.type.name !== FORMAT_CHANGE_MARK
+  );
+  return state.tr.setStoredMarks(mark.addToSet(kept));
+}
+
+function describeMark(value: unknown) {
+  return (value as { type?: string } | null)?.type ?? null;
+}
+
+/** 문서에 남아 있는 제안 목록 (문서 순서) */
+export function findSuggestedChanges(doc: PMNode) {
+  const changes = new Map<string, SuggestedChange>();
+
+  const add = (
+    mark: PMMark,
+    kind: SuggestedChangeKind,
+    pos: number,
+    node: PMNode
+  ) => {
+    const info = infoOf(mark.attrs);
+    const end = pos + node.nodeSize;
+    const existing = changes.get(info.id);
+    if (existing) {
+      existing.to = end;
+      existing.text += node.text ?? "";
+      return;
+    }
+    changes.set(info.id, {
+      ...info,
+      kind,
+      from: pos,
+      to: end,
+      text: node.text ?? "",
+      ...(kind === "format" && {
+        format: {
+          type: "mark",
+          added: describeMark(mark.attrs.added),
+          removed: describeMark(mark.attrs.removed),
+        },
+      }),
+    });
+  };
+
+  doc.descendants((node, pos) => {
+    const block = node.attrs.suggestion as BlockSuggestion | null | undefined;
+    if (block?.id && !changes.has(block.id)) {
+      changes.set(block.id, {
+        ...infoOf(block as unknown as Record<string, unknown>),
+        kind: "format",
+        from: pos,
+        to: pos + node.nodeSize,
+        text: node.textContent,
+        format: {
+          type: "block",
+          before: block.previous,
+          after: { type: node.type.name, attrs: node.attrs },
+        },
+      });
+    }
+    if (!node.isText) return;
+    node.marks.forEach((mark) => {
+      if (mark.type.name === INSERTION_MARK) add(mark, "insert", pos, node);
+      else if (mark.type.name === DELETION_MARK) add(mark, "delete", pos, node);
+      else if (mark.type.name === FORMAT_CHANGE_MARK) add(mark, "format", pos, node);
+    });
+  });
+
+  return Array.from(changes.values()).sort((a, b) => a.from - b.from);
+}
+
+/**
+ * 제안을 수락하거나 거절한다. ids가 null이면 모든 제안.
+ * 마크/속성 변경은 위치를 바꾸지 않으므로 먼저 하고, 글자 삭제는 뒤에서부터.
+ */
+export function resolveSuggestions(
+  state: EditorState,
+  ids: string[] | null,
+  accept: boolean
+) {
+  const { schema } = state;
+  const tr = state.tr.setMeta(suggestPluginKey, { type: META_CHANGE });
+  const matches = (id: unknown) => ids === null || ids.includes(String(id));
+  const deletions: Array<[number, number]> = [];
+
+  state.doc.descendants((node, pos) => {
+    const block = node.attrs.suggestion as BlockSuggestion | null | undefined;
+    if (block?.id && matches(block.id)) {
+      if (accept) {
+        tr.setNodeAttribute(pos, "suggestion", null);
+      } else {
+        const type = schema.nodes[block.previous.type] ?? node.type;
+        tr.setNodeMarkup(pos, type, { ...block.previous.attrs, suggestion: null });
+      }
+    }
+
+    if (!node.isText) return;
+    const end = pos + node.nodeSize;
+    node.marks.forEach((mark) => {
+      if (!matches(mark.attrs.id)) return;
+      switch (mark.type.name) {
+        case INSERTION_MARK:
+          if (accept) tr.removeMark(pos, end, mark);
+          else deletions.push([pos, end]);
+          break;
+        case DELETION_MARK:
+          if (accept) deletions.push([pos, end]);
+          else tr.removeMark(pos, end, mark);
+          break;
+        case FORMAT_CHANGE_MARK: {
+          tr.removeMark(pos, end, mark);
+          if (accept) break;
+          const { added, removed } = mark.attrs;
+          if (added) {
+            const addedMark = schema.markFromJSON(added);
+            tr.removeMark(pos, end, addedMark.type);
+          }
+          if (removed) tr.addMark(pos, end, schema.markFromJSON(removed));
+          break;
+        }
+      }
+    });
+  });
+
+  deletions
+    .sort((a, b) => b[0] - a[0])
+    .forEach(([from, to]) => tr.delete(from, to));
+  return tr;
+}
+
+/**
+ * 제안 모드. 켜져 있으면 입력/삭제/서식 변경을 바로 반영하지 않고
+ * 작성자와 시각이 붙은 제안으로 남긴다. 수락/거절은 resolveSuggestions.
+ */
+export const SuggestChanges = Extension.create({
+  name: "suggestChanges",
+
+  addExtensions() {
+    return [InsertionMark, DeletionMark, FormatChangeMark];
+  },
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: TRACKED_BLOCKS,
+        attributes: {
+          suggestion: {
+            default: null,
+            parseHTML: (el) => parseJsonAttribute(el.getAttribute("data-suggestion")),
+            renderHTML: (attrs) =>
+              attrs.suggestion
+                ? {
+                    "data-suggestion": JSON.stringify(attrs.suggestion),
+                    style: `--suggestion-color: ${attrs.suggestion.authorColor}`,
+                  }
+                : {},
+          },
+        },
+      },
+    ];
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<SuggestPluginState>({
+        key: suggestPluginKey,
+        state: {
+          init: () => ({ author: null }),
+          apply: (tr, value) => {
+            const meta = tr.getMeta(suggestPluginKey) as SuggestMeta | undefined;
+            return meta?.type === "mode" ? { author: meta.author } : value;
+          },
+        },
+        appendTransaction: (transactions, oldState, newState) => {
+          const skip = transactions.some(
+            (tr) =>
+              isSuggestionChange(tr) ||
+              isHistoryTransaction(tr) ||
+              isYjsChange(tr) ||
+              tr.getMeta("addToHistory") === false
+          );
+          if (skip || !transactions.some((tr) => tr.docChanged)) return null;
+
+          const author = getSuggestingAuthor(newState);
+          return author
+            ? trackChanges(transactions, oldState, newState, author)
+            : clearInheritedSuggestions(transactions, newState);
+        },
+        props: {
+          handleDOMEvents: {
+            compositionstart: (view) => {
+              const author = getSuggestingAuthor(view.state);
+              const tr = author && storeInsertionMark(view.state, author);
+              if (tr) view.dispatch(tr);
+              // 기본 조합 처리(markCursor)는 그대로 진행
+              return false;
+            },
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,127 @@
+import { Node, mergeAttributes } from "@tiptap/core";
+import { DOMSerializer, type DOMOutputSpec } from "@tiptap/pm/model";
+import type { Transaction } from "@tiptap/pm/state";
+import { TABLE_OF_CONTENTS_NODE } from "@/lib/outline/content";
+import { getOutline, goToHeading, type OutlineItem } from "./outline";
+
+const TITLE = "목차";
+
+function tocSpec(
+  HTMLAttributes: Record<string, unknown>,
+  items: OutlineItem[]
+): DOMOutputSpec {
+  const list: DOMOutputSpec =
+    items.length === 0
+      ? ["p", { class: "toc-block__empty" }, "제목을 추가하면 목차가 만들어집니다"]
+      : [
+          "ol",
+          { class: "toc-block__list" },
+          ...items.map(
+            (item, index): DOMOutputSpec => [
+              "li",
+              { class: `toc-block__item toc-block__item--h${item.level}` },
+              [
+                "button",
+                { type: "button", "data-toc-index": String(index) },
+                item.text || "(제목 없음)",
+              ],
+            ]
+          ),
+        ];
+
+  return [
+    "nav",
+    mergeAttributes(HTMLAttributes, {
+      "data-type": "table-of-contents",
+      class: "toc-block",
+    }),
+    ["p", { class: "toc-block__title" }, TITLE],
+    list,
+  ];
+}
+
+/**
+ * 문서의 제목으로 채워지는 목차 블록.
+ * 노드에는 아무 값도 없고, 편집기/게시 페이지에서 그릴 때마다 제목을 다시 모은다.
+ */
+export const TableOfContents = Node.create({
+  name: TABLE_OF_CONTENTS_NODE,
+  group: "block",
+  atom: true,
+  selectable: true,
+  draggable: true,
+  parseHTML() {
+    return [{ tag: 'nav[data-type="table-of-contents"]' }];
+  },
+  // 편집기 밖(복사한 HTML 등)에서는 제목 목록 없이 자리만 남는다
+  renderHTML({ HTMLAttributes }) {
+    return tocSpec(HTMLAttributes, []);
+  },
+  renderText() {
+    return "";
+  },
+  addNodeView() {
+    return ({ editor, HTMLAttributes }) => {
+      let items: OutlineItem[] = [];
+      const { dom } = DOMSerializer.renderSpec(
+        document,
+        tocSpec(HTMLAttributes, items)
+      );
+      const nav = dom as HTMLElement;
+
+      // 제목이 바뀐 경우에만 다시 그린다 (글자를 칠 때마다 DOM을 바꾸지 않게)
+      const render = () => {
+        const next = getOutline(editor.state.doc);
+        const same =
+          next.length === items.length &&
+          next.every(
+            (item, i) =>
+              item.level === items[i].level && item.text === items[i].text
+          );
+        items = next;
+        if (same) return;
+        const { dom: rendered } = DOMSerializer.renderSpec(
+          document,
+          tocSpec(HTMLAttributes, items)
+        );
+        nav.replaceChildren(...Array.from(rendered.childNodes));
+      };
+
+      // 항목을 누르면 그 제목으로 스크롤하고 커서를 옮긴다
+      const handleClick = (event: MouseEvent) => {
+        const button = (event.target as HTMLElement).closest<HTMLElement>(
+          "[data-toc-index]"
+        );
+        if (!button) return;
+        event.preventDefault();
+        const item = getOutline(editor.state.doc)[
+          Number(button.dataset.tocIndex)
+        ];
+        if (item) goToHeading(editor, item);
+      };
+
+      // 재생기처럼 update 이벤트 없이 내용을 바꾸는 곳도 있어 트랜잭션을 본다
+      const handleTransaction = ({ transaction }: { transaction: Transaction }) => {
+        if (transaction.docChanged) render();
+      };
+
+      render();
+      nav.addEventListener("click", handleClick);
+      editor.on("transaction", handleTransaction);
+
+      return {
+        dom: nav,
+        update: (updated) => updated.type.name === TABLE_OF_CONTENTS_NODE,
+        // 목록 버튼은 ProseMirror가 노드 선택으로 가로채지 않게
+        stopEvent: (event) =>
+          event.target instanceof Element &&
+          !!event.target.closest("[data-toc-index]"),
+        ignoreMutation: () => true,
+        destroy: () => {
+          nav.removeEventListener("click", handleClick);
+          editor.off("transaction", handleTransaction);
+        },
+      };
+    };
+  },
+});
@@ -0,0 +1,88 @@
+import { Extension } from "@tiptap/core";
+import { Fragment, Slice } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { getSuggestingAuthor } from "./SuggestChanges";
+import {
+  createTableFromRows,
+  normalizeCellColor,
+  parseSpreadsheetText,
+} from "./tables";
+
+/**
+ * 표 메뉴가 쓰는 셀 배경색 속성과, 스프레드시트에서 복사한 글자(TSV/CSV)를
+ * 새 표로 붙여넣는 플러그인. 표 안에 붙여넣으면 prosemirror-tables가
+ * 그 자리의 칸들에 나눠 넣는다.
+ * PastedText보다 앞에 둬야 표로 바뀐 글자에도 붙여넣기 표시가 붙는다.
+ */
+export const TableTools = Extension.create({
+  name: "tableTools",
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: ["tableCell", "tableHeader"],
+        attributes: {
+          backgroundColor: {
+            default: null,
+            parseHTML: (element) =>
+              normalizeCellColor(
+                element.getAttribute("data-background-color") ||
+                  element.style.backgroundColor
+              ),
+            renderHTML: (attrs) => {
+              const color = normalizeCellColor(attrs.backgroundColor);
+              return color
+                ? {
+                    "data-background-color": color,
+                    style: `background-color: ${color}`,
+                  }
+                : {};
+            },
+          },
+        },
+      },
+    ];
+  },
+
+  addProseMirrorPlugins() {
+    let pending: string[][] | null = null;
+
+    return [
+      new Plugin({
+        key: new PluginKey("spreadsheetPaste"),
+        props: {
+          handleDOMEvents: {
+            paste: (_view, event) => {
+              const html = event.clipboardData?.getData("text/html") ?? "";
+              const text = event.clipboardData?.getData("text/plain") ?? "";
+              // 편집기끼리 복사한 내용은 원래 모양 그대로
+              pending = html.includes("data-pm-slice")
+                ? null
+                : parseSpreadsheetText(text, html.length > 0);
+              return false;
+            },
+          },
+          transformPasted: (slice, view) => {
+            const rows = pending;
+            pending = null;
+            if (!rows) return slice;
+
+            // 제안 모드는 표 삽입을 추적하지 않고, 코드 블록에는 글자 그대로
+            const { state } = view;
+            if (
+              getSuggestingAuthor(state) ||
+              state.selection.$from.parent.type.spec.code
+            ) {
+              return slice;
+            }
+            return new Slice(
+              Fragment.from(createTableFromRows(state.schema, rows)),
+              0,
+              0
+            );
+          },
+        },
+      }),
+    ];
+  },
+});
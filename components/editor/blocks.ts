@@ -0,0 +1,219 @@
+import type { ChainedCommands, Editor } from "@tiptap/core";
+import { Fragment, type Node as PMNode } from "@tiptap/pm/model";
+import {
+  NodeSelection,
+  TextSelection,
+  type EditorState,
+  type Transaction,
+} from "@tiptap/pm/state";
+import {
+  CheckSquare,
+  Code,
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  Pilcrow,
+  Quote,
+  type LucideIcon,
+} from "lucide-react";
+import { stripBlockIds } from "./BlockIds";
+
+/**
+ * 최상위 블록 단위 편집 (블록 핸들 메뉴, Alt+Shift+↑/↓).
+ * 모두 트랜잭션만 만들고, 보내는 것은 부르는 쪽이 한다.
+ */
+
+export interface TopLevelBlock {
+  node: PMNode;
+  pos: number;
+  index: number;
+}
+
+/** pos가 들어 있는 최상위 블록 */
+export function topLevelBlockAt(doc: PMNode, pos: number): TopLevelBlock | null {
+  const $pos = doc.resolve(Math.min(Math.max(pos, 0), doc.content.size));
+  const index = $pos.index(0);
+  if (index >= doc.childCount) return null;
+  let start = 0;
+  for (let i = 0; i < index; i++) start += doc.child(i).nodeSize;
+  return { node: doc.child(index), pos: start, index };
+}
+
+// 옮기거나 복제한 블록에 선택을 그대로 (노드 선택이면 노드, 아니면 같은 글자 위치)
+function keepSelection(
+  tr: Transaction,
+  state: EditorState,
+  block: TopLevelBlock,
+  insertAt: number
+) {
+  const { selection } = state;
+  const end = block.pos + block.node.nodeSize;
+  if (selection instanceof NodeSelection && selection.from === block.pos) {
+    return tr.setSelection(NodeSelection.create(tr.doc, insertAt));
+  }
+  const { anchor, head } = selection;
+  if (anchor < block.pos || anchor > end || head < block.pos || head > end) {
+    return tr;
+  }
+  return tr.setSelection(
+    TextSelection.between(
+      tr.doc.resolve(insertAt + anchor - block.pos),
+      tr.doc.resolve(insertAt + head - block.pos)
+    )
+  );
+}
+
+/** 블록을 앞(-1)/뒤(1) 블록과 자리를 바꾼다. 맨 앞/뒤면 null */
+export function moveBlock(
+  state: EditorState,
+  pos: number,
+  direction: -1 | 1
+): Transaction | null {
+  const block = topLevelBlockAt(state.doc, pos);
+  if (!block) return null;
+  const neighborIndex = block.index + direction;
+  if (neighborIndex < 0 || neighborIndex >= state.doc.childCount) return null;
+
+  const neighbor = state.doc.child(neighborIndex);
+  const insertAt =
+    direction < 0 ? block.pos - neighbor.nodeSize : block.pos + neighbor.nodeSize;
+  const tr = state.tr
+    .delete(block.pos, block.pos + block.node.nodeSize)
+    .insert(insertAt, block.node);
+  return keepSelection(tr, state, block, insertAt).scrollIntoView();
+}
+
+/** 블록 바로 뒤에 같은 블록을 하나 더 넣고 그쪽을 선택한다 */
+export function duplicateBlock(state: EditorState, pos: number) {
+  const block = topLevelBlockAt(state.doc, pos);
+  if (!block) return null;
+  const insertAt = block.pos + block.node.nodeSize;
+  const tr = state.tr.insert(
+    insertAt,
+    stripBlockIds(Fragment.from(block.node))
+  );
+  return keepSelection(tr, state, block, insertAt).scrollIntoView();
+}
+
+export function deleteBlock(state: EditorState, pos: number) {
+  const block = topLevelBlockAt(state.doc, pos);
+  if (!block) return null;
+  const end = block.pos + block.node.nodeSize;
+  // 문서에는 블록이 하나는 있어야 하므로 마지막 블록은 빈 문단으로 바꾼다
+  if (state.doc.childCount === 1) {
+    return state.tr.replaceWith(
+      block.pos,
+      end,
+      state.schema.nodes.paragraph.create()
+    );
+  }
+  return state.tr.delete(block.pos, end);
+}
+
+export interface TurnIntoOption {
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  isActive: (node: PMNode) => boolean;
+  /** 블록 내용을 선택하고 평범한 문단으로 푼 뒤 이어서 실행할 명령 */
+  apply: (chain: ChainedCommands) => ChainedCommands;
+}
+
+// 글이 있는 블록만 다른 종류로 바꿀 수 있다 (표/이미지 등은 안 된다)
+const TURNABLE = [
+  "paragraph",
+  "heading",
+  "blockquote",
+  "codeBlock",
+  "bulletList",
+  "orderedList",
+  "taskList",
+];
+
+export function canTurnInto(node: PMNode) {
+  return TURNABLE.includes(node.type.name);
+}
+
+function isHeading(node: PMNode, level: number) {
+  return node.type.name === "heading" && node.attrs.level === level;
+}
+
+export const TURN_INTO_OPTIONS: TurnIntoOption[] = [
+  {
+    id: "paragraph",
+    label: "본문",
+    icon: Pilcrow,
+    isActive: (node) => node.type.name === "paragraph",
+    apply: (chain) => chain,
+  },
+  ...[1, 2, 3].map(
+    (level): TurnIntoOption => ({
+      id: `heading${level}`,
+      label: `제목 ${level}`,
+      icon: [Heading1, Heading2, Heading3][level - 1],
+      isActive: (node) => isHeading(node, level),
+      apply: (chain) => chain.setHeading({ level: level as 1 | 2 | 3 }),
+    })
+  ),
+  {
+    id: "blockquote",
+    label: "인용구",
+    icon: Quote,
+    isActive: (node) => node.type.name === "blockquote",
+    apply: (chain) => chain.setBlockquote(),
+  },
+  {
+    id: "codeBlock",
+    label: "코드 블록",
+    icon: Code,
+    isActive: (node) => node.type.name === "codeBlock",
+    apply: (chain) => chain.setCodeBlock(),
+  },
+  {
+    id: "bulletList",
+    label: "글머리 기호",
+    icon: List,
+    isActive: (node) => node.type.name === "bulletList",
+    apply: (chain) => chain.toggleBulletList(),
+  },
+  {
+    id: "orderedList",
+    label: "번호 매기기",
+    icon: ListOrdered,
+    isActive: (node) => node.type.name === "orderedList",
+    apply: (chain) => chain.toggleOrderedList(),
+  },
+  {
+    id: "taskList",
+    label: "할 일 목록",
+    icon: CheckSquare,
+    isActive: (node) => node.type.name === "taskList",
+    apply: (chain) => chain.toggleTaskList(),
+  },
+];
+
+/** 블록 전체를 선택해서 목록/인용을 풀고 option 모양으로 바꾼다 */
+export function turnBlockInto(editor: Editor, pos: number, option: TurnIntoOption) {
+  const block = topLevelBlockAt(editor.state.doc, pos);
+  if (!block || !canTurnInto(block.node)) return false;
+  // 한 번의 되돌리기로 돌아가도록 한 트랜잭션에서
+  return option
+    .apply(
+      editor
+        .chain()
+        .focus()
+        .command(({ tr }) => {
+          tr.setSelection(
+            TextSelection.between(
+              tr.doc.resolve(block.pos + 1),
+              tr.doc.resolve(block.pos + block.node.nodeSize - 1)
+            )
+          );
+          return true;
+        })
+        .clearNodes()
+    )
+    .run();
+}
@@ -0,0 +1,23 @@
+import { flattenExtensions } from "@tiptap/core";
+import { describe, expect, it } from "vitest";
+import { createEditorExtensions } from "./extensions";
+
+function named(name: string) {
+  return flattenExtensions(createEditorExtensions()).filter(
+    (extension) => extension.name === name
+  );
+}
+
+describe("편집기 확장", () => {
+  it("Link와 Underline은 하나씩만 (StarterKit 것과 겹치지 않게)", () => {
+    expect(named("link")).toHaveLength(1);
+    expect(named("underline")).toHaveLength(1);
+  });
+
+  it("링크를 눌러도 새 창을 열지 않고, 자동 링크는 링크 창과 같은 검사를 거친다", () => {
+    const [link] = named("link");
+    expect(link.options.openOnClick).toBe(false);
+    expect(link.options.shouldAutoLink("example.com")).toBe(true);
+    expect(link.options.shouldAutoLink("javascript:alert(1)")).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+import type { Extensions } from "@tiptap/core";
+import type { MentionOptions } from "@tiptap/extension-mention";
+import StarterKit from "@tiptap/starter-kit";
+import TextAlign from "@tiptap/extension-text-align";
+import Underline from "@tiptap/extension-underline";
+import Link from "@tiptap/extension-link";
+import Highlight from "@tiptap/extension-highlight";
+import Subscript from "@tiptap/extension-subscript";
+import Superscript from "@tiptap/extension-superscript";
+import TaskList from "@tiptap/extension-task-list";
+import TaskItem from "@tiptap/extension-task-item";
+import { Table } from "@tiptap/extension-table";
+import TableRow from "@tiptap/extension-table-row";
+import TableHeader from "@tiptap/extension-table-header";
+import TableCell from "@tiptap/extension-table-cell";
+import Color from "@tiptap/extension-color";
+import { TextStyle } from "@tiptap/extension-text-style";
+import YouTube from "@tiptap/extension-youtube";
+import CodeBlock from "@tiptap/extension-code-block";
+import { Attachment } from "./Attachment";
+import { BlockIds } from "./BlockIds";
+import { CommentMark } from "./CommentMark";
+import { ImageAsset } from "./ImageAsset";
+import { normalizeLinkUrl } from "./links";
+import { Mention } from "./Mention";
+import { PastedText } from "./PastedText";
+import { SuggestChanges } from "./SuggestChanges";
+import { TableOfContents } from "./TableOfContents";
+import { TableTools } from "./TableTools";
+
+function cx(...classes: Array<string | false | undefined | null>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+interface EditorExtensionOptions {
+  /** Yjs 공동 편집 중이면 Collaboration의 undo를 쓰도록 기본 history를 끈다 */
+  collaborative?: boolean;
+  /** "@", "[[" 등 멘션 고르기 (편집기에서만. 없으면 멘션을 보여주기만 한다) */
+  mentionSuggestions?: MentionOptions["suggestions"];
+  /** 복사한 내용에 남길 문서 id (붙여넣기 출처 구분용, 편집기에서만) */
+  documentId?: string | null;
+}
+
+/**
+ * 문서 스키마를 정의하는 확장 묶음.
+ * 편집기, 재생기 등 문서를 렌더링하는 곳은 모두 이 목록을 써야
+ * 같은 노드/마크가 같은 모양으로 보인다.
+ */
+export function createEditorExtensions({
+  collaborative = false,
+  mentionSuggestions = [],
+  documentId = null,
+}: EditorExtensionOptions = {}): Extensions {
+  return [
+    StarterKit.configure({
+      heading: { levels: [1, 2, 3] },
+      codeBlock: false, // 우리가 직접 추가할 CodeBlock 사용
+      // 아래에서 설정한 Link/Underline만 쓴다 (StarterKit에도 들어 있다)
+      link: false,
+      underline: false,
+      // 블록을 끌어 놓을 자리 표시
+      dropcursor: { color: "#3b82f6", width: 2 },
+      ...(collaborative && { undoRedo: false }),
+    }),
+    TextAlign.configure({
+      types: ["heading", "paragraph"],
+      defaultAlignment: "left",
+    }),
+    Underline,
+    Link.configure({
+      openOnClick: false,
+      // 입력하거나 붙여넣은 주소는 링크 창과 같은 검사를 통과할 때만 자동 링크
+      defaultProtocol: "https",
+      shouldAutoLink: (url) => normalizeLinkUrl(url) !== null,
+      HTMLAttributes: {
+        class:
+          "text-blue-600 underline underline-offset-4 decoration-blue-300 hover:decoration-blue-500",
+      },
+    }),
+    Highlight.configure({ multicolor: false }),
+    ImageAsset.configure({
+      HTMLAttributes: {
+        class: "max-w-full h-auto rounded-xl ring-1 ring-black/10",
+      },
+    }),
+    Subscript,
+    Superscript,
+    TaskList,
+    TaskItem.configure({ nested: true }),
+    Table.configure({
+      resizable: true,
+      HTMLAttributes: {
+        class:
+          "border-collapse my-6 w-full overflow-hidden rounded-xl ring-1 ring-black/10",
+      },
+    }),
+    TableRow,
+    TableHeader.configure({
+      HTMLAttributes: {
+        class: "bg-black/[0.03] font-semibold",
+      },
+    }),
+    TableCell,
+    TableTools,
+    Color,
+    TextStyle,
+    YouTube.configure({
+      HTMLAttributes: {
+        class: "rounded-xl my-6 ring-1 ring-black/10 overflow-hidden",
+      },
+    }),
+    CodeBlock.configure({
+      HTMLAttributes: {
+        class: "rounded-lg my-4",
+      },
+    }),
+    Attachment,
+    TableOfContents,
+    BlockIds,
+    Mention.configure({ suggestions: mentionSuggestions }),
+    CommentMark,
+    PastedText.configure({ documentId }),
+    SuggestChanges,
+  ];
+}
+
+export const editorContentClass = cx(
+  // typography: landing page 느낌의 깔끔한 prose
+  "prose prose-lg max-w-none",
+  "focus:outline-none",
+  // spacing
+  "min-h-[720px] px-12 py-10",
+  // selection 느낌 조금 더 모던하게 (선택은 tailwind 기본)
+  "selection:bg-blue-500/15"
+);
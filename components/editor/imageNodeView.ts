@@ -0,0 +1,268 @@
+import type { NodeViewRendererProps } from "@tiptap/core";
+import type { Node as PMNode } from "@tiptap/pm/model";
+
+export const IMAGE_ALIGNMENTS = ["left", "center", "right", "full"] as const;
+
+export type ImageAlignment = (typeof IMAGE_ALIGNMENTS)[number];
+
+const ALIGNMENT_LABELS: Record<ImageAlignment, string> = {
+  left: "왼쪽",
+  center: "가운데",
+  right: "오른쪽",
+  full: "전체 폭",
+};
+
+const MIN_WIDTH = 48;
+
+function el<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  className: string,
+  props: Partial<HTMLElementTagNameMap[K]> = {}
+) {
+  const element = document.createElement(tag);
+  element.className = className;
+  Object.assign(element, props);
+  return element;
+}
+
+function isFormField(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    target.closest("input, button, .image-figure__handle") !== null
+  );
+}
+
+/**
+ * 편집기 안의 이미지: 크기 조절 핸들, 정렬 버튼, 캡션/대체 텍스트 입력.
+ * 입력 중에는 속성을 고치지 않고 Enter나 포커스 이탈 때 한 번만 반영한다
+ * (글자마다 트랜잭션이 생기면 작성 기록과 공동 편집에 변경이 쌓인다).
+ */
+export function createImageNodeView(
+  { node, editor, getPos }: NodeViewRendererProps,
+  imgAttributes: (node: PMNode) => Record<string, string>
+) {
+  let current = node;
+  let altOpen = false;
+
+  const figure = el("figure", "image-figure");
+  const frame = el("div", "image-figure__frame");
+  const img = el("img", "");
+  img.draggable = false;
+
+  const handles = (["left", "right"] as const).map((side) => {
+    const handle = el("span", "image-figure__handle");
+    handle.dataset.side = side;
+    return handle;
+  });
+
+  const toolbar = el("div", "image-figure__toolbar");
+  const alignButtons = IMAGE_ALIGNMENTS.map((align) => {
+    const button = el("button", "image-figure__tool", {
+      type: "button",
+      textContent: ALIGNMENT_LABELS[align],
+      title: `${ALIGNMENT_LABELS[align]} 정렬`,
+    });
+    button.dataset.align = align;
+    return button;
+  });
+  const altButton = el("button", "image-figure__tool", {
+    type: "button",
+    textContent: "대체 텍스트",
+  });
+  toolbar.append(...alignButtons, altButton);
+
+  const altWarning = el("button", "image-figure__alt-warning", {
+    type: "button",
+    textContent: "⚠ 대체 텍스트 없음",
+    title: "화면 낭독기 사용자를 위해 이미지 설명을 적어 주세요",
+  });
+
+  frame.append(img, ...handles, toolbar, altWarning);
+
+  const caption = el("figcaption", "image-figure__caption");
+  const captionInput = el("input", "image-figure__caption-input", {
+    type: "text",
+    placeholder: "캡션을 입력하세요",
+  });
+  const captionText = el("span", "image-figure__caption-text");
+  caption.append(captionInput, captionText);
+
+  const altEditor = el("div", "image-figure__alt");
+  const altInput = el("input", "image-figure__alt-input", {
+    type: "text",
+    placeholder: "이미지를 설명하는 대체 텍스트",
+  });
+  altInput.setAttribute("aria-label", "대체 텍스트");
+  altEditor.append(altInput);
+
+  figure.append(frame, caption, altEditor);
+
+  const setAttrs = (patch: Record<string, unknown>) => {
+    const pos = getPos();
+    if (typeof pos !== "number" || !editor.isEditable) return;
+    // AttrStep은 노드를 바꾸지 않아서 노드 선택이 유지된다
+    const tr = editor.state.tr;
+    Object.entries(patch).forEach(([key, value]) => {
+      tr.setNodeAttribute(pos, key, value);
+    });
+    editor.view.dispatch(tr);
+  };
+
+  const selectImage = () => {
+    const pos = getPos();
+    if (typeof pos === "number") {
+      editor.chain().setNodeSelection(pos).focus().run();
+    }
+  };
+
+  const render = () => {
+    const { attrs } = current;
+    const align: ImageAlignment = IMAGE_ALIGNMENTS.includes(attrs.align)
+      ? attrs.align
+      : "center";
+
+    figure.dataset.align = align;
+    figure.dataset.altOpen = String(altOpen);
+    figure.dataset.missingAlt = String(!attrs.alt);
+
+    for (const attribute of Array.from(img.attributes)) {
+      if (attribute.name !== "class" && attribute.name !== "draggable") {
+        img.removeAttribute(attribute.name);
+      }
+    }
+    Object.entries(imgAttributes(current)).forEach(([key, value]) =>
+      img.setAttribute(key, value)
+    );
+    img.style.width = "";
+
+    alignButtons.forEach((button) =>
+      button.setAttribute("aria-pressed", String(button.dataset.align === align))
+    );
+    altButton.setAttribute("aria-pressed", String(altOpen));
+
+    // 입력 중인 값은 덮어쓰지 않는다 (다른 사람이 동시에 고쳐도)
+    if (document.activeElement !== captionInput) {
+      captionInput.value = attrs.caption ?? "";
+    }
+    captionText.textContent = attrs.caption ?? "";
+    caption.dataset.empty = String(!attrs.caption);
+    if (document.activeElement !== altInput) {
+      altInput.value = attrs.alt ?? "";
+    }
+  };
+
+  const commitCaption = () => {
+    const value = captionInput.value.trim();
+    if (value !== (current.attrs.caption ?? "")) {
+      setAttrs({ caption: value || null });
+    }
+  };
+
+  const commitAlt = () => {
+    const value = altInput.value.trim();
+    if (value !== (current.attrs.alt ?? "")) {
+      setAttrs({ alt: value || null });
+    }
+  };
+
+  const openAlt = () => {
+    altOpen = !altOpen;
+    render();
+    if (altOpen) altInput.focus();
+  };
+
+  alignButtons.forEach((button) =>
+    button.addEventListener("click", () =>
+      setAttrs({ align: button.dataset.align })
+    )
+  );
+  altButton.addEventListener("click", openAlt);
+  altWarning.addEventListener("click", () => {
+    if (!altOpen) openAlt();
+    else altInput.focus();
+  });
+
+  const handleInputKeys = (
+    input: HTMLInputElement,
+    commit: () => void,
+    original: () => string
+  ) => {
+    input.addEventListener("keydown", (e) => {
+      if (e.key === "Enter" && !e.isComposing) {
+        e.preventDefault();
+        commit();
+        selectImage();
+      } else if (e.key === "Escape") {
+        input.value = original();
+        selectImage();
+      }
+    });
+    input.addEventListener("blur", () => {
+      commit();
+      figure.draggable = true;
+    });
+    // 끌어서 옮길 수 있는 노드 안에서는 입력란의 글자를 드래그로 고를 수 없다
+    input.addEventListener("focus", () => {
+      figure.draggable = false;
+    });
+  };
+  handleInputKeys(captionInput, commitCaption, () => current.attrs.caption ?? "");
+  handleInputKeys(altInput, commitAlt, () => current.attrs.alt ?? "");
+
+  // 드래그로 크기 조절. 비율은 그대로, 가운데 정렬이면 양쪽으로 늘어나므로 2배
+  handles.forEach((handle) => {
+    handle.addEventListener("pointerdown", (e) => {
+      if (!editor.isEditable) return;
+      e.preventDefault();
+      handle.setPointerCapture(e.pointerId);
+
+      const startX = e.clientX;
+      const startWidth = img.getBoundingClientRect().width;
+      const ratio =
+        img.naturalWidth > 0
+          ? img.naturalHeight / img.naturalWidth
+          : Number(current.attrs.height) / Number(current.attrs.width) || 1;
+      const maxWidth = figure.getBoundingClientRect().width;
+      const direction = handle.dataset.side === "left" ? -1 : 1;
+      const factor = current.attrs.align === "center" ? 2 : 1;
+      let width = startWidth;
+
+      const onMove = (event: PointerEvent) => {
+        const delta = (event.clientX - startX) * direction * factor;
+        width = Math.min(maxWidth, Math.max(MIN_WIDTH, startWidth + delta));
+        img.style.width = `${Math.round(width)}px`;
+      };
+      const onUp = () => {
+        handle.removeEventListener("pointermove", onMove);
+        handle.removeEventListener("pointerup", onUp);
+        handle.removeEventListener("pointercancel", onUp);
+        if (Math.round(width) === Math.round(startWidth)) return;
+        setAttrs({
+          width: Math.round(width),
+          height: Math.round(width * ratio),
+          // 전체 폭에서 줄이면 가운데 정렬로
+          ...(current.attrs.align === "full" && { align: "center" }),
+        });
+      };
+
+      handle.addEventListener("pointermove", onMove);
+      handle.addEventListener("pointerup", onUp);
+      handle.addEventListener("pointercancel", onUp);
+    });
+  });
+
+  render();
+
+  return {
+    dom: figure,
+    update: (updated: PMNode) => {
+      if (updated.type !== current.type || !updated.attrs.src) return false;
+      current = updated;
+      render();
+      return true;
+    },
+    // 입력란/버튼/핸들 이벤트는 에디터가 처리하지 않게
+    stopEvent: (event: Event) => isFormField(event.target),
+    ignoreMutation: () => true,
+  };
+}
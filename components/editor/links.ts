@@ -0,0 +1,133 @@
+import { Extension, getMarkRange } from "@tiptap/core";
+import type { EditorState, Transaction } from "@tiptap/pm/state";
+
+/**
+ * 링크 고치기 창(LinkPopover)과 자동 링크가 쓰는 주소 검사와 링크 편집.
+ * 편집 함수는 트랜잭션만 만들고, 보내는 것은 부르는 쪽이 한다.
+ */
+
+const LINK_PROTOCOLS = ["http:", "https:", "mailto:", "tel:"];
+
+/**
+ * 입력한 주소를 링크에 넣을 모양으로 (쓸 수 없는 주소면 null).
+ * "example.com"은 https://를 붙이고, 메일 주소만 적으면 mailto:로,
+ * "/doc/…", "#block-…" 같은 앱 안 주소는 그대로 둔다.
+ * javascript:, data: 같은 주소는 받지 않는다.
+ */
+export function normalizeLinkUrl(input: string) {
+  const text = input.trim();
+  if (!text || /\s/.test(text)) return null;
+  if (/^[/#]/.test(text) && !text.startsWith("//")) return text;
+  if (/^[^@/:]+@[^@/:]+\.[a-z]{2,}$/i.test(text)) return `mailto:${text}`;
+
+  // "localhost:3000"처럼 호스트:포트는 스킴이 아니다
+  const hasScheme =
+    /^[a-z][a-z0-9+.-]*:/i.test(text) &&
+    !/^(localhost|[^:/]+\.[^:/]+):\d+(\/|$)/i.test(text);
+  const href = hasScheme
+    ? text
+    : text.startsWith("//")
+      ? `https:${text}`
+      : `https://${text}`;
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return null;
+  }
+  if (!LINK_PROTOCOLS.includes(url.protocol)) return null;
+  // 웹 주소는 점이 있는 호스트만 (localhost는 예외)
+  if (
+    url.protocol.startsWith("http") &&
+    url.hostname !== "localhost" &&
+    !/^[^.]+(\.[^.]+)+$/.test(url.hostname)
+  ) {
+    return null;
+  }
+  return href;
+}
+
+export interface LinkRange {
+  from: number;
+  to: number;
+  /** 이미 있는 링크면 그 주소, 새로 거는 구간이면 null */
+  href: string | null;
+  text: string;
+}
+
+/** 커서(또는 선택)가 한 링크 안에 있으면 그 링크 전체 구간 */
+export function getLinkAt(state: EditorState): LinkRange | null {
+  const type = state.schema.marks.link;
+  const { $from, to } = state.selection;
+  const range = getMarkRange($from, type);
+  if (!range || to > range.to) return null;
+
+  let href: string | null = null;
+  state.doc.nodesBetween(range.from, range.to, (node) => {
+    href ??= node.marks.find((mark) => mark.type === type)?.attrs.href ?? null;
+  });
+  return {
+    ...range,
+    href,
+    text: state.doc.textBetween(range.from, range.to),
+  };
+}
+
+/** 링크를 걸거나 고칠 구간: 링크 안이면 그 링크, 아니면 지금 선택 */
+export function getLinkTarget(state: EditorState): LinkRange {
+  const link = getLinkAt(state);
+  if (link) return link;
+  const { from, to } = state.selection;
+  return { from, to, href: null, text: state.doc.textBetween(from, to, " ") };
+}
+
+/** 구간에 링크를 건다. 글자를 바꿨거나 빈 구간이면 글자도 새로 넣는다 */
+export function setLinkAt(
+  state: EditorState,
+  range: LinkRange,
+  { href, text }: { href: string; text: string }
+): Transaction {
+  const type = state.schema.marks.link;
+  const tr = state.tr;
+  let { to } = range;
+
+  if (range.from === range.to || text !== range.text) {
+    tr.insertText(text, range.from, range.to);
+    to = range.from + text.length;
+  }
+  return tr
+    .removeMark(range.from, to, type)
+    .addMark(range.from, to, type.create({ href }))
+    .setMeta("preventAutolink", true);
+}
+
+export function unsetLinkAt(state: EditorState, range: LinkRange): Transaction {
+  return state.tr
+    .removeMark(range.from, range.to, state.schema.marks.link)
+    .setMeta("preventAutolink", true);
+}
+
+interface LinkShortcutOptions {
+  /** Ctrl/⌘+K: 링크를 걸거나 고치는 창을 연다 */
+  onEditLink: () => void;
+}
+
+export const LinkShortcut = Extension.create<LinkShortcutOptions>({
+  name: "linkShortcut",
+
+  addOptions() {
+    return {
+      onEditLink: () => {},
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      "Mod-k": () => {
+        if (!this.editor.isEditable) return false;
+        this.options.onEditLink();
+        return true;
+      },
+    };
+  },
+});
@@ -0,0 +1,40 @@
+import type { MentionKind } from "@/lib/mentions/content";
+
+/**
+ * 멘션에 보여줄 지금 이름 (사람 이름, 문서 제목).
+ * 노드 속성의 label은 넣을 때의 이름이라, 이름이 바뀌어도 문서를 고치지 않고
+ * 여기만 바꾸면 편집기의 멘션이 따라 바뀐다 (노드 뷰가 구독한다).
+ */
+type Listener = () => void;
+
+const labels = new Map<string, string>();
+const listeners = new Set<Listener>();
+
+function labelKey(kind: MentionKind, id: string) {
+  return `${kind}:${id}`;
+}
+
+export function getMentionLabel(kind: MentionKind, id: string) {
+  return labels.get(labelKey(kind, id));
+}
+
+export function setMentionLabels(
+  kind: MentionKind,
+  entries: Array<{ id: string; label: string }>
+) {
+  let changed = false;
+  entries.forEach(({ id, label }) => {
+    const key = labelKey(kind, id);
+    if (labels.get(key) === label) return;
+    labels.set(key, label);
+    changed = true;
+  });
+  if (changed) listeners.forEach((listener) => listener());
+}
+
+export function subscribeMentionLabels(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,71 @@
+import type { Editor } from "@tiptap/core";
+import type { Node as PMNode } from "@tiptap/pm/model";
+import {
+  TextSelection,
+  type EditorState,
+  type Transaction,
+} from "@tiptap/pm/state";
+
+/** 개요 항목 하나 = 최상위 제목과 그 아래 섹션 */
+export interface OutlineItem {
+  level: number;
+  text: string;
+  /** 제목 노드 위치 */
+  pos: number;
+  /** 섹션 끝: 같거나 높은 수준의 다음 제목 앞 (없으면 문서 끝) */
+  end: number;
+}
+
+export function getOutline(doc: PMNode): OutlineItem[] {
+  const headings: Array<Omit<OutlineItem, "end">> = [];
+  doc.forEach((node, offset) => {
+    if (node.type.name !== "heading") return;
+    headings.push({
+      level: Number(node.attrs.level),
+      text: node.textContent.trim(),
+      pos: offset,
+    });
+  });
+
+  return headings.map((heading, index) => {
+    const next = headings
+      .slice(index + 1)
+      .find(({ level }) => level <= heading.level);
+    return { ...heading, end: next?.pos ?? doc.content.size };
+  });
+}
+
+/**
+ * 섹션(제목 + 다음 같은/높은 수준 제목 전까지)을 target 앞으로 옮긴다.
+ * target은 최상위 블록 경계여야 하고, 섹션 안쪽이면 옮기지 않는다 (null).
+ */
+export function moveSection(
+  state: EditorState,
+  section: OutlineItem,
+  target: number
+): Transaction | null {
+  if (target >= section.pos && target <= section.end) return null;
+
+  const content = state.doc.slice(section.pos, section.end).content;
+  const insertAt =
+    target > section.end ? target - (section.end - section.pos) : target;
+  const tr = state.tr.delete(section.pos, section.end).insert(insertAt, content);
+  // 옮긴 제목에 커서를 둔다
+  return tr
+    .setSelection(TextSelection.near(tr.doc.resolve(insertAt + 1)))
+    .scrollIntoView();
+}
+
+/** 개요/목차에서 제목을 눌렀을 때: 그 제목으로 스크롤하고 커서를 옮긴다 */
+export function goToHeading(editor: Editor, item: OutlineItem) {
+  (editor.view.nodeDOM(item.pos) as HTMLElement | null)?.scrollIntoView({
+    block: "start",
+    behavior: "smooth",
+  });
+  if (!editor.isEditable) return;
+  editor
+    .chain()
+    .setTextSelection(item.pos + 1)
+    .focus(undefined, { scrollIntoView: false })
+    .run();
+}
@@ -0,0 +1,244 @@
+import type { Editor, Range } from "@tiptap/core";
+import {
+  CheckSquare,
+  Code,
+  FileText,
+  Heading1,
+  Heading2,
+  Heading3,
+  Image as ImageIcon,
+  List,
+  ListOrdered,
+  ListTree,
+  Minus,
+  Quote,
+  SquarePlay,
+  Table as TableIcon,
+  type LucideIcon,
+} from "lucide-react";
+import { fuzzyScore } from "@/lib/fuzzy";
+
+// 최근에 고른 항목은 브라우저마다 localStorage에 둔다
+const RECENT_KEY = "writetracer:slash-recent";
+const RECENT_LIMIT = 4;
+
+export interface SlashCommandItem {
+  id: string;
+  title: string;
+  description: string;
+  /** 검색용 다른 이름 (영문 포함) */
+  keywords: string[];
+  icon: LucideIcon;
+  run: (editor: Editor, range: Range, actions: SlashCommandActions) => void;
+}
+
+export interface SlashCommandActions {
+  /** 툴바와 같은 이미지/YouTube 넣기 창을 연다 */
+  insertImage: () => void;
+  insertYoutube: () => void;
+  /** 툴바와 같은 숨겨진 파일 input을 연다 */
+  pickFile: () => void;
+}
+
+/** 툴바에서 넣을 수 있는 블록을 모두 "/" 메뉴에서도 넣는다 */
+export const SLASH_COMMANDS: SlashCommandItem[] = [
+  {
+    id: "heading1",
+    title: "제목 1",
+    description: "큰 제목",
+    keywords: ["heading 1", "h1", "title"],
+    icon: Heading1,
+    run: (editor, range) =>
+      editor.chain().focus().deleteRange(range).setHeading({ level: 1 }).run(),
+  },
+  {
+    id: "heading2",
+    title: "제목 2",
+    description: "중간 제목",
+    keywords: ["heading 2", "h2", "subtitle"],
+    icon: Heading2,
+    run: (editor, range) =>
+      editor.chain().focus().deleteRange(range).setHeading({ level: 2 }).run(),
+  },
+  {
+    id: "heading3",
+    title: "제목 3",
+    description: "작은 제목",
+    keywords: ["heading 3", "h3"],
+    icon: Heading3,
+    run: (editor, range) =>
+      editor.chain().focus().deleteRange(range).setHeading({ level: 3 }).run(),
+  },
+  {
+    id: "bulletList",
+    title: "글머리 기호",
+    description: "점으로 된 목록",
+    keywords: ["bullet list", "unordered list", "ul", "목록"],
+    icon: List,
+    run: (editor, range) =>
+      editor.chain().focus().deleteRange(range).toggleBulletList().run(),
+  },
+  {
+    id: "orderedList",
+    title: "번호 매기기",
+    description: "번호가 붙은 목록",
+    keywords: ["numbered list", "ordered list", "ol", "목록"],
+    icon: ListOrdered,
+    run: (editor, range) =>
+      editor.chain().focus().deleteRange(range).toggleOrderedList().run(),
+  },
+  {
+    id: "taskList",
+    title: "할 일 목록",
+    description: "체크박스로 진행 상황 관리",
+    keywords: ["task list", "todo", "checkbox", "체크리스트"],
+    icon: CheckSquare,
+    run: (editor, range) =>
+      editor.chain().focus().deleteRange(range).toggleTaskList().run(),
+  },
+  {
+    id: "table",
+    title: "표",
+    description: "3×3 표 (머리글 행 포함)",
+    keywords: ["table", "grid", "테이블"],
+    icon: TableIcon,
+    run: (editor, range) =>
+      editor
+        .chain()
+        .focus()
+        .deleteRange(range)
+        .insertTable({ rows: 3, cols: 3, withHeaderRow: true })
+        .run(),
+  },
+  {
+    id: "blockquote",
+    title: "인용구",
+    description: "다른 글 인용",
+    keywords: ["quote", "blockquote", "인용"],
+    icon: Quote,
+    run: (editor, range) =>
+      editor.chain().focus().deleteRange(range).setBlockquote().run(),
+  },
+  {
+    id: "horizontalRule",
+    title: "구분선",
+    description: "내용을 나누는 가로줄",
+    keywords: ["divider", "horizontal rule", "hr", "separator"],
+    icon: Minus,
+    run: (editor, range) =>
+      editor.chain().focus().deleteRange(range).setHorizontalRule().run(),
+  },
+  {
+    id: "codeBlock",
+    title: "코드 블록",
+    description: "고정폭 글꼴의 코드",
+    keywords: ["code block", "code", "pre", "코드"],
+    icon: Code,
+    run: (editor, range) =>
+      editor.chain().focus().deleteRange(range).setCodeBlock().run(),
+  },
+  {
+    id: "tableOfContents",
+    title: "목차",
+    description: "제목을 따라 저절로 바뀌는 목차",
+    keywords: ["table of contents", "toc", "outline", "개요", "차례"],
+    icon: ListTree,
+    run: (editor, range) =>
+      editor
+        .chain()
+        .focus()
+        .deleteRange(range)
+        .insertContent({ type: "tableOfContents" })
+        .run(),
+  },
+  {
+    id: "image",
+    title: "이미지",
+    description: "그림 파일이나 주소로 넣기",
+    keywords: ["image", "picture", "photo", "사진", "그림"],
+    icon: ImageIcon,
+    run: (editor, range, { insertImage }) => {
+      editor.chain().focus().deleteRange(range).run();
+      insertImage();
+    },
+  },
+  {
+    id: "youtube",
+    title: "YouTube 동영상",
+    description: "링크로 동영상 넣기",
+    keywords: ["youtube", "video", "유튜브", "동영상", "영상"],
+    icon: SquarePlay,
+    run: (editor, range, { insertYoutube }) => {
+      editor.chain().focus().deleteRange(range).run();
+      insertYoutube();
+    },
+  },
+  {
+    id: "attachment",
+    title: "파일 첨부",
+    description: ".md, .docx는 본문으로 가져오기",
+    keywords: ["file", "attachment", "upload", "파일", "첨부"],
+    icon: FileText,
+    run: (editor, range, { pickFile }) => {
+      editor.chain().focus().deleteRange(range).run();
+      pickFile();
+    },
+  },
+];
+
+/**
+ * 검색어에 맞는 항목을 잘 맞는 순서로.
+ * 점수가 같으면 최근에 쓴 항목, 그다음은 원래 순서.
+ */
+export function filterSlashCommands(
+  items: SlashCommandItem[],
+  query: string,
+  recent: string[]
+) {
+  const recentRank = (item: SlashCommandItem) => {
+    const index = recent.indexOf(item.id);
+    return index < 0 ? recent.length : index;
+  };
+
+  return items
+    .flatMap((item, order) => {
+      const scores = [item.title, ...item.keywords]
+        .map((text) => fuzzyScore(query, text))
+        .filter((score): score is number => score !== null);
+      return scores.length > 0
+        ? [{ item, order, score: Math.max(...scores) }]
+        : [];
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        recentRank(a.item) - recentRank(b.item) ||
+        a.order - b.order
+    )
+    .map(({ item }) => item);
+}
+
+export function loadRecentSlashCommands(): string[] {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(RECENT_KEY) ?? "[]");
+    return Array.isArray(saved)
+      ? saved.filter((id): id is string => typeof id === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** 고른 항목을 최근 목록 맨 앞에 두고 새 목록을 돌려준다 */
+export function rememberSlashCommand(id: string) {
+  const recent = [
+    id,
+    ...loadRecentSlashCommands().filter((saved) => saved !== id),
+  ].slice(0, RECENT_LIMIT);
+  try {
+    localStorage.setItem(RECENT_KEY, JSON.stringify(recent));
+  } catch {
+    // 시크릿 모드 등에서는 이번 세션에만 기억한다
+  }
+  return recent;
+}
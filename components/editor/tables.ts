@@ -0,0 +1,242 @@
+import {
+  Fragment,
+  type Node as PMNode,
+  type Schema,
+} from "@tiptap/pm/model";
+import {
+  TextSelection,
+  type EditorState,
+  type Transaction,
+} from "@tiptap/pm/state";
+import {
+  columnIsHeader,
+  isInTable,
+  rowIsHeader,
+  selectedRect,
+  selectionCell,
+} from "@tiptap/pm/tables";
+
+/**
+ * 표 메뉴에서 쓰는 편집 (열 정렬, 정렬하기, 머리글 상태, 셀 배경색)과
+ * 스프레드시트에서 복사한 글자를 표로 바꾸는 일.
+ * 행/열 추가·삭제, 병합/분할은 Table 확장의 명령을 그대로 쓴다.
+ */
+
+export type CellAlign = "left" | "center" | "right";
+export type SortDirection = "asc" | "desc";
+
+/** 셀 배경색 (내보내기에서도 그대로 쓰도록 연한 색 몇 가지만) */
+export const CELL_COLORS = [
+  { label: "회색", color: "#f1f5f9" },
+  { label: "빨강", color: "#fee2e2" },
+  { label: "노랑", color: "#fef9c3" },
+  { label: "초록", color: "#dcfce7" },
+  { label: "파랑", color: "#dbeafe" },
+  { label: "보라", color: "#f3e8ff" },
+];
+
+// 붙여넣기/가져오기로 들어온 값이 style에 그대로 들어가므로 색 모양만 받는다
+const CSS_COLOR = /^(#[0-9a-f]{3,8}|rgba?\([\d\s.,%]+\))$/i;
+
+export function normalizeCellColor(value: unknown) {
+  const text = String(value ?? "").trim();
+  return CSS_COLOR.test(text) ? text : null;
+}
+
+export interface TableState {
+  headerRow: boolean;
+  headerColumn: boolean;
+  /** 커서가 있는 셀의 배경색 */
+  background: string | null;
+  /** 커서가 있는 셀의 문단 정렬 (열 정렬 버튼 표시용) */
+  align: CellAlign;
+  /** 병합된 셀이 없어야 정렬할 수 있다 */
+  sortable: boolean;
+}
+
+function hasMergedCells(table: PMNode) {
+  let merged = false;
+  table.descendants((node) => {
+    if (merged) return false;
+    if (node.type.spec.tableRole === "row") return true;
+    if (node.attrs.colspan > 1 || node.attrs.rowspan > 1) merged = true;
+    return false;
+  });
+  return merged;
+}
+
+/** 선택이 표 안에 있을 때의 표 상태 (밖이면 null) */
+export function getTableState(state: EditorState): TableState | null {
+  if (!isInTable(state)) return null;
+  const { table, map } = selectedRect(state);
+  const cell = selectionCell(state).nodeAfter;
+  const align = state.selection.$from.parent.attrs.textAlign;
+
+  return {
+    headerRow: rowIsHeader(map, table, 0),
+    headerColumn: columnIsHeader(map, table, 0),
+    background: normalizeCellColor(cell?.attrs.backgroundColor),
+    align: align === "center" || align === "right" ? align : "left",
+    sortable: !hasMergedCells(table),
+  };
+}
+
+/** 선택한 열(들)의 모든 셀 문단을 같은 정렬로 */
+export function setColumnAlign(
+  state: EditorState,
+  align: CellAlign
+): Transaction | null {
+  if (!isInTable(state)) return null;
+  const { table, map, tableStart, left, right } = selectedRect(state);
+  const tr = state.tr;
+
+  map
+    .cellsInRect({ left, right, top: 0, bottom: map.height })
+    .forEach((cellPos) => {
+      const cell = table.nodeAt(cellPos);
+      cell?.descendants((node, pos) => {
+        if (!("textAlign" in node.attrs)) return true;
+        if (node.attrs.textAlign !== align) {
+          tr.setNodeAttribute(tableStart + cellPos + 1 + pos, "textAlign", align);
+        }
+        return false;
+      });
+    });
+
+  return tr.docChanged ? tr : null;
+}
+
+// "1,200", "35%", "₩3,000"도 숫자로 비교한다
+function cellNumber(text: string) {
+  const cleaned = text.replace(/[\s,%₩$€]/g, "");
+  return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(cleaned) ? Number(cleaned) : null;
+}
+
+function compareCellText(a: string, b: string) {
+  const x = cellNumber(a);
+  const y = cellNumber(b);
+  if (x !== null && y !== null) return x - y;
+  return a.localeCompare(b, "ko", { numeric: true, sensitivity: "base" });
+}
+
+/**
+ * 커서가 있는 열로 행을 정렬한다. 위쪽 머리글 행은 그대로 두고,
+ * 빈 셀은 방향과 상관없이 맨 뒤로. 병합된 셀이 있거나 순서가 그대로면 null
+ */
+export function sortTableByColumn(
+  state: EditorState,
+  direction: SortDirection
+): Transaction | null {
+  if (!isInTable(state)) return null;
+  const { table, map, tableStart, left: column } = selectedRect(state);
+  if (hasMergedCells(table)) return null;
+
+  const rows: PMNode[] = [];
+  table.forEach((row) => rows.push(row));
+  let headerRows = 0;
+  while (headerRows < rows.length - 1 && rowIsHeader(map, table, headerRows)) {
+    headerRows++;
+  }
+
+  const body = rows.slice(headerRows);
+  const key = (row: PMNode) => row.child(column).textContent.trim();
+  const sign = direction === "asc" ? 1 : -1;
+  const sorted = [...body].sort((a, b) => {
+    const x = key(a);
+    const y = key(b);
+    if (!x || !y) return Number(!x) - Number(!y);
+    return sign * compareCellText(x, y);
+  });
+  if (sorted.every((row, i) => row === body[i])) return null;
+
+  const tr = state.tr.replaceWith(
+    tableStart,
+    tableStart + table.content.size,
+    Fragment.fromArray([...rows.slice(0, headerRows), ...sorted])
+  );
+  // 정렬한 열의 첫 칸으로 커서를 옮긴다 (행이 움직였으니 원래 칸은 의미가 없다)
+  return tr.setSelection(
+    TextSelection.near(tr.doc.resolve(tableStart + map.map[column] + 1))
+  );
+}
+
+/** 따옴표로 감싼 칸("a, b", 칸 안의 줄바꿈, "" 이스케이프)을 다루는 구분자 분리 */
+function parseDelimited(text: string, delimiter: string) {
+  const input = text.replace(/\r\n?/g, "\n").replace(/\n$/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else quoted = false;
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows;
+}
+
+/**
+ * 스프레드시트에서 복사한 글자면 행/칸으로 나눠 돌려준다 (아니면 null).
+ * 탭으로 나뉜 글자(TSV)는 늘 표로 보고, 쉼표(CSV)는 HTML 없이 붙여넣은
+ * 두 줄 이상이면서 ", "처럼 띄어 쓴 칸이 없을 때만 — 보통 문장과 헷갈리지 않게.
+ */
+export function parseSpreadsheetText(text: string, hasHtml: boolean) {
+  const tabbed = text.includes("\t");
+  if (!tabbed && hasHtml) return null;
+
+  const rows = parseDelimited(text, tabbed ? "\t" : ",");
+  const columns = rows[0].length;
+  if (columns < 2 || rows.some((row) => row.length !== columns)) return null;
+  // 탭으로 들여 쓴 코드처럼 통째로 빈 열이 있으면 표가 아니다
+  const emptyColumn = rows[0].some((_, c) => rows.every((row) => !row[c].trim()));
+  if (emptyColumn) return null;
+  if (!tabbed) {
+    if (rows.length < 2) return null;
+    if (rows.some((row) => row.some((cell) => /^\s/.test(cell)))) return null;
+  }
+  return rows;
+}
+
+/** 행/칸 글자로 표를 만든다. 첫 행은 표 삽입과 같이 머리글 */
+export function createTableFromRows(schema: Schema, rows: string[][]) {
+  const { table, tableRow, tableHeader, tableCell, paragraph } = schema.nodes;
+  const cellContent = (text: string) =>
+    text
+      .trim()
+      .split("\n")
+      .map((line) =>
+        paragraph.create(null, line ? schema.text(line) : undefined)
+      );
+
+  return table.create(
+    null,
+    rows.map((row, r) =>
+      tableRow.create(
+        null,
+        row.map((text) =>
+          (r === 0 ? tableHeader : tableCell).create(null, cellContent(text))
+        )
+      )
+    )
+  );
+}
@@ -0,0 +1,260 @@
+import type { Editor } from "@tiptap/core";
+import { docxToDocument } from "@/lib/docx/import";
+import { DOCX_MIME_TYPE } from "@/lib/docx/styles";
+import { uploadFile } from "@/lib/files/client";
+import {
+  checkFile,
+  isImageFile,
+  MAX_FILE_SIZE,
+  resolveMimeType,
+  type FileRejection,
+} from "@/lib/files/policy";
+import { imageUrl, uploadImage } from "@/lib/images/client";
+import { markdownToDocument } from "@/lib/markdown/parse";
+import { formatBytes } from "./Attachment";
+import {
+  createUploadId,
+  finishUpload,
+  setUploadPreview,
+  setUploadProgress,
+} from "./uploads";
+
+const REJECTION_MESSAGES: Record<FileRejection, (file: File) => string> = {
+  empty: (file) => `"${file.name}"은(는) 빈 파일입니다.`,
+  "too-large": (file) =>
+    `"${file.name}"은(는) ${formatBytes(MAX_FILE_SIZE)}보다 커서 첨부할 수 없습니다.`,
+  "type-not-allowed": (file) =>
+    `"${file.name}"은(는) 첨부할 수 없는 형식입니다.`,
+};
+
+type UploadingNode = { pos: number; attrs: Record<string, unknown> };
+
+function findUploadingNode(editor: Editor, uploadId: string) {
+  if (editor.isDestroyed) return null;
+
+  let found: UploadingNode | null = null;
+  editor.state.doc.descendants((node, pos) => {
+    if (found) return false;
+    if (node.attrs.uploadId === uploadId) {
+      found = { pos, attrs: node.attrs };
+      return false;
+    }
+  });
+  return found as UploadingNode | null;
+}
+
+// 업로드 완료/실패는 되돌리기 대상이 아니다
+function completeUpload(
+  editor: Editor,
+  uploadId: string,
+  attrs: Record<string, unknown>
+) {
+  const target = findUploadingNode(editor, uploadId);
+  if (!target) return;
+  editor.view.dispatch(
+    editor.state.tr
+      .setNodeMarkup(target.pos, undefined, {
+        ...target.attrs,
+        ...attrs,
+        uploadId: null,
+      })
+      .setMeta("addToHistory", false)
+  );
+}
+
+function discardUpload(editor: Editor, uploadId: string) {
+  const target = findUploadingNode(editor, uploadId);
+  if (!target) return;
+  editor.view.dispatch(
+    editor.state.tr
+      .delete(target.pos, target.pos + 1)
+      .setMeta("addToHistory", false)
+  );
+}
+
+function insertUploadingNode(
+  editor: Editor,
+  content: { type: string; attrs: Record<string, unknown> },
+  position?: number
+) {
+  const chain = editor.chain().focus();
+  (position === undefined
+    ? chain.insertContent(content)
+    : chain.insertContentAt(position, content)
+  ).run();
+}
+
+/**
+ * 첨부 카드를 먼저 넣고 (uploadId로 진행률 표시) 업로드가 끝나면
+ * fileId를 채운다. 실패하면 카드를 지운다.
+ */
+export function uploadAttachment(editor: Editor, file: File, position?: number) {
+  const uploadId = createUploadId();
+  setUploadProgress(uploadId, 0);
+
+  insertUploadingNode(
+    editor,
+    {
+      type: "attachment",
+      attrs: {
+        name: file.name,
+        size: file.size,
+        type: resolveMimeType(file.name, file.type),
+        uploadId,
+      },
+    },
+    position
+  );
+
+  uploadFile(file, {
+    onProgress: (progress) => setUploadProgress(uploadId, progress),
+  })
+    .then((uploaded) => completeUpload(editor, uploadId, { fileId: uploaded.id }))
+    .catch(() => {
+      discardUpload(editor, uploadId);
+      window.alert(`"${file.name}"을(를) 업로드하지 못했습니다.`);
+    })
+    .finally(() => finishUpload(uploadId));
+}
+
+// keepSize: 가져온 문서에서 정한 표시 크기를 원본 크기로 덮어쓰지 않는다
+function startImageUpload(
+  editor: Editor,
+  file: File,
+  uploadId: string,
+  { keepSize = false }: { keepSize?: boolean } = {}
+) {
+  uploadImage(file, {
+    onProgress: (progress) => setUploadProgress(uploadId, progress),
+  })
+    .then((image) =>
+      completeUpload(editor, uploadId, {
+        src: imageUrl(image.id),
+        assetId: image.id,
+        ...(!keepSize && {
+          width: image.variants["1x"].width,
+          height: image.variants["1x"].height,
+        }),
+      })
+    )
+    .catch(() => {
+      discardUpload(editor, uploadId);
+      window.alert(`"${file.name}"을(를) 업로드하지 못했습니다.`);
+    })
+    .finally(() => finishUpload(uploadId));
+}
+
+/**
+ * 이미지는 문서에 data URL로 넣지 않고 에셋 저장소에 올린다.
+ * 업로드 중에는 src 없이 uploadId만 가진 자리표시자 노드가 들어간다.
+ */
+export function uploadImageAsset(
+  editor: Editor,
+  file: File,
+  position?: number
+) {
+  const uploadId = createUploadId();
+  setUploadProgress(uploadId, 0);
+  setUploadPreview(uploadId, file);
+
+  insertUploadingNode(editor, { type: "image", attrs: { uploadId } }, position);
+  startImageUpload(editor, file, uploadId);
+}
+
+/** Markdown 파일의 내용을 문서로 옮겨 넣는다 (가져오기 메뉴에서만) */
+export function importMarkdown(editor: Editor, file: File, position?: number) {
+  file
+    .text()
+    .then((markdown) => {
+      if (editor.isDestroyed) return;
+      const content = markdownToDocument(markdown).content ?? [];
+      const chain = editor.chain().focus();
+      (position === undefined
+        ? chain.insertContent(content)
+        : chain.insertContentAt(position, content)
+      ).run();
+    })
+    .catch(() => {
+      window.alert(`"${file.name}"을(를) 읽지 못했습니다.`);
+    });
+}
+
+/**
+ * Word 문서의 내용을 문서로 옮겨 넣는다 (가져오기 메뉴에서만).
+ * 안에 든 그림은 자리표시자로 먼저 넣고 에셋 저장소에 올린다.
+ */
+export function importDocx(editor: Editor, file: File, position?: number) {
+  const pending: Array<{ uploadId: string; file: File }> = [];
+
+  file
+    .arrayBuffer()
+    .then((buffer) =>
+      docxToDocument(new Uint8Array(buffer), {
+        image: ({ data, type, name }) => {
+          const image = new File([data as Uint8Array<ArrayBuffer>], name, { type });
+          if (checkFile(image.name, image.type, image.size)) return null;
+          const uploadId = createUploadId();
+          setUploadProgress(uploadId, 0);
+          setUploadPreview(uploadId, image);
+          pending.push({ uploadId, file: image });
+          return { uploadId };
+        },
+      })
+    )
+    .then((doc) => {
+      if (editor.isDestroyed) throw new Error("Editor destroyed");
+      const content = doc.content ?? [];
+      const chain = editor.chain().focus();
+      (position === undefined
+        ? chain.insertContent(content)
+        : chain.insertContentAt(position, content)
+      ).run();
+      pending.splice(0).forEach(({ uploadId, file: image }) =>
+        startImageUpload(editor, image, uploadId, { keepSize: true })
+      );
+    })
+    .catch(() => {
+      pending.forEach(({ uploadId }) => finishUpload(uploadId));
+      if (!editor.isDestroyed) window.alert(`"${file.name}"을(를) 읽지 못했습니다.`);
+    });
+}
+
+/**
+ * 드롭/붙여넣기/파일 선택 공통: 이미지는 에셋으로, 나머지는 첨부 카드로.
+ * .md, .docx 파일도 첨부한다 — 본문으로 옮기려면 importFiles (가져오기 메뉴).
+ */
+export function uploadFiles(editor: Editor, files: File[], position?: number) {
+  files.forEach((file) => {
+    const rejection = checkFile(file.name, file.type, file.size);
+    if (rejection) {
+      window.alert(REJECTION_MESSAGES[rejection](file));
+      return;
+    }
+
+    if (isImageFile(file.name, file.type)) {
+      uploadImageAsset(editor, file, position);
+    } else {
+      uploadAttachment(editor, file, position);
+    }
+  });
+}
+
+/** 가져오기 메뉴: 고른 파일의 내용을 문서에 옮겨 넣는다 */
+export function importFiles(editor: Editor, files: File[]) {
+  files.forEach((file) => {
+    const rejection = checkFile(file.name, file.type, file.size);
+    if (rejection && rejection !== "type-not-allowed") {
+      window.alert(REJECTION_MESSAGES[rejection](file));
+      return;
+    }
+
+    const type = resolveMimeType(file.name, file.type);
+    if (type === "text/markdown") {
+      importMarkdown(editor, file);
+    } else if (type === DOCX_MIME_TYPE) {
+      importDocx(editor, file);
+    } else {
+      window.alert(`"${file.name}"은(는) 가져올 수 없는 형식입니다.`);
+    }
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * 진행 중인 업로드 상태. 진행률이 바뀔 때마다 문서(노드 속성)를 고치면
+ * 작성 기록과 공동 편집에 의미 없는 변경이 쌓이므로 문서 밖에 둔다.
+ * 노드에는 uploadId만 넣고, 노드 뷰가 여기서 진행률을 구독한다.
+ */
+type Listener = (progress: number) => void;
+
+const progressById = new Map<string, number>();
+const listenersById = new Map<string, Set<Listener>>();
+// 업로드 중인 이미지의 로컬 미리보기 (blob: URL, 이 탭에서만 보인다)
+const previewById = new Map<string, string>();
+
+export function createUploadId() {
+  return `up_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function getUploadProgress(id: string) {
+  return progressById.get(id);
+}
+
+export function setUploadProgress(id: string, progress: number) {
+  progressById.set(id, progress);
+  listenersById.get(id)?.forEach((listener) => listener(progress));
+}
+
+export function getUploadPreview(id: string) {
+  return previewById.get(id);
+}
+
+export function setUploadPreview(id: string, file: Blob) {
+  previewById.set(id, URL.createObjectURL(file));
+}
+
+export function finishUpload(id: string) {
+  progressById.delete(id);
+  listenersById.delete(id);
+
+  const preview = previewById.get(id);
+  if (preview) URL.revokeObjectURL(preview);
+  previewById.delete(id);
+}
+
+export function subscribeUpload(id: string, listener: Listener) {
+  let listeners = listenersById.get(id);
+  if (!listeners) {
+    listeners = new Set();
+    listenersById.set(id, listeners);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * YouTube 주소 알아보기 (넣기 전 미리보기용).
+ * watch?v=, youtu.be/, shorts/, embed/, live/ 주소에서 영상 id를 꺼낸다.
+ */
+
+const VIDEO_ID = /^[\w-]{11}$/;
+const YOUTUBE_HOSTS = /^(www\.|m\.|music\.)?(youtube\.com|youtube-nocookie\.com)$/;
+
+export function youtubeVideoId(input: string) {
+  let url: URL;
+  try {
+    const text = input.trim();
+    url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase();
+  const segments = url.pathname.split("/").filter(Boolean);
+  let id: string | null = null;
+  if (host === "youtu.be") {
+    id = segments[0] ?? null;
+  } else if (YOUTUBE_HOSTS.test(host)) {
+    id =
+      segments[0] === "watch"
+        ? url.searchParams.get("v")
+        : ["shorts", "embed", "live", "v"].includes(segments[0])
+          ? (segments[1] ?? null)
+          : null;
+  }
+  return id && VIDEO_ID.test(id) ? id : null;
+}
+
+/** 편집기에 넣는 주소는 어떤 모양으로 붙여넣었든 watch 주소로 맞춘다 */
+export function youtubeWatchUrl(videoId: string) {
+  return `https://www.youtube.com/watch?v=${videoId}`;
+}
+
+export function youtubeThumbnailUrl(videoId: string) {
+  return `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SaveStatus } from "@/lib/documents/types";
+
+interface UseAutosaveOptions {
+  /** 마지막 변경 후 저장까지 기다리는 시간(ms) */
+  delay?: number;
+}
+
+/**
+ * 변경될 때마다 schedule(value)를 호출하면 debounce 후 save(value)를 실행한다.
+ * - 저장 중에 들어온 변경은 저장이 끝난 뒤 최신 값으로 한 번 더 저장
+ * - 실패하면 값을 버리지 않고 "Failed" 상태로 두었다가 retry()로 재시도
+ */
+export function useAutosave<T>(
+  save: (value: T) => Promise<void>,
+  { delay = 800 }: UseAutosaveOptions = {}
+) {
+  const [status, setStatus] = useState<SaveStatus>("Saved");
+
+  const saveRef = useRef(save);
+  const pendingRef = useRef<{ value: T } | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const inFlightRef = useRef(false);
+
+  useEffect(() => {
+    saveRef.current = save;
+  }, [save]);
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const flush = useCallback(async (): Promise<void> => {
+    clearTimer();
+    if (inFlightRef.current || !pendingRef.current) return;
+
+    const { value } = pendingRef.current;
+    pendingRef.current = null;
+    inFlightRef.current = true;
+    setStatus("Saving");
+
+    try {
+      await saveRef.current(value);
+      inFlightRef.current = false;
+      if (pendingRef.current) {
+        // 저장 중에 새 변경이 들어옴 → 이어서 저장
+        return flush();
+      }
+      setStatus("Saved");
+    } catch {
+      inFlightRef.current = false;
+      // 더 최신 변경이 없으면 실패한 값을 그대로 재시도 대상으로 남긴다
+      pendingRef.current ??= { value };
+      setStatus("Failed");
+    }
+  }, []);
+
+  const schedule = useCallback(
+    (value: T) => {
+      pendingRef.current = { value };
+      if (!inFlightRef.current) setStatus("Editing");
+      clearTimer();
+      timerRef.current = window.setTimeout(() => {
+        void flush();
+      }, delay);
+    },
+    [delay, flush]
+  );
+
+  const retry = useCallback(() => {
+    void flush();
+  }, [flush]);
+
+  // 저장되지 않은 변경이 있으면 페이지를 떠나기 전에 경고
+  useEffect(() => {
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (!pendingRef.current && !inFlightRef.current) return;
+      void flush();
+      e.preventDefault();
+    };
+
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => {
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      clearTimer();
+    };
+  }, [flush]);
+
+  return { status, schedule, retry, flush };
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useLayoutEffect, useRef } from "react";
+
+// 커서와 메뉴 사이, 화면 가장자리와 메뉴 사이 여백
+const OFFSET = 6;
+
+/**
+ * 편집기 커서에 붙는 메뉴("/" 블록 메뉴, "@" 멘션 메뉴)의 위치.
+ * 커서 아래(공간이 없으면 위)에 붙이고, 스크롤하면 따라간다.
+ * 메뉴 높이가 바뀌는 경우(항목 수 등)는 size로 알려준다.
+ */
+export function useCaretPopover<T extends HTMLElement>(
+  clientRect: () => DOMRect | null,
+  size: number
+) {
+  const ref = useRef<T>(null);
+
+  useLayoutEffect(() => {
+    const place = () => {
+      const menu = ref.current;
+      const rect = clientRect();
+      if (!menu || !rect) return;
+      const { width, height } = menu.getBoundingClientRect();
+      const below = rect.bottom + OFFSET;
+      const top =
+        below + height > window.innerHeight - OFFSET &&
+        rect.top - OFFSET - height >= OFFSET
+          ? rect.top - OFFSET - height
+          : below;
+      const left = Math.max(
+        OFFSET,
+        Math.min(rect.left, window.innerWidth - width - OFFSET)
+      );
+      menu.style.top = `${top}px`;
+      menu.style.left = `${left}px`;
+    };
+
+    place();
+    window.addEventListener("scroll", place, true);
+    window.addEventListener("resize", place);
+    return () => {
+      window.removeEventListener("scroll", place, true);
+      window.removeEventListener("resize", place);
+    };
+  }, [clientRect, size]);
+
+  return ref;
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import * as Y from "yjs";
+import { WebsocketProvider } from "y-websocket";
+import { getLocalIdentity, type PresenceUser } from "@/lib/collab/presence";
+
+const COLLAB_URL = process.env.NEXT_PUBLIC_COLLAB_URL;
+
+/** NEXT_PUBLIC_COLLAB_URL이 없으면 지금처럼 혼자 쓰는 모드 */
+export const isCollaborationEnabled = Boolean(COLLAB_URL);
+
+export interface CollaborationSession {
+  doc: Y.Doc;
+  provider: WebsocketProvider;
+  /** 이 탭의 awareness "user" 필드 초기값 */
+  user: PresenceUser;
+}
+
+export type ConnectionStatus = "connecting" | "connected" | "disconnected";
+
+/**
+ * 문서별 Y.Doc을 만들고 동기화 서버(server/collab.ts)에 연결한다.
+ * 방 이름은 문서 id, 공유 링크로 연 경우 shareRoomName(token).
+ * 첫 동기화가 끝난 뒤에만 session을 돌려줘서, 에디터가 빈 문서로
+ * 먼저 그려졌다가 바뀌는 일이 없게 한다.
+ */
+export function useCollaboration(room: string) {
+  const [state, setState] = useState<{
+    room: string;
+    session: CollaborationSession | null;
+    status: ConnectionStatus;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!COLLAB_URL) return;
+
+    const doc = new Y.Doc();
+    const provider = new WebsocketProvider(COLLAB_URL, room, doc);
+    const user: PresenceUser = {
+      ...getLocalIdentity(),
+      clientId: doc.clientID,
+      idle: false,
+    };
+    provider.awareness.setLocalStateField("user", user);
+    let session: CollaborationSession | null = null;
+
+    const handleSync = (synced: boolean) => {
+      if (!synced || session) return;
+      session = { doc, provider, user };
+      setState({ room, session, status: "connected" });
+    };
+
+    const handleStatus = ({ status }: { status: ConnectionStatus }) => {
+      setState({ room, session, status });
+    };
+
+    provider.on("sync", handleSync);
+    provider.on("status", handleStatus);
+
+    return () => {
+      provider.off("sync", handleSync);
+      provider.off("status", handleStatus);
+      provider.destroy();
+      doc.destroy();
+    };
+  }, [room]);
+
+  const current = state?.room === room ? state : null;
+  return {
+    session: current?.session ?? null,
+    status: current?.status ?? ("connecting" as ConnectionStatus),
+  };
+}
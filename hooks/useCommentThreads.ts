@@ -0,0 +1,48 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchThreads, type CommentTarget } from "@/lib/comments/client";
+import type { CommentThread } from "@/lib/comments/types";
+
+/**
+ * 문서의 댓글 스레드 목록. 다른 사람이 단 댓글은 창으로 돌아올 때
+ * 다시 불러와서 반영한다. 내가 바꾼 스레드는 upsert로 바로 반영.
+ */
+export function useCommentThreads(target: CommentTarget) {
+  const [threads, setThreads] = useState<CommentThread[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      fetchThreads(target)
+        .then((loaded) => {
+          if (cancelled) return;
+          setThreads(loaded);
+          setFailed(false);
+        })
+        .catch(() => {
+          if (!cancelled) setFailed(true);
+        });
+    };
+
+    load();
+    window.addEventListener("focus", load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("focus", load);
+    };
+  }, [target]);
+
+  const upsert = useCallback((thread: CommentThread) => {
+    setThreads((current) => {
+      const list = current ?? [];
+      return list.some((t) => t.id === thread.id)
+        ? list.map((t) => (t.id === thread.id ? thread : t))
+        : [...list, thread];
+    });
+  }, []);
+
+  return { threads, failed, upsert };
+}
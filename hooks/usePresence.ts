@@ -0,0 +1,112 @@
+"use client";
+
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import type { Awareness } from "y-protocols/awareness";
+import type { CollaborationSession } from "@/hooks/useCollaboration";
+import {
+  IDLE_TIMEOUT,
+  isPresenceUser,
+  type PresenceUser,
+} from "@/lib/collab/presence";
+
+const NO_PEERS: PresenceUser[] = [];
+const IDLE_CHECK_INTERVAL = 5_000;
+const ACTIVITY_EVENTS = ["keydown", "pointerdown", "pointermove", "wheel"];
+
+// useSyncExternalStore는 바뀌지 않았을 때 같은 배열을 돌려줘야 한다
+const snapshots = new WeakMap<Awareness, PresenceUser[]>();
+
+function collectPeers(awareness: Awareness) {
+  const self = awareness.getLocalState()?.user as PresenceUser | undefined;
+  const byIdentity = new Map<string, PresenceUser>();
+
+  awareness.getStates().forEach((state, clientId) => {
+    const user: unknown = state.user;
+    if (clientId === awareness.clientID || !isPresenceUser(user)) return;
+    // 내 다른 탭은 목록에서 뺀다
+    if (self && user.id === self.id) return;
+
+    // 같은 사람이 탭을 여러 개 열었으면 활동 중인 쪽 하나만
+    const current = byIdentity.get(user.id);
+    if (!current || (current.idle && !user.idle)) {
+      byIdentity.set(user.id, user);
+    }
+  });
+
+  return [...byIdentity.values()].sort((a, b) => a.clientId - b.clientId);
+}
+
+function readPeers(awareness: Awareness) {
+  let peers = snapshots.get(awareness);
+  if (!peers) {
+    peers = collectPeers(awareness);
+    snapshots.set(awareness, peers);
+  }
+  return peers;
+}
+
+/** 입력이 한동안 없으면 내 awareness에 idle 표시를 남긴다 */
+function useIdleTracker(session: CollaborationSession | null) {
+  useEffect(() => {
+    if (!session) return;
+    const { awareness } = session.provider;
+
+    let lastActivity = Date.now();
+    let idle = false;
+
+    const setIdle = (next: boolean) => {
+      if (idle === next) return;
+      idle = next;
+      const user = awareness.getLocalState()?.user as PresenceUser | undefined;
+      awareness.setLocalStateField("user", { ...(user ?? session.user), idle });
+    };
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      setIdle(false);
+    };
+
+    const timer = setInterval(() => {
+      setIdle(Date.now() - lastActivity >= IDLE_TIMEOUT);
+    }, IDLE_CHECK_INTERVAL);
+
+    ACTIVITY_EVENTS.forEach((type) =>
+      window.addEventListener(type, handleActivity, { passive: true })
+    );
+
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((type) =>
+        window.removeEventListener(type, handleActivity)
+      );
+    };
+  }, [session]);
+}
+
+/**
+ * 같은 문서를 보고 있는 다른 사람들 (awareness 기반).
+ * 나 자신과 내 다른 탭은 빠진다.
+ */
+export function usePresence(session: CollaborationSession | null) {
+  useIdleTracker(session);
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      if (!session) return () => {};
+      const { awareness } = session.provider;
+      const handleChange = () => {
+        snapshots.delete(awareness);
+        onChange();
+      };
+      awareness.on("change", handleChange);
+      return () => awareness.off("change", handleChange);
+    },
+    [session]
+  );
+
+  return useSyncExternalStore(
+    subscribe,
+    () => (session ? readPeers(session.provider.awareness) : NO_PEERS),
+    () => NO_PEERS
+  );
+}
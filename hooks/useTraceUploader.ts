@@ -0,0 +1,77 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import type { TraceEvent } from "@/lib/trace/types";
+
+const FLUSH_DELAY = 2000;
+const MAX_BATCH = 200;
+
+/** 문서 주인은 appendTraceEvents, 공유 링크 편집자는 appendSharedTraceEvents */
+export type TraceUpload = (
+  events: TraceEvent[],
+  options: { keepalive: boolean }
+) => Promise<void>;
+
+/**
+ * TraceRecorder가 내보낸 이벤트를 모아 두었다가 주기적으로 서버에 붙인다.
+ * 전송에 실패한 이벤트는 버리지 않고 다음 전송 때 앞에 다시 붙인다.
+ */
+export function useTraceUploader(upload: TraceUpload) {
+  const bufferRef = useRef<TraceEvent[]>([]);
+  const timerRef = useRef<number | null>(null);
+  const inFlightRef = useRef(false);
+
+  const flush = useCallback(
+    async ({ keepalive = false }: { keepalive?: boolean } = {}) => {
+      if (timerRef.current) {
+        window.clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+      if (inFlightRef.current || bufferRef.current.length === 0) return;
+
+      const batch = bufferRef.current;
+      bufferRef.current = [];
+      inFlightRef.current = true;
+
+      try {
+        await upload(batch, { keepalive });
+      } catch {
+        bufferRef.current = [...batch, ...bufferRef.current];
+      } finally {
+        inFlightRef.current = false;
+      }
+
+      if (bufferRef.current.length > 0 && !timerRef.current) {
+        timerRef.current = window.setTimeout(() => void flush(), FLUSH_DELAY);
+      }
+    },
+    [upload]
+  );
+
+  const record = useCallback(
+    (event: TraceEvent) => {
+      bufferRef.current.push(event);
+      if (bufferRef.current.length >= MAX_BATCH) {
+        void flush();
+      } else if (!timerRef.current) {
+        timerRef.current = window.setTimeout(() => void flush(), FLUSH_DELAY);
+      }
+    },
+    [flush]
+  );
+
+  // 탭을 닫거나 다른 문서로 이동할 때 남은 이벤트 전송
+  useEffect(() => {
+    const handlePageHide = () => {
+      void flush({ keepalive: true });
+    };
+
+    window.addEventListener("pagehide", handlePageHide);
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+      void flush({ keepalive: true });
+    };
+  }, [flush]);
+
+  return record;
+}
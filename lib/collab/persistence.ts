@@ -0,0 +1,33 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { isValidDocumentId } from "@/lib/documents/store";
+import { DATA_DIR, isNotFoundError } from "@/lib/storage";
+
+// Y.Doc 전체 상태 (Y.encodeStateAsUpdate): .data/yjs/<id>.bin
+const YJS_DIR = path.join(DATA_DIR, "yjs");
+
+function statePath(documentId: string) {
+  if (!isValidDocumentId(documentId)) {
+    throw new Error(`Invalid document id: ${documentId}`);
+  }
+  return path.join(YJS_DIR, `${documentId}.bin`);
+}
+
+export async function loadYjsState(
+  documentId: string
+): Promise<Uint8Array | null> {
+  try {
+    return new Uint8Array(await fs.readFile(statePath(documentId)));
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+export async function saveYjsState(documentId: string, state: Uint8Array) {
+  const filePath = statePath(documentId);
+  await fs.mkdir(YJS_DIR, { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmpPath, state);
+  await fs.rename(tmpPath, filePath);
+}
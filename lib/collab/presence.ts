@@ -0,0 +1,92 @@
+// 계정이 없으므로 브라우저마다 이름/색을 하나 정해 localStorage에 보관한다
+const IDENTITY_KEY = "writetracer:identity";
+
+/** 이 시간 동안 입력/마우스 움직임이 없으면 흐리게 표시 */
+export const IDLE_TIMEOUT = 60_000;
+
+// y-prosemirror 커서는 6자리 hex 색만 지원
+const COLORS = [
+  "#2563eb",
+  "#db2777",
+  "#059669",
+  "#d97706",
+  "#7c3aed",
+  "#dc2626",
+  "#0891b2",
+  "#65a30d",
+];
+
+const ANIMALS = [
+  "호랑이",
+  "고래",
+  "여우",
+  "수달",
+  "부엉이",
+  "다람쥐",
+  "펭귄",
+  "사슴",
+  "판다",
+  "돌고래",
+];
+
+export interface CollaboratorIdentity {
+  /** 같은 사람이 탭을 여러 개 열어도 아바타는 하나로 묶기 위한 id */
+  id: string;
+  name: string;
+  color: string;
+}
+
+/** awareness "user" 필드 (CollaborationCaret이 커서를 그릴 때도 씀) */
+export interface PresenceUser extends CollaboratorIdentity {
+  clientId: number;
+  idle: boolean;
+}
+
+function pick<T>(items: readonly T[]) {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function isIdentity(value: unknown): value is CollaboratorIdentity {
+  const v = value as CollaboratorIdentity | null;
+  return (
+    typeof v?.id === "string" &&
+    typeof v.name === "string" &&
+    typeof v.color === "string" &&
+    /^#[0-9a-f]{6}$/i.test(v.color)
+  );
+}
+
+export function getLocalIdentity(): CollaboratorIdentity {
+  try {
+    const saved: unknown = JSON.parse(
+      localStorage.getItem(IDENTITY_KEY) ?? "null"
+    );
+    if (isIdentity(saved)) return saved;
+  } catch {
+    // 저장된 값이 깨졌으면 새로 만든다
+  }
+
+  const identity: CollaboratorIdentity = {
+    id: `u_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+    name: `익명의 ${pick(ANIMALS)}`,
+    color: pick(COLORS),
+  };
+  try {
+    localStorage.setItem(IDENTITY_KEY, JSON.stringify(identity));
+  } catch {
+    // 시크릿 모드 등에서는 이번 세션에만 쓴다
+  }
+  return identity;
+}
+
+export function isPresenceUser(value: unknown): value is PresenceUser {
+  return (
+    isIdentity(value) && typeof (value as PresenceUser).clientId === "number"
+  );
+}
+
+/** 아바타에 쓸 글자 ("익명의 호랑이" → "호") */
+export function getInitial(name: string) {
+  const words = name.trim().split(/\s+/);
+  return (words[words.length - 1] ?? "?").slice(0, 1).toUpperCase() || "?";
+}
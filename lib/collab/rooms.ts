@@ -0,0 +1,15 @@
+// 공유 링크 세션은 문서 id 대신 토큰으로 방에 들어간다: ws://host/share/<token>
+const SHARE_ROOM_PREFIX = "share/";
+
+export type RoomTarget = { documentId: string } | { shareToken: string };
+
+export function shareRoomName(token: string) {
+  return `${SHARE_ROOM_PREFIX}${token}`;
+}
+
+/** 접속 주소의 방 이름을 문서 id 또는 공유 토큰으로 나눈다 (검증은 서버에서) */
+export function parseRoomName(name: string): RoomTarget {
+  return name.startsWith(SHARE_ROOM_PREFIX)
+    ? { shareToken: name.slice(SHARE_ROOM_PREFIX.length) }
+    : { documentId: name };
+}
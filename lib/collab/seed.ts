@@ -0,0 +1,25 @@
+import { getSchema } from "@tiptap/core";
+import { prosemirrorJSONToYXmlFragment } from "@tiptap/y-tiptap";
+import type * as Y from "yjs";
+import { createEditorExtensions } from "@/components/editor/extensions";
+import { readDocument } from "@/lib/documents/store";
+
+// Collaboration 확장의 기본 field 이름
+export const COLLAB_FIELD = "default";
+
+/**
+ * 아직 Yjs 상태가 없는 문서를 처음 열 때, 저장된 ProseMirror JSON으로
+ * Y.Doc을 채운다. 서버에서 한 번만 하므로 여러 탭이 동시에 열어도
+ * 내용이 중복으로 들어가지 않는다.
+ */
+export async function seedFromStoredDocument(ydoc: Y.Doc, documentId: string) {
+  const stored = await readDocument(documentId);
+  if (!stored) return;
+
+  const schema = getSchema(createEditorExtensions());
+  prosemirrorJSONToYXmlFragment(
+    schema,
+    stored.content,
+    ydoc.getXmlFragment(COLLAB_FIELD)
+  );
+}
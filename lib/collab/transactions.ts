@@ -0,0 +1,19 @@
+import type { Transaction } from "@tiptap/pm/state";
+import { ySyncPluginKey } from "@tiptap/y-tiptap";
+
+interface YSyncMeta {
+  isChangeOrigin?: boolean;
+  isUndoRedoOperation?: boolean;
+}
+
+/** Y.Doc에서 들어온 변경 (다른 사람의 편집, 초기 동기화, Yjs undo/redo) */
+export function isYjsChange(tr: Transaction) {
+  const meta = tr.getMeta(ySyncPluginKey) as YSyncMeta | undefined;
+  return meta?.isChangeOrigin === true;
+}
+
+/** 다른 사람의 편집이나 초기 동기화처럼 이 사용자가 직접 하지 않은 변경 */
+export function isRemoteChange(tr: Transaction) {
+  const meta = tr.getMeta(ySyncPluginKey) as YSyncMeta | undefined;
+  return meta?.isChangeOrigin === true && !meta.isUndoRedoOperation;
+}
@@ -0,0 +1,68 @@
+import type {
+  CommentThread,
+  CreateThreadInput,
+  ReplyInput,
+  ResolveInput,
+} from "./types";
+
+/** 문서 주인은 문서 id로, 공유 링크로 연 사람은 토큰으로 접근한다 */
+export type CommentTarget = { documentId: string } | { shareToken: string };
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(input, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!res.ok) {
+    throw new Error(`${init?.method ?? "GET"} ${input} failed: ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+function commentsPath(target: CommentTarget) {
+  return "shareToken" in target
+    ? `/api/shares/${target.shareToken}/comments`
+    : `/api/documents/${target.documentId}/comments`;
+}
+
+export async function fetchThreads(target: CommentTarget) {
+  const { threads } = await request<{ threads: CommentThread[] }>(
+    commentsPath(target)
+  );
+  return threads;
+}
+
+export async function createThread(
+  target: CommentTarget,
+  input: CreateThreadInput
+) {
+  const { thread } = await request<{ thread: CommentThread }>(
+    commentsPath(target),
+    { method: "POST", body: JSON.stringify(input) }
+  );
+  return thread;
+}
+
+export async function replyToThread(
+  target: CommentTarget,
+  threadId: string,
+  input: ReplyInput
+) {
+  const { thread } = await request<{ thread: CommentThread }>(
+    `${commentsPath(target)}/${threadId}`,
+    { method: "POST", body: JSON.stringify(input) }
+  );
+  return thread;
+}
+
+export async function setThreadResolved(
+  target: CommentTarget,
+  threadId: string,
+  input: ResolveInput
+) {
+  const { thread } = await request<{ thread: CommentThread }>(
+    `${commentsPath(target)}/${threadId}`,
+    { method: "PATCH", body: JSON.stringify(input) }
+  );
+  return thread;
+}
@@ -0,0 +1,83 @@
+import type { JSONContent } from "@tiptap/core";
+import { Node as PMNode, type Schema } from "@tiptap/pm/model";
+
+/** 본문에서 댓글 스레드를 가리키는 마크 이름 (components/editor/CommentMark) */
+export const COMMENT_MARK = "comment";
+
+type Mark = NonNullable<JSONContent["marks"]>[number];
+
+function sameMarks(a: Mark[] | undefined, b: Mark[] | undefined) {
+  return JSON.stringify(a ?? []) === JSON.stringify(b ?? []);
+}
+
+/**
+ * 댓글 마크를 뺀 내용. 마크 경계에서 갈라졌던 텍스트 노드도 다시 합친다.
+ */
+export function stripCommentMarks(node: JSONContent): JSONContent {
+  const { marks, content, ...rest } = node;
+  const stripped: JSONContent = { ...rest };
+
+  const kept = marks?.filter((mark) => mark.type !== COMMENT_MARK);
+  if (kept && kept.length > 0) stripped.marks = kept;
+
+  if (content) {
+    const children: JSONContent[] = [];
+    for (const child of content.map(stripCommentMarks)) {
+      const previous = children[children.length - 1];
+      if (
+        previous?.type === "text" &&
+        child.type === "text" &&
+        sameMarks(previous.marks, child.marks)
+      ) {
+        children[children.length - 1] = {
+          ...previous,
+          text: `${previous.text ?? ""}${child.text ?? ""}`,
+        };
+      } else {
+        children.push(child);
+      }
+    }
+    stripped.content = children;
+  }
+
+  return stripped;
+}
+
+// 키 순서가 달라도 같은 내용이면 같은 문자열
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// 스키마로 한 번 읽어서 기본값 속성까지 채운 모양으로 (읽을 수 없으면 null)
+function normalize(schema: Schema, content: JSONContent): JSONContent | null {
+  try {
+    return PMNode.fromJSON(schema, content).toJSON() as JSONContent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 댓글 마크만 다르고 나머지 내용은 같은지 (댓글 권한 저장 검사용).
+ * 에디터의 getJSON은 blockId: null 같은 기본값 속성까지 넣지만 예전에 저장된
+ * 문서에는 없을 수 있으므로, 양쪽을 스키마로 맞춘 뒤 비교한다.
+ */
+export function isSameIgnoringComments(
+  schema: Schema,
+  a: JSONContent,
+  b: JSONContent
+) {
+  const left = normalize(schema, a);
+  const right = normalize(schema, b);
+  if (!left || !right) return false;
+  return (
+    canonical(stripCommentMarks(left)) === canonical(stripCommentMarks(right))
+  );
+}
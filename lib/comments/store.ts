@@ -0,0 +1,109 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import { isValidDocumentId } from "@/lib/documents/store";
+import { DATA_DIR, readJson, writeJsonAtomic } from "@/lib/storage";
+import type {
+  CommentThread,
+  CreateThreadInput,
+  ReplyInput,
+  ResolveInput,
+  StoredComments,
+} from "./types";
+
+// 문서별 댓글 스레드: .data/comments/<documentId>.json
+const COMMENTS_DIR = path.join(DATA_DIR, "comments");
+
+function commentsPath(documentId: string) {
+  if (!isValidDocumentId(documentId)) {
+    throw new Error(`Invalid document id: ${documentId}`);
+  }
+  return path.join(COMMENTS_DIR, `${documentId}.json`);
+}
+
+async function readComments(documentId: string): Promise<StoredComments> {
+  return (
+    (await readJson<StoredComments>(commentsPath(documentId))) ?? {
+      documentId,
+      threads: [],
+    }
+  );
+}
+
+async function updateThread(
+  documentId: string,
+  threadId: string,
+  update: (thread: CommentThread) => CommentThread
+): Promise<CommentThread | null> {
+  const stored = await readComments(documentId);
+  const index = stored.threads.findIndex((thread) => thread.id === threadId);
+  if (index === -1) return null;
+
+  const thread = update(stored.threads[index]);
+  stored.threads[index] = thread;
+  await writeJsonAtomic(commentsPath(documentId), stored);
+  return thread;
+}
+
+export async function listThreads(documentId: string) {
+  const { threads } = await readComments(documentId);
+  return threads;
+}
+
+/** 같은 id의 스레드가 이미 있으면 null */
+export async function createThread(
+  documentId: string,
+  input: CreateThreadInput
+): Promise<CommentThread | null> {
+  const stored = await readComments(documentId);
+  if (stored.threads.some((thread) => thread.id === input.id)) return null;
+
+  const now = new Date().toISOString();
+  const thread: CommentThread = {
+    id: input.id,
+    quote: input.quote,
+    messages: [
+      { id: randomUUID(), author: input.author, body: input.body, createdAt: now },
+    ],
+    createdAt: now,
+    resolvedAt: null,
+    resolvedBy: null,
+  };
+  stored.threads.push(thread);
+  await writeJsonAtomic(commentsPath(documentId), stored);
+  return thread;
+}
+
+export async function replyToThread(
+  documentId: string,
+  threadId: string,
+  input: ReplyInput
+) {
+  return updateThread(documentId, threadId, (thread) => ({
+    ...thread,
+    messages: [
+      ...thread.messages,
+      {
+        id: randomUUID(),
+        author: input.author,
+        body: input.body,
+        createdAt: new Date().toISOString(),
+      },
+    ],
+  }));
+}
+
+export async function setThreadResolved(
+  documentId: string,
+  threadId: string,
+  input: ResolveInput
+) {
+  return updateThread(documentId, threadId, (thread) =>
+    input.resolved
+      ? {
+          ...thread,
+          resolvedAt: thread.resolvedAt ?? new Date().toISOString(),
+          resolvedBy: thread.resolvedBy ?? input.author,
+        }
+      : { ...thread, resolvedAt: null, resolvedBy: null }
+  );
+}
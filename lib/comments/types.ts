@@ -0,0 +1,51 @@
+/** 계정이 없으므로 브라우저별 익명 신원(lib/collab/presence)을 그대로 남긴다 */
+export interface CommentAuthor {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface CommentMessage {
+  id: string;
+  author: CommentAuthor;
+  body: string;
+  createdAt: string;
+}
+
+/**
+ * 본문의 comment 마크(threadId)로 범위에 붙는 댓글 스레드.
+ * 마크가 문서에서 사라져도 스레드는 지우지 않는다 (고아 스레드로 표시).
+ */
+export interface CommentThread {
+  id: string;
+  /** 댓글을 달 때 선택했던 글 (원문이 지워져도 보여주려고) */
+  quote: string;
+  messages: CommentMessage[];
+  createdAt: string;
+  resolvedAt: string | null;
+  resolvedBy: CommentAuthor | null;
+}
+
+/** .data/comments/<documentId>.json */
+export interface StoredComments {
+  documentId: string;
+  threads: CommentThread[];
+}
+
+export interface CreateThreadInput {
+  /** 마크를 먼저 걸어야 하므로 id는 클라이언트가 정한다 */
+  id: string;
+  quote: string;
+  body: string;
+  author: CommentAuthor;
+}
+
+export interface ReplyInput {
+  body: string;
+  author: CommentAuthor;
+}
+
+export interface ResolveInput {
+  resolved: boolean;
+  author: CommentAuthor;
+}
@@ -0,0 +1,83 @@
+import type {
+  CommentAuthor,
+  CreateThreadInput,
+  ReplyInput,
+  ResolveInput,
+} from "./types";
+
+const MAX_BODY_LENGTH = 4000;
+const MAX_QUOTE_LENGTH = 500;
+const MAX_NAME_LENGTH = 80;
+
+const THREAD_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export function isValidThreadId(id: string) {
+  return THREAD_ID_PATTERN.test(id);
+}
+
+function parseAuthor(value: unknown): CommentAuthor | null {
+  if (!value || typeof value !== "object") return null;
+  const { id, name, color } = value as Record<string, unknown>;
+  if (
+    typeof id !== "string" ||
+    !id ||
+    id.length > MAX_NAME_LENGTH ||
+    typeof name !== "string" ||
+    !name.trim() ||
+    name.length > MAX_NAME_LENGTH ||
+    typeof color !== "string" ||
+    !/^#[0-9a-f]{6}$/i.test(color)
+  ) {
+    return null;
+  }
+  return { id, name: name.trim(), color };
+}
+
+function parseBody(value: unknown) {
+  if (typeof value !== "string") return null;
+  const body = value.trim();
+  return body && body.length <= MAX_BODY_LENGTH ? body : null;
+}
+
+// 요청 body에서 id/quote/body/author를 골라낸다. 형식이 틀리면 null.
+export function parseCreateThreadInput(body: unknown): CreateThreadInput | null {
+  if (!body || typeof body !== "object") return null;
+  const input = body as Record<string, unknown>;
+
+  const author = parseAuthor(input.author);
+  const text = parseBody(input.body);
+  if (
+    !author ||
+    !text ||
+    typeof input.id !== "string" ||
+    !isValidThreadId(input.id) ||
+    typeof input.quote !== "string"
+  ) {
+    return null;
+  }
+
+  return {
+    id: input.id,
+    quote: input.quote.slice(0, MAX_QUOTE_LENGTH),
+    body: text,
+    author,
+  };
+}
+
+export function parseReplyInput(body: unknown): ReplyInput | null {
+  if (!body || typeof body !== "object") return null;
+  const input = body as Record<string, unknown>;
+
+  const author = parseAuthor(input.author);
+  const text = parseBody(input.body);
+  return author && text ? { body: text, author } : null;
+}
+
+export function parseResolveInput(body: unknown): ResolveInput | null {
+  if (!body || typeof body !== "object") return null;
+  const input = body as Record<string, unknown>;
+
+  const author = parseAuthor(input.author);
+  if (!author || typeof input.resolved !== "boolean") return null;
+  return { resolved: input.resolved, author };
+}
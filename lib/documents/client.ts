@@ -0,0 +1,75 @@
+import type {
+  DocumentSummary,
+  SaveDocumentInput,
+  StoredDocument,
+} from "./types";
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(input, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!res.ok) {
+    throw new Error(`${init?.method ?? "GET"} ${input} failed: ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+export async function fetchDocuments({
+  trashed = false,
+}: { trashed?: boolean } = {}) {
+  const { documents } = await request<{ documents: DocumentSummary[] }>(
+    trashed ? "/api/documents?trashed=1" : "/api/documents"
+  );
+  return documents;
+}
+
+export async function fetchDocument(id: string) {
+  const { document } = await request<{ document: StoredDocument }>(
+    `/api/documents/${id}`
+  );
+  return document;
+}
+
+export async function createDocument(input: Partial<SaveDocumentInput> = {}) {
+  const { document } = await request<{ document: StoredDocument }>(
+    "/api/documents",
+    { method: "POST", body: JSON.stringify(input) }
+  );
+  return document;
+}
+
+export async function saveDocument(
+  id: string,
+  input: Partial<SaveDocumentInput>
+) {
+  const { document } = await request<{ document: StoredDocument }>(
+    `/api/documents/${id}`,
+    { method: "PUT", body: JSON.stringify(input) }
+  );
+  return document;
+}
+
+export async function duplicateDocument(id: string) {
+  const { document } = await request<{ document: StoredDocument }>(
+    `/api/documents/${id}/duplicate`,
+    { method: "POST" }
+  );
+  return document;
+}
+
+export async function trashDocument(id: string) {
+  const { document } = await request<{ document: StoredDocument }>(
+    `/api/documents/${id}`,
+    { method: "DELETE" }
+  );
+  return document;
+}
+
+export async function restoreDocument(id: string) {
+  const { document } = await request<{ document: StoredDocument }>(
+    `/api/documents/${id}/restore`,
+    { method: "POST" }
+  );
+  return document;
+}
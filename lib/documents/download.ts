@@ -0,0 +1,22 @@
+import { DEFAULT_DOCUMENT_TITLE } from "./types";
+
+/** 제목을 파일 이름으로 (OS에서 못 쓰는 글자는 뺀다) */
+export function documentFileName(title: string, extension: string) {
+  const base =
+    title.replace(/[\\/:*?"<>|\u0000-\u001f]/g, "").trim() ||
+    DEFAULT_DOCUMENT_TITLE;
+  return `${base.slice(0, 120)}.${extension}`;
+}
+
+/** 브라우저에서 만든 파일을 내려받게 한다 */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  // 클릭 처리가 끝난 뒤에 해제
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,148 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { JSONContent } from "@tiptap/core";
+import { DATA_DIR, isNotFoundError, readJson, writeJsonAtomic } from "@/lib/storage";
+import { getDocumentText, getTextStats } from "./text";
+import {
+  DEFAULT_DOCUMENT_TITLE,
+  EMPTY_DOCUMENT,
+  type DocumentSummary,
+  type SaveDocumentInput,
+  type StoredDocument,
+} from "./types";
+
+// 로컬 파일 기반 저장소: .data/documents/<id>.json
+const DOCUMENTS_DIR = path.join(DATA_DIR, "documents");
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export function isValidDocumentId(id: string) {
+  return ID_PATTERN.test(id);
+}
+
+function documentPath(id: string) {
+  if (!isValidDocumentId(id)) {
+    throw new Error(`Invalid document id: ${id}`);
+  }
+  return path.join(DOCUMENTS_DIR, `${id}.json`);
+}
+
+export async function readDocument(id: string): Promise<StoredDocument | null> {
+  const doc = await readJson<StoredDocument>(documentPath(id));
+  if (!doc) return null;
+  // 휴지통 도입 이전에 저장된 문서
+  return { ...doc, deletedAt: doc.deletedAt ?? null };
+}
+
+async function readAllDocuments(): Promise<StoredDocument[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(DOCUMENTS_DIR);
+  } catch (error) {
+    if (isNotFoundError(error)) return [];
+    throw error;
+  }
+
+  const docs = await Promise.all(
+    entries
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => readDocument(name.slice(0, -".json".length)))
+  );
+
+  return docs.filter((doc): doc is StoredDocument => doc !== null);
+}
+
+export function summarizeDocument(doc: StoredDocument): DocumentSummary {
+  return {
+    id: doc.id,
+    title: doc.title,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+    deletedAt: doc.deletedAt,
+    ...getTextStats(getDocumentText(doc.content)),
+  };
+}
+
+/** 최근 수정 순. trashed=true면 휴지통 문서만 */
+export async function listDocuments({
+  trashed = false,
+}: { trashed?: boolean } = {}): Promise<DocumentSummary[]> {
+  const docs = await readAllDocuments();
+  return docs
+    .filter((doc) => (doc.deletedAt !== null) === trashed)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(summarizeDocument);
+}
+
+export async function createDocument(
+  input: Partial<SaveDocumentInput> = {}
+): Promise<StoredDocument> {
+  const now = new Date().toISOString();
+  const doc: StoredDocument = {
+    id: randomUUID(),
+    title: input.title ?? DEFAULT_DOCUMENT_TITLE,
+    content: input.content ?? EMPTY_DOCUMENT,
+    createdAt: now,
+    updatedAt: now,
+    deletedAt: null,
+  };
+  await writeJsonAtomic(documentPath(doc.id), doc);
+  return doc;
+}
+
+async function updateDocument(
+  id: string,
+  update: (doc: StoredDocument) => StoredDocument
+): Promise<StoredDocument | null> {
+  const existing = await readDocument(id);
+  if (!existing) return null;
+
+  const doc = update(existing);
+  await writeJsonAtomic(documentPath(id), doc);
+  return doc;
+}
+
+export async function saveDocument(
+  id: string,
+  input: Partial<SaveDocumentInput>
+): Promise<StoredDocument | null> {
+  return updateDocument(id, (existing) => ({
+    ...existing,
+    title: input.title ?? existing.title,
+    content: input.content ?? existing.content,
+    updatedAt: new Date().toISOString(),
+  }));
+}
+
+/** 마이그레이션용: 내용 형식만 바꾸고 수정 시각은 그대로 둔다 */
+export async function replaceDocumentContent(
+  id: string,
+  content: JSONContent
+): Promise<StoredDocument | null> {
+  return updateDocument(id, (existing) => ({ ...existing, content }));
+}
+
+export async function duplicateDocument(
+  id: string
+): Promise<StoredDocument | null> {
+  const source = await readDocument(id);
+  if (!source) return null;
+
+  return createDocument({
+    title: `${source.title} (사본)`,
+    content: source.content,
+  });
+}
+
+/** 휴지통으로 이동 (soft delete). 파일은 그대로 남는다 */
+export async function trashDocument(id: string) {
+  return updateDocument(id, (existing) => ({
+    ...existing,
+    deletedAt: existing.deletedAt ?? new Date().toISOString(),
+  }));
+}
+
+export async function restoreDocument(id: string) {
+  return updateDocument(id, (existing) => ({ ...existing, deletedAt: null }));
+}
@@ -0,0 +1,63 @@
+import type { JSONContent } from "@tiptap/core";
+import { flattenMentions } from "@/lib/mentions/content";
+import type { DocumentStats } from "./types";
+
+const BLOCK_SEPARATOR = "\n\n";
+
+function collectTextBlocks(node: JSONContent, out: string[]) {
+  if (node.type === "text") return;
+
+  const children = node.content ?? [];
+  const isTextBlock = children.some(
+    (child) => child.type === "text" || child.type === "hardBreak"
+  );
+
+  if (isTextBlock) {
+    const text = children
+      .map((child) =>
+        child.type === "hardBreak" ? "\n" : (child.text ?? "")
+      )
+      .join("");
+    if (text.length > 0) out.push(text);
+    return;
+  }
+
+  children.forEach((child) => collectTextBlocks(child, out));
+}
+
+/**
+ * 서버에서도 쓸 수 있도록 editor.getText()와 같은 규칙
+ * (블록 사이를 빈 줄로 구분)으로 JSON에서 텍스트를 뽑는다.
+ */
+export function getDocumentText(doc: JSONContent) {
+  const blocks: string[] = [];
+  collectTextBlocks(flattenMentions(doc), blocks);
+  return blocks.join(BLOCK_SEPARATOR);
+}
+
+/** 글이 있는 첫 문단 (게시 페이지 미리보기 설명용). 없으면 "" */
+export function getFirstParagraphText(doc: JSONContent): string {
+  for (const child of doc.content ?? []) {
+    if (child.type === "paragraph") {
+      const text = getDocumentText({ type: "doc", content: [child] }).trim();
+      if (text) return text;
+    } else if (child.type !== "heading") {
+      const text = getFirstParagraphText(child);
+      if (text) return text;
+    }
+  }
+  return "";
+}
+
+// 헤더 subtitle과 문서 목록이 같은 숫자를 보여주도록 한 곳에서 계산
+export function getTextStats(text: string): DocumentStats {
+  return {
+    characters: text.length,
+    paragraphs: text.split("\n").filter((line) => line.trim().length > 0)
+      .length,
+  };
+}
+
+export function formatStats({ characters, paragraphs }: DocumentStats) {
+  return `${characters.toLocaleString()} chars · ${paragraphs} paras`;
+}
@@ -0,0 +1,40 @@
+import type { JSONContent } from "@tiptap/core";
+
+export interface StoredDocument {
+  id: string;
+  title: string;
+  /** 에디터의 ProseMirror JSON (editor.getJSON()) */
+  content: JSONContent;
+  createdAt: string;
+  updatedAt: string;
+  /** 휴지통으로 보낸 시각. null이면 활성 문서 */
+  deletedAt: string | null;
+}
+
+export interface DocumentStats {
+  characters: number;
+  paragraphs: number;
+}
+
+/** 문서 목록에 쓰는 요약 정보 (본문 제외) */
+export interface DocumentSummary extends DocumentStats {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+}
+
+export interface SaveDocumentInput {
+  title: string;
+  content: JSONContent;
+}
+
+export type SaveStatus = "Saved" | "Editing" | "Saving" | "Failed";
+
+export const DEFAULT_DOCUMENT_TITLE = "Untitled document";
+
+export const EMPTY_DOCUMENT: JSONContent = {
+  type: "doc",
+  content: [{ type: "paragraph" }],
+};
@@ -0,0 +1,29 @@
+import type { SaveDocumentInput } from "./types";
+
+// 요청 body에서 title/content만 골라낸다. 형식이 틀리면 null.
+export function parseSaveDocumentInput(
+  body: unknown
+): Partial<SaveDocumentInput> | null {
+  if (!body || typeof body !== "object") return null;
+  const { title, content } = body as Record<string, unknown>;
+
+  const input: Partial<SaveDocumentInput> = {};
+
+  if (title !== undefined) {
+    if (typeof title !== "string") return null;
+    input.title = title;
+  }
+
+  if (content !== undefined) {
+    if (
+      !content ||
+      typeof content !== "object" ||
+      (content as { type?: unknown }).type !== "doc"
+    ) {
+      return null;
+    }
+    input.content = content as SaveDocumentInput["content"];
+  }
+
+  return input;
+}
@@ -0,0 +1,280 @@
+import { readFileSync } from "fs";
+import type { JSONContent } from "@tiptap/core";
+import { describe, expect, it } from "vitest";
+import { documentToDocx } from "./export";
+import { docxToDocument, type DocxImportedImage } from "./import";
+import { readZip } from "./zip";
+
+type Mark = NonNullable<JSONContent["marks"]>[number];
+
+function fixture(name: string) {
+  return new Uint8Array(readFileSync(new URL(`./fixtures/${name}`, import.meta.url)));
+}
+
+function text(value: string, ...marks: Mark[]): JSONContent {
+  return marks.length > 0
+    ? { type: "text", text: value, marks }
+    : { type: "text", text: value };
+}
+
+function paragraph(...content: JSONContent[]): JSONContent {
+  return { type: "paragraph", content };
+}
+
+function cell(type: string, value: string): JSONContent {
+  return { type, attrs: { colspan: 1, rowspan: 1 }, content: [paragraph(text(value))] };
+}
+
+/** 그림은 받은 파일 이름을 src로 (업로드 대신) */
+async function importDocx(bytes: Uint8Array) {
+  const images: DocxImportedImage[] = [];
+  const doc = await docxToDocument(bytes, {
+    image: (image) => {
+      images.push(image);
+      return { src: `blob:${image.name}` };
+    },
+  });
+  return { doc, images };
+}
+
+// Word가 만든 tiny-picture.docx의 10×10 PNG
+const PNG = (await readZip(fixture("word/tiny-picture.docx"))).get(
+  "word/media/image1.png"
+)!;
+
+/**
+ * fixtures/writetracer-export.docx는 이 문서를 documentToDocx로 내보낸 것.
+ * 내보내기가 바뀌어도 예전에 내보낸 파일을 그대로 읽는지 확인한다.
+ */
+const SAMPLE: JSONContent = {
+  type: "doc",
+  content: [
+    { type: "heading", attrs: { level: 1 }, content: [text("보고서")] },
+    { type: "heading", attrs: { level: 2 }, content: [text("요약")] },
+    { type: "heading", attrs: { level: 3 }, content: [text("세부")] },
+    { type: "paragraph", attrs: { textAlign: "center" }, content: [text("가운데")] },
+    { type: "paragraph", attrs: { textAlign: "right" }, content: [text("오른쪽")] },
+    paragraph(
+      text("빨강", { type: "textStyle", attrs: { color: "#ff0000" } }),
+      text(" "),
+      text("형광", { type: "highlight" }),
+      text(" "),
+      text("밑줄", { type: "underline" }),
+      text(" H"),
+      text("2", { type: "subscript" }),
+      text("O x"),
+      text("2", { type: "superscript" })
+    ),
+    {
+      type: "orderedList",
+      attrs: { start: 3 },
+      content: [
+        {
+          type: "listItem",
+          content: [
+            paragraph(text("셋")),
+            {
+              type: "bulletList",
+              content: [{ type: "listItem", content: [paragraph(text("하위"))] }],
+            },
+          ],
+        },
+        { type: "listItem", content: [paragraph(text("넷"))] },
+      ],
+    },
+    {
+      type: "table",
+      content: [
+        {
+          type: "tableRow",
+          content: [
+            { type: "tableHeader", content: [paragraph(text("이름"))] },
+            { type: "tableHeader", content: [paragraph(text("값"))] },
+          ],
+        },
+        {
+          type: "tableRow",
+          content: [
+            { type: "tableCell", content: [paragraph(text("a"))] },
+            { type: "tableCell", content: [paragraph(text("1"))] },
+          ],
+        },
+      ],
+    },
+    {
+      type: "image",
+      attrs: {
+        src: "/api/images/img1/original",
+        alt: "점",
+        caption: null,
+        width: 10,
+        height: 10,
+      },
+    },
+  ],
+};
+
+/** SAMPLE을 내보냈다가 다시 가져온 모습 */
+const SAMPLE_IMPORTED: JSONContent = {
+  type: "doc",
+  content: [
+    ...SAMPLE.content!.slice(0, 5),
+    paragraph(
+      text("빨강", { type: "textStyle", attrs: { color: "#FF0000" } }),
+      ...SAMPLE.content![5].content!.slice(1)
+    ),
+    SAMPLE.content![6],
+    {
+      type: "table",
+      content: [
+        { type: "tableRow", content: [cell("tableHeader", "이름"), cell("tableHeader", "값")] },
+        { type: "tableRow", content: [cell("tableCell", "a"), cell("tableCell", "1")] },
+      ],
+    },
+    {
+      type: "image",
+      attrs: { src: "blob:image1.png", alt: "점", width: 10, height: 10, align: "left" },
+    },
+  ],
+};
+
+async function exportSample() {
+  const bytes = await documentToDocx(SAMPLE, {
+    title: "보고서",
+    loadImage: async () => ({ data: PNG, type: "image/png", width: 10, height: 10 }),
+    resolveUrl: (href) => `https://writetracer.test${href}`,
+  });
+  const files = await readZip(bytes);
+  const xml = (path: string) => new TextDecoder().decode(files.get(path));
+  return { bytes, files, document: xml("word/document.xml"), numbering: xml("word/numbering.xml") };
+}
+
+describe("Word에서 만든 문서 가져오기", () => {
+  it("글머리 기호 목록", async () => {
+    const { doc } = await importDocx(fixture("word/simple-list.docx"));
+    expect(doc).toEqual({
+      type: "doc",
+      content: [
+        {
+          type: "bulletList",
+          content: [
+            { type: "listItem", content: [paragraph(text("Apple"))] },
+            { type: "listItem", content: [paragraph(text("Banana"))] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("표: 머리글 행 반복이 꺼져 있으면 모두 일반 셀", async () => {
+    const { doc } = await importDocx(fixture("word/tables.docx"));
+    expect(doc).toEqual({
+      type: "doc",
+      content: [
+        paragraph(text("Above")),
+        {
+          type: "table",
+          content: [
+            {
+              type: "tableRow",
+              content: [cell("tableCell", "Top left"), cell("tableCell", "Top right")],
+            },
+            {
+              type: "tableRow",
+              content: [cell("tableCell", "Bottom left"), cell("tableCell", "Bottom right")],
+            },
+          ],
+        },
+        paragraph(text("Below")),
+      ],
+    });
+  });
+
+  it("그림: 크기와 파일", async () => {
+    const { doc, images } = await importDocx(fixture("word/tiny-picture.docx"));
+    expect(doc.content).toEqual([
+      {
+        type: "image",
+        attrs: { src: "blob:image1.png", alt: null, width: 10, height: 10, align: "left" },
+      },
+    ]);
+    expect(images).toHaveLength(1);
+    expect(images[0].type).toBe("image/png");
+    expect(images[0].data).toEqual(PNG);
+  });
+
+  it("굵게 + 밑줄", async () => {
+    const { doc } = await importDocx(fixture("word/underline.docx"));
+    expect(doc.content).toEqual([
+      paragraph(
+        text("The ", { type: "bold" }),
+        text("Sunset", { type: "bold" }, { type: "underline" }),
+        text(" Tree", { type: "bold" })
+      ),
+    ]);
+  });
+});
+
+describe("Word로 내보내기", () => {
+  it("제목은 Heading 스타일, 정렬은 w:jc", async () => {
+    const { document } = await exportSample();
+    expect(document).toContain('<w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t xml:space="preserve">보고서</w:t>');
+    expect(document).toContain('<w:pStyle w:val="Heading2"/>');
+    expect(document).toContain('<w:pStyle w:val="Heading3"/>');
+    expect(document).toContain('<w:jc w:val="center"/></w:pPr><w:r><w:t xml:space="preserve">가운데');
+    expect(document).toContain('<w:jc w:val="right"/></w:pPr><w:r><w:t xml:space="preserve">오른쪽');
+  });
+
+  it("글자 색, 하이라이트, 밑줄, 아래/위 첨자", async () => {
+    const { document } = await exportSample();
+    const run = (properties: string, value: string) =>
+      `<w:r><w:rPr>${properties}</w:rPr><w:t xml:space="preserve">${value}</w:t></w:r>`;
+    expect(document).toContain(run('<w:color w:val="FF0000"/>', "빨강"));
+    expect(document).toContain(run('<w:highlight w:val="yellow"/>', "형광"));
+    expect(document).toContain(run('<w:u w:val="single"/>', "밑줄"));
+    expect(document).toContain(run('<w:vertAlign w:val="subscript"/>', "2"));
+    expect(document).toContain(run('<w:vertAlign w:val="superscript"/>', "2"));
+  });
+
+  it("번호 목록은 시작 번호를, 하위 목록은 수준을 유지한다", async () => {
+    const { document, numbering } = await exportSample();
+    const item = (level: number, numId: number, value: string) =>
+      `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr></w:pPr><w:r><w:t xml:space="preserve">${value}`;
+    expect(document).toContain(item(0, 1, "셋"));
+    expect(document).toContain(item(1, 2, "하위"));
+    expect(document).toContain(item(0, 1, "넷"));
+    // numId 1: 숫자 (abstractNum 1)에서 3부터, numId 2: 글머리 기호 (abstractNum 0)
+    expect(numbering).toContain(
+      '<w:num w:numId="1"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="3"/>'
+    );
+    expect(numbering).toContain('<w:num w:numId="2"><w:abstractNumId w:val="0"/>');
+    expect(numbering).toMatch(/<w:abstractNum w:abstractNumId="1">.*?<w:lvl w:ilvl="0"><w:start w:val="1"\/><w:numFmt w:val="decimal"\/>/);
+  });
+
+  it("표 머리글 행만 머리글 행 반복", async () => {
+    const { document } = await exportSample();
+    const rows = document.match(/<w:tr>.*?<\/w:tr>/g) ?? [];
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toContain("<w:trPr><w:tblHeader/></w:trPr>");
+    expect(rows[1]).not.toContain("w:tblHeader");
+  });
+
+  it("그림은 word/media에 넣고 크기를 EMU로", async () => {
+    const { document, files } = await exportSample();
+    expect(files.get("word/media/image1.png")).toEqual(PNG);
+    expect(document).toContain('<wp:extent cx="95250" cy="95250"/><wp:docPr id="1" name="Picture 1" descr="점"/>');
+  });
+});
+
+describe("Writetracer가 내보낸 문서 가져오기", () => {
+  it("예전에 내보낸 fixture", async () => {
+    const { doc } = await importDocx(fixture("writetracer-export.docx"));
+    expect(doc).toEqual(SAMPLE_IMPORTED);
+  });
+
+  it("지금 내보낸 문서", async () => {
+    const { bytes } = await exportSample();
+    const { doc } = await importDocx(bytes);
+    expect(doc).toEqual(SAMPLE_IMPORTED);
+  });
+});
@@ -0,0 +1,529 @@
+import type { JSONContent } from "@tiptap/core";
+import { fileUrl } from "@/lib/files/client";
+import { flattenMentions } from "@/lib/mentions/content";
+import { expandTableOfContents } from "@/lib/outline/content";
+import { attachmentTitle } from "@/lib/markdown/syntax";
+import { escapeXml } from "./xml";
+import {
+  BULLET_GLYPHS,
+  CODE_FONT,
+  CONTENT_WIDTH_EMU,
+  DOCX_STYLES,
+  EMU_PER_PX,
+  TASK_GLYPHS,
+  type DocxImage,
+} from "./styles";
+import { createZip } from "./zip";
+
+/**
+ * 문서(ProseMirror JSON) → .docx. 서버나 외부 변환 서비스 없이 브라우저에서 만든다.
+ *
+ * Word로 옮기는 방식
+ * - 제목 1~3, 인용, 코드 블록, 캡션은 같은 이름의 Word 스타일 (styles.ts)
+ * - 글머리/번호 목록은 Word 번호 매기기. 할 일 목록은 기호 없는 목록 + ☐/☑ 글자
+ * - 표 머리글 행은 "머리글 행 반복", 셀 병합은 gridSpan/vMerge
+ * - 정렬, 글자 색, 하이라이트, 밑줄, 취소선, 위/아래 첨자는 글자 서식 그대로
+ * - YouTube와 첨부 파일은 링크 문단, 구분선은 아래 테두리 문단
+ * - 댓글과 붙여넣기 표시는 버리고, 대기 중인 제안은 모두 수락한 모습으로 내보낸다
+ */
+
+type Mark = NonNullable<JSONContent["marks"]>[number];
+
+export interface DocxExportOptions {
+  title: string;
+  /** 이미지 주소 → Word가 읽을 수 있는 PNG/JPEG/GIF. 못 읽으면 null (대체 텍스트만) */
+  loadImage: (src: string) => Promise<DocxImage | null>;
+  /** /api/files/... 같은 상대 주소를 절대 주소로 */
+  resolveUrl: (href: string) => string;
+}
+
+interface BlockContext {
+  /** 인용 안이면 Quote 스타일 */
+  quote: boolean;
+  /** 목록 안의 두 번째 문단부터 맞출 들여쓰기 수준 */
+  indentLevel: number | null;
+}
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+].join(" ");
+
+const REL_TYPES = {
+  hyperlink: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink",
+  image: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/image",
+  styles: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles",
+  numbering: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering",
+};
+
+const ALIGNMENTS: Record<string, string> = {
+  center: "center",
+  right: "right",
+  justify: "both",
+};
+
+const IMAGE_EXTENSIONS: Record<DocxImage["type"], string> = {
+  "image/png": "png",
+  "image/jpeg": "jpeg",
+  "image/gif": "gif",
+};
+
+const DELETION_MARK = "deletion";
+
+/** #rgb, #rrggbb, rgb(r, g, b) → RRGGBB. 그 밖의 색 이름은 버린다 */
+function toHexColor(color: unknown) {
+  const value = String(color ?? "").trim().toLowerCase();
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/.exec(value);
+  if (short) return (short[1] + short[1] + short[2] + short[2] + short[3] + short[3]).toUpperCase();
+  const long = /^#([0-9a-f]{6})$/.exec(value);
+  if (long) return long[1].toUpperCase();
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/.exec(value);
+  if (rgb) {
+    return rgb
+      .slice(1, 4)
+      .map((part) => Math.min(255, Number(part)).toString(16).padStart(2, "0"))
+      .join("")
+      .toUpperCase();
+  }
+  return null;
+}
+
+function textRun(text: string, properties = "") {
+  // 줄바꿈과 탭은 w:t 안에 둘 수 없다
+  const parts = text.split(/(\t)/).map((part) =>
+    part === "\t" ? "<w:tab/>" : part ? `<w:t xml:space="preserve">${escapeXml(part)}</w:t>` : ""
+  );
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ""}${parts.join("")}</w:r>`;
+}
+
+function runProperties(marks: Mark[]) {
+  const has = (type: string) => marks.some((mark) => mark.type === type);
+  const color = toHexColor(marks.find((mark) => mark.type === "textStyle")?.attrs?.color);
+  // w:rPr 안의 순서는 스키마가 정해 둔 순서를 따라야 한다
+  return [
+    has("link") && '<w:rStyle w:val="Hyperlink"/>',
+    has("code") && `<w:rFonts w:ascii="${CODE_FONT}" w:hAnsi="${CODE_FONT}" w:cs="${CODE_FONT}"/>`,
+    has("bold") && "<w:b/>",
+    has("italic") && "<w:i/>",
+    has("strike") && "<w:strike/>",
+    color && `<w:color w:val="${color}"/>`,
+    has("highlight") && '<w:highlight w:val="yellow"/>',
+    has("underline") && '<w:u w:val="single"/>',
+    has("code") && '<w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/>',
+    has("subscript") && '<w:vertAlign w:val="subscript"/>',
+    has("superscript") && '<w:vertAlign w:val="superscript"/>',
+  ]
+    .filter(Boolean)
+    .join("");
+}
+
+function paragraphProperties({
+  style,
+  align,
+  numbering,
+  indentLevel,
+  extra = "",
+}: {
+  style?: string | null;
+  align?: unknown;
+  numbering?: { numId: number; level: number } | null;
+  indentLevel?: number | null;
+  extra?: string;
+}) {
+  const jc = ALIGNMENTS[String(align ?? "")];
+  const parts = [
+    style && `<w:pStyle w:val="${style}"/>`,
+    numbering &&
+      `<w:numPr><w:ilvl w:val="${numbering.level}"/><w:numId w:val="${numbering.numId}"/></w:numPr>`,
+    extra,
+    !numbering &&
+      indentLevel !== null &&
+      indentLevel !== undefined &&
+      `<w:ind w:left="${720 * (indentLevel + 1)}"/>`,
+    jc && `<w:jc w:val="${jc}"/>`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `<w:pPr>${parts.join("")}</w:pPr>` : "";
+}
+
+/** 문서 하나를 내보내는 동안의 관계/번호/그림 상태 */
+class DocxWriter {
+  private relationships: string[] = [];
+  private media: Array<{ path: string; data: Uint8Array }> = [];
+  private numbering: Array<{ numId: number; abstractId: number; level: number; start: number }> = [];
+  private drawingId = 0;
+
+  constructor(private options: DocxExportOptions) {}
+
+  private addRelationship(type: string, target: string, external = false) {
+    const id = `rId${this.relationships.length + 10}`;
+    this.relationships.push(
+      `<Relationship Id="${id}" Type="${type}" Target="${escapeXml(target)}"${
+        external ? ' TargetMode="External"' : ""
+      }/>`
+    );
+    return id;
+  }
+
+  private addList(abstractId: number, level: number, start = 1) {
+    const numId = this.numbering.length + 1;
+    this.numbering.push({ numId, abstractId, level, start });
+    return numId;
+  }
+
+  private inline(nodes: JSONContent[]) {
+    let out = "";
+    let link: { href: string; title: string | null; runs: string } | null = null;
+
+    const flushLink = () => {
+      if (!link) return;
+      const id = this.addRelationship(REL_TYPES.hyperlink, this.options.resolveUrl(link.href), true);
+      const tooltip = link.title ? ` w:tooltip="${escapeXml(link.title)}"` : "";
+      out += `<w:hyperlink r:id="${id}" w:history="1"${tooltip}>${link.runs}</w:hyperlink>`;
+      link = null;
+    };
+
+    nodes.forEach((node) => {
+      const marks = node.marks ?? [];
+      if (marks.some((mark) => mark.type === DELETION_MARK)) return;
+
+      const run =
+        node.type === "hardBreak"
+          ? "<w:r><w:br/></w:r>"
+          : node.type === "text" && node.text
+            ? textRun(node.text, runProperties(marks))
+            : "";
+      if (!run) return;
+
+      const linkMark = marks.find((mark) => mark.type === "link");
+      const href = linkMark ? String(linkMark.attrs?.href ?? "") : null;
+      if (link && link.href !== href) flushLink();
+      if (href) {
+        link ??= { href, title: (linkMark?.attrs?.title as string | null) ?? null, runs: "" };
+        link.runs += run;
+      } else {
+        out += run;
+      }
+    });
+    flushLink();
+    return out;
+  }
+
+  private paragraph(node: JSONContent, context: BlockContext, style?: string | null) {
+    return `<w:p>${paragraphProperties({
+      style: style ?? (context.quote ? "Quote" : null),
+      align: node.attrs?.textAlign,
+      indentLevel: context.indentLevel,
+    })}${this.inline(node.content ?? [])}</w:p>`;
+  }
+
+  private linkParagraph(text: string, href: string, title: string | null, context: BlockContext) {
+    return this.paragraph(
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text, marks: [{ type: "link", attrs: { href, title } }] },
+        ],
+      },
+      context
+    );
+  }
+
+  private async image(node: JSONContent, context: BlockContext) {
+    const src = node.attrs?.src as string | null;
+    const alt = String(node.attrs?.alt ?? "");
+    const caption = (node.attrs?.caption as string | null) ?? null;
+    const loaded = src ? await this.options.loadImage(src).catch(() => null) : null;
+
+    const align = node.attrs?.align === "full" ? "center" : node.attrs?.align;
+    const captionParagraph = caption
+      ? `<w:p>${paragraphProperties({ style: "Caption", align })}${textRun(caption)}</w:p>`
+      : "";
+
+    if (!loaded) {
+      // 그림을 못 가져오면 대체 텍스트라도 남긴다
+      const fallback = alt || caption ? `[${alt || caption}]` : "";
+      return fallback
+        ? `<w:p>${paragraphProperties({ align })}${textRun(fallback)}</w:p>${captionParagraph}`
+        : "";
+    }
+
+    const index = this.media.length + 1;
+    const mediaPath = `media/image${index}.${IMAGE_EXTENSIONS[loaded.type]}`;
+    this.media.push({ path: `word/${mediaPath}`, data: loaded.data });
+    const id = this.addRelationship(REL_TYPES.image, mediaPath);
+
+    // 편집기에서 줄인 폭이 있으면 그 폭으로, 본문 폭보다 넓으면 맞춘다
+    const displayWidth =
+      node.attrs?.align === "full" ? Infinity : Number(node.attrs?.width) || loaded.width;
+    const ratio = loaded.height / Math.max(loaded.width, 1);
+    const cx = Math.min(Math.round(displayWidth * EMU_PER_PX), CONTENT_WIDTH_EMU);
+    const cy = Math.round(cx * ratio);
+    const drawingId = ++this.drawingId;
+    const name = `Picture ${drawingId}`;
+
+    const drawing =
+      `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+      `<wp:extent cx="${cx}" cy="${cy}"/>` +
+      `<wp:docPr id="${drawingId}" name="${name}" descr="${escapeXml(alt)}"/>` +
+      `<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+      `<pic:pic><pic:nvPicPr><pic:cNvPr id="${drawingId}" name="${name}" descr="${escapeXml(alt)}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+      `<pic:blipFill><a:blip r:embed="${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>` +
+      `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic>` +
+      `</a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+
+    return `<w:p>${paragraphProperties({
+      align,
+      indentLevel: context.indentLevel,
+    })}${drawing}</w:p>${captionParagraph}`;
+  }
+
+  private async list(node: JSONContent, level: number, context: BlockContext) {
+    const abstractId = node.type === "orderedList" ? 1 : node.type === "taskList" ? 2 : 0;
+    const numId = this.addList(abstractId, level, Number(node.attrs?.start) || 1);
+
+    const items = await Promise.all(
+      (node.content ?? []).map(async (item) => {
+        const [first, ...rest] = item.content ?? [];
+        const prefix =
+          node.type === "taskList"
+            ? [{ type: "text", text: `${item.attrs?.checked ? TASK_GLYPHS.checked : TASK_GLYPHS.unchecked} ` }]
+            : [];
+        const head =
+          first?.type === "paragraph"
+            ? `<w:p>${paragraphProperties({
+                style: context.quote ? "Quote" : "ListParagraph",
+                align: first.attrs?.textAlign,
+                numbering: { numId, level },
+              })}${this.inline([...prefix, ...(first.content ?? [])])}</w:p>`
+            : "";
+        const body = await this.blocks(first?.type === "paragraph" ? rest : item.content ?? [], {
+          ...context,
+          indentLevel: level,
+        }, level + 1);
+        return head + body;
+      })
+    );
+    return items.join("");
+  }
+
+  private async table(node: JSONContent, context: BlockContext) {
+    const rows = node.content ?? [];
+    // 위에서 rowspan으로 내려온 칸 (열 번호 → 남은 행 수)
+    const carried = new Map<number, { remaining: number; span: number }>();
+    let columns = 0;
+
+    const rowXml = await Promise.all(
+      rows.map(async (row) => {
+        const cells = row.content ?? [];
+        const header = cells.length > 0 && cells.every((cell) => cell.type === "tableHeader");
+        const out: string[] = [];
+        let column = 0;
+
+        const emitCarried = () => {
+          let carry = carried.get(column);
+          while (carry) {
+            out.push(
+              `<w:tc><w:tcPr>${carry.span > 1 ? `<w:gridSpan w:val="${carry.span}"/>` : ""}<w:vMerge/></w:tcPr><w:p/></w:tc>`
+            );
+            const span = carry.span;
+            if (--carry.remaining === 0) carried.delete(column);
+            column += span;
+            carry = carried.get(column);
+          }
+        };
+
+        for (const cell of cells) {
+          emitCarried();
+          const colspan = Number(cell.attrs?.colspan) || 1;
+          const rowspan = Number(cell.attrs?.rowspan) || 1;
+          if (rowspan > 1) carried.set(column, { remaining: rowspan - 1, span: colspan });
+
+          const content = await this.blocks(cell.content ?? [], { ...context, indentLevel: null });
+          // 셀 배경색이 없으면 머리글 셀만 옅은 회색
+          const fill =
+            toHexColor(cell.attrs?.backgroundColor) ?? (cell.type === "tableHeader" ? "F2F2F2" : null);
+          const properties = [
+            colspan > 1 && `<w:gridSpan w:val="${colspan}"/>`,
+            rowspan > 1 && '<w:vMerge w:val="restart"/>',
+            fill && `<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>`,
+          ].filter(Boolean);
+          out.push(
+            `<w:tc>${properties.length > 0 ? `<w:tcPr>${properties.join("")}</w:tcPr>` : ""}${
+              content.endsWith("</w:p>") ? content : `${content}<w:p/>`
+            }</w:tc>`
+          );
+          column += colspan;
+        }
+        emitCarried();
+        columns = Math.max(columns, column);
+
+        return `<w:tr>${header ? "<w:trPr><w:tblHeader/></w:trPr>" : ""}${out.join("")}</w:tr>`;
+      })
+    );
+
+    const width = Math.floor(9026 / Math.max(columns, 1));
+    return (
+      `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>` +
+      `<w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(columns)}</w:tblGrid>` +
+      `${rowXml.join("")}</w:tbl>` +
+      // 표 바로 뒤에 표가 오면 Word가 합쳐 버리므로 빈 문단으로 나눈다
+      "<w:p/>"
+    );
+  }
+
+  private async block(node: JSONContent, context: BlockContext, level: number): Promise<string> {
+    switch (node.type) {
+      case "paragraph":
+        return this.paragraph(node, context);
+      case "heading": {
+        const headingLevel = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 3);
+        return this.paragraph(node, context, `Heading${headingLevel}`);
+      }
+      case "blockquote":
+        return this.blocks(node.content ?? [], { ...context, quote: true }, level);
+      case "bulletList":
+      case "orderedList":
+      case "taskList":
+        return this.list(node, level, context);
+      case "codeBlock": {
+        const lines = (node.content ?? [])
+          .map((child) => child.text ?? "")
+          .join("")
+          .split("\n");
+        const runs = lines
+          .map((line, index) => (index > 0 ? "<w:r><w:br/></w:r>" : "") + (line ? textRun(line) : ""))
+          .join("");
+        return `<w:p>${paragraphProperties({ style: "Code", indentLevel: context.indentLevel })}${runs}</w:p>`;
+      }
+      case "horizontalRule":
+        return `<w:p>${paragraphProperties({
+          extra: '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>',
+        })}</w:p>`;
+      case "image":
+        return this.image(node, context);
+      case "youtube": {
+        const src = node.attrs?.src as string | null;
+        return src ? this.linkParagraph(`YouTube: ${src}`, src, null, context) : "";
+      }
+      case "attachment": {
+        const fileId = node.attrs?.fileId as string | null;
+        if (!fileId) return "";
+        const name = String(node.attrs?.name || "파일");
+        return this.linkParagraph(
+          `📎 ${name}`,
+          fileUrl(fileId, { name, download: true }),
+          attachmentTitle(Number(node.attrs?.size) || 0, String(node.attrs?.type ?? "")),
+          context
+        );
+      }
+      case "table":
+        return this.table(node, context);
+      default:
+        return node.content ? this.blocks(node.content, context, level) : "";
+    }
+  }
+
+  private async blocks(nodes: JSONContent[], context: BlockContext, level = 0) {
+    const parts: string[] = [];
+    // 그림을 순서대로 가져오도록 하나씩
+    for (const node of nodes) parts.push(await this.block(node, context, level));
+    return parts.join("");
+  }
+
+  private numberingXml() {
+    const abstracts = [0, 1, 2]
+      .map((abstractId) => {
+        const levels = Array.from({ length: 9 }, (_, level) => {
+          const indent = `<w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr>`;
+          if (abstractId === 0) {
+            const glyph = BULLET_GLYPHS[level % BULLET_GLYPHS.length];
+            return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="${glyph}"/><w:lvlJc w:val="left"/>${indent}</w:lvl>`;
+          }
+          if (abstractId === 1) {
+            const format = ["decimal", "lowerLetter", "lowerRoman"][level % 3];
+            return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="%${level + 1}."/><w:lvlJc w:val="left"/>${indent}</w:lvl>`;
+          }
+          // 할 일 목록: 기호 없이 들여쓰기만 (☐/☑는 글자로)
+          return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="none"/><w:lvlText w:val=""/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * level + 360}" w:hanging="0"/></w:pPr></w:lvl>`;
+        }).join("");
+        return `<w:abstractNum w:abstractNumId="${abstractId}"><w:multiLevelType w:val="hybridMultilevel"/>${levels}</w:abstractNum>`;
+      })
+      .join("");
+
+    const nums = this.numbering
+      .map(
+        ({ numId, abstractId, level, start }) =>
+          `<w:num w:numId="${numId}"><w:abstractNumId w:val="${abstractId}"/>` +
+          `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`
+      )
+      .join("");
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:numbering ${NAMESPACES}>${abstracts}${nums}</w:numbering>`;
+  }
+
+  async write(doc: JSONContent) {
+    const body = await this.blocks(doc.content ?? [], { quote: false, indentLevel: null });
+    const documentXml =
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:document ${NAMESPACES}><w:body>${body}` +
+      // A4, 여백 1인치
+      `<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>` +
+      `</w:body></w:document>`;
+
+    const stylesId = "rId1";
+    const numberingId = "rId2";
+    const documentRels =
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="${stylesId}" Type="${REL_TYPES.styles}" Target="styles.xml"/>` +
+      `<Relationship Id="${numberingId}" Type="${REL_TYPES.numbering}" Target="numbering.xml"/>` +
+      `${this.relationships.join("")}</Relationships>`;
+
+    const contentTypes =
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+      `<Default Extension="xml" ContentType="application/xml"/>` +
+      `<Default Extension="png" ContentType="image/png"/>` +
+      `<Default Extension="jpeg" ContentType="image/jpeg"/>` +
+      `<Default Extension="gif" ContentType="image/gif"/>` +
+      `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>` +
+      `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>` +
+      `<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>` +
+      `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>` +
+      `</Types>`;
+
+    const rootRels =
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>` +
+      `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>` +
+      `</Relationships>`;
+
+    const now = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+    const coreXml =
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">` +
+      `<dc:title>${escapeXml(this.options.title)}</dc:title>` +
+      `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>` +
+      `<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>` +
+      `</cp:coreProperties>`;
+
+    const encoder = new TextEncoder();
+    return createZip([
+      { path: "[Content_Types].xml", data: encoder.encode(contentTypes) },
+      { path: "_rels/.rels", data: encoder.encode(rootRels) },
+      { path: "docProps/core.xml", data: encoder.encode(coreXml) },
+      { path: "word/document.xml", data: encoder.encode(documentXml) },
+      { path: "word/styles.xml", data: encoder.encode(DOCX_STYLES) },
+      { path: "word/numbering.xml", data: encoder.encode(this.numberingXml()) },
+      { path: "word/_rels/document.xml.rels", data: encoder.encode(documentRels) },
+      ...this.media,
+    ]);
+  }
+}
+
+export async function documentToDocx(doc: JSONContent, options: DocxExportOptions) {
+  return new DocxWriter(options).write(
+    expandTableOfContents(flattenMentions(doc))
+  );
+}
@@ -0,0 +1,38 @@
+import type { DocxImage } from "./styles";
+
+const WORD_IMAGE_TYPES = new Set<string>(["image/png", "image/jpeg", "image/gif"]);
+
+/**
+ * 내보내기용 그림 읽기 (브라우저 전용).
+ * 에셋 변형은 webp라 Word가 못 여는 형식은 canvas로 PNG로 바꾼다.
+ */
+export async function loadDocxImage(src: string): Promise<DocxImage | null> {
+  const res = await fetch(src);
+  if (!res.ok) return null;
+  const blob = await res.blob();
+  const bitmap = await createImageBitmap(blob);
+
+  try {
+    const { width, height } = bitmap;
+    if (WORD_IMAGE_TYPES.has(blob.type)) {
+      return {
+        data: new Uint8Array(await blob.arrayBuffer()),
+        type: blob.type as DocxImage["type"],
+        width,
+        height,
+      };
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+    const png = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/png")
+    );
+    if (!png) return null;
+    return { data: new Uint8Array(await png.arrayBuffer()), type: "image/png", width, height };
+  } finally {
+    bitmap.close();
+  }
+}
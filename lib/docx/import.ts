@@ -0,0 +1,687 @@
+import type { JSONContent } from "@tiptap/core";
+import { matchFileId, parseAttachmentTitle } from "@/lib/markdown/syntax";
+import { EMU_PER_PX, MONOSPACE_FONTS, TASK_GLYPHS, TASK_PREFIX } from "./styles";
+import { descendants, element, elements, parseXml, path, type XmlElement } from "./xml";
+import { readZip } from "./zip";
+
+/**
+ * .docx → 문서(ProseMirror JSON). Word 스타일을 편집기 노드/마크로 되돌린다.
+ *
+ * - 스타일 이름(또는 개요 수준)이 제목 1~3이면 제목. 제목 4~9는 제목 3, Title/Subtitle은 제목 1/2
+ * - Quote 계열은 인용, Code/Preformatted 계열은 코드 블록, Caption은 바로 앞 그림의 캡션
+ * - 번호 매기기는 numbering.xml의 형식(bullet/숫자)과 수준(ilvl)으로 목록과 중첩을 만든다.
+ *   ☐/☑/☒로 시작하는 항목은 할 일
+ * - 머리글 행 반복이 켜진 행은 표 머리글, gridSpan/vMerge는 셀 병합
+ * - 변경 내용 추적: 삽입은 받아들이고 삭제는 뺀다
+ * - 그 밖의 것(머리글/바닥글, 각주, 도형, 글상자, 수식)은 버린다
+ */
+
+type Mark = NonNullable<JSONContent["marks"]>[number];
+
+export interface DocxImportedImage {
+  data: Uint8Array;
+  type: string;
+  name: string;
+}
+
+export interface DocxImportOptions {
+  /** 문서 안 그림 → image 노드에 더할 속성 (src나 업로드 자리표시자). null이면 그림을 뺀다 */
+  image: (image: DocxImportedImage) => Record<string, unknown> | null;
+}
+
+type BlockKind = "paragraph" | "heading" | "quote" | "code" | "caption";
+
+interface StyleInfo {
+  name: string;
+  basedOn: string | null;
+  outlineLevel: number | null;
+  numbering: { numId: string; level: number } | null;
+  runProperties: XmlElement | undefined;
+}
+
+interface ListLevel {
+  format: string;
+  start: number;
+}
+
+/** 본문 문단 하나를 읽은 결과. 블록으로 묶기 전 단계 */
+interface ParagraphEntry {
+  kind: "entry";
+  block: BlockKind;
+  headingLevel: number;
+  quote: boolean;
+  align: string | null;
+  indent: number;
+  rule: boolean;
+  list: { numId: string; level: number } | null;
+  /** 그림을 기준으로 나눈 조각 */
+  parts: JSONContent[];
+}
+
+interface TableEntry {
+  kind: "table";
+  node: JSONContent;
+}
+
+type Entry = ParagraphEntry | TableEntry;
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+const ALIGNMENTS: Record<string, string> = {
+  center: "center",
+  right: "right",
+  end: "right",
+  both: "justify",
+  distribute: "justify",
+};
+
+const decoder = new TextDecoder();
+
+function isOn(el: XmlElement | undefined) {
+  if (!el) return false;
+  const value = el.attrs["w:val"];
+  return value === undefined || !["0", "false", "off", "none"].includes(value);
+}
+
+/** word/document.xml 기준 상대 경로 → ZIP 안 경로 */
+function resolvePartPath(target: string) {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = ["word"];
+  target.split("/").forEach((part) => {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  });
+  return parts.join("/");
+}
+
+function classifyStyleName(
+  name: string,
+  outlineLevel: number | null
+): { block: BlockKind; level: number } | null {
+  const heading = /^heading\s*(\d)$/.exec(name);
+  if (heading) return { block: "heading", level: Number(heading[1]) };
+  if (name === "title") return { block: "heading", level: 1 };
+  if (name === "subtitle") return { block: "heading", level: 2 };
+  if (name === "caption") return { block: "caption", level: 0 };
+  if (/quote|block text/.test(name)) return { block: "quote", level: 0 };
+  if (/code|preformatted|source/.test(name)) return { block: "code", level: 0 };
+  if (outlineLevel !== null && outlineLevel < 9) {
+    return { block: "heading", level: outlineLevel + 1 };
+  }
+  return null;
+}
+
+class DocxReader {
+  private styles = new Map<string, StyleInfo>();
+  private numbering = new Map<string, Map<number, ListLevel>>();
+  private relationships = new Map<string, { target: string; external: boolean }>();
+  private imageCount = 0;
+
+  constructor(
+    private files: Map<string, Uint8Array>,
+    private options: DocxImportOptions
+  ) {
+    this.readRelationships();
+    this.readStyles();
+    this.readNumbering();
+  }
+
+  private xml(partPath: string) {
+    const data = this.files.get(partPath);
+    return data ? parseXml(decoder.decode(data)) : undefined;
+  }
+
+  private readRelationships() {
+    elements(this.xml("word/_rels/document.xml.rels"), "Relationship").forEach((rel) => {
+      this.relationships.set(rel.attrs.Id, {
+        target: rel.attrs.Target ?? "",
+        external: rel.attrs.TargetMode === "External",
+      });
+    });
+  }
+
+  private readStyles() {
+    elements(this.xml("word/styles.xml"), "w:style").forEach((style) => {
+      const numPr = path(style, "w:pPr", "w:numPr");
+      const outline = path(style, "w:pPr", "w:outlineLvl")?.attrs["w:val"];
+      this.styles.set(style.attrs["w:styleId"], {
+        name: (path(style, "w:name")?.attrs["w:val"] ?? "").toLowerCase(),
+        basedOn: path(style, "w:basedOn")?.attrs["w:val"] ?? null,
+        outlineLevel: outline !== undefined ? Number(outline) : null,
+        numbering: numPr
+          ? {
+              numId: path(numPr, "w:numId")?.attrs["w:val"] ?? "0",
+              level: Number(path(numPr, "w:ilvl")?.attrs["w:val"] ?? 0),
+            }
+          : null,
+        runProperties: path(style, "w:rPr"),
+      });
+    });
+  }
+
+  private readNumbering() {
+    const root = this.xml("word/numbering.xml");
+    const abstracts = new Map<string, Map<number, ListLevel>>();
+    elements(root, "w:abstractNum").forEach((abstract) => {
+      const levels = new Map<number, ListLevel>();
+      elements(abstract, "w:lvl").forEach((lvl) => {
+        levels.set(Number(lvl.attrs["w:ilvl"] ?? 0), {
+          format: path(lvl, "w:numFmt")?.attrs["w:val"] ?? "decimal",
+          start: Number(path(lvl, "w:start")?.attrs["w:val"] ?? 1),
+        });
+      });
+      abstracts.set(abstract.attrs["w:abstractNumId"], levels);
+    });
+
+    elements(root, "w:num").forEach((num) => {
+      const abstractId = path(num, "w:abstractNumId")?.attrs["w:val"] ?? "";
+      const levels = new Map<number, ListLevel>();
+      abstracts.get(abstractId)?.forEach((info, level) => levels.set(level, { ...info }));
+      elements(num, "w:lvlOverride").forEach((override) => {
+        const level = Number(override.attrs["w:ilvl"] ?? 0);
+        const start = path(override, "w:startOverride")?.attrs["w:val"];
+        const current = levels.get(level);
+        if (current && start !== undefined) current.start = Number(start);
+      });
+      this.numbering.set(num.attrs["w:numId"], levels);
+    });
+  }
+
+  /** basedOn을 따라 올라가며 처음 답을 주는 스타일 값을 찾는다 */
+  private styleValue<T>(styleId: string | undefined, pick: (style: StyleInfo, id: string) => T | null) {
+    const seen = new Set<string>();
+    let current = styleId;
+    while (current && !seen.has(current)) {
+      seen.add(current);
+      const style = this.styles.get(current);
+      const value = style ? pick(style, current) : null;
+      if (value !== null) return value;
+      current = style?.basedOn ?? undefined;
+    }
+    return null;
+  }
+
+  private classify(styleId: string | undefined, outlineLevel: number | null) {
+    // styles.xml에 없는 스타일은 id를 이름 삼아 (Heading1 등)
+    const found =
+      this.styleValue(styleId, (style, id) =>
+        classifyStyleName(style.name || id.toLowerCase(), style.outlineLevel)
+      ) ??
+      (styleId && !this.styles.has(styleId)
+        ? classifyStyleName(styleId.toLowerCase(), null)
+        : null);
+    if (found) return { ...found, level: Math.min(found.level, 3) };
+    if (outlineLevel !== null && outlineLevel < 9) {
+      return { block: "heading" as const, level: Math.min(outlineLevel + 1, 3) };
+    }
+    return { block: "paragraph" as const, level: 0 };
+  }
+
+  private runMarks(rPr: XmlElement | undefined, styleId: string | undefined, link: Mark | null) {
+    // 글자 스타일(Strong, Emphasis 등)의 서식 위에 직접 서식을 덮는다
+    const styleProperties: XmlElement[] = [];
+    this.styleValue(styleId, (style) => {
+      if (style.runProperties) styleProperties.unshift(style.runProperties);
+      return null;
+    });
+    const layers = [...styleProperties, ...(rPr ? [rPr] : [])];
+    const pick = (name: string) =>
+      layers.reduce<XmlElement | undefined>((found, layer) => element(layer, name) ?? found, undefined);
+
+    const marks: Mark[] = [];
+    if (link) marks.push(link);
+
+    const font = pick("w:rFonts");
+    const fontName = (font?.attrs["w:ascii"] ?? font?.attrs["w:hAnsi"] ?? "").toLowerCase();
+    const code = MONOSPACE_FONTS.has(fontName);
+
+    if (isOn(pick("w:b"))) marks.push({ type: "bold" });
+    if (isOn(pick("w:i"))) marks.push({ type: "italic" });
+    if (isOn(pick("w:strike")) || isOn(pick("w:dstrike"))) marks.push({ type: "strike" });
+    if (!link && isOn(pick("w:u"))) marks.push({ type: "underline" });
+    if (code) marks.push({ type: "code" });
+
+    const color = pick("w:color")?.attrs["w:val"];
+    if (!link && color && /^[0-9a-f]{6}$/i.test(color) && color !== "000000") {
+      marks.push({ type: "textStyle", attrs: { color: `#${color.toUpperCase()}` } });
+    }
+
+    const fill = pick("w:shd")?.attrs["w:fill"];
+    if (
+      isOn(pick("w:highlight")) ||
+      (!code && fill && fill !== "auto" && !/^f{6}$/i.test(fill))
+    ) {
+      marks.push({ type: "highlight" });
+    }
+
+    const vertAlign = pick("w:vertAlign")?.attrs["w:val"];
+    if (vertAlign === "subscript") marks.push({ type: "subscript" });
+    if (vertAlign === "superscript") marks.push({ type: "superscript" });
+    return marks;
+  }
+
+  private image(drawing: XmlElement): JSONContent | null {
+    const blip = descendants(drawing, "a:blip")[0];
+    const rel = blip && this.relationships.get(blip.attrs["r:embed"] ?? "");
+    if (!rel || rel.external) return null;
+
+    const partPath = resolvePartPath(rel.target);
+    const data = this.files.get(partPath);
+    const extension = partPath.split(".").pop()?.toLowerCase() ?? "";
+    const type = IMAGE_TYPES[extension];
+    if (!data || !type) return null;
+
+    const attrs = this.options.image({
+      data,
+      type,
+      name: `image${++this.imageCount}.${extension}`,
+    });
+    if (!attrs) return null;
+
+    const extent = descendants(drawing, "wp:extent")[0];
+    const width = Math.round(Number(extent?.attrs.cx) / EMU_PER_PX) || null;
+    const height = Math.round(Number(extent?.attrs.cy) / EMU_PER_PX) || null;
+    const docPr = descendants(drawing, "wp:docPr")[0];
+
+    return {
+      type: "image",
+      attrs: {
+        ...attrs,
+        alt: docPr?.attrs.descr || null,
+        width,
+        height,
+      },
+    };
+  }
+
+  /** 문단 안의 글자/줄바꿈/그림. 그림은 블록이라 따로 표시해 둔다 */
+  private inline(parent: XmlElement, link: Mark | null, out: JSONContent[]) {
+    elements(parent).forEach((child) => {
+      switch (child.name) {
+        case "w:r": {
+          const rPr = element(child, "w:rPr");
+          const marks = this.runMarks(rPr, path(rPr, "w:rStyle")?.attrs["w:val"], link);
+          const pushText = (text: string) => {
+            if (!text) return;
+            const last = out[out.length - 1];
+            if (last?.type === "text" && JSON.stringify(last.marks ?? []) === JSON.stringify(marks)) {
+              last.text += text;
+            } else {
+              out.push({ type: "text", text, ...(marks.length > 0 && { marks }) });
+            }
+          };
+          const readRun = (run: XmlElement) =>
+            elements(run).forEach((part) => {
+              if (part.name === "w:t") {
+                pushText(part.children.filter((c): c is string => typeof c === "string").join(""));
+              } else if (part.name === "w:tab") {
+                pushText("\t");
+              } else if (part.name === "w:noBreakHyphen") {
+                pushText("-");
+              } else if (part.name === "w:cr" || (part.name === "w:br" && part.attrs["w:type"] !== "page")) {
+                out.push({ type: "hardBreak" });
+              } else if (part.name === "w:drawing" || part.name === "w:pict") {
+                const image = this.image(part);
+                if (image) out.push(image);
+              } else if (part.name === "mc:AlternateContent") {
+                const choice = element(part, "mc:Choice");
+                if (choice) readRun(choice);
+              }
+            });
+          readRun(child);
+          break;
+        }
+        case "w:hyperlink": {
+          const rel = this.relationships.get(child.attrs["r:id"] ?? "");
+          const href = rel?.external ? rel.target : null;
+          this.inline(
+            child,
+            href
+              ? { type: "link", attrs: { href, title: child.attrs["w:tooltip"] ?? null } }
+              : link,
+            out
+          );
+          break;
+        }
+        case "w:ins":
+        case "w:moveTo":
+        case "w:smartTag":
+        case "w:customXml":
+        case "w:fldSimple":
+          this.inline(child, link, out);
+          break;
+        case "w:sdt":
+          this.inline(element(child, "w:sdtContent") ?? child, link, out);
+          break;
+        default:
+          // w:del, w:moveFrom, 책갈피, 댓글 범위 등
+          break;
+      }
+    });
+  }
+
+  private paragraph(p: XmlElement): ParagraphEntry {
+    const pPr = element(p, "w:pPr");
+    const styleId = path(pPr, "w:pStyle")?.attrs["w:val"];
+    const outline = path(pPr, "w:outlineLvl")?.attrs["w:val"];
+    const { block, level } = this.classify(styleId, outline !== undefined ? Number(outline) : null);
+
+    const numPr = path(pPr, "w:numPr");
+    const list = numPr
+      ? {
+          numId: path(numPr, "w:numId")?.attrs["w:val"] ?? "0",
+          level: Number(path(numPr, "w:ilvl")?.attrs["w:val"] ?? 0),
+        }
+      : this.styleValue(styleId, (style) => style.numbering);
+
+    const inline: JSONContent[] = [];
+    this.inline(p, null, inline);
+
+    // 그림을 경계로 문단을 나눈다
+    const parts: JSONContent[] = [];
+    let current: JSONContent[] = [];
+    const flush = (force: boolean) => {
+      if (current.length > 0 || force) parts.push({ type: "paragraph", content: current });
+      current = [];
+    };
+    inline.forEach((node) => {
+      if (node.type === "image") {
+        flush(false);
+        parts.push(node);
+      } else {
+        current.push(node);
+      }
+    });
+    flush(parts.length === 0);
+
+    const bottomBorder = path(pPr, "w:pBdr", "w:bottom")?.attrs["w:val"];
+    const indent = Number(path(pPr, "w:ind")?.attrs["w:left"] ?? path(pPr, "w:ind")?.attrs["w:start"] ?? 0);
+
+    return {
+      kind: "entry",
+      block: block === "quote" ? "paragraph" : block,
+      headingLevel: level,
+      quote: block === "quote",
+      align: ALIGNMENTS[path(pPr, "w:jc")?.attrs["w:val"] ?? ""] ?? null,
+      indent,
+      rule: Boolean(bottomBorder && bottomBorder !== "none" && inline.length === 0),
+      list: list && list.numId !== "0" ? list : null,
+      parts,
+    };
+  }
+
+  private table(tbl: XmlElement): TableEntry {
+    const rows: JSONContent[] = [];
+    // 열 번호 → 세로 병합을 시작한 셀
+    const mergeOrigins = new Map<number, JSONContent>();
+
+    elements(tbl, "w:tr").forEach((tr) => {
+      const header = isOn(path(tr, "w:trPr", "w:tblHeader"));
+      const cells: JSONContent[] = [];
+      let column = Number(path(tr, "w:trPr", "w:gridBefore")?.attrs["w:val"] ?? 0);
+
+      const cellElements = elements(tr).flatMap((child) =>
+        child.name === "w:tc"
+          ? [child]
+          : child.name === "w:sdt" || child.name === "w:customXml"
+            ? descendants(child, "w:tc")
+            : []
+      );
+
+      cellElements.forEach((tc) => {
+        const tcPr = element(tc, "w:tcPr");
+        const colspan = Number(path(tcPr, "w:gridSpan")?.attrs["w:val"] ?? 1) || 1;
+        const vMerge = path(tcPr, "w:vMerge");
+        const origin = mergeOrigins.get(column);
+
+        if (vMerge && vMerge.attrs["w:val"] !== "restart" && origin) {
+          origin.attrs = { ...origin.attrs, rowspan: Number(origin.attrs?.rowspan ?? 1) + 1 };
+          column += colspan;
+          return;
+        }
+
+        const content = this.blocks(elements(tc));
+        // 머리글의 옅은 회색(내보낼 때 넣는 기본 음영)은 배경색으로 치지 않는다
+        const fill = path(tcPr, "w:shd")?.attrs["w:fill"];
+        const backgroundColor =
+          fill && /^[0-9a-f]{6}$/i.test(fill) && !/^f{6}$/i.test(fill) && !(header && /^f2f2f2$/i.test(fill))
+            ? `#${fill.toUpperCase()}`
+            : null;
+        const cell: JSONContent = {
+          type: header ? "tableHeader" : "tableCell",
+          attrs: { colspan, rowspan: 1, ...(backgroundColor && { backgroundColor }) },
+          content: content.length > 0 ? content : [{ type: "paragraph" }],
+        };
+        if (vMerge) mergeOrigins.set(column, cell);
+        else mergeOrigins.delete(column);
+        cells.push(cell);
+        column += colspan;
+      });
+
+      if (cells.length > 0) rows.push({ type: "tableRow", content: cells });
+    });
+
+    return { kind: "table", node: { type: "table", content: rows } };
+  }
+
+  private entries(children: XmlElement[]): Entry[] {
+    return children.flatMap((child): Entry[] => {
+      switch (child.name) {
+        case "w:p":
+          return [this.paragraph(child)];
+        case "w:tbl":
+          return [this.table(child)];
+        case "w:sdt":
+          return this.entries(elements(element(child, "w:sdtContent")));
+        case "w:customXml":
+        case "w:ins":
+          return this.entries(elements(child));
+        default:
+          return [];
+      }
+    });
+  }
+
+  private listType(entry: ParagraphEntry) {
+    const first = entry.parts[0]?.content?.[0];
+    if (first?.type === "text" && TASK_PREFIX.test(first.text ?? "")) return "taskList";
+    const format = this.numbering.get(entry.list!.numId)?.get(entry.list!.level)?.format ?? "bullet";
+    return format === "bullet" || format === "none" ? "bulletList" : "orderedList";
+  }
+
+  private listItem(entry: ParagraphEntry, type: string): JSONContent {
+    const [head, ...rest] = this.entryBlocks(entry);
+    if (type !== "taskList") return { type: "listItem", content: [head, ...rest] };
+
+    // ☐/☑ 글자는 체크 상자 속성으로 옮긴다
+    const first = head.content?.[0];
+    const match = first?.type === "text" ? TASK_PREFIX.exec(first.text ?? "") : null;
+    if (match && first) {
+      first.text = first.text!.slice(match[0].length);
+      if (!first.text) head.content = head.content!.slice(1);
+    }
+    return {
+      type: "taskItem",
+      attrs: { checked: Boolean(match && match[1] !== TASK_GLYPHS.unchecked) },
+      content: [head, ...rest],
+    };
+  }
+
+  /** 문단 하나 → 블록들 (그림으로 나뉘었으면 여러 개) */
+  private entryBlocks(entry: ParagraphEntry): JSONContent[] {
+    if (entry.rule) return [{ type: "horizontalRule" }];
+
+    return entry.parts.map((part) => {
+      if (part.type === "image") {
+        // Word는 정렬을 지정하지 않은 그림을 왼쪽에 둔다
+        const align = entry.align === "right" ? "right" : entry.align ? "center" : "left";
+        return { ...part, attrs: { ...part.attrs, align } };
+      }
+      const content = part.content ?? [];
+
+      // 내보내기가 만든 첨부 파일/YouTube 링크 문단은 원래 노드로 되돌린다
+      const only = content.length === 1 ? content[0] : null;
+      const link = only?.marks?.find((mark) => mark.type === "link");
+      if (only && link) {
+        const href = String(link.attrs?.href ?? "");
+        const attachment = parseAttachmentTitle(link.attrs?.title as string | null);
+        const fileId = matchFileId(href);
+        if (attachment && fileId) {
+          return {
+            type: "attachment",
+            attrs: {
+              fileId,
+              name: (only.text ?? "").replace(/^📎\s*/, ""),
+              size: attachment.size,
+              type: attachment.type,
+            },
+          };
+        }
+        if (only.text === `YouTube: ${href}`) {
+          return { type: "youtube", attrs: { src: href } };
+        }
+      }
+
+      const attrs = entry.align ? { textAlign: entry.align } : undefined;
+      const body = content.length > 0 ? { content } : {};
+      if (entry.block === "heading") {
+        return { type: "heading", attrs: { ...attrs, level: entry.headingLevel }, ...body };
+      }
+      return { type: "paragraph", ...(attrs && { attrs }), ...body };
+    });
+  }
+
+  /** 나란한 문단들을 목록/코드 블록/캡션으로 묶는다 */
+  private build(entries: Entry[]): JSONContent[] {
+    const out: JSONContent[] = [];
+    // 열린 목록: 가장 바깥부터
+    let lists: Array<{ node: JSONContent; level: number }> = [];
+
+    const closeLists = () => {
+      lists = [];
+    };
+
+    entries.forEach((entry, index) => {
+      if (entry.kind === "table") {
+        closeLists();
+        out.push(entry.node);
+        return;
+      }
+
+      if (entry.list) {
+        const type = this.listType(entry);
+        const level = entry.list.level;
+        while (lists.length > 0 && lists[lists.length - 1].level > level) lists.pop();
+
+        let top = lists[lists.length - 1];
+        if (top && top.level === level && top.node.type !== type) {
+          lists.pop();
+          top = lists[lists.length - 1];
+        }
+        if (!top || top.level < level) {
+          const start = this.numbering.get(entry.list.numId)?.get(level)?.start ?? 1;
+          const node: JSONContent = {
+            type,
+            ...(type === "orderedList" && { attrs: { start } }),
+            content: [],
+          };
+          const parentItem = top?.node.content?.[top.node.content.length - 1];
+          if (parentItem) parentItem.content!.push(node);
+          else out.push(node);
+          top = { node, level };
+          lists.push(top);
+        }
+        top.node.content!.push(this.listItem(entry, type));
+        return;
+      }
+
+      // 목록 안에서 들여쓴 문단은 마지막 항목에 이어 붙인다
+      const top = lists[lists.length - 1];
+      if (top && entry.indent >= 360 && entry.block !== "heading") {
+        const item = top.node.content![top.node.content!.length - 1];
+        item.content!.push(...this.entryBlocks(entry));
+        return;
+      }
+      closeLists();
+
+      const previous = out[out.length - 1];
+      if (entry.block === "code") {
+        const text = entry.parts
+          .flatMap((part) => part.content ?? [])
+          .map((node) => (node.type === "hardBreak" ? "\n" : (node.text ?? "")))
+          .join("");
+        // 줄마다 문단을 나눈 Word 코드는 하나로 합친다
+        if (previous?.type === "codeBlock" && entries[index - 1]?.kind === "entry") {
+          const existing = previous.content?.[0]?.text ?? "";
+          previous.content = [{ type: "text", text: `${existing}\n${text}` }];
+        } else {
+          out.push({
+            type: "codeBlock",
+            attrs: { language: null },
+            ...(text && { content: [{ type: "text", text }] }),
+          });
+        }
+        return;
+      }
+
+      if (entry.block === "caption" && previous?.type === "image" && !previous.attrs?.caption) {
+        const caption = entry.parts
+          .flatMap((part) => part.content ?? [])
+          .map((node) => node.text ?? "")
+          .join("")
+          .trim();
+        previous.attrs = { ...previous.attrs, caption: caption || null };
+        return;
+      }
+
+      // 표 뒤 빈 문단은 Word가 표를 붙이지 않도록 넣은 것이라 버린다
+      const [only] = entry.parts;
+      const empty =
+        entry.parts.length === 1 && only.type === "paragraph" && !only.content?.length;
+      if (empty && !entry.rule && previous?.type === "table") return;
+
+      out.push(...this.entryBlocks(entry));
+    });
+    return out;
+  }
+
+  /** 인용 스타일 문단이 이어지면 blockquote 하나로 */
+  private blocks(children: XmlElement[]): JSONContent[] {
+    const entries = this.entries(children);
+    const out: JSONContent[] = [];
+    let index = 0;
+    while (index < entries.length) {
+      const entry = entries[index];
+      const quoted = (e: Entry | undefined) => e?.kind === "entry" && e.quote;
+      if (quoted(entry)) {
+        const run: Entry[] = [];
+        while (quoted(entries[index])) run.push(entries[index++]);
+        out.push({ type: "blockquote", content: this.build(run) });
+      } else {
+        const run: Entry[] = [];
+        while (index < entries.length && !quoted(entries[index])) run.push(entries[index++]);
+        out.push(...this.build(run));
+      }
+    }
+    return out;
+  }
+
+  read(): JSONContent {
+    const body = path(this.xml("word/document.xml"), "w:body");
+    if (!body) throw new Error("Not a Word document");
+    const content = this.blocks(elements(body));
+    return { type: "doc", content: content.length > 0 ? content : [{ type: "paragraph" }] };
+  }
+}
+
+/** ZIP/XML이 깨졌거나 Word 문서가 아니면 던진다 */
+export async function docxToDocument(bytes: Uint8Array, options: DocxImportOptions) {
+  const files = await readZip(bytes);
+  return new DocxReader(files, options).read();
+}
@@ -0,0 +1,120 @@
+/**
+ * OOXML을 읽고 쓰는 데 필요한 만큼의 XML 도우미.
+ * 브라우저/서버 어디서나 같게 돌도록 DOMParser 대신 직접 읽는다
+ * (요소/속성/글자/CDATA/엔티티. DTD와 처리 명령은 건너뛴다).
+ */
+
+export interface XmlElement {
+  /** 접두어 포함 이름 (w:p) */
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith("#")) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+export function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // XML 1.0에서 쓸 수 없는 제어 문자는 뺀다
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "");
+}
+
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+/** 잘못된 XML이면 던진다 */
+export function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: "#document", attrs: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  while (position < text.length) {
+    const open = text.indexOf("<", position);
+    const chunk = text.slice(position, open === -1 ? text.length : open);
+    if (chunk) stack[stack.length - 1].children.push(decodeEntities(chunk));
+    if (open === -1) break;
+
+    if (text.startsWith("<!--", open)) {
+      position = text.indexOf("-->", open) + 3;
+    } else if (text.startsWith("<![CDATA[", open)) {
+      const close = text.indexOf("]]>", open);
+      stack[stack.length - 1].children.push(text.slice(open + 9, close));
+      position = close + 3;
+    } else if (text.startsWith("<?", open) || text.startsWith("<!", open)) {
+      position = text.indexOf(">", open) + 1;
+    } else if (text[open + 1] === "/") {
+      const close = text.indexOf(">", open);
+      const name = text.slice(open + 2, close).trim();
+      const element = stack.pop();
+      if (!element || element.name !== name) throw new Error(`Unexpected </${name}>`);
+      position = close + 1;
+    } else {
+      const close = text.indexOf(">", open);
+      if (close === -1) throw new Error("Unclosed tag");
+      const selfClosing = text[close - 1] === "/";
+      const body = text.slice(open + 1, selfClosing ? close - 1 : close);
+      const name = /^[^\s/>]+/.exec(body)?.[0] ?? "";
+      const attrs: Record<string, string> = {};
+      for (const match of body.slice(name.length).matchAll(ATTRIBUTE)) {
+        attrs[match[1]] = decodeEntities(match[3] ?? match[4] ?? "");
+      }
+      const element: XmlElement = { name, attrs, children: [] };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+      position = close + 1;
+    }
+    if (position <= open) throw new Error("Broken XML");
+  }
+
+  const documentElement = root.children.find(
+    (child): child is XmlElement => typeof child !== "string"
+  );
+  if (!documentElement || stack.length !== 1) throw new Error("Broken XML");
+  return documentElement;
+}
+
+export function elements(element: XmlElement | undefined, name?: string) {
+  return (element?.children ?? []).filter(
+    (child): child is XmlElement =>
+      typeof child !== "string" && (name === undefined || child.name === name)
+  );
+}
+
+export function element(parent: XmlElement | undefined, name: string) {
+  return elements(parent, name)[0];
+}
+
+/** 경로를 따라 내려간다: path(el, "w:pPr", "w:jc") */
+export function path(parent: XmlElement | undefined, ...names: string[]) {
+  return names.reduce<XmlElement | undefined>(
+    (current, name) => element(current, name),
+    parent
+  );
+}
+
+/** 자손 중 이름이 같은 요소 (깊이 우선) */
+export function descendants(parent: XmlElement, name: string): XmlElement[] {
+  return elements(parent).flatMap((child) => [
+    ...(child.name === name ? [child] : []),
+    ...descendants(child, name),
+  ]);
+}
@@ -0,0 +1,48 @@
+import type { UploadedFile } from "./types";
+
+export function fileUrl(
+  id: string,
+  { name, download = false }: { name?: string; download?: boolean } = {}
+) {
+  const params = new URLSearchParams();
+  if (name) params.set("name", name);
+  if (download) params.set("download", "1");
+  const query = params.toString();
+  return `/api/files/${id}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * fetch는 업로드 진행률을 알려주지 않아서 XMLHttpRequest를 쓴다.
+ * onProgress는 0..1 사이 값.
+ */
+export function uploadFile(
+  file: File,
+  { onProgress }: { onProgress?: (progress: number) => void } = {}
+): Promise<UploadedFile> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "/api/files");
+    xhr.responseType = "json";
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      const body = xhr.response as
+        | { file?: UploadedFile; error?: string }
+        | null;
+      if (xhr.status >= 200 && xhr.status < 300 && body?.file) {
+        resolve(body.file);
+      } else {
+        reject(
+          new Error(body?.error ?? `POST /api/files failed: ${xhr.status}`)
+        );
+      }
+    };
+    xhr.onerror = () => reject(new Error("POST /api/files failed: network"));
+
+    const form = new FormData();
+    form.append("file", file);
+    xhr.send(form);
+  });
+}
@@ -0,0 +1,72 @@
+// 서버(업로드 라우트)와 클라이언트(업로드 전 검사)가 같은 규칙을 쓴다
+
+export const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+/** 첨부할 수 있는 파일 형식 */
+export const ALLOWED_MIME_TYPES = new Set([
+  "application/pdf",
+  "application/zip",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/x-hwp",
+  "application/vnd.hancom.hwp",
+  "application/vnd.hancom.hwpx",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+]);
+
+// 브라우저가 type을 비워 보내는 확장자 (특히 .hwp, .md)
+const EXTENSION_TYPES: Record<string, string> = {
+  hwp: "application/x-hwp",
+  hwpx: "application/vnd.hancom.hwpx",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  csv: "text/csv",
+  txt: "text/plain",
+};
+
+/** 브라우저는 미리보기(inline)로 열어도 안전한 형식만. 나머지는 항상 다운로드 */
+export const INLINE_MIME_TYPES = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+]);
+
+/** File.type이 비어 있으면 확장자로 추정한다 */
+export function resolveMimeType(name: string, type: string) {
+  const base = type.split(";")[0].trim().toLowerCase();
+  if (base) return base;
+  const extension = name.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_TYPES[extension] ?? "application/octet-stream";
+}
+
+export type FileRejection = "too-large" | "type-not-allowed" | "empty";
+
+export function checkFile(
+  name: string,
+  type: string,
+  size: number
+): FileRejection | null {
+  if (size === 0) return "empty";
+  if (size > MAX_FILE_SIZE) return "too-large";
+  if (!ALLOWED_MIME_TYPES.has(resolveMimeType(name, type))) {
+    return "type-not-allowed";
+  }
+  return null;
+}
+
+/** 이미지 에셋(변형 생성)으로 처리할 파일인지. 나머지는 첨부 카드가 된다 */
+export function isImageFile(name: string, type: string) {
+  return INLINE_MIME_TYPES.has(resolveMimeType(name, type));
+}
@@ -0,0 +1,68 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { DATA_DIR, isNotFoundError, readJson, writeJsonAtomic } from "@/lib/storage";
+import type { StoredFile } from "./types";
+
+// 내용 주소 기반 저장소: .data/blobs/<id 앞 2글자>/<id>(.json)
+const BLOBS_DIR = path.join(DATA_DIR, "blobs");
+
+const ID_PATTERN = /^[a-f0-9]{64}$/;
+
+export function isValidFileId(id: string) {
+  return ID_PATTERN.test(id);
+}
+
+function blobPath(id: string) {
+  if (!isValidFileId(id)) {
+    throw new Error(`Invalid file id: ${id}`);
+  }
+  return path.join(BLOBS_DIR, id.slice(0, 2), id);
+}
+
+export function hashBytes(bytes: Uint8Array) {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+export async function readFileMeta(id: string): Promise<StoredFile | null> {
+  if (!isValidFileId(id)) return null;
+  return readJson<StoredFile>(`${blobPath(id)}.json`);
+}
+
+export async function readFileBytes(id: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(blobPath(id));
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * 바이트를 해시로 저장한다. 같은 내용이 이미 있으면 다시 쓰지 않고
+ * 기존 메타데이터를 돌려준다 (deduped: true).
+ */
+export async function saveFile(
+  bytes: Uint8Array,
+  type: string
+): Promise<{ file: StoredFile; deduped: boolean }> {
+  const id = hashBytes(bytes);
+  const existing = await readFileMeta(id);
+  if (existing) return { file: existing, deduped: true };
+
+  const filePath = blobPath(id);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmpPath, bytes);
+  await fs.rename(tmpPath, filePath);
+
+  const file: StoredFile = {
+    id,
+    size: bytes.byteLength,
+    type,
+    createdAt: new Date().toISOString(),
+  };
+  // 메타데이터는 본문을 다 쓴 다음에 남긴다 (메타가 있으면 본문도 있음)
+  await writeJsonAtomic(`${filePath}.json`, file);
+  return { file, deduped: false };
+}
@@ -0,0 +1,15 @@
+/** 내용 주소 기반 blob 메타데이터 (.data/blobs/<앞 2글자>/<sha256>.json) */
+export interface StoredFile {
+  /** 파일 내용의 sha256 (hex). 같은 내용이면 같은 id */
+  id: string;
+  size: number;
+  type: string;
+  createdAt: string;
+}
+
+/** 업로드 응답. 이름은 blob이 아니라 첨부(노드)마다 다르므로 따로 돌려준다 */
+export interface UploadedFile extends StoredFile {
+  name: string;
+  /** 이미 같은 내용의 파일이 있어서 새로 저장하지 않았는지 */
+  deduped: boolean;
+}
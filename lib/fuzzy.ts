@@ -0,0 +1,83 @@
+/**
+ * 한글/영문을 함께 다루는 퍼지 검색.
+ * 한글은 자모로 풀어서 비교하므로 조합 중인 글자("젬" → 제목)나
+ * 초성만 친 검색어("ㅈㅁ" → 제목)도 맞는다.
+ */
+
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+
+const CHOSEONG = "ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ";
+const JUNGSEONG = "ㅏㅐㅑㅒㅓㅔㅕㅖㅗㅘㅙㅚㅛㅜㅝㅞㅟㅠㅡㅢㅣ";
+const JONGSEONG = [
+  "",
+  ..."ㄱㄲㄳㄴㄵㄶㄷㄹㄺㄻㄼㄽㄾㄿㅀㅁㅂㅄㅅㅆㅇㅈㅊㅋㅌㅍㅎ",
+];
+
+// 겹모음/겹받침은 한 타씩 나눈다 (조합 중에는 앞 글자만 보이기 때문)
+const COMPOUND_JAMO: Record<string, string> = {
+  ㅘ: "ㅗㅏ",
+  ㅙ: "ㅗㅐ",
+  ㅚ: "ㅗㅣ",
+  ㅝ: "ㅜㅓ",
+  ㅞ: "ㅜㅔ",
+  ㅟ: "ㅜㅣ",
+  ㅢ: "ㅡㅣ",
+  ㄳ: "ㄱㅅ",
+  ㄵ: "ㄴㅈ",
+  ㄶ: "ㄴㅎ",
+  ㄺ: "ㄹㄱ",
+  ㄻ: "ㄹㅁ",
+  ㄼ: "ㄹㅂ",
+  ㄽ: "ㄹㅅ",
+  ㄾ: "ㄹㅌ",
+  ㄿ: "ㄹㅍ",
+  ㅀ: "ㄹㅎ",
+  ㅄ: "ㅂㅅ",
+};
+
+function splitJamo(jamo: string) {
+  return COMPOUND_JAMO[jamo] ?? jamo;
+}
+
+/** 소문자로, 공백 없이, 한글은 자모로 */
+export function normalizeSearchText(text: string) {
+  let out = "";
+  for (const char of text.toLowerCase().replace(/\s+/g, "")) {
+    const code = char.charCodeAt(0);
+    if (code < HANGUL_START || code > HANGUL_END) {
+      out += splitJamo(char);
+      continue;
+    }
+    const offset = code - HANGUL_START;
+    out +=
+      CHOSEONG[Math.floor(offset / 588)] +
+      splitJamo(JUNGSEONG[Math.floor((offset % 588) / 28)]) +
+      splitJamo(JONGSEONG[offset % 28]);
+  }
+  return out;
+}
+
+/**
+ * 검색어가 후보와 얼마나 잘 맞는지 (클수록 좋음, 안 맞으면 null).
+ * 앞부분 일치 > 중간 일치 > 글자가 순서대로 흩어져 있는 경우.
+ */
+export function fuzzyScore(query: string, candidate: string) {
+  const q = normalizeSearchText(query);
+  if (!q) return 0;
+  const c = normalizeSearchText(candidate);
+
+  if (c.startsWith(q)) return 100 - (c.length - q.length) * 0.1;
+  const index = c.indexOf(q);
+  if (index >= 0) return 60 - index * 0.5;
+
+  let gaps = 0;
+  let position = -1;
+  for (const char of q) {
+    const next = c.indexOf(char, position + 1);
+    if (next < 0) return null;
+    if (position >= 0) gaps += next - position - 1;
+    position = next;
+  }
+  return Math.max(1, 30 - gaps);
+}
@@ -0,0 +1,43 @@
+import type { ImageVariant, UploadedImage } from "./types";
+
+export function imageUrl(id: string, variant: ImageVariant = "1x") {
+  return `/api/images/${id}/${variant}`;
+}
+
+/** 고해상도 화면에서는 2x 변형을 쓰도록 */
+export function imageSrcSet(id: string) {
+  return `${imageUrl(id, "1x")} 1x, ${imageUrl(id, "2x")} 2x`;
+}
+
+/** 업로드 진행률(0..1)을 받으려고 XMLHttpRequest를 쓴다 (files/client와 같음) */
+export function uploadImage(
+  file: File,
+  { onProgress }: { onProgress?: (progress: number) => void } = {}
+): Promise<UploadedImage> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "/api/images");
+    xhr.responseType = "json";
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      const body = xhr.response as
+        | { image?: UploadedImage; error?: string }
+        | null;
+      if (xhr.status >= 200 && xhr.status < 300 && body?.image) {
+        resolve(body.image);
+      } else {
+        reject(
+          new Error(body?.error ?? `POST /api/images failed: ${xhr.status}`)
+        );
+      }
+    };
+    xhr.onerror = () => reject(new Error("POST /api/images failed: network"));
+
+    const form = new FormData();
+    form.append("file", file);
+    xhr.send(form);
+  });
+}
@@ -0,0 +1,130 @@
+import type { JSONContent } from "@tiptap/core";
+import * as Y from "yjs";
+import { isImageFile } from "@/lib/files/policy";
+import { imageUrl } from "./client";
+import { saveImage } from "./store";
+
+type ImageAttrs = {
+  src: string;
+  assetId: string;
+  width: number;
+  height: number;
+};
+
+// 같은 data URL이 여러 번 나와도 한 번만 처리한다. null은 옮길 수 없는 이미지
+export type MigrationCache = Map<string, ImageAttrs | null>;
+
+const DATA_URL_PATTERN = /^data:([^;,]+)((?:;[^;,]*)*),([\s\S]*)$/;
+
+export function isDataUrl(src: unknown): src is string {
+  return typeof src === "string" && src.startsWith("data:");
+}
+
+function decodeDataUrl(src: string) {
+  const match = DATA_URL_PATTERN.exec(src);
+  if (!match) return null;
+  const [, type, params, data] = match;
+  const bytes = params.split(";").includes("base64")
+    ? Buffer.from(data, "base64")
+    : Buffer.from(decodeURIComponent(data), "utf8");
+  return { type: type.toLowerCase(), bytes: new Uint8Array(bytes) };
+}
+
+async function migrateSrc(
+  src: string,
+  cache: MigrationCache
+): Promise<ImageAttrs | null> {
+  const cached = cache.get(src);
+  if (cached !== undefined) return cached;
+
+  let attrs: ImageAttrs | null = null;
+  const decoded = decodeDataUrl(src);
+  // SVG 등 업로드로 받지 않는 형식은 그대로 둔다
+  if (decoded && isImageFile("", decoded.type)) {
+    try {
+      const { image } = await saveImage(decoded.bytes, decoded.type);
+      attrs = {
+        src: imageUrl(image.id),
+        assetId: image.id,
+        width: image.variants["1x"].width,
+        height: image.variants["1x"].height,
+      };
+    } catch {
+      attrs = null;
+    }
+  }
+
+  cache.set(src, attrs);
+  return attrs;
+}
+
+/**
+ * ProseMirror JSON에서 data URL 이미지를 에셋 주소로 바꾼다.
+ * 바꾼 개수와 옮기지 못한 개수를 함께 돌려준다.
+ */
+export async function migrateContentImages(
+  content: JSONContent,
+  cache: MigrationCache
+): Promise<{ content: JSONContent; migrated: number; skipped: number }> {
+  let migrated = 0;
+  let skipped = 0;
+
+  const visit = async (node: JSONContent): Promise<JSONContent> => {
+    let next = node;
+    if (node.type === "image" && isDataUrl(node.attrs?.src)) {
+      const attrs = await migrateSrc(node.attrs.src, cache);
+      if (attrs) {
+        migrated += 1;
+        next = { ...node, attrs: { ...node.attrs, ...attrs } };
+      } else {
+        skipped += 1;
+      }
+    }
+
+    if (!next.content) return next;
+    const children: JSONContent[] = [];
+    for (const child of next.content) children.push(await visit(child));
+    return { ...next, content: children };
+  };
+
+  const result = await visit(content);
+  return { content: result, migrated, skipped };
+}
+
+/**
+ * 공동 편집 상태(Y.Doc)의 이미지 노드 속성을 직접 고친다.
+ * 내용을 통째로 다시 쓰지 않아서 다른 클라이언트의 상태와도 충돌하지 않는다.
+ */
+export async function migrateYjsImages(
+  fragment: Y.XmlFragment,
+  cache: MigrationCache
+): Promise<{ migrated: number; skipped: number }> {
+  let migrated = 0;
+  let skipped = 0;
+
+  // y-prosemirror는 노드 속성을 문자열로 바꾸지 않고 그대로 저장한다
+  const images = Array.from(
+    fragment.createTreeWalker(
+      (el) => el instanceof Y.XmlElement && el.nodeName === "image"
+    )
+  ) as Y.XmlElement<Record<string, string | number>>[];
+
+  for (const image of images) {
+    const src = image.getAttribute("src");
+    if (!isDataUrl(src)) continue;
+
+    const attrs = await migrateSrc(src, cache);
+    if (!attrs) {
+      skipped += 1;
+      continue;
+    }
+    fragment.doc?.transact(() => {
+      for (const [key, value] of Object.entries(attrs)) {
+        image.setAttribute(key, value);
+      }
+    });
+    migrated += 1;
+  }
+
+  return { migrated, skipped };
+}
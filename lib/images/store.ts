@@ -0,0 +1,92 @@
+import path from "path";
+import sharp from "sharp";
+import { DATA_DIR, readJson, writeJsonAtomic } from "@/lib/storage";
+import { hashBytes, isValidFileId, saveFile } from "@/lib/files/store";
+import {
+  IMAGE_VARIANT_WIDTHS,
+  IMAGE_VARIANTS,
+  type ImageVariant,
+  type ImageVariantFile,
+  type StoredImage,
+} from "./types";
+
+// 이미지 에셋 메타데이터: .data/images/<id>.json (바이트는 blob 저장소에)
+const IMAGES_DIR = path.join(DATA_DIR, "images");
+
+// 변형은 모두 webp로 (애니메이션 GIF도 프레임 유지)
+const VARIANT_TYPE = "image/webp";
+const VARIANT_QUALITY = 82;
+
+export function isImageVariant(value: string): value is ImageVariant {
+  return (IMAGE_VARIANTS as readonly string[]).includes(value);
+}
+
+function imagePath(id: string) {
+  if (!isValidFileId(id)) {
+    throw new Error(`Invalid image id: ${id}`);
+  }
+  return path.join(IMAGES_DIR, `${id}.json`);
+}
+
+export async function readImage(id: string): Promise<StoredImage | null> {
+  if (!isValidFileId(id)) return null;
+  return readJson<StoredImage>(imagePath(id));
+}
+
+async function createVariant(
+  bytes: Uint8Array,
+  width: number
+): Promise<ImageVariantFile> {
+  const { data, info } = await sharp(bytes, { animated: true })
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality: VARIANT_QUALITY })
+    .toBuffer({ resolveWithObject: true });
+
+  const { file } = await saveFile(new Uint8Array(data), VARIANT_TYPE);
+  return {
+    fileId: file.id,
+    width: info.width,
+    // 애니메이션이면 height가 모든 프레임을 이은 높이라 한 프레임 높이를 쓴다
+    height: info.pageHeight ?? info.height,
+  };
+}
+
+/**
+ * 원본을 받아 thumb/1x/2x 변형을 만들어 저장한다. 같은 원본이 이미
+ * 처리되어 있으면 다시 만들지 않는다. 이미지로 읽을 수 없으면 sharp가 던진다.
+ */
+export async function saveImage(
+  bytes: Uint8Array,
+  type: string
+): Promise<{ image: StoredImage; deduped: boolean }> {
+  const id = hashBytes(bytes);
+  const existing = await readImage(id);
+  if (existing) return { image: existing, deduped: true };
+
+  const metadata = await sharp(bytes, { animated: true }).metadata();
+  // EXIF 방향 5~8은 가로/세로가 바뀐다
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const width = metadata.width ?? 0;
+  const height = metadata.pageHeight ?? metadata.height ?? 0;
+
+  const variants = {} as Record<ImageVariant, ImageVariantFile>;
+  // 한 번에 하나씩: 큰 이미지 여러 장을 동시에 디코딩하면 메모리를 많이 쓴다
+  for (const variant of IMAGE_VARIANTS) {
+    variants[variant] = await createVariant(
+      bytes,
+      IMAGE_VARIANT_WIDTHS[variant]
+    );
+  }
+
+  const image: StoredImage = {
+    id,
+    type,
+    width: rotated ? height : width,
+    height: rotated ? width : height,
+    variants,
+    createdAt: new Date().toISOString(),
+  };
+  await writeJsonAtomic(imagePath(id), image);
+  return { image, deduped: false };
+}
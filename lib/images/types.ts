@@ -0,0 +1,35 @@
+export const IMAGE_VARIANTS = ["thumb", "1x", "2x"] as const;
+
+export type ImageVariant = (typeof IMAGE_VARIANTS)[number];
+
+/** 변형별 최대 가로 폭(px). 원본보다 크게 늘리지는 않는다 */
+export const IMAGE_VARIANT_WIDTHS: Record<ImageVariant, number> = {
+  thumb: 320,
+  "1x": 1200,
+  "2x": 2400,
+};
+
+export interface ImageVariantFile {
+  /** blob 저장소의 파일 id */
+  fileId: string;
+  width: number;
+  height: number;
+}
+
+/** 이미지 에셋 (.data/images/<원본 sha256>.json) */
+export interface StoredImage {
+  /** 원본 내용의 sha256. 같은 이미지를 다시 올리면 같은 에셋 */
+  id: string;
+  /** 원본 형식 */
+  type: string;
+  /** 회전(EXIF)을 반영한 원본 크기 */
+  width: number;
+  height: number;
+  variants: Record<ImageVariant, ImageVariantFile>;
+  createdAt: string;
+}
+
+/** 업로드 응답 */
+export interface UploadedImage extends StoredImage {
+  deduped: boolean;
+}
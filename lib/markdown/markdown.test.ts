@@ -0,0 +1,272 @@
+import type { JSONContent } from "@tiptap/core";
+import { describe, expect, it } from "vitest";
+import { markdownToDocument } from "./parse";
+import { documentToMarkdown } from "./serialize";
+
+type Mark = NonNullable<JSONContent["marks"]>[number];
+
+function doc(...content: JSONContent[]): JSONContent {
+  return { type: "doc", content };
+}
+
+function paragraph(...content: JSONContent[]): JSONContent {
+  return { type: "paragraph", content };
+}
+
+function text(value: string, ...marks: Mark[]): JSONContent {
+  return marks.length > 0
+    ? { type: "text", text: value, marks }
+    : { type: "text", text: value };
+}
+
+const suggestion = {
+  id: "s1",
+  authorId: "u1",
+  authorName: "검토자",
+  authorColor: "#e11d48",
+  createdAt: 1,
+};
+
+/** 문서를 내보내면 기대한 Markdown이 되고, 그것을 가져오면 처음 문서가 되는지 */
+function expectRoundTrip(input: JSONContent, markdown: string) {
+  expect(documentToMarkdown(input)).toBe(markdown);
+  expect(markdownToDocument(markdown)).toEqual(input);
+}
+
+describe("Markdown 왕복", () => {
+  it("제목 1–3", () => {
+    expectRoundTrip(
+      doc(
+        { type: "heading", attrs: { level: 1 }, content: [text("하나")] },
+        { type: "heading", attrs: { level: 2 }, content: [text("둘")] },
+        { type: "heading", attrs: { level: 3 }, content: [text("셋")] }
+      ),
+      "# 하나\n\n## 둘\n\n### 셋\n"
+    );
+  });
+
+  it("하위 항목이 있는 할 일 목록", () => {
+    const item = (checked: boolean, label: string, ...nested: JSONContent[]) => ({
+      type: "taskItem",
+      attrs: { checked },
+      content: [paragraph(text(label)), ...nested],
+    });
+    expectRoundTrip(
+      doc({
+        type: "taskList",
+        content: [
+          item(
+            false,
+            "장보기",
+            { type: "taskList", content: [item(true, "우유"), item(false, "빵")] }
+          ),
+          item(true, "빨래"),
+        ],
+      }),
+      "- [ ] 장보기\n\n  - [x] 우유\n  - [ ] 빵\n- [x] 빨래\n"
+    );
+  });
+
+  it("머리글 행과 열 정렬이 있는 표", () => {
+    const cell = (type: string, value: string, textAlign?: string) => ({
+      type,
+      content: [
+        {
+          type: "paragraph",
+          ...(textAlign && { attrs: { textAlign } }),
+          content: [text(value)],
+        },
+      ],
+    });
+    expectRoundTrip(
+      doc({
+        type: "table",
+        content: [
+          {
+            type: "tableRow",
+            content: [
+              cell("tableHeader", "이름"),
+              cell("tableHeader", "수량", "right"),
+            ],
+          },
+          {
+            type: "tableRow",
+            content: [cell("tableCell", "사과"), cell("tableCell", "3", "right")],
+          },
+        ],
+      }),
+      "| 이름 | 수량 |\n| --- | --: |\n| 사과 | 3 |\n"
+    );
+  });
+
+  it("언어가 있는 코드 블록 (안에 펜스가 있어도)", () => {
+    expectRoundTrip(
+      doc({
+        type: "codeBlock",
+        attrs: { language: "md" },
+        content: [text("```ts\nconst x = 1;\n```")],
+      }),
+      "````md\n```ts\nconst x = 1;\n```\n````\n"
+    );
+  });
+
+  it("하이라이트, 아래/위 첨자", () => {
+    expectRoundTrip(
+      doc(
+        paragraph(
+          text("중요", { type: "highlight" }),
+          text(" H"),
+          text("2", { type: "subscript" }),
+          text("O, x"),
+          text("n + 1", { type: "superscript" })
+        )
+      ),
+      "==중요== H~2~O, x^n\\ +\\ 1^\n"
+    );
+  });
+
+  it("제목이 있는 링크", () => {
+    expectRoundTrip(
+      doc(
+        paragraph(
+          text("설명서", {
+            type: "link",
+            attrs: { href: "https://example.com/a_(b)", title: "새 창" },
+          }),
+          text("를 보세요.")
+        )
+      ),
+      '[설명서](<https://example.com/a_(b)> "새 창")를 보세요.\n'
+    );
+  });
+
+  it("캡션이 있는 이미지", () => {
+    expectRoundTrip(
+      doc({
+        type: "image",
+        attrs: {
+          src: "/api/images/img1/original",
+          alt: "표지 [초안]",
+          caption: "그림 1",
+          assetId: "img1",
+        },
+      }),
+      '![표지 \\[초안\\]](/api/images/img1/original "그림 1")\n'
+    );
+  });
+
+  it("YouTube", () => {
+    expectRoundTrip(
+      doc({
+        type: "youtube",
+        attrs: { src: "https://www.youtube.com/watch?v=dQw4w9WgXcQ" },
+      }),
+      "@[youtube](https://www.youtube.com/watch?v=dQw4w9WgXcQ)\n"
+    );
+  });
+
+  it("첨부 파일", () => {
+    expectRoundTrip(
+      doc({
+        type: "attachment",
+        attrs: {
+          name: "보고서.pdf",
+          size: 2048,
+          type: "application/pdf",
+          fileId: "file1",
+        },
+      }),
+      `[보고서.pdf](/api/files/file1?name=${encodeURIComponent("보고서.pdf")}&download=1 "attachment 2048 application/pdf")\n`
+    );
+  });
+
+  it("==로 시작하는 문단도 하이라이트로 돌아온다", () => {
+    expectRoundTrip(
+      doc(paragraph(text("먼저", { type: "highlight" }), text(" 읽기"))),
+      "==먼저== 읽기\n"
+    );
+  });
+
+  it("Markdown → 문서 → Markdown이 그대로", () => {
+    const markdown = [
+      "# 회의록",
+      "## 안건",
+      "1. 일정\n2. 예산",
+      "> 인용한 **굵은** 글자와 *기울임*, ~~취소~~, <u>밑줄</u>, `코드`",
+      "- [x] 끝낸 일\n\n  - [ ] 남은 일",
+      "| 항목 | 값 |\n| :-: | --- |\n| a | b |",
+      "```ts\nconst x = 1;\n```",
+      "---\n",
+    ].join("\n\n");
+    expect(documentToMarkdown(markdownToDocument(markdown))).toBe(markdown);
+  });
+});
+
+describe("Markdown으로 옮길 수 없는 것", () => {
+  it("멘션: 사람은 @이름 글자, 문서는 문서 링크", () => {
+    const input = doc(
+      paragraph(
+        { type: "mention", attrs: { kind: "person", id: "u1", label: "김하나" } },
+        text(" 님, "),
+        { type: "mention", attrs: { kind: "document", id: "d1", label: "기획서" } },
+        text(" 확인 부탁드려요.")
+      )
+    );
+    const markdown = documentToMarkdown(input);
+    expect(markdown).toBe("@김하나 님, [기획서](/doc/d1) 확인 부탁드려요.\n");
+    expect(markdownToDocument(markdown)).toEqual(
+      doc(
+        paragraph(
+          text("@김하나 님, "),
+          text("기획서", {
+            type: "link",
+            attrs: { href: "/doc/d1", title: null },
+          }),
+          text(" 확인 부탁드려요.")
+        )
+      )
+    );
+  });
+
+  it("목차 블록: 그때의 제목 목록으로", () => {
+    const markdown = documentToMarkdown(
+      doc(
+        { type: "tableOfContents" },
+        { type: "heading", attrs: { level: 1 }, content: [text("서론")] },
+        { type: "heading", attrs: { level: 2 }, content: [text("배경")] },
+        { type: "heading", attrs: { level: 1 }, content: [text("결론")] }
+      )
+    );
+    expect(markdown).toBe(
+      "- 서론\n\n  - 배경\n- 결론\n\n# 서론\n\n## 배경\n\n# 결론\n"
+    );
+    expect(markdownToDocument(markdown).content?.[0]?.type).toBe("bulletList");
+  });
+
+  it("대기 중인 제안: 모두 수락한 모습으로", () => {
+    const markdown = documentToMarkdown(
+      doc(
+        paragraph(
+          text("오늘 "),
+          text("어제 ", { type: "deletion", attrs: suggestion }),
+          text("새로 ", { type: "insertion", attrs: suggestion }),
+          text(
+            "쓴 글",
+            { type: "bold" },
+            { type: "formatChange", attrs: suggestion }
+          )
+        )
+      )
+    );
+    expect(markdown).toBe("오늘 새로 **쓴 글**\n");
+    expect(markdownToDocument(markdown)).toEqual(
+      doc(paragraph(text("오늘 새로 "), text("쓴 글", { type: "bold" })))
+    );
+  });
+
+  it("제목 4–6은 제목 3으로 가져온다", () => {
+    expect(markdownToDocument("#### 작은 제목\n")).toEqual(
+      doc({ type: "heading", attrs: { level: 3 }, content: [text("작은 제목")] })
+    );
+  });
+});
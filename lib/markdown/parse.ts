@@ -0,0 +1,477 @@
+import type { JSONContent } from "@tiptap/core";
+import MarkdownIt from "markdown-it";
+import type StateBlock from "markdown-it/lib/rules_block/state_block.mjs";
+import type StateCore from "markdown-it/lib/rules_core/state_core.mjs";
+import type StateInline from "markdown-it/lib/rules_inline/state_inline.mjs";
+import type Token from "markdown-it/lib/token.mjs";
+import {
+  matchFileId,
+  matchImageAssetId,
+  parseAttachmentTitle,
+  YOUTUBE_EMBED_PATTERN,
+} from "./syntax";
+
+/**
+ * Markdown → 문서(ProseMirror JSON). markdown-it으로 토큰을 만든 뒤
+ * 편집기 스키마(components/editor/extensions.ts)에 맞는 노드로 옮긴다.
+ * 표기 규칙과 옮길 수 없는 것의 처리는 ./syntax.ts 참고.
+ */
+
+type Mark = NonNullable<JSONContent["marks"]>[number];
+
+const TASK_PREFIX = /^\[([ xX])\](?:[ \t]+|$)/;
+
+// pandoc 첨자 규칙: 안쪽에 공백이 있으면 `\ `로 적는다
+const UNESCAPE = /\\([ \\!"#$%&'()*+,./:;<=>?@[\]^_`{|}~-])/g;
+
+/** `~`(아래 첨자), `^`(위 첨자): 안쪽 글자를 그대로 담는다 */
+function scriptRule(marker: string, name: string) {
+  return (state: StateInline, silent: boolean) => {
+    const { src, pos: start, posMax: max } = state;
+    if (src[start] !== marker || src[start + 1] === marker) return false;
+    if (silent || start + 2 >= max) return false;
+
+    let end = start + 1;
+    while (end < max && src[end] !== marker) {
+      if (/\s/.test(src[end])) return false;
+      end += src[end] === "\\" ? 2 : 1;
+    }
+    if (end >= max || end === start + 1) return false;
+
+    state.push(`${name}_open`, "", 1);
+    const text = state.push("text", "", 0);
+    text.content = src.slice(start + 1, end).replace(UNESCAPE, "$1");
+    state.push(`${name}_close`, "", -1);
+    state.pos = end + 1;
+    return true;
+  };
+}
+
+/** `==글자==`: 안쪽은 다시 인라인으로 읽는다 */
+function highlightRule(state: StateInline, silent: boolean) {
+  const { src, pos: start, posMax: max } = state;
+  if (src[start] !== "=" || src[start + 1] !== "=") return false;
+  if (silent || /\s/.test(src[start + 2] ?? " ")) return false;
+
+  let end = start + 2;
+  while (end < max - 1) {
+    if (src[end] === "\\") {
+      end += 2;
+      continue;
+    }
+    if (src[end] === "=" && src[end + 1] === "=" && !/\s/.test(src[end - 1])) break;
+    end += 1;
+  }
+  if (end >= max - 1) return false;
+
+  state.push("highlight_open", "mark", 1);
+  state.pos = start + 2;
+  state.posMax = end;
+  state.md.inline.tokenize(state);
+  state.pos = end + 2;
+  state.posMax = max;
+  state.push("highlight_close", "mark", -1);
+  return true;
+}
+
+/** HTML은 끈 채로 `<u>`, `</u>`만 밑줄로 읽는다 */
+function underlineRule(state: StateInline, silent: boolean) {
+  const match = /^<(\/?)u>/.exec(state.src.slice(state.pos, state.posMax));
+  if (!match) return false;
+  if (!silent) {
+    state.push(match[1] ? "underline_close" : "underline_open", "u", match[1] ? -1 : 1);
+  }
+  state.pos += match[0].length;
+  return true;
+}
+
+/** `@[youtube](주소)` 한 줄 */
+function youtubeRule(state: StateBlock, startLine: number, _endLine: number, silent: boolean) {
+  const start = state.bMarks[startLine] + state.tShift[startLine];
+  const line = state.src.slice(start, state.eMarks[startLine]);
+  const match = YOUTUBE_EMBED_PATTERN.exec(line);
+  if (!match) return false;
+  if (!silent) {
+    const token = state.push("youtube", "", 0);
+    token.attrSet("src", match[1]);
+    token.map = [startLine, startLine + 1];
+  }
+  state.line = startLine + 1;
+  return true;
+}
+
+/**
+ * 모든 항목이 `[ ]`/`[x]`로 시작하는 글머리 목록을 할 일 목록으로 바꾼다.
+ * 인라인을 읽기 전에 원문에서 표시를 떼어 낸다.
+ */
+function taskListRule(state: StateCore) {
+  const { tokens } = state;
+  tokens.forEach((token, index) => {
+    if (token.type !== "bullet_list_open") return;
+
+    const items: Array<{ item: Token; inline: Token | undefined }> = [];
+    for (let i = index + 1; i < tokens.length; i++) {
+      const current = tokens[i];
+      if (current.type === "bullet_list_close" && current.level === token.level) break;
+      if (current.type === "list_item_open" && current.level === token.level + 1) {
+        // 항목의 첫 블록이 문단일 때만 할 일 표시를 찾는다
+        const inline =
+          tokens[i + 1]?.type === "paragraph_open" ? tokens[i + 2] : undefined;
+        items.push({ item: current, inline });
+      }
+    }
+
+    if (items.length === 0) return;
+    if (!items.every(({ inline }) => inline && TASK_PREFIX.test(inline.content))) return;
+
+    token.meta = { task: true };
+    items.forEach(({ item, inline }) => {
+      const match = TASK_PREFIX.exec(inline!.content)!;
+      item.meta = { checked: match[1] !== " " };
+      inline!.content = inline!.content.slice(match[0].length);
+    });
+  });
+}
+
+function createMarkdownIt() {
+  const md = new MarkdownIt("default", { html: false, linkify: true });
+  md.inline.ruler.after("emphasis", "subscript", scriptRule("~", "subscript"));
+  md.inline.ruler.after("emphasis", "superscript", scriptRule("^", "superscript"));
+  md.inline.ruler.after("emphasis", "highlight", highlightRule);
+  md.inline.ruler.before("autolink", "underline", underlineRule);
+  md.block.ruler.before("paragraph", "youtube", youtubeRule);
+  md.core.ruler.before("inline", "task_list", taskListRule);
+  return md;
+}
+
+let markdownIt: MarkdownIt | null = null;
+
+function getMarkdownIt() {
+  markdownIt ??= createMarkdownIt();
+  return markdownIt;
+}
+
+// markdown-it은 주소를 퍼센트 인코딩해 두므로 편집기에는 읽을 수 있는 모양으로 넣는다
+function readableUrl(url: string | null) {
+  return url === null ? null : getMarkdownIt().normalizeLinkText(url);
+}
+
+const INLINE_MARKS: Record<string, string> = {
+  strong: "bold",
+  em: "italic",
+  s: "strike",
+  highlight: "highlight",
+  underline: "underline",
+  subscript: "subscript",
+  superscript: "superscript",
+};
+
+function text(content: string, marks: Mark[]): JSONContent {
+  // 인라인 코드는 다른 마크와 함께 걸 수 없다
+  const code = marks.find((mark) => mark.type === "code");
+  return {
+    type: "text",
+    text: content,
+    ...(marks.length > 0 && { marks: code ? [code] : marks.map((mark) => ({ ...mark })) }),
+  };
+}
+
+function imageNode(token: Token): JSONContent {
+  const src = readableUrl(token.attrGet("src")) ?? "";
+  const alt = token.children?.map((child) => child.content).join("") || null;
+  const title = token.attrGet("title");
+  return {
+    type: "image",
+    attrs: {
+      src,
+      alt,
+      caption: title || null,
+      assetId: matchImageAssetId(src),
+    },
+  };
+}
+
+/** 인라인 토큰 → 글자 노드. 이미지는 블록이라 따로 표시해 두고 문단을 나눈다 */
+function convertInline(tokens: Token[]): JSONContent[] {
+  const out: JSONContent[] = [];
+  let marks: Mark[] = [];
+
+  const open = (mark: Mark) => {
+    marks = [...marks.filter((current) => current.type !== mark.type), mark];
+  };
+  const close = (type: string) => {
+    marks = marks.filter((mark) => mark.type !== type);
+  };
+
+  tokens.forEach((token) => {
+    const [name, suffix] = token.type.split(/_(?=open$|close$)/);
+    if (INLINE_MARKS[name] && suffix) {
+      if (suffix === "open") open({ type: INLINE_MARKS[name] });
+      else close(INLINE_MARKS[name]);
+      return;
+    }
+
+    switch (token.type) {
+      case "link_open":
+        open({
+          type: "link",
+          attrs: { href: readableUrl(token.attrGet("href")), title: token.attrGet("title") },
+        });
+        return;
+      case "link_close":
+        close("link");
+        return;
+      case "text":
+      case "text_special":
+        if (token.content) out.push(text(token.content, marks));
+        return;
+      case "code_inline":
+        out.push(text(token.content, [...marks, { type: "code" }]));
+        return;
+      case "softbreak":
+        out.push(text(" ", marks));
+        return;
+      case "hardbreak":
+        out.push({ type: "hardBreak" });
+        return;
+      case "image": {
+        const src = token.attrGet("src") ?? "";
+        // data: 주소는 에셋 저장소를 거치지 않으므로 대체 텍스트만 남긴다
+        if (src.startsWith("data:")) {
+          const alt = token.children?.map((child) => child.content).join("");
+          if (alt) out.push(text(alt, marks));
+          return;
+        }
+        out.push(imageNode(token));
+        return;
+      }
+      default:
+        if (token.content) out.push(text(token.content, marks));
+    }
+  });
+
+  return mergeText(out);
+}
+
+function mergeText(nodes: JSONContent[]) {
+  const merged: JSONContent[] = [];
+  nodes.forEach((node) => {
+    const last = merged[merged.length - 1];
+    if (
+      last?.type === "text" &&
+      node.type === "text" &&
+      JSON.stringify(last.marks ?? []) === JSON.stringify(node.marks ?? [])
+    ) {
+      last.text += node.text ?? "";
+    } else {
+      merged.push(node);
+    }
+  });
+  return merged;
+}
+
+/** 링크 하나만 있는 문단이 우리 첨부 파일 주소면 첨부 카드로 */
+function asAttachment(inline: JSONContent[]): JSONContent | null {
+  if (inline.length !== 1 || inline[0].type !== "text") return null;
+  const link = inline[0].marks?.find((mark) => mark.type === "link");
+  if (!link) return null;
+
+  const meta = parseAttachmentTitle(link.attrs?.title as string | null);
+  const fileId = matchFileId(String(link.attrs?.href ?? ""));
+  if (!meta || !fileId) return null;
+  return {
+    type: "attachment",
+    attrs: { name: inline[0].text, size: meta.size, type: meta.type, fileId },
+  };
+}
+
+/** 문단 안의 이미지를 블록으로 꺼내면서 문단을 나눈다 */
+function paragraphBlocks(inline: JSONContent[], attrs?: Record<string, unknown>) {
+  const attachment = asAttachment(inline);
+  if (attachment) return [attachment];
+
+  const blocks: JSONContent[] = [];
+  let run: JSONContent[] = [];
+  const flush = () => {
+    // 이미지를 떼어 낸 자리의 앞뒤 공백은 버린다
+    const first = run[0];
+    const last = run[run.length - 1];
+    if (first?.type === "text") first.text = first.text?.trimStart();
+    if (last?.type === "text") last.text = last.text?.trimEnd();
+    const content = run.filter((node) => node.type !== "text" || node.text);
+    if (content.length > 0 || blocks.length === 0) {
+      blocks.push({
+        type: "paragraph",
+        ...(attrs && { attrs }),
+        ...(content.length > 0 && { content }),
+      });
+    }
+    run = [];
+  };
+
+  inline.forEach((node) => {
+    if (node.type === "image") {
+      if (run.length > 0) flush();
+      blocks.push(node);
+    } else {
+      run.push(node);
+    }
+  });
+  if (run.length > 0 || blocks.length === 0) flush();
+  return blocks;
+}
+
+function cellAlignment(token: Token) {
+  const style = token.attrGet("style") ?? "";
+  return /text-align:(left|center|right)/.exec(style)?.[1] ?? null;
+}
+
+interface Frame {
+  node: JSONContent;
+  /** 닫을 때 부모에 붙일 블록으로 바꾼다 (목록 항목의 첫 문단 보장 등) */
+  finish?: (node: JSONContent) => JSONContent[];
+}
+
+function ensureLeadingParagraph(node: JSONContent): JSONContent[] {
+  const content = node.content ?? [];
+  if (content[0]?.type !== "paragraph") {
+    node.content = [{ type: "paragraph" }, ...content];
+  }
+  return [node];
+}
+
+function ensureContent(node: JSONContent): JSONContent[] {
+  if (!node.content || node.content.length === 0) {
+    node.content = [{ type: "paragraph" }];
+  }
+  return [node];
+}
+
+function convertBlocks(tokens: Token[]): JSONContent {
+  const root: JSONContent = { type: "doc", content: [] };
+  const stack: Frame[] = [{ node: root }];
+  let cellAlign: string | null = null;
+  let inHeading: number | null = null;
+
+  const top = () => stack[stack.length - 1].node;
+  const append = (...nodes: JSONContent[]) => {
+    const parent = top();
+    parent.content = [...(parent.content ?? []), ...nodes];
+  };
+  const push = (node: JSONContent, finish?: Frame["finish"]) => {
+    stack.push({ node, finish });
+  };
+  const pop = () => {
+    const frame = stack.pop()!;
+    append(...(frame.finish ? frame.finish(frame.node) : [frame.node]));
+  };
+
+  tokens.forEach((token) => {
+    switch (token.type) {
+      case "heading_open":
+        inHeading = Math.min(Number(token.tag.slice(1)) || 1, 3);
+        return;
+      case "heading_close":
+        inHeading = null;
+        return;
+      case "paragraph_open":
+      case "paragraph_close":
+        return;
+      case "inline": {
+        const inline = convertInline(token.children ?? []);
+        if (inHeading !== null) {
+          const textOnly = inline.filter((node) => node.type !== "image");
+          append({
+            type: "heading",
+            attrs: { level: inHeading },
+            ...(textOnly.length > 0 && { content: textOnly }),
+          });
+          return;
+        }
+        append(...paragraphBlocks(inline, cellAlign ? { textAlign: cellAlign } : undefined));
+        return;
+      }
+      case "blockquote_open":
+        push({ type: "blockquote" }, ensureContent);
+        return;
+      case "bullet_list_open":
+        push({ type: token.meta?.task ? "taskList" : "bulletList" });
+        return;
+      case "ordered_list_open": {
+        const start = Number(token.attrGet("start")) || 1;
+        push({ type: "orderedList", attrs: { start } });
+        return;
+      }
+      case "list_item_open": {
+        const checked = token.meta?.checked;
+        push(
+          checked === undefined
+            ? { type: "listItem" }
+            : { type: "taskItem", attrs: { checked } },
+          ensureLeadingParagraph
+        );
+        return;
+      }
+      case "table_open":
+        push({ type: "table" });
+        return;
+      case "tr_open":
+        push({ type: "tableRow" });
+        return;
+      case "th_open":
+      case "td_open":
+        cellAlign = cellAlignment(token);
+        push({ type: token.type === "th_open" ? "tableHeader" : "tableCell" }, ensureContent);
+        return;
+      case "th_close":
+      case "td_close":
+        cellAlign = null;
+        pop();
+        return;
+      case "thead_open":
+      case "thead_close":
+      case "tbody_open":
+      case "tbody_close":
+        return;
+      case "blockquote_close":
+      case "bullet_list_close":
+      case "ordered_list_close":
+      case "list_item_close":
+      case "table_close":
+      case "tr_close":
+        pop();
+        return;
+      case "fence":
+      case "code_block": {
+        const language = token.info.trim().split(/\s+/)[0] || null;
+        const code = token.content.replace(/\n$/, "");
+        append({
+          type: "codeBlock",
+          attrs: { language },
+          ...(code && { content: [{ type: "text", text: code }] }),
+        });
+        return;
+      }
+      case "hr":
+        append({ type: "horizontalRule" });
+        return;
+      case "youtube":
+        append({ type: "youtube", attrs: { src: token.attrGet("src") } });
+        return;
+      default:
+        // html_block 등은 html: false라 나오지 않는다. 글자가 있으면 문단으로
+        if (token.content) {
+          append({ type: "paragraph", content: [{ type: "text", text: token.content }] });
+        }
+    }
+  });
+
+  if (!root.content || root.content.length === 0) {
+    root.content = [{ type: "paragraph" }];
+  }
+  return root;
+}
+
+export function markdownToDocument(markdown: string): JSONContent {
+  return convertBlocks(getMarkdownIt().parse(markdown, {}));
+}
@@ -0,0 +1,323 @@
+import type { JSONContent } from "@tiptap/core";
+import { fileUrl } from "@/lib/files/client";
+import { flattenMentions } from "@/lib/mentions/content";
+import { expandTableOfContents } from "@/lib/outline/content";
+import { attachmentTitle, youtubeEmbed } from "./syntax";
+
+/**
+ * 문서(ProseMirror JSON) → Markdown. 표기 규칙과 옮길 수 없는 것의
+ * 처리는 ./syntax.ts 참고.
+ */
+
+type Mark = NonNullable<JSONContent["marks"]>[number];
+
+// 바깥부터 여는 순서. 첨자는 안쪽 글자를 그대로 담으므로 가장 안쪽
+const MARK_ORDER = [
+  "link",
+  "bold",
+  "italic",
+  "strike",
+  "underline",
+  "highlight",
+  "subscript",
+  "superscript",
+];
+
+const MARK_DELIMITERS: Record<string, [string, string]> = {
+  bold: ["**", "**"],
+  italic: ["*", "*"],
+  strike: ["~~", "~~"],
+  underline: ["<u>", "</u>"],
+  highlight: ["==", "=="],
+  subscript: ["~", "~"],
+  superscript: ["^", "^"],
+};
+
+const DELETION_MARK = "deletion";
+
+function escapeText(text: string) {
+  return text
+    .replace(/[\\`*_[\]<|~^&]/g, "\\$&")
+    .replace(/=(?==)/g, "=\\");
+}
+
+// 줄 맨 앞에서 목록/제목/인용/구분선으로 읽히지 않게.
+// `=`는 줄 전체가 `=`일 때만 제목 밑줄로 읽힌다 (`==하이라이트==`는 그대로)
+function escapeLineStarts(text: string) {
+  return text
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/^(\s*)([-+>#])/, "$1\\$2")
+        .replace(/^(\s*)(=+\s*)$/, "$1\\$2")
+        .replace(/^(\s*\d+)([.)])/, "$1\\$2")
+    )
+    .join("\n");
+}
+
+function escapeTitle(title: string) {
+  return title.replace(/["\\]/g, "\\$&");
+}
+
+function linkDestination(href: string) {
+  return /[\s()<>]/.test(href)
+    ? `<${href.replace(/[<>]/g, encodeURIComponent)}>`
+    : href;
+}
+
+function linkTail(href: string, title?: string | null) {
+  return `](${linkDestination(href)}${title ? ` "${escapeTitle(title)}"` : ""})`;
+}
+
+function codeSpan(text: string) {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longest + 1);
+  const pad = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${fence}${pad}${text}${pad}${fence}`;
+}
+
+function sortedMarks(node: JSONContent) {
+  return (node.marks ?? [])
+    .filter((mark) => MARK_ORDER.includes(mark.type))
+    .sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type));
+}
+
+function sameMark(a: Mark, b: Mark) {
+  return a.type === b.type && JSON.stringify(a.attrs) === JSON.stringify(b.attrs);
+}
+
+function openMark(mark: Mark) {
+  return mark.type === "link" ? "[" : MARK_DELIMITERS[mark.type][0];
+}
+
+function closeMark(mark: Mark) {
+  return mark.type === "link"
+    ? linkTail(String(mark.attrs?.href ?? ""), mark.attrs?.title as string | null)
+    : MARK_DELIMITERS[mark.type][1];
+}
+
+/**
+ * 글자 노드를 이어 붙이면서 마크가 바뀌는 곳에서만 구분자를 열고 닫는다.
+ * 구분자 바로 안쪽에 공백이 오면 강조로 읽히지 않으므로 공백은 바깥으로 뺀다.
+ */
+function serializeInline(nodes: JSONContent[], { inTable = false } = {}) {
+  let out = "";
+  let active: Mark[] = [];
+  let pendingSpace = "";
+
+  const closeFrom = (index: number) => {
+    for (let i = active.length - 1; i >= index; i--) out += closeMark(active[i]);
+    active = active.slice(0, index);
+  };
+
+  nodes.forEach((node) => {
+    if (node.marks?.some((mark) => mark.type === DELETION_MARK)) return;
+
+    if (node.type === "hardBreak") {
+      out += pendingSpace;
+      pendingSpace = "";
+      out += inTable ? " " : "\\\n";
+      return;
+    }
+    if (node.type !== "text" || !node.text) return;
+
+    const isCode = node.marks?.some((mark) => mark.type === "code") ?? false;
+    // 코드는 다른 마크를 가질 수 없다 (링크 포함)
+    const marks = isCode ? [] : sortedMarks(node);
+    const [, leading, core, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(node.text)!;
+
+    const keep = active.findIndex((mark, i) => !marks[i] || !sameMark(mark, marks[i]));
+    const kept = keep === -1 ? active.length : keep;
+    if (kept < active.length) closeFrom(kept);
+    out += pendingSpace + leading;
+    pendingSpace = "";
+    if (!core) {
+      pendingSpace = trailing;
+      return;
+    }
+
+    marks.slice(kept).forEach((mark) => {
+      out += openMark(mark);
+      active.push(mark);
+    });
+
+    if (isCode) {
+      out += codeSpan(core);
+    } else if (marks.some((mark) => mark.type === "subscript" || mark.type === "superscript")) {
+      out += escapeText(core).replace(/ /g, "\\ ");
+    } else {
+      out += escapeText(core);
+    }
+    pendingSpace = trailing;
+  });
+
+  closeFrom(0);
+  out += pendingSpace;
+  return inTable ? out.replace(/\n/g, " ") : out;
+}
+
+function indent(text: string, prefix: string, firstPrefix = prefix) {
+  return text
+    .split("\n")
+    .map((line, index) => {
+      if (index === 0) return firstPrefix + line;
+      return line ? prefix + line : line;
+    })
+    .join("\n");
+}
+
+function codeFence(text: string) {
+  const longest = Math.max(0, ...(text.match(/^`{3,}/gm) ?? []).map((run) => run.length));
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+function textOf(node: JSONContent): string {
+  if (node.type === "text") return node.text ?? "";
+  return (node.content ?? []).map(textOf).join("");
+}
+
+function isEmptyParagraph(node: JSONContent) {
+  return node.type === "paragraph" && !(node.content ?? []).some(
+    (child) => child.type !== "text" || (child.text ?? "").trim() !== ""
+  );
+}
+
+/** 표 셀은 한 줄이어야 해서 안쪽 블록을 공백으로 이어 붙인다 */
+function serializeCell(cell: JSONContent) {
+  const parts: string[] = [];
+  const visit = (node: JSONContent) => {
+    const children = node.content ?? [];
+    if (children.some((child) => child.type === "text" || child.type === "hardBreak")) {
+      parts.push(serializeInline(children, { inTable: true }));
+    } else {
+      children.forEach(visit);
+    }
+  };
+  visit(cell);
+  return parts.filter(Boolean).join(" ").trim() || " ";
+}
+
+function serializeTable(table: JSONContent) {
+  const rows = (table.content ?? []).map((row) =>
+    (row.content ?? []).flatMap((cell) => {
+      const span = Number(cell.attrs?.colspan) || 1;
+      return [serializeCell(cell), ...Array<string>(span - 1).fill(" ")];
+    })
+  );
+  if (rows.length === 0) return "";
+
+  const columns = Math.max(...rows.map((row) => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? " ").join(" | ")} |`;
+  // 열 정렬은 첫 행 셀의 문단 정렬을 따른다
+  const alignments = (table.content?.[0]?.content ?? []).flatMap((cell) => {
+    const align = cell.content?.[0]?.attrs?.textAlign;
+    const rule = align === "center" ? ":-:" : align === "right" ? "--:" : "---";
+    return Array<string>(Number(cell.attrs?.colspan) || 1).fill(rule);
+  });
+
+  return [
+    line(rows[0]),
+    line(Array.from({ length: columns }, (_, i) => alignments[i] ?? "---")),
+    ...rows.slice(1).map(line),
+  ].join("\n");
+}
+
+const BULLET_LISTS = ["bulletList", "taskList"];
+
+function sameListFamily(previous: JSONContent | undefined, node: JSONContent) {
+  if (!previous) return false;
+  if (node.type === "orderedList") return previous.type === "orderedList";
+  return (
+    BULLET_LISTS.includes(node.type ?? "") &&
+    BULLET_LISTS.includes(previous.type ?? "")
+  );
+}
+
+function serializeList(list: JSONContent, alternate: boolean) {
+  const start = Number(list.attrs?.start) || 1;
+  const bullet = alternate ? "*" : "-";
+  const items = (list.content ?? []).map((item, index) => {
+    const marker =
+      list.type === "orderedList"
+        ? `${start + index}${alternate ? ")" : "."} `
+        : list.type === "taskList"
+          ? `${bullet} [${item.attrs?.checked ? "x" : " "}] `
+          : `${bullet} `;
+    const body = serializeBlocks(item.content ?? [], { keepEmpty: true });
+    // 할 일 항목의 하위 내용은 "- " 너비만큼만 들여쓴다
+    const width = list.type === "taskList" ? 2 : marker.length;
+    return indent(body, " ".repeat(width), marker);
+  });
+  return items.join("\n");
+}
+
+function serializeBlock(node: JSONContent, alternate = false): string | null {
+  switch (node.type) {
+    case "paragraph":
+      return escapeLineStarts(serializeInline(node.content ?? []));
+    case "heading": {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+      const text = serializeInline(node.content ?? []).replace(/\\\n/g, " ");
+      return `${"#".repeat(level)} ${text}`.trimEnd();
+    }
+    case "blockquote":
+      return indent(serializeBlocks(node.content ?? []), "> ", "> ")
+        .split("\n")
+        .map((line) => line || ">")
+        .join("\n");
+    case "bulletList":
+    case "orderedList":
+    case "taskList":
+      return serializeList(node, alternate);
+    case "codeBlock": {
+      const text = textOf(node);
+      const fence = codeFence(text);
+      return `${fence}${node.attrs?.language ?? ""}\n${text}\n${fence}`;
+    }
+    case "horizontalRule":
+      return "---";
+    case "image": {
+      const src = node.attrs?.src as string | null;
+      if (!src || src.startsWith("data:")) return null;
+      const alt = String(node.attrs?.alt ?? "").replace(/[[\]\\]/g, "\\$&");
+      const caption = (node.attrs?.caption ?? node.attrs?.title) as string | null;
+      return `![${alt}${linkTail(src, caption)}`;
+    }
+    case "youtube":
+      return node.attrs?.src ? youtubeEmbed(String(node.attrs.src)) : null;
+    case "attachment": {
+      const fileId = node.attrs?.fileId as string | null;
+      if (!fileId) return null;
+      const name = String(node.attrs?.name || "파일");
+      const href = fileUrl(fileId, { name, download: true });
+      const title = attachmentTitle(Number(node.attrs?.size) || 0, String(node.attrs?.type ?? ""));
+      return `[${escapeText(name)}${linkTail(href, title)}`;
+    }
+    case "table":
+      return serializeTable(node);
+    default:
+      // 모르는 블록은 글자만
+      return node.content ? serializeBlocks(node.content) : null;
+  }
+}
+
+function serializeBlocks(nodes: JSONContent[], { keepEmpty = false } = {}) {
+  // 같은 종류의 목록이 이어지면 한 목록으로 읽히지 않게 기호를 번갈아 쓴다
+  let alternate = false;
+  return nodes
+    .filter((node) => keepEmpty || !isEmptyParagraph(node))
+    .map((node, index, kept) => {
+      alternate = sameListFamily(kept[index - 1], node) && !alternate;
+      return serializeBlock(node, alternate);
+    })
+    .filter((block): block is string => block !== null)
+    .join("\n\n");
+}
+
+export function documentToMarkdown(doc: JSONContent) {
+  // 멘션은 "@이름", 문서 멘션은 문서 링크로, 목차 블록은 제목 목록으로
+  const content = expandTableOfContents(flattenMentions(doc));
+  const markdown = serializeBlocks(content.content ?? []);
+  return markdown ? `${markdown}\n` : "";
+}
@@ -0,0 +1,52 @@
+/**
+ * Markdown 가져오기/내보내기가 함께 쓰는 표기 규칙.
+ *
+ * 표준 Markdown(CommonMark + GFM 표/취소선)에 더해
+ * - 하이라이트 `==글자==`, 아래 첨자 `H~2~O`, 위 첨자 `x^2^` (pandoc 방식, 안쪽 공백은 `\ `)
+ * - 밑줄 `<u>글자</u>` (HTML은 이 태그만 읽는다)
+ * - 할 일 목록 `- [ ] 할 일` / `- [x] 끝낸 일` (들여쓰면 하위 항목)
+ * - 코드 블록 언어는 펜스 정보 문자열 (```ts)
+ * - YouTube `@[youtube](주소)` 한 줄
+ * - 첨부 파일 `[이름](/api/files/<id>?... "attachment <바이트> <MIME>")` 한 줄
+ * - 이미지 `![대체 텍스트](주소 "캡션")`
+ *
+ * Markdown으로 옮길 수 없는 것은 이렇게 처리한다.
+ * - 글자 색, 문단 정렬, 이미지 크기/정렬, 표의 셀 병합과 열 너비: 버리고 내용만 남긴다
+ * - 표: 첫 행을 머리글로 쓴다. 셀 안의 여러 문단/목록은 한 줄로 이어 붙인다
+ * - 빈 문단: 내보내지 않는다 (Markdown에서는 빈 줄 여러 개가 하나와 같다)
+ * - 제목 4~6: 제목 3으로 가져온다
+ * - 댓글, 붙여넣기 출처 표시: 버린다
+ * - 멘션: 사람은 `@이름` 글자로, 문서는 그 문서로 가는 링크로 (가져오면 평범한 글자/링크)
+ * - 목차 블록: 그때의 제목 목록(글머리 기호)으로 (가져오면 평범한 목록)
+ * - 대기 중인 제안: 추가 제안은 남기고 삭제 제안 글자는 빼서, 모두 수락한 모습으로 내보낸다
+ * - 업로드가 끝나지 않은 이미지/첨부, data: 주소 이미지: 내보내지 않는다 (가져올 때는 대체 텍스트만)
+ * - 그 밖의 HTML: 글자 그대로 가져온다
+ */
+
+export const YOUTUBE_EMBED_PATTERN = /^@\[youtube\]\(([^()\s]+)\)\s*$/;
+
+export function youtubeEmbed(src: string) {
+  return `@[youtube](${src})`;
+}
+
+// 링크 title 자리에 크기와 형식을 담는다 (다른 곳에서는 평범한 링크로 보인다)
+const ATTACHMENT_TITLE_PREFIX = "attachment";
+
+export function attachmentTitle(size: number, type: string) {
+  return [ATTACHMENT_TITLE_PREFIX, size, type].filter(Boolean).join(" ");
+}
+
+export function parseAttachmentTitle(title: string | null | undefined) {
+  const [prefix, size, type] = (title ?? "").split(" ");
+  if (prefix !== ATTACHMENT_TITLE_PREFIX) return null;
+  return { size: Number(size) || 0, type: type ?? "" };
+}
+
+/** /api/files/<id>, /api/images/<id>/<variant> (절대 주소여도) 에서 id를 꺼낸다 */
+export function matchFileId(href: string) {
+  return /(?:^|\/\/[^/]+)\/api\/files\/([^/?#]+)/.exec(href)?.[1] ?? null;
+}
+
+export function matchImageAssetId(src: string) {
+  return /(?:^|\/\/[^/]+)\/api\/images\/([^/?#]+)\//.exec(src)?.[1] ?? null;
+}
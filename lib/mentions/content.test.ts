@@ -0,0 +1,60 @@
+import type { JSONContent } from "@tiptap/core";
+import { describe, expect, it } from "vitest";
+import {
+  flattenMentions,
+  hideDocumentMentionIds,
+  restoreDocumentMentionIds,
+} from "./content";
+
+function documentMention(id: string | null, mentionId: string): JSONContent {
+  return {
+    type: "mention",
+    attrs: { kind: "document", id, label: "기획서", mentionId },
+  };
+}
+
+function doc(...mentions: JSONContent[]): JSONContent {
+  return { type: "doc", content: [{ type: "paragraph", content: mentions }] };
+}
+
+const person: JSONContent = {
+  type: "mention",
+  attrs: { kind: "person", id: "u1", label: "김하나", mentionId: "mn_p" },
+};
+
+describe("공유 링크의 문서 멘션", () => {
+  it("응답에서는 문서 id를 뺀다 (사람 멘션은 그대로)", () => {
+    expect(hideDocumentMentionIds(doc(documentMention("d1", "mn_1"), person))).toEqual(
+      doc(documentMention(null, "mn_1"), person)
+    );
+  });
+
+  it("id를 뺀 문서 멘션은 링크 없는 제목으로 내보낸다", () => {
+    expect(flattenMentions(doc(documentMention(null, "mn_1")))).toEqual(
+      doc({ type: "text", text: "기획서" })
+    );
+  });
+
+  it("저장할 때 mentionId로 저장된 문서의 id를 되돌린다", () => {
+    const stored = doc(documentMention("d1", "mn_1"), documentMention("d2", "mn_2"));
+    expect(
+      restoreDocumentMentionIds(
+        doc(
+          documentMention(null, "mn_2"),
+          // 클라이언트가 보낸 id는 믿지 않는다
+          documentMention("d9", "mn_1"),
+          documentMention("d3", "mn_new"),
+          person
+        ),
+        stored
+      )
+    ).toEqual(
+      doc(
+        documentMention("d2", "mn_2"),
+        documentMention("d1", "mn_1"),
+        documentMention(null, "mn_new"),
+        person
+      )
+    );
+  });
+});
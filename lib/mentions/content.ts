@@ -0,0 +1,117 @@
+import type { JSONContent } from "@tiptap/core";
+import { DEFAULT_DOCUMENT_TITLE } from "@/lib/documents/types";
+
+/**
+ * 본문의 mention 노드: 사람(@)과 문서([[ 또는 #).
+ * 노드에는 id를 남기고 label은 넣을 때의 이름이다 — 편집기는 지금 이름을
+ * 찾아서 보여주고, 찾지 못하는 곳(내보내기, 재생 등)에서만 label을 쓴다.
+ */
+
+export type MentionKind = "person" | "document";
+
+export const MENTION_NODE = "mention";
+
+/** 알림에서 본문의 그 자리로 바로 가는 주소 */
+export function mentionHash(mentionId: string) {
+  return `#mention-${mentionId}`;
+}
+
+export function parseMentionHash(hash: string) {
+  return /^#mention-([A-Za-z0-9_-]+)$/.exec(hash)?.[1] ?? null;
+}
+
+export function documentHref(documentId: string) {
+  return `/doc/${documentId}`;
+}
+
+function mentionKind(node: JSONContent): MentionKind {
+  return node.attrs?.kind === "document" ? "document" : "person";
+}
+
+/**
+ * mention을 같은 모양의 글자로 바꾼다 (Markdown/DOCX/PDF, 글자 수 세기).
+ * 사람은 "@이름", 문서는 제목에 문서 링크 (id를 가린 문서 멘션은 제목만).
+ */
+export function mentionAsText(node: JSONContent): JSONContent {
+  const label = String(node.attrs?.label ?? node.attrs?.id ?? "");
+  if (mentionKind(node) === "document") {
+    const marks = [
+      ...(node.marks ?? []),
+      ...(node.attrs?.id
+        ? [{ type: "link", attrs: { href: documentHref(String(node.attrs.id)) } }]
+        : []),
+    ];
+    return {
+      type: "text",
+      text: label || DEFAULT_DOCUMENT_TITLE,
+      ...(marks.length > 0 ? { marks } : {}),
+    };
+  }
+  return {
+    type: "text",
+    text: `@${label}`,
+    ...(node.marks ? { marks: node.marks } : {}),
+  };
+}
+
+export function flattenMentions(node: JSONContent): JSONContent {
+  if (node.type === MENTION_NODE) return mentionAsText(node);
+  if (!node.content) return node;
+  return { ...node, content: node.content.map(flattenMentions) };
+}
+
+function mapDocumentMentions(
+  node: JSONContent,
+  map: (mention: JSONContent) => JSONContent
+): JSONContent {
+  if (node.type === MENTION_NODE && mentionKind(node) === "document") {
+    return map(node);
+  }
+  if (!node.content) return node;
+  return {
+    ...node,
+    content: node.content.map((child) => mapDocumentMentions(child, map)),
+  };
+}
+
+/**
+ * 공개 페이지: 문서 멘션은 제목 글자로만 남긴다.
+ * /doc/<id> 주소를 받으면 누구든 그 문서를 열고 고칠 수 있기 때문이다.
+ */
+export function documentMentionsAsLabels(doc: JSONContent): JSONContent {
+  return mapDocumentMentions(doc, (mention) =>
+    mentionAsText({ ...mention, attrs: { ...mention.attrs, id: null } })
+  );
+}
+
+/** 공유 링크 응답: 문서 멘션의 문서 id를 뺀다 (제목과 mentionId는 남긴다) */
+export function hideDocumentMentionIds(doc: JSONContent): JSONContent {
+  return mapDocumentMentions(doc, (mention) => ({
+    ...mention,
+    attrs: { ...mention.attrs, id: null },
+  }));
+}
+
+/**
+ * 공유 링크로 저장한 본문: id를 뺐던 문서 멘션에 저장된 문서의 id를
+ * mentionId로 찾아 되돌린다. 공유 링크에서는 문서를 멘션할 수 없으므로
+ * 저장된 문서에 없는 문서 멘션은 id 없이 남는다.
+ */
+export function restoreDocumentMentionIds(
+  doc: JSONContent,
+  stored: JSONContent
+): JSONContent {
+  const ids = new Map<string, string>();
+  mapDocumentMentions(stored, (mention) => {
+    const { mentionId, id } = mention.attrs ?? {};
+    if (mentionId && id) ids.set(String(mentionId), String(id));
+    return mention;
+  });
+  return mapDocumentMentions(doc, (mention) => ({
+    ...mention,
+    attrs: {
+      ...mention.attrs,
+      id: ids.get(String(mention.attrs?.mentionId)) ?? null,
+    },
+  }));
+}
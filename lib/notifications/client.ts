@@ -0,0 +1,46 @@
+import type { MentionInput, Notification } from "./types";
+
+/** 문서 주인은 문서 id로, 공유 링크로 연 사람은 토큰으로 접근한다 */
+export type MentionTarget = { documentId: string } | { shareToken: string };
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(input, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!res.ok) {
+    throw new Error(`${init?.method ?? "GET"} ${input} failed: ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+export async function fetchNotifications(userId: string) {
+  const { notifications } = await request<{ notifications: Notification[] }>(
+    `/api/users/${userId}/notifications`
+  );
+  return notifications;
+}
+
+/** ids가 없으면 모두 읽음으로 */
+export async function markNotificationsRead(userId: string, ids?: string[]) {
+  const { notifications } = await request<{ notifications: Notification[] }>(
+    `/api/users/${userId}/notifications`,
+    { method: "PATCH", body: JSON.stringify({ ids }) }
+  );
+  return notifications;
+}
+
+/**
+ * 본문에 @멘션을 넣으면 그 사람에게 알림을 보낸다.
+ * 공유 링크로 보낸 알림에는 documentId 대신 shareToken이 있다.
+ */
+export async function notifyMention(target: MentionTarget, input: MentionInput) {
+  const path =
+    "shareToken" in target
+      ? `/api/shares/${target.shareToken}/mentions`
+      : `/api/documents/${target.documentId}/mentions`;
+  const { notification } = await request<{
+    notification: Notification | null;
+  }>(path, { method: "POST", body: JSON.stringify(input) });
+  return notification;
+}
@@ -0,0 +1,88 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import type { StoredDocument } from "@/lib/documents/types";
+import { DATA_DIR, readJson, writeJsonAtomic } from "@/lib/storage";
+import { isValidUserId } from "@/lib/users/validate";
+import type {
+  MentionInput,
+  MentionNotification,
+  StoredNotifications,
+} from "./types";
+
+// 받는 사람별 알림: .data/notifications/<userId>.json
+const NOTIFICATIONS_DIR = path.join(DATA_DIR, "notifications");
+
+// 오래된 알림은 버린다
+const MAX_NOTIFICATIONS = 100;
+
+function notificationsPath(userId: string) {
+  if (!isValidUserId(userId)) {
+    throw new Error(`Invalid user id: ${userId}`);
+  }
+  return path.join(NOTIFICATIONS_DIR, `${userId}.json`);
+}
+
+async function readNotifications(userId: string): Promise<StoredNotifications> {
+  return (
+    (await readJson<StoredNotifications>(notificationsPath(userId))) ?? {
+      userId,
+      notifications: [],
+    }
+  );
+}
+
+/** 최신순 */
+export async function listNotifications(userId: string) {
+  const { notifications } = await readNotifications(userId);
+  return notifications;
+}
+
+/**
+ * 같은 멘션으로 이미 알림을 보냈으면 다시 만들지 않는다 (null).
+ * 공유 링크에서 멘션했으면 shareToken을 넘긴다: 알림에는 문서 id 대신 토큰이 남는다.
+ */
+export async function createMentionNotification(
+  document: StoredDocument,
+  input: MentionInput,
+  { shareToken }: { shareToken?: string } = {}
+): Promise<MentionNotification | null> {
+  const stored = await readNotifications(input.userId);
+  if (
+    stored.notifications.some(
+      (notification) => notification.mentionId === input.mentionId
+    )
+  ) {
+    return null;
+  }
+
+  const notification: MentionNotification = {
+    id: randomUUID(),
+    kind: "mention",
+    ...(shareToken ? { shareToken } : { documentId: document.id }),
+    documentTitle: document.title,
+    mentionId: input.mentionId,
+    excerpt: input.excerpt,
+    actor: input.actor,
+    createdAt: new Date().toISOString(),
+    readAt: null,
+  };
+  stored.notifications = [notification, ...stored.notifications].slice(
+    0,
+    MAX_NOTIFICATIONS
+  );
+  await writeJsonAtomic(notificationsPath(input.userId), stored);
+  return notification;
+}
+
+/** ids가 없으면 모두 읽음으로 */
+export async function markNotificationsRead(userId: string, ids?: string[]) {
+  const stored = await readNotifications(userId);
+  const now = new Date().toISOString();
+  stored.notifications = stored.notifications.map((notification) =>
+    notification.readAt || (ids && !ids.includes(notification.id))
+      ? notification
+      : { ...notification, readAt: now }
+  );
+  await writeJsonAtomic(notificationsPath(userId), stored);
+  return stored.notifications;
+}
@@ -0,0 +1,43 @@
+import type { CommentAuthor } from "@/lib/comments/types";
+
+/**
+ * 누군가 본문에서 나를 @멘션했다.
+ * 공유 링크에서 멘션했으면 문서 id 대신 그 링크의 토큰을 남긴다
+ * (알림은 누구나 읽을 수 있어 공유 링크가 숨기는 문서 id가 새면 안 된다).
+ */
+export type MentionNotification = MentionNotificationFields &
+  (
+    | { documentId: string; shareToken?: undefined }
+    | { documentId?: undefined; shareToken: string }
+  );
+
+interface MentionNotificationFields {
+  id: string;
+  kind: "mention";
+  /** 알림을 만들 때의 문서 제목 */
+  documentTitle: string;
+  /** 본문의 mention 노드 id (그 문단으로 바로 가는 데 쓴다) */
+  mentionId: string;
+  /** 멘션이 들어 있는 문단의 글 */
+  excerpt: string;
+  actor: CommentAuthor;
+  createdAt: string;
+  /** null이면 아직 읽지 않음 */
+  readAt: string | null;
+}
+
+export type Notification = MentionNotification;
+
+/** .data/notifications/<userId>.json */
+export interface StoredNotifications {
+  userId: string;
+  notifications: Notification[];
+}
+
+export interface MentionInput {
+  mentionId: string;
+  /** 멘션된 사람 */
+  userId: string;
+  excerpt: string;
+  actor: CommentAuthor;
+}
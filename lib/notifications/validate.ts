@@ -0,0 +1,60 @@
+import { isValidUserId } from "@/lib/users/validate";
+import type { MentionInput } from "./types";
+
+const MAX_EXCERPT_LENGTH = 280;
+const MAX_NAME_LENGTH = 80;
+
+const MENTION_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+function parseActor(value: unknown): MentionInput["actor"] | null {
+  if (!value || typeof value !== "object") return null;
+  const { id, name, color } = value as Record<string, unknown>;
+  if (
+    typeof id !== "string" ||
+    !isValidUserId(id) ||
+    typeof name !== "string" ||
+    !name.trim() ||
+    name.length > MAX_NAME_LENGTH ||
+    typeof color !== "string" ||
+    !/^#[0-9a-f]{6}$/i.test(color)
+  ) {
+    return null;
+  }
+  return { id, name: name.trim(), color };
+}
+
+// 요청 body에서 mentionId/userId/excerpt/actor를 골라낸다. 형식이 틀리면 null.
+export function parseMentionInput(body: unknown): MentionInput | null {
+  if (!body || typeof body !== "object") return null;
+  const input = body as Record<string, unknown>;
+
+  const actor = parseActor(input.actor);
+  if (
+    !actor ||
+    typeof input.mentionId !== "string" ||
+    !MENTION_ID_PATTERN.test(input.mentionId) ||
+    typeof input.userId !== "string" ||
+    !isValidUserId(input.userId) ||
+    typeof input.excerpt !== "string"
+  ) {
+    return null;
+  }
+
+  return {
+    mentionId: input.mentionId,
+    userId: input.userId,
+    excerpt: input.excerpt.trim().slice(0, MAX_EXCERPT_LENGTH),
+    actor,
+  };
+}
+
+/** PATCH body: { ids?: string[] } (없으면 모두) */
+export function parseMarkReadInput(body: unknown): { ids?: string[] } | null {
+  if (!body || typeof body !== "object") return null;
+  const { ids } = body as Record<string, unknown>;
+  if (ids === undefined) return {};
+  if (!Array.isArray(ids) || !ids.every((id) => typeof id === "string")) {
+    return null;
+  }
+  return { ids };
+}
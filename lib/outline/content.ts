@@ -0,0 +1,77 @@
+import type { JSONContent } from "@tiptap/core";
+
+/**
+ * 제목(H1–H3)으로 만드는 문서 개요.
+ * 섹션을 통째로 옮길 수 있도록 최상위 블록의 제목만 센다
+ * (인용/목록/표 안의 제목은 개요에 넣지 않는다).
+ */
+
+export const TABLE_OF_CONTENTS_NODE = "tableOfContents";
+
+export interface OutlineHeading {
+  level: number;
+  text: string;
+}
+
+function inlineText(node: JSONContent): string {
+  if (node.type === "text") return node.text ?? "";
+  return (node.content ?? []).map(inlineText).join("");
+}
+
+export function collectHeadings(doc: JSONContent): OutlineHeading[] {
+  return (doc.content ?? [])
+    .filter((node) => node.type === "heading")
+    .map((node) => ({
+      level: Number(node.attrs?.level ?? 1),
+      text: inlineText(node).trim(),
+    }));
+}
+
+// 가장 높은 수준의 제목을 한 단계로, 그 아래 제목은 앞 항목의 하위 목록으로
+function outlineList(headings: OutlineHeading[]): JSONContent | null {
+  if (headings.length === 0) return null;
+  const top = Math.min(...headings.map(({ level }) => level));
+  const groups: Array<{ heading: OutlineHeading; children: OutlineHeading[] }> =
+    [];
+  headings.forEach((heading) => {
+    const last = groups[groups.length - 1];
+    if (heading.level === top || !last) groups.push({ heading, children: [] });
+    else last.children.push(heading);
+  });
+
+  return {
+    type: "bulletList",
+    content: groups.map(({ heading, children }) => {
+      const nested = outlineList(children);
+      return {
+        type: "listItem",
+        content: [
+          {
+            type: "paragraph",
+            ...(heading.text && {
+              content: [{ type: "text", text: heading.text }],
+            }),
+          },
+          ...(nested ? [nested] : []),
+        ],
+      };
+    }),
+  };
+}
+
+/**
+ * 목차 블록을 그 자리의 제목 목록(글머리 기호)으로 바꾼다 (Markdown/DOCX/PDF).
+ * 제목이 없으면 목차 블록은 빠진다.
+ */
+export function expandTableOfContents(doc: JSONContent): JSONContent {
+  if (!doc.content?.some((node) => node.type === TABLE_OF_CONTENTS_NODE)) {
+    return doc;
+  }
+  const list = outlineList(collectHeadings(doc));
+  return {
+    ...doc,
+    content: doc.content.flatMap((node) =>
+      node.type !== TABLE_OF_CONTENTS_NODE ? [node] : list ? [list] : []
+    ),
+  };
+}
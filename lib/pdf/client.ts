@@ -0,0 +1,20 @@
+import type { PdfExportInput } from "./validate";
+
+async function requestPdf(url: string, input: PdfExportInput) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  if (!res.ok) throw new Error(`POST ${url} failed: ${res.status}`);
+  return res.blob();
+}
+
+/** 서버에서 만든 PDF를 Blob으로 받는다 */
+export function exportPdf(documentId: string, input: PdfExportInput) {
+  return requestPdf(`/api/documents/${documentId}/pdf`, input);
+}
+
+export function exportSharedPdf(token: string, input: PdfExportInput) {
+  return requestPdf(`/api/shares/${token}/pdf`, input);
+}
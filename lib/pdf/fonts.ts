@@ -0,0 +1,149 @@
+/**
+ * PDF에 넣을 글꼴과 글자 폭.
+ *
+ * 글꼴 파일을 넣지 않고 PDF 뷰어에 늘 있는 글꼴만 쓴다.
+ * - 라틴 글자: 표준 14 글꼴(Helvetica, Courier) + WinAnsiEncoding
+ * - 한글 등 나머지: Adobe-Korea1 CID 글꼴(HYGoThic-Medium) + UniKS-UCS2-H
+ *   (뷰어에 내장된 한글 글꼴로 그린다. 폭은 모두 1em로 본다)
+ * 굵은/기울인 한글은 글꼴이 따로 없어 외곽선 두께와 기울임 행렬로 흉내 낸다.
+ */
+
+export type FontKey =
+  | "sans"
+  | "sans-bold"
+  | "sans-italic"
+  | "sans-bold-italic"
+  | "mono"
+  | "mono-bold"
+  | "cjk";
+
+export interface TextStyle {
+  mono: boolean;
+  bold: boolean;
+  italic: boolean;
+  size: number;
+}
+
+/** 한 글꼴로 그릴 수 있는 글자 묶음. encoded는 콘텐츠 스트림에 그대로 쓰는 문자열 */
+export interface FontRun {
+  font: FontKey;
+  text: string;
+  encoded: string;
+  width: number;
+}
+
+export const FONT_RESOURCES: Record<FontKey, { name: string; baseFont: string }> = {
+  sans: { name: "F1", baseFont: "Helvetica" },
+  "sans-bold": { name: "F2", baseFont: "Helvetica-Bold" },
+  "sans-italic": { name: "F3", baseFont: "Helvetica-Oblique" },
+  "sans-bold-italic": { name: "F4", baseFont: "Helvetica-BoldOblique" },
+  mono: { name: "F5", baseFont: "Courier" },
+  "mono-bold": { name: "F6", baseFont: "Courier-Bold" },
+  cjk: { name: "F7", baseFont: "HYGoThic-Medium" },
+};
+
+// Helvetica / Helvetica-Bold의 AFM 폭 (1000 단위), 글자 32~126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsiEncoding에서 0x80~0x9F 자리에 있는 글자
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87,
+  "ˆ": 0x88, "‰": 0x89, "Š": 0x8a, "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e, "‘": 0x91,
+  "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "˜": 0x98,
+  "™": 0x99, "š": 0x9a, "›": 0x9b, "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+
+// ASCII 밖 WinAnsi 글자 폭. 없으면 556 (라틴 소문자 평균)
+const WIN_ANSI_WIDTHS: Record<number, number> = {
+  0x80: 556, 0x82: 222, 0x84: 333, 0x85: 1000, 0x89: 1000, 0x8b: 333, 0x8c: 1000,
+  0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x96: 556, 0x97: 1000,
+  0x99: 1000, 0x9b: 333, 0x9c: 944, 0xa0: 278, 0xa1: 333, 0xa9: 737, 0xab: 556,
+  0xae: 737, 0xb0: 400, 0xb1: 584, 0xb7: 278, 0xbb: 556, 0xbf: 611, 0xd7: 584,
+  0xf7: 584,
+};
+
+const MONO_WIDTH = 600;
+const CJK_WIDTH = 1000;
+
+/** WinAnsi로 쓸 수 있으면 그 코드, 아니면 null (한글 글꼴로) */
+function winAnsiCode(char: string) {
+  const code = char.codePointAt(0) ?? 0;
+  if (code >= 0x20 && code <= 0x7e) return code;
+  if (code >= 0xa0 && code <= 0xff) return code;
+  return WIN_ANSI_EXTRA[char] ?? null;
+}
+
+function latinFont(style: TextStyle): FontKey {
+  if (style.mono) return style.bold ? "mono-bold" : "mono";
+  if (style.bold) return style.italic ? "sans-bold-italic" : "sans-bold";
+  return style.italic ? "sans-italic" : "sans";
+}
+
+function latinWidth(code: number, font: FontKey) {
+  if (font === "mono" || font === "mono-bold") return MONO_WIDTH;
+  const table = font === "sans-bold" || font === "sans-bold-italic"
+    ? HELVETICA_BOLD_WIDTHS
+    : HELVETICA_WIDTHS;
+  return code <= 0x7e ? table[code - 0x20] : (WIN_ANSI_WIDTHS[code] ?? 556);
+}
+
+function escapeLatin(code: number) {
+  const char = String.fromCharCode(code);
+  if (char === "(" || char === ")" || char === "\\") return `\\${char}`;
+  return code > 0x7e ? `\\${code.toString(8).padStart(3, "0")}` : char;
+}
+
+/** 글꼴이 바뀌는 자리에서 나눈다. 폭은 pt */
+export function fontRuns(text: string, style: TextStyle): FontRun[] {
+  const runs: FontRun[] = [];
+  const latin = latinFont(style);
+
+  for (const char of text) {
+    const code = winAnsiCode(char);
+    let font: FontKey;
+    let encoded: string;
+    let width: number;
+    if (code !== null) {
+      font = latin;
+      encoded = escapeLatin(code);
+      width = latinWidth(code, latin);
+    } else {
+      // UCS-2 밖(이모지 등)은 그릴 수 없어 □로
+      const unicode = char.length > 1 ? 0x25a1 : (char.codePointAt(0) ?? 0x25a1);
+      font = "cjk";
+      encoded = unicode.toString(16).padStart(4, "0");
+      width = CJK_WIDTH;
+    }
+
+    const last = runs[runs.length - 1];
+    const points = (width * style.size) / 1000;
+    if (last?.font === font) {
+      last.text += char;
+      last.encoded += encoded;
+      last.width += points;
+    } else {
+      runs.push({ font, text: char, encoded, width: points });
+    }
+  }
+  return runs;
+}
+
+export function measureText(text: string, style: TextStyle) {
+  return fontRuns(text, style).reduce((sum, run) => sum + run.width, 0);
+}
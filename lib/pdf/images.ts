@@ -0,0 +1,34 @@
+import sharp from "sharp";
+import { readFileBytes } from "@/lib/files/store";
+import { readImage } from "@/lib/images/store";
+import { matchImageAssetId } from "@/lib/markdown/syntax";
+
+export interface PdfImageData {
+  /** JPEG */
+  data: Uint8Array;
+  width: number;
+  height: number;
+  channels: number;
+}
+
+/**
+ * 에셋 저장소의 그림만 넣는다. 바깥 주소는 서버가 대신 가져오지 않는다
+ * (내부망 주소를 찔러 볼 수 있으므로). 투명한 부분은 흰 바탕으로.
+ */
+export async function loadPdfImage(src: string): Promise<PdfImageData | null> {
+  const id = matchImageAssetId(src);
+  const image = id ? await readImage(id) : null;
+  const bytes = image ? await readFileBytes(image.variants["2x"].fileId) : null;
+  if (!bytes) return null;
+
+  const { data, info } = await sharp(bytes)
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: 85 })
+    .toBuffer({ resolveWithObject: true });
+  return {
+    data: new Uint8Array(data),
+    width: info.width,
+    height: info.height,
+    channels: info.channels,
+  };
+}
@@ -0,0 +1,767 @@
+import type { JSONContent } from "@tiptap/core";
+import { formatBytes } from "@/components/editor/Attachment";
+import { fileUrl } from "@/lib/files/client";
+import { fontRuns, measureText, type TextStyle } from "./fonts";
+import type { PdfPage, Rgb } from "./writer";
+
+/**
+ * 문서 블록 → 세로로 쌓을 상자 목록. 상자 하나는 쪽을 넘길 때 나뉘지 않는다
+ * (문단은 줄마다, 표는 행 묶음마다 상자 하나). 쪽 나누기는 render.ts가 한다.
+ */
+
+type Mark = NonNullable<JSONContent["marks"]>[number];
+
+export interface Box {
+  height: number;
+  /** 쪽 맨 위에 오거나 쪽 끝을 넘으면 버리는 여백 */
+  gap?: boolean;
+  /** 다음 상자와 같은 쪽에 둔다 (제목) */
+  keepWithNext?: boolean;
+  /** 목차가 가리킬 자리 */
+  anchor?: string;
+  /** 첫 줄 글자 기준선 (목록 기호를 맞춘다) */
+  baseline?: number;
+  /** 글자 줄이면 글자가 차지한 폭 (목차 점선) */
+  lineWidth?: number;
+  draw?: (page: PdfPage, top: number) => void;
+}
+
+export interface LoadedImage {
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface Heading {
+  anchor: string;
+  level: number;
+  text: string;
+}
+
+export interface LayoutContext {
+  /** src → 미리 읽어 둔 그림 (못 읽었으면 null) */
+  images: Map<string, LoadedImage | null>;
+  /** 상대 주소 링크를 절대 주소로 */
+  baseUrl: string;
+  /** 그림이 한 쪽에 들어가도록 줄일 때 쓰는 본문 높이 */
+  bodyHeight: number;
+  headings: Heading[];
+}
+
+interface InlineStyle extends TextStyle {
+  /** 위/아래 첨자로 줄이기 전 크기 (줄 높이 계산용) */
+  lineSize: number;
+  color: Rgb;
+  highlight: boolean;
+  underline: boolean;
+  strike: boolean;
+  code: boolean;
+  script: "sub" | "sup" | null;
+  link: string | null;
+}
+
+interface Atom {
+  text: string;
+  style: InlineStyle;
+  width: number;
+  space: boolean;
+  lineBreak?: boolean;
+}
+
+export const TEXT_COLOR: Rgb = [0.12, 0.14, 0.17];
+export const MUTED_COLOR: Rgb = [0.42, 0.45, 0.5];
+const LINK_COLOR: Rgb = [0.15, 0.39, 0.92];
+const BORDER_COLOR: Rgb = [0.82, 0.83, 0.85];
+const SHADE_COLOR: Rgb = [0.96, 0.96, 0.97];
+const HIGHLIGHT_COLOR: Rgb = [1, 0.93, 0.55];
+
+export const BODY_SIZE = 11;
+const LINE_HEIGHT = 1.45;
+const CODE_SIZE = 9;
+const PARAGRAPH_GAP = 6;
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+const CELL_PADDING = 5;
+const HEADING_SIZES = [22, 17, 14];
+const HEADING_GAPS = [18, 14, 10];
+
+const DELETION_MARK = "deletion";
+
+/** #rgb, #rrggbb, rgb(r, g, b) → 0..1. 그 밖의 색 이름은 기본색으로 */
+function parseColor(value: unknown): Rgb | null {
+  const text = String(value ?? "").trim().toLowerCase();
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(text)?.[1];
+  if (hex) {
+    const full = hex.length === 3 ? hex.replace(/./g, "$&$&") : hex;
+    return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16) / 255) as Rgb;
+  }
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/.exec(text);
+  if (rgb) return rgb.slice(1, 4).map((part) => Math.min(255, Number(part)) / 255) as Rgb;
+  return null;
+}
+
+function absoluteUrl(href: string, baseUrl: string) {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+function baseStyle(size: number, { bold = false, color = TEXT_COLOR } = {}): InlineStyle {
+  return {
+    mono: false,
+    bold,
+    italic: false,
+    size,
+    lineSize: size,
+    color,
+    highlight: false,
+    underline: false,
+    strike: false,
+    code: false,
+    script: null,
+    link: null,
+  };
+}
+
+function markStyle(base: InlineStyle, marks: Mark[], baseUrl: string): InlineStyle {
+  const style = { ...base };
+  marks.forEach((mark) => {
+    switch (mark.type) {
+      case "bold":
+        style.bold = true;
+        break;
+      case "italic":
+        style.italic = true;
+        break;
+      case "underline":
+        style.underline = true;
+        break;
+      case "strike":
+        style.strike = true;
+        break;
+      case "highlight":
+        style.highlight = true;
+        break;
+      case "code":
+        style.code = true;
+        style.mono = true;
+        break;
+      case "subscript":
+        style.script = "sub";
+        break;
+      case "superscript":
+        style.script = "sup";
+        break;
+      case "textStyle":
+        style.color = parseColor(mark.attrs?.color) ?? style.color;
+        break;
+      case "link":
+        style.link = absoluteUrl(String(mark.attrs?.href ?? ""), baseUrl);
+        if (style.link) {
+          style.color = LINK_COLOR;
+          style.underline = true;
+        }
+        break;
+    }
+  });
+  if (style.code) style.size *= 0.92;
+  if (style.script) style.size *= 0.7;
+  return style;
+}
+
+function atom(text: string, style: InlineStyle, space = false): Atom {
+  return { text, style, width: measureText(text, style), space };
+}
+
+function toAtoms(nodes: JSONContent[], base: InlineStyle, baseUrl: string) {
+  const atoms: Atom[] = [];
+  nodes.forEach((node) => {
+    const marks = node.marks ?? [];
+    if (marks.some((mark) => mark.type === DELETION_MARK)) return;
+
+    if (node.type === "hardBreak") {
+      atoms.push({ ...atom("", base), lineBreak: true });
+      return;
+    }
+    if (node.type !== "text" || !node.text) return;
+
+    const style = markStyle(base, marks, baseUrl);
+    node.text
+      .replace(/\t/g, "    ")
+      .split(/( +)/)
+      .forEach((part) => {
+        if (part) atoms.push(atom(part, style, part.startsWith(" ")));
+      });
+  });
+  return atoms;
+}
+
+/** 한 줄에 들어가지 않는 긴 낱말은 글자 단위로 자른다 */
+function splitAtom(source: Atom, maxWidth: number, firstWidth: number) {
+  const pieces: Atom[] = [];
+  let text = "";
+  let limit = firstWidth;
+  for (const char of source.text) {
+    if (text && measureText(text + char, source.style) > limit) {
+      pieces.push(atom(text, source.style));
+      text = "";
+      limit = maxWidth;
+    }
+    text += char;
+  }
+  if (text) pieces.push(atom(text, source.style));
+  return pieces;
+}
+
+function breakLines(atoms: Atom[], maxWidth: number) {
+  const lines: Atom[][] = [[]];
+  const hardBreaks = new Set<number>();
+  let lineWidth = 0;
+  let word: Atom[] = [];
+
+  const newLine = () => {
+    lines.push([]);
+    lineWidth = 0;
+  };
+  const place = (piece: Atom) => {
+    lines[lines.length - 1].push(piece);
+    lineWidth += piece.width;
+  };
+
+  const flushWord = () => {
+    if (word.length === 0) return;
+    const width = word.reduce((sum, piece) => sum + piece.width, 0);
+    const line = lines[lines.length - 1];
+    if (lineWidth + width > maxWidth && line.some((piece) => !piece.space)) newLine();
+
+    if (width <= maxWidth) {
+      word.forEach(place);
+    } else {
+      word.forEach((piece) => {
+        if (lineWidth + piece.width <= maxWidth) {
+          place(piece);
+          return;
+        }
+        splitAtom(piece, maxWidth, maxWidth - lineWidth).forEach((part, index) => {
+          if (index > 0 || (lineWidth > 0 && lineWidth + part.width > maxWidth)) newLine();
+          place(part);
+        });
+      });
+    }
+    word = [];
+  };
+
+  atoms.forEach((piece) => {
+    if (piece.lineBreak) {
+      flushWord();
+      hardBreaks.add(lines.length - 1);
+      newLine();
+    } else if (piece.space) {
+      flushWord();
+      if (lines[lines.length - 1].length > 0) place(piece);
+    } else {
+      word.push(piece);
+    }
+  });
+  flushWord();
+
+  // 줄 끝 공백은 정렬에 넣지 않는다
+  lines.forEach((line) => {
+    while (line.length > 0 && line[line.length - 1].space) line.pop();
+  });
+  return { lines, hardBreaks };
+}
+
+function drawAtoms(
+  page: PdfPage,
+  atoms: Atom[],
+  x: number,
+  top: number,
+  height: number,
+  baseline: number,
+  extraSpace: number
+) {
+  let cursor = x;
+  atoms.forEach((piece) => {
+    const { style } = piece;
+    const width = piece.width + (piece.space ? extraSpace : 0);
+    const boxHeight = style.lineSize * 1.25;
+    const boxTop = top + (height - boxHeight) / 2;
+
+    if (style.highlight) page.rect(cursor, boxTop, width, boxHeight, { fill: HIGHLIGHT_COLOR });
+    if (style.code && !piece.space) {
+      page.rect(cursor - 1, boxTop + 1, width + 2, boxHeight - 2, { fill: SHADE_COLOR });
+    }
+
+    const shift =
+      style.script === "sup" ? -style.lineSize * 0.35 : style.script === "sub" ? style.lineSize * 0.15 : 0;
+    const textBaseline = top + baseline + shift;
+    if (!piece.space) {
+      page.text(fontRuns(piece.text, style), cursor, textBaseline, {
+        size: style.size,
+        fill: style.color,
+        bold: style.bold,
+        italic: style.italic,
+      });
+    }
+    if (style.underline) {
+      page.line(cursor, textBaseline + style.size * 0.14, cursor + width, textBaseline + style.size * 0.14, style.color, style.size * 0.06);
+    }
+    if (style.strike) {
+      page.line(cursor, textBaseline - style.size * 0.3, cursor + width, textBaseline - style.size * 0.3, style.color, style.size * 0.06);
+    }
+    if (style.link) page.link(cursor, top, width, height, { url: style.link });
+    cursor += width;
+  });
+}
+
+/** 글자 줄 상자들. 정렬은 left/center/right/justify */
+export function textBoxes(
+  nodes: JSONContent[],
+  x: number,
+  width: number,
+  base: InlineStyle,
+  { align = "left", baseUrl }: { align?: string; baseUrl: string }
+): Box[] {
+  const { lines, hardBreaks } = breakLines(toAtoms(nodes, base, baseUrl), width);
+
+  return lines.map((line, index) => {
+    const maxSize = Math.max(base.lineSize, ...line.map((piece) => piece.style.lineSize));
+    const height = maxSize * LINE_HEIGHT;
+    const baseline = (height - maxSize) / 2 + maxSize * 0.8;
+    const lineWidth = line.reduce((sum, piece) => sum + piece.width, 0);
+    const spaces = line.filter((piece) => piece.space).length;
+
+    const isLast = index === lines.length - 1 || hardBreaks.has(index);
+    const extraSpace = align === "justify" && !isLast && spaces > 0 ? (width - lineWidth) / spaces : 0;
+    const offset =
+      align === "center" ? (width - lineWidth) / 2 : align === "right" ? width - lineWidth : 0;
+
+    return {
+      height,
+      baseline,
+      lineWidth,
+      draw: (page, top) => drawAtoms(page, line, x + offset, top, height, baseline, extraSpace),
+    };
+  });
+}
+
+function plainText(node: JSONContent): string {
+  if (node.type === "text") {
+    return node.marks?.some((mark) => mark.type === DELETION_MARK) ? "" : (node.text ?? "");
+  }
+  return (node.content ?? []).map(plainText).join("");
+}
+
+function gap(height: number): Box {
+  return { height, gap: true };
+}
+
+/** 상자마다 곁들여 그린다 (인용 막대 등) */
+function decorate(boxes: Box[], extra: (page: PdfPage, top: number, height: number) => void): Box[] {
+  return boxes.map((box) => ({
+    ...box,
+    draw: (page, top) => {
+      extra(page, top, box.height);
+      box.draw?.(page, top);
+    },
+  }));
+}
+
+function toRoman(value: number) {
+  const numerals: Array<[number, string]> = [
+    [1000, "m"], [900, "cm"], [500, "d"], [400, "cd"], [100, "c"], [90, "xc"],
+    [50, "l"], [40, "xl"], [10, "x"], [9, "ix"], [5, "v"], [4, "iv"], [1, "i"],
+  ];
+  let rest = value;
+  return numerals.reduce((out, [amount, numeral]) => {
+    while (rest >= amount) {
+      out += numeral;
+      rest -= amount;
+    }
+    return out;
+  }, "");
+}
+
+function toLetters(value: number): string {
+  return value <= 0 ? "" : toLetters(Math.floor((value - 1) / 26)) + String.fromCharCode(97 + ((value - 1) % 26));
+}
+
+// 깊이에 따라 1. → a. → i. (DOCX 내보내기와 같다)
+function orderedMarker(value: number, depth: number) {
+  const formats = [String, toLetters, toRoman];
+  return `${formats[depth % 3](value)}.`;
+}
+
+function listBoxes(node: JSONContent, x: number, width: number, ctx: LayoutContext, depth: number): Box[] {
+  const start = Number(node.attrs?.start) || 1;
+  return (node.content ?? []).flatMap((item, index) => {
+    const inner = blockBoxes(item.content ?? [], x + LIST_INDENT, width - LIST_INDENT, ctx, depth + 1);
+    const first = inner.find((box) => !box.gap);
+    if (!first) return inner;
+
+    const style = baseStyle(BODY_SIZE);
+    const baseline = first.baseline ?? BODY_SIZE;
+    let marker: (page: PdfPage, top: number) => void;
+
+    if (node.type === "taskList") {
+      const checked = Boolean(item.attrs?.checked);
+      marker = (page, top) => {
+        const size = 8.5;
+        const boxTop = top + baseline - size;
+        page.rect(x + 3, boxTop, size, size, { stroke: MUTED_COLOR, lineWidth: 0.8 });
+        if (checked) {
+          page.polyline(
+            [
+              [x + 4.8, boxTop + size * 0.5],
+              [x + 6.8, boxTop + size * 0.78],
+              [x + 10, boxTop + size * 0.22],
+            ],
+            TEXT_COLOR,
+            1.1
+          );
+        }
+      };
+    } else {
+      const label = node.type === "orderedList" ? orderedMarker(start + index, depth) : "•";
+      const runs = fontRuns(label, style);
+      const labelWidth = runs.reduce((sum, run) => sum + run.width, 0);
+      marker = (page, top) =>
+        page.text(runs, x + LIST_INDENT - 5 - labelWidth, top + baseline, {
+          size: BODY_SIZE,
+          fill: TEXT_COLOR,
+        });
+    }
+
+    return inner.map((box) =>
+      box === first
+        ? {
+            ...box,
+            draw: (page: PdfPage, top: number) => {
+              marker(page, top);
+              box.draw?.(page, top);
+            },
+          }
+        : box
+    );
+  });
+}
+
+function codeBoxes(node: JSONContent, x: number, width: number): Box[] {
+  const style = { ...baseStyle(CODE_SIZE), mono: true };
+  const padding = 8;
+  const inner = width - padding * 2;
+  const height = CODE_SIZE * 1.4;
+  const text = (node.content ?? []).map((child) => child.text ?? "").join("").replace(/\n$/, "");
+
+  // 고정폭 글꼴로, 넘치는 줄은 글자 단위로 접는다
+  const lines = text.split("\n").flatMap((line) => {
+    const expanded = line.replace(/\t/g, "    ");
+    if (!expanded) return [""];
+    const pieces: string[] = [];
+    let current = "";
+    for (const char of expanded) {
+      if (current && measureText(current + char, style) > inner) {
+        pieces.push(current);
+        current = "";
+      }
+      current += char;
+    }
+    pieces.push(current);
+    return pieces;
+  });
+
+  const background = (page: PdfPage, top: number, boxHeight: number) =>
+    page.rect(x, top, width, boxHeight, { fill: SHADE_COLOR });
+
+  return [
+    { height: padding, draw: (page, top) => background(page, top, padding) },
+    ...lines.map((line) => ({
+      height,
+      baseline: height * 0.75,
+      draw: (page: PdfPage, top: number) => {
+        background(page, top, height);
+        if (line) page.text(fontRuns(line, style), x + padding, top + height * 0.75, { size: CODE_SIZE, fill: TEXT_COLOR });
+      },
+    })),
+    { height: padding, draw: (page, top) => background(page, top, padding) },
+    gap(PARAGRAPH_GAP + 2),
+  ];
+}
+
+function imageBoxes(node: JSONContent, x: number, width: number, ctx: LayoutContext): Box[] {
+  const src = String(node.attrs?.src ?? "");
+  const image = ctx.images.get(src) ?? null;
+  const caption = (node.attrs?.caption as string | null) ?? null;
+  const alt = String(node.attrs?.alt ?? "");
+  const align = String(node.attrs?.align ?? "center");
+
+  const captionBoxes = caption
+    ? textBoxes([{ type: "text", text: caption }], x, width, baseStyle(9, { color: MUTED_COLOR }), {
+        align: "center",
+        baseUrl: ctx.baseUrl,
+      })
+    : [];
+
+  if (!image) {
+    const label = `[이미지${alt ? `: ${alt}` : ""}]`;
+    return [
+      ...textBoxes([{ type: "text", text: label }], x, width, baseStyle(BODY_SIZE, { color: MUTED_COLOR }), {
+        align: align === "full" ? "center" : align,
+        baseUrl: ctx.baseUrl,
+      }),
+      ...captionBoxes,
+      gap(PARAGRAPH_GAP + 2),
+    ];
+  }
+
+  // 편집기 폭(px)을 pt로. 본문보다 넓거나 한 쪽보다 길면 줄인다
+  const requested = Number(node.attrs?.width) || image.width / 2;
+  let drawWidth = align === "full" ? width : Math.min(width, requested * 0.75);
+  let drawHeight = drawWidth * (image.height / Math.max(image.width, 1));
+  const maxHeight = ctx.bodyHeight - 40;
+  if (drawHeight > maxHeight) {
+    drawWidth *= maxHeight / drawHeight;
+    drawHeight = maxHeight;
+  }
+  const offset = align === "left" ? 0 : align === "right" ? width - drawWidth : (width - drawWidth) / 2;
+
+  return [
+    {
+      height: drawHeight + 4,
+      draw: (page, top) => page.image(image.name, x + offset, top + 2, drawWidth, drawHeight),
+    },
+    ...captionBoxes,
+    gap(PARAGRAPH_GAP + 2),
+  ];
+}
+
+function attachmentBoxes(node: JSONContent, x: number, width: number, ctx: LayoutContext): Box[] {
+  const fileId = node.attrs?.fileId as string | null;
+  if (!fileId) return [];
+  const name = String(node.attrs?.name || "파일");
+  const size = formatBytes(Number(node.attrs?.size) || 0);
+  const href = absoluteUrl(fileUrl(fileId, { name, download: true }), ctx.baseUrl);
+
+  const cardWidth = Math.min(width, 320);
+  const nameStyle = baseStyle(10.5, { bold: true });
+  const sizeStyle = baseStyle(9, { color: MUTED_COLOR });
+
+  // 긴 이름은 … 으로 줄인다
+  let label = name;
+  while (label.length > 1 && measureText(label, nameStyle) > cardWidth - 20) {
+    label = label.slice(0, -2) + "…";
+  }
+
+  return [
+    {
+      height: 38,
+      draw: (page, top) => {
+        page.rect(x, top, cardWidth, 36, { fill: [0.98, 0.98, 0.99], stroke: BORDER_COLOR });
+        page.text(fontRuns(label, nameStyle), x + 10, top + 15, { size: 10.5, fill: TEXT_COLOR, bold: true });
+        if (size) page.text(fontRuns(size, sizeStyle), x + 10, top + 28, { size: 9, fill: MUTED_COLOR });
+        if (href) page.link(x, top, cardWidth, 36, { url: href });
+      },
+    },
+    gap(PARAGRAPH_GAP + 2),
+  ];
+}
+
+interface PlacedCell {
+  node: JSONContent;
+  row: number;
+  column: number;
+  colspan: number;
+  rowspan: number;
+  boxes: Box[];
+  contentHeight: number;
+}
+
+/** 표는 행을 쪽 사이에서 나누지 않는다. 세로 병합으로 묶인 행들도 한 덩어리 */
+function tableBoxes(node: JSONContent, x: number, width: number, ctx: LayoutContext): Box[] {
+  const rows = node.content ?? [];
+
+  // 각 셀의 격자 위치 (위에서 내려온 세로 병합 칸은 건너뛴다)
+  const occupied = new Set<string>();
+  const cells: PlacedCell[] = [];
+  let columns = 0;
+  rows.forEach((row, rowIndex) => {
+    let column = 0;
+    (row.content ?? []).forEach((cell) => {
+      while (occupied.has(`${rowIndex}:${column}`)) column++;
+      const colspan = Number(cell.attrs?.colspan) || 1;
+      const rowspan = Math.min(Number(cell.attrs?.rowspan) || 1, rows.length - rowIndex);
+      for (let r = 0; r < rowspan; r++) {
+        for (let c = 0; c < colspan; c++) occupied.add(`${rowIndex + r}:${column + c}`);
+      }
+      cells.push({ node: cell, row: rowIndex, column, colspan, rowspan, boxes: [], contentHeight: 0 });
+      column += colspan;
+      columns = Math.max(columns, column);
+    });
+  });
+  if (columns === 0) return [];
+
+  // 열 너비: 첫 행에 colwidth가 모두 있으면 그 비율, 아니면 같게
+  const declared: number[] = [];
+  cells
+    .filter((cell) => cell.row === 0)
+    .forEach((cell) => {
+      const widths = cell.node.attrs?.colwidth as number[] | null | undefined;
+      for (let c = 0; c < cell.colspan; c++) declared[cell.column + c] = widths?.[c] ?? 0;
+    });
+  const total = declared.reduce((sum, value) => sum + value, 0);
+  const columnWidths = Array.from({ length: columns }, (_, c) =>
+    declared.length === columns && declared.every((value) => value > 0)
+      ? (declared[c] / total) * width
+      : width / columns
+  );
+  const columnX = columnWidths.map((_, c) => x + columnWidths.slice(0, c).reduce((sum, w) => sum + w, 0));
+
+  cells.forEach((cell) => {
+    const cellWidth = columnWidths.slice(cell.column, cell.column + cell.colspan).reduce((sum, w) => sum + w, 0);
+    const boxes = blockBoxes(cell.node.content ?? [], columnX[cell.column] + CELL_PADDING, cellWidth - CELL_PADDING * 2, ctx, 0, {
+      bold: cell.node.type === "tableHeader",
+    });
+    // 셀 끝 여백은 빼고 잰다
+    while (boxes.length > 0 && boxes[boxes.length - 1].gap) boxes.pop();
+    cell.boxes = boxes;
+    cell.contentHeight = boxes.reduce((sum, box) => sum + box.height, 0) + CELL_PADDING * 2;
+  });
+
+  // 행 높이: 한 행짜리 셀로 먼저 정하고, 병합 셀이 모자라면 마지막 행을 늘린다
+  const rowHeights = rows.map((_, r) =>
+    Math.max(BODY_SIZE * LINE_HEIGHT + CELL_PADDING * 2, ...cells.filter((cell) => cell.row === r && cell.rowspan === 1).map((cell) => cell.contentHeight))
+  );
+  cells
+    .filter((cell) => cell.rowspan > 1)
+    .forEach((cell) => {
+      const spanned = rowHeights.slice(cell.row, cell.row + cell.rowspan).reduce((sum, h) => sum + h, 0);
+      if (spanned < cell.contentHeight) rowHeights[cell.row + cell.rowspan - 1] += cell.contentHeight - spanned;
+    });
+
+  // 병합으로 이어진 행들을 묶는다
+  const groups: Array<[number, number]> = [];
+  let groupStart = 0;
+  let groupEnd = 0;
+  rows.forEach((_, r) => {
+    cells
+      .filter((cell) => cell.row === r)
+      .forEach((cell) => {
+        groupEnd = Math.max(groupEnd, r + cell.rowspan - 1);
+      });
+    if (r === groupEnd) {
+      groups.push([groupStart, r]);
+      groupStart = r + 1;
+      groupEnd = r + 1;
+    }
+  });
+
+  const rowTop = (r: number) => rowHeights.slice(0, r).reduce((sum, h) => sum + h, 0);
+
+  return [
+    ...groups.map(([first, last]): Box => {
+      const height = rowTop(last + 1) - rowTop(first);
+      return {
+        height,
+        draw: (page, top) => {
+          cells
+            .filter((cell) => cell.row >= first && cell.row <= last)
+            .forEach((cell) => {
+              const cellTop = top + rowTop(cell.row) - rowTop(first);
+              const cellWidth = columnWidths.slice(cell.column, cell.column + cell.colspan).reduce((sum, w) => sum + w, 0);
+              const cellHeight = rowTop(cell.row + cell.rowspan) - rowTop(cell.row);
+              page.rect(columnX[cell.column], cellTop, cellWidth, cellHeight, {
+                fill:
+                  parseColor(cell.node.attrs?.backgroundColor) ??
+                  (cell.node.type === "tableHeader" ? SHADE_COLOR : undefined),
+                stroke: BORDER_COLOR,
+              });
+              let cursor = cellTop + CELL_PADDING;
+              cell.boxes.forEach((box) => {
+                box.draw?.(page, cursor);
+                cursor += box.height;
+              });
+            });
+        },
+      };
+    }),
+    gap(PARAGRAPH_GAP + 4),
+  ];
+}
+
+function blockBoxes(
+  nodes: JSONContent[],
+  x: number,
+  width: number,
+  ctx: LayoutContext,
+  depth = 0,
+  { bold = false }: { bold?: boolean } = {}
+): Box[] {
+  return nodes.flatMap((node): Box[] => {
+    switch (node.type) {
+      case "paragraph": {
+        const boxes = textBoxes(node.content ?? [], x, width, baseStyle(BODY_SIZE, { bold }), {
+          align: node.attrs?.textAlign,
+          baseUrl: ctx.baseUrl,
+        });
+        return [...boxes, gap(PARAGRAPH_GAP)];
+      }
+      case "heading": {
+        const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 3);
+        const anchor = `heading-${ctx.headings.length + 1}`;
+        const text = plainText(node).trim();
+        if (text) ctx.headings.push({ anchor, level, text });
+
+        const boxes = textBoxes(node.content ?? [], x, width, baseStyle(HEADING_SIZES[level - 1], { bold: true }), {
+          align: node.attrs?.textAlign,
+          baseUrl: ctx.baseUrl,
+        }).map((box, index) => ({ ...box, keepWithNext: true, ...(index === 0 && text && { anchor }) }));
+        return [gap(HEADING_GAPS[level - 1]), ...boxes, gap(PARAGRAPH_GAP)];
+      }
+      case "blockquote":
+        return decorate(blockBoxes(node.content ?? [], x + QUOTE_INDENT, width - QUOTE_INDENT, ctx, depth), (page, top, height) =>
+          page.rect(x, top, 3, height, { fill: BORDER_COLOR })
+        );
+      case "bulletList":
+      case "orderedList":
+      case "taskList":
+        return [...listBoxes(node, x, width, ctx, depth), gap(2)];
+      case "codeBlock":
+        return codeBoxes(node, x, width);
+      case "horizontalRule":
+        return [{ height: 18, draw: (page, top) => page.line(x, top + 9, x + width, top + 9, BORDER_COLOR, 1) }];
+      case "image":
+        return imageBoxes(node, x, width, ctx);
+      case "youtube": {
+        const src = String(node.attrs?.src ?? "");
+        if (!src) return [];
+        return [
+          ...textBoxes(
+            [{ type: "text", text: `YouTube: ${src}`, marks: [{ type: "link", attrs: { href: src } }] }],
+            x,
+            width,
+            baseStyle(BODY_SIZE),
+            { baseUrl: ctx.baseUrl }
+          ),
+          gap(PARAGRAPH_GAP),
+        ];
+      }
+      case "attachment":
+        return attachmentBoxes(node, x, width, ctx);
+      case "table":
+        return tableBoxes(node, x, width, ctx);
+      default:
+        return node.content ? blockBoxes(node.content, x, width, ctx, depth, { bold }) : [];
+    }
+  });
+}
+
+export function documentBoxes(doc: JSONContent, x: number, width: number, ctx: LayoutContext) {
+  return blockBoxes(doc.content ?? [], x, width, ctx);
+}
+
+export function plainTextStyle(size: number, options: { bold?: boolean; color?: Rgb } = {}) {
+  return baseStyle(size, options);
+}
@@ -0,0 +1,239 @@
+import type { JSONContent } from "@tiptap/core";
+import { DEFAULT_DOCUMENT_TITLE } from "@/lib/documents/types";
+import { flattenMentions } from "@/lib/mentions/content";
+import { expandTableOfContents } from "@/lib/outline/content";
+import { fontRuns, measureText } from "./fonts";
+import { loadPdfImage } from "./images";
+import {
+  BODY_SIZE,
+  documentBoxes,
+  MUTED_COLOR,
+  plainTextStyle,
+  TEXT_COLOR,
+  textBoxes,
+  type Box,
+  type Heading,
+  type LayoutContext,
+  type LoadedImage,
+} from "./layout";
+import { PDF_MARGINS, PDF_PAGE_SIZES, type PdfOptions } from "./types";
+import { PdfWriter, type PdfPage } from "./writer";
+
+/**
+ * 문서 → 인쇄용 PDF (서버에서, 바깥 서비스 없이).
+ * 표지 → 목차 → 본문 순서로 쪽을 채운 뒤 마지막에 한꺼번에 그린다
+ * (목차의 쪽 번호는 본문을 다 배치해야 알 수 있다).
+ */
+
+interface Placement {
+  box: Box;
+  page: PdfPage;
+  top: number;
+  /** 한 쪽보다 긴 상자를 나눠 그릴 때 잘라 낼 영역 */
+  clip?: { top: number; height: number };
+}
+
+interface Geometry {
+  width: number;
+  height: number;
+  margin: number;
+}
+
+function collectImageSources(node: JSONContent, out: Set<string>) {
+  if (node.type === "image" && typeof node.attrs?.src === "string") out.add(node.attrs.src);
+  node.content?.forEach((child) => collectImageSources(child, out));
+}
+
+/** 상자를 쪽에 배치한다. 그리지는 않는다 */
+function paginate(writer: PdfWriter, boxes: Box[], geometry: Geometry, placements: Placement[]) {
+  const top = geometry.margin;
+  const bottom = geometry.height - geometry.margin;
+  const bodyHeight = bottom - top;
+  let page = writer.addPage(geometry.width, geometry.height);
+  let y = top;
+
+  const newPage = () => {
+    page = writer.addPage(geometry.width, geometry.height);
+    y = top;
+  };
+
+  boxes.forEach((box, index) => {
+    if (box.gap) {
+      if (y > top && y + box.height <= bottom) {
+        placements.push({ box, page, top: y });
+        y += box.height;
+      }
+      return;
+    }
+
+    // 제목은 뒤따르는 첫 상자와 같은 쪽에
+    let needed = box.height;
+    if (box.keepWithNext) {
+      for (let next = index + 1; next < boxes.length; next++) {
+        if (boxes[next].gap) continue;
+        needed += boxes[next].height;
+        if (!boxes[next].keepWithNext) break;
+      }
+      needed = Math.min(needed, bodyHeight);
+    }
+    if (y + needed > bottom && y > top) newPage();
+
+    if (box.anchor) writer.addAnchor(box.anchor, page, y);
+
+    if (box.height <= bodyHeight) {
+      placements.push({ box, page, top: y });
+      y += box.height;
+      return;
+    }
+
+    // 한 쪽보다 긴 상자(아주 긴 표 행)는 쪽마다 잘라서 이어 그린다
+    let offset = 0;
+    for (;;) {
+      placements.push({ box, page, top: top - offset, clip: { top, height: bodyHeight } });
+      offset += bodyHeight;
+      if (offset >= box.height) break;
+      newPage();
+    }
+    y = top + box.height - (offset - bodyHeight);
+  });
+}
+
+function titlePage(writer: PdfWriter, title: string, geometry: Geometry) {
+  const page = writer.addPage(geometry.width, geometry.height);
+  const width = geometry.width - geometry.margin * 2;
+  const lines = textBoxes([{ type: "text", text: title }], geometry.margin, width, plainTextStyle(28, { bold: true }), {
+    align: "center",
+    baseUrl: "",
+  });
+  let y = geometry.height * 0.36;
+  lines.forEach((line) => {
+    line.draw?.(page, y);
+    y += line.height;
+  });
+  const ruleWidth = 60;
+  page.line((geometry.width - ruleWidth) / 2, y + 16, (geometry.width + ruleWidth) / 2, y + 16, MUTED_COLOR, 1);
+}
+
+/** 목차 상자: 글자 … 점선 … 쪽 번호 (번호는 그릴 때 채운다) */
+function tableOfContents(
+  headings: Heading[],
+  geometry: Geometry,
+  pageNumber: (anchor: string) => number | null
+): Box[] {
+  const x = geometry.margin;
+  const width = geometry.width - geometry.margin * 2;
+  const numberWidth = 36;
+  const leaderStyle = plainTextStyle(BODY_SIZE, { color: MUTED_COLOR });
+  const dotWidth = measureText(". ", leaderStyle);
+
+  return [
+    ...textBoxes([{ type: "text", text: "목차" }], x, width, plainTextStyle(20, { bold: true }), { baseUrl: "" }),
+    { height: 12, gap: true },
+    ...headings.flatMap((heading) => {
+      const indent = (heading.level - 1) * 14;
+      const size = heading.level === 1 ? BODY_SIZE : 10.5;
+      const style = plainTextStyle(size, { bold: heading.level === 1 });
+      const lines = textBoxes([{ type: "text", text: heading.text }], x + indent, width - indent - numberWidth, style, {
+        baseUrl: "",
+      });
+      return [
+        ...lines.map((line, index): Box => {
+          const isLast = index === lines.length - 1;
+          return {
+            ...line,
+            height: line.height + (isLast ? 3 : 0),
+            draw: (page, top) => {
+              line.draw?.(page, top);
+              page.link(x + indent, top, width - indent, line.height, { anchor: heading.anchor });
+              if (!isLast) return;
+
+              const number = pageNumber(heading.anchor);
+              if (number === null) return;
+              const label = String(number);
+              const runs = fontRuns(label, style);
+              const labelWidth = runs.reduce((sum, run) => sum + run.width, 0);
+              const baseline = top + (line.baseline ?? size);
+              page.text(runs, x + width - labelWidth, baseline, { size, fill: TEXT_COLOR, bold: style.bold });
+
+              // 줄 끝에서 번호 앞까지 점선
+              const textEnd = x + indent + (line.lineWidth ?? 0) + 6;
+              const dots = Math.floor((x + width - labelWidth - 6 - textEnd) / dotWidth);
+              if (dots > 0) {
+                page.text(fontRuns(". ".repeat(dots), leaderStyle), x + width - labelWidth - 6 - dots * dotWidth, baseline, {
+                  size: BODY_SIZE,
+                  fill: MUTED_COLOR,
+                });
+              }
+            },
+          };
+        }),
+      ];
+    }),
+  ];
+}
+
+export async function documentToPdf(
+  doc: JSONContent,
+  { title, options, baseUrl }: { title: string; options: PdfOptions; baseUrl: string }
+) {
+  const { width, height } = PDF_PAGE_SIZES[options.pageSize];
+  const margin = PDF_MARGINS[options.margin];
+  const geometry: Geometry = { width, height, margin };
+  const documentTitle = title.trim() || DEFAULT_DOCUMENT_TITLE;
+  const writer = new PdfWriter();
+  const content = expandTableOfContents(flattenMentions(doc));
+
+  // 그림은 한 장씩 (sharp 디코딩은 메모리를 많이 쓴다)
+  const sources = new Set<string>();
+  collectImageSources(content, sources);
+  const images = new Map<string, LoadedImage | null>();
+  for (const src of sources) {
+    const loaded = await loadPdfImage(src).catch(() => null);
+    images.set(
+      src,
+      loaded && {
+        name: writer.addImage(loaded.data, loaded.width, loaded.height, loaded.channels),
+        width: loaded.width,
+        height: loaded.height,
+      }
+    );
+  }
+
+  const ctx: LayoutContext = {
+    images,
+    baseUrl,
+    bodyHeight: height - margin * 2,
+    headings: [],
+  };
+  const body = documentBoxes(content, margin, width - margin * 2, ctx);
+
+  if (options.titlePage) titlePage(writer, documentTitle, geometry);
+
+  const placements: Placement[] = [];
+  if (options.tableOfContents && ctx.headings.length > 0) {
+    const toc = tableOfContents(ctx.headings, geometry, (anchor) => {
+      const page = writer.anchorPage(anchor);
+      return page ? writer.pages.indexOf(page) + 1 : null;
+    });
+    paginate(writer, toc, geometry, placements);
+  }
+  paginate(writer, body, geometry, placements);
+
+  placements.forEach(({ box, page, top, clip }) => {
+    if (!box.draw) return;
+    if (clip) page.clip(0, clip.top, page.width, clip.height, () => box.draw?.(page, top));
+    else box.draw(page, top);
+  });
+
+  if (options.pageNumbers) {
+    const style = plainTextStyle(9, { color: MUTED_COLOR });
+    writer.pages.forEach((page, index) => {
+      if (options.titlePage && index === 0) return;
+      const runs = fontRuns(String(index + 1), style);
+      const labelWidth = runs.reduce((sum, run) => sum + run.width, 0);
+      page.text(runs, (page.width - labelWidth) / 2, page.height - margin / 2, { size: 9, fill: MUTED_COLOR });
+    });
+  }
+
+  return writer.toBytes({ title: documentTitle });
+}
@@ -0,0 +1,34 @@
+export type PdfPageSize = "A4" | "Letter";
+
+export type PdfMargin = "narrow" | "normal" | "wide";
+
+export interface PdfOptions {
+  pageSize: PdfPageSize;
+  margin: PdfMargin;
+  /** 첫 쪽에 문서 제목만 크게 */
+  titlePage: boolean;
+  /** 아래 가운데 쪽 번호 (표지 제외) */
+  pageNumbers: boolean;
+  /** 제목 1~3으로 만든 목차 */
+  tableOfContents: boolean;
+}
+
+export const PDF_PAGE_SIZES: Record<PdfPageSize, { width: number; height: number }> = {
+  A4: { width: 595.28, height: 841.89 },
+  Letter: { width: 612, height: 792 },
+};
+
+/** pt (0.5 / 1 / 1.5 인치) */
+export const PDF_MARGINS: Record<PdfMargin, number> = {
+  narrow: 36,
+  normal: 72,
+  wide: 108,
+};
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  pageSize: "A4",
+  margin: "normal",
+  titlePage: false,
+  pageNumbers: true,
+  tableOfContents: false,
+};
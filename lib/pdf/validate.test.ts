@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PDF_OPTIONS } from "./types";
+import { parsePdfExportInput } from "./validate";
+
+const content = { type: "doc", content: [] };
+
+describe("PDF 내보내기 요청", () => {
+  it("빠진 설정은 기본값으로", () => {
+    expect(parsePdfExportInput({ title: "문서", content })).toEqual({
+      title: "문서",
+      content,
+      options: DEFAULT_PDF_OPTIONS,
+    });
+  });
+
+  it("쪽 크기와 여백", () => {
+    expect(
+      parsePdfExportInput({
+        title: "문서",
+        content,
+        options: { pageSize: "Letter", margin: "wide", pageNumbers: true },
+      })?.options
+    ).toEqual({
+      ...DEFAULT_PDF_OPTIONS,
+      pageSize: "Letter",
+      margin: "wide",
+      pageNumbers: true,
+    });
+  });
+
+  it("목록에 없는 쪽 크기/여백은 받지 않는다", () => {
+    expect(
+      parsePdfExportInput({ title: "문서", content, options: { pageSize: "A3" } })
+    ).toBeNull();
+    expect(
+      parsePdfExportInput({ title: "문서", content, options: { margin: 10 } })
+    ).toBeNull();
+  });
+
+  it("상속된 키(constructor, toString, __proto__)는 받지 않는다", () => {
+    for (const key of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+      expect(
+        parsePdfExportInput({ title: "문서", content, options: { pageSize: key } })
+      ).toBeNull();
+      expect(
+        parsePdfExportInput({ title: "문서", content, options: { margin: key } })
+      ).toBeNull();
+    }
+  });
+});
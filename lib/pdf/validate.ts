@@ -0,0 +1,53 @@
+import type { JSONContent } from "@tiptap/core";
+import {
+  DEFAULT_PDF_OPTIONS,
+  PDF_MARGINS,
+  PDF_PAGE_SIZES,
+  type PdfMargin,
+  type PdfOptions,
+  type PdfPageSize,
+} from "./types";
+
+export interface PdfExportInput {
+  title: string;
+  content: JSONContent;
+  options: PdfOptions;
+}
+
+// 요청 body에서 제목/본문/쪽 설정을 골라낸다. 형식이 틀리면 null.
+// 빠진 설정은 기본값으로 채운다.
+export function parsePdfExportInput(body: unknown): PdfExportInput | null {
+  if (!body || typeof body !== "object") return null;
+  const { title, content, options = {} } = body as Record<string, unknown>;
+
+  if (typeof title !== "string") return null;
+  if (
+    !content ||
+    typeof content !== "object" ||
+    (content as { type?: unknown }).type !== "doc"
+  ) {
+    return null;
+  }
+  if (!options || typeof options !== "object") return null;
+
+  const { pageSize, margin, titlePage, pageNumbers, tableOfContents } =
+    options as Record<string, unknown>;
+  const parsed: PdfOptions = { ...DEFAULT_PDF_OPTIONS };
+
+  // in 대신 hasOwn: "constructor", "__proto__" 같은 상속된 키를 받지 않게
+  if (pageSize !== undefined) {
+    if (typeof pageSize !== "string" || !Object.hasOwn(PDF_PAGE_SIZES, pageSize)) return null;
+    parsed.pageSize = pageSize as PdfPageSize;
+  }
+  if (margin !== undefined) {
+    if (typeof margin !== "string" || !Object.hasOwn(PDF_MARGINS, margin)) return null;
+    parsed.margin = margin as PdfMargin;
+  }
+  for (const [key, value] of Object.entries({ titlePage, pageNumbers, tableOfContents })) {
+    if (value === undefined) continue;
+    if (typeof value !== "boolean") return null;
+    parsed[key as "titlePage" | "pageNumbers" | "tableOfContents"] = value;
+  }
+
+  return { title, content: content as JSONContent, options: parsed };
+}
@@ -0,0 +1,302 @@
+import { deflateSync } from "zlib";
+import { FONT_RESOURCES, type FontKey, type FontRun } from "./fonts";
+
+/**
+ * PDF 파일 구조(객체, 페이지, 글꼴, 그림, 링크)를 쓰는 부분.
+ * 좌표는 모두 pt이고 위에서 아래로 잰다 (PDF의 아래→위 좌표는 여기서만 다룬다).
+ */
+
+export type Rgb = [number, number, number];
+
+type LinkTarget = { url: string } | { anchor: string };
+
+interface PdfLink {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  target: LinkTarget;
+}
+
+function num(value: number) {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/\.?0+$/, "");
+}
+
+function color(rgb: Rgb) {
+  return rgb.map(num).join(" ");
+}
+
+/** 사람이 읽는 문자열 (제목, 링크 주소): 필요하면 UTF-16BE */
+function textString(text: string) {
+  if (/^[\x20-\x7e]*$/.test(text)) return `(${text.replace(/[()\\]/g, "\\$&")})`;
+  let hex = "FEFF";
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, "0");
+  }
+  return `<${hex}>`;
+}
+
+export class PdfPage {
+  readonly ops: string[] = [];
+  readonly links: PdfLink[] = [];
+
+  constructor(
+    readonly width: number,
+    readonly height: number
+  ) {}
+
+  private y(top: number) {
+    return num(this.height - top);
+  }
+
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    { fill, stroke, lineWidth = 0.75 }: { fill?: Rgb; stroke?: Rgb; lineWidth?: number }
+  ) {
+    if (!fill && !stroke) return;
+    this.ops.push(
+      "q",
+      ...(fill ? [`${color(fill)} rg`] : []),
+      ...(stroke ? [`${color(stroke)} RG`, `${num(lineWidth)} w`] : []),
+      `${num(x)} ${this.y(y + height)} ${num(width)} ${num(height)} re`,
+      fill && stroke ? "B" : fill ? "f" : "S",
+      "Q"
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, stroke: Rgb, lineWidth = 0.75) {
+    this.ops.push(
+      "q",
+      `${color(stroke)} RG`,
+      `${num(lineWidth)} w`,
+      `${num(x1)} ${this.y(y1)} m ${num(x2)} ${this.y(y2)} l S`,
+      "Q"
+    );
+  }
+
+  /** 꺾은선 (체크 표시 등) */
+  polyline(points: Array<[number, number]>, stroke: Rgb, lineWidth = 1) {
+    const [first, ...rest] = points;
+    this.ops.push(
+      "q",
+      `${color(stroke)} RG`,
+      `${num(lineWidth)} w 1 J 1 j`,
+      `${num(first[0])} ${this.y(first[1])} m ${rest
+        .map(([x, y]) => `${num(x)} ${this.y(y)} l`)
+        .join(" ")} S`,
+      "Q"
+    );
+  }
+
+  /** baseline은 글자 기준선의 y */
+  text(
+    runs: FontRun[],
+    x: number,
+    baseline: number,
+    { size, fill, bold = false, italic = false }: { size: number; fill: Rgb; bold?: boolean; italic?: boolean }
+  ) {
+    let cursor = x;
+    runs.forEach((run) => {
+      const cjk = run.font === "cjk";
+      const skew = cjk && italic ? 0.2 : 0;
+      this.ops.push(
+        "BT",
+        `${color(fill)} rg`,
+        // 한글 굵게: 같은 색 외곽선을 더 그린다
+        ...(cjk && bold ? [`${color(fill)} RG`, `${num(size * 0.035)} w`, "2 Tr"] : []),
+        `/${FONT_RESOURCES[run.font].name} ${num(size)} Tf`,
+        `1 0 ${num(skew)} 1 ${num(cursor)} ${this.y(baseline)} Tm`,
+        cjk ? `<${run.encoded}> Tj` : `(${run.encoded}) Tj`,
+        "ET"
+      );
+      cursor += run.width;
+    });
+  }
+
+  image(name: string, x: number, y: number, width: number, height: number) {
+    this.ops.push(
+      "q",
+      `${num(width)} 0 0 ${num(height)} ${num(x)} ${this.y(y + height)} cm`,
+      `/${name} Do`,
+      "Q"
+    );
+  }
+
+  /** 영역 밖은 잘라 내고 그린다 (한 쪽보다 긴 표 행을 나눠 그릴 때) */
+  clip(x: number, y: number, width: number, height: number, draw: () => void) {
+    this.ops.push("q", `${num(x)} ${this.y(y + height)} ${num(width)} ${num(height)} re W n`);
+    draw();
+    this.ops.push("Q");
+  }
+
+  link(x: number, y: number, width: number, height: number, target: LinkTarget) {
+    this.links.push({ x, y, width, height, target });
+  }
+}
+
+interface PdfImage {
+  name: string;
+  data: Uint8Array;
+  width: number;
+  height: number;
+  channels: number;
+}
+
+export class PdfWriter {
+  readonly pages: PdfPage[] = [];
+  private images: PdfImage[] = [];
+  private anchors = new Map<string, { page: PdfPage; y: number }>();
+
+  addPage(width: number, height: number) {
+    const page = new PdfPage(width, height);
+    this.pages.push(page);
+    return page;
+  }
+
+  /** JPEG 바이트 → 그릴 때 쓸 이름 */
+  addImage(data: Uint8Array, width: number, height: number, channels: number) {
+    const name = `Im${this.images.length + 1}`;
+    this.images.push({ name, data, width, height, channels });
+    return name;
+  }
+
+  /** 문서 안 링크(목차)의 도착점 */
+  addAnchor(anchor: string, page: PdfPage, y: number) {
+    this.anchors.set(anchor, { page, y });
+  }
+
+  anchorPage(anchor: string) {
+    return this.anchors.get(anchor)?.page ?? null;
+  }
+
+  toBytes({ title }: { title: string }) {
+    const chunks: Buffer[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    let count = 0;
+
+    const push = (chunk: Buffer | string) => {
+      const buffer = typeof chunk === "string" ? Buffer.from(chunk, "latin1") : chunk;
+      chunks.push(buffer);
+      length += buffer.length;
+    };
+    const reserve = () => ++count;
+    const write = (id: number, body: string, stream?: Buffer) => {
+      offsets[id] = length;
+      push(`${id} 0 obj\n${body}`);
+      if (stream) {
+        push("\nstream\n");
+        push(stream);
+        push("\nendstream");
+      }
+      push("\nendobj\n");
+    };
+
+    push("%PDF-1.7\n%\xe2\xe3\xcf\xd3\n");
+
+    const catalogId = reserve();
+    const pagesId = reserve();
+    const infoId = reserve();
+
+    // 글꼴
+    const fontIds = {} as Record<FontKey, number>;
+    (Object.keys(FONT_RESOURCES) as FontKey[]).forEach((key) => {
+      fontIds[key] = reserve();
+    });
+    (Object.entries(FONT_RESOURCES) as Array<[FontKey, { baseFont: string }]>).forEach(
+      ([key, { baseFont }]) => {
+        if (key !== "cjk") {
+          write(
+            fontIds[key],
+            `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`
+          );
+          return;
+        }
+        const descendantId = reserve();
+        const descriptorId = reserve();
+        write(
+          fontIds[key],
+          `<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont} /Encoding /UniKS-UCS2-H /DescendantFonts [${descendantId} 0 R] >>`
+        );
+        write(
+          descendantId,
+          `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${baseFont} /CIDSystemInfo << /Registry (Adobe) /Ordering (Korea1) /Supplement 2 >> /FontDescriptor ${descriptorId} 0 R /DW 1000 >>`
+        );
+        write(
+          descriptorId,
+          `<< /Type /FontDescriptor /FontName /${baseFont} /Flags 6 /FontBBox [-6 -145 1003 880] /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 59 >>`
+        );
+      }
+    );
+
+    // 그림
+    const imageIds = this.images.map((image) => {
+      const id = reserve();
+      write(
+        id,
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /${image.channels === 1 ? "DeviceGray" : "DeviceRGB"} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+        Buffer.from(image.data)
+      );
+      return id;
+    });
+
+    const fonts = (Object.keys(FONT_RESOURCES) as FontKey[])
+      .map((key) => `/${FONT_RESOURCES[key].name} ${fontIds[key]} 0 R`)
+      .join(" ");
+    const xObjects = this.images.map((image, i) => `/${image.name} ${imageIds[i]} 0 R`).join(" ");
+    const resources = `<< /Font << ${fonts} >>${xObjects ? ` /XObject << ${xObjects} >>` : ""} >>`;
+
+    // 페이지 (링크가 다른 페이지를 가리키므로 번호를 먼저 정한다)
+    const pageIds = this.pages.map(() => reserve());
+    this.pages.forEach((page, index) => {
+      const annotationIds = page.links.flatMap((link) => {
+        let action: string;
+        if ("url" in link.target) {
+          action = `/A << /S /URI /URI ${textString(link.target.url)} >>`;
+        } else {
+          const anchor = this.anchors.get(link.target.anchor);
+          if (!anchor) return [];
+          const pageId = pageIds[this.pages.indexOf(anchor.page)];
+          action = `/Dest [${pageId} 0 R /XYZ 0 ${num(anchor.page.height - anchor.y)} null]`;
+        }
+        const id = reserve();
+        const bottom = page.height - link.y - link.height;
+        write(
+          id,
+          `<< /Type /Annot /Subtype /Link /Rect [${num(link.x)} ${num(bottom)} ${num(link.x + link.width)} ${num(bottom + link.height)}] /Border [0 0 0] ${action} >>`
+        );
+        return [id];
+      });
+
+      const contentId = reserve();
+      const content = deflateSync(Buffer.from(page.ops.join("\n"), "latin1"));
+      write(contentId, `<< /Length ${content.length} /Filter /FlateDecode >>`, content);
+      write(
+        pageIds[index],
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources ${resources} /Contents ${contentId} 0 R${
+          annotationIds.length > 0 ? ` /Annots [${annotationIds.map((id) => `${id} 0 R`).join(" ")}]` : ""
+        } >>`
+      );
+    });
+
+    write(
+      pagesId,
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`
+    );
+    write(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    write(infoId, `<< /Title ${textString(title)} /Producer (WriteTracer) >>`);
+
+    const xrefOffset = length;
+    push(`xref\n0 ${count + 1}\n0000000000 65535 f \n`);
+    for (let id = 1; id <= count; id++) {
+      push(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+    }
+    push(
+      `trailer\n<< /Size ${count + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+    );
+    return new Uint8Array(Buffer.concat(chunks));
+  }
+}
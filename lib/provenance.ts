@@ -0,0 +1,66 @@
+import type { JSONContent } from "@tiptap/core";
+import type { PasteFormat } from "@/lib/trace/types";
+
+export interface PasteSpan {
+  id: string;
+  source: PasteFormat;
+  pastedAt: number | null;
+  /** 붙여넣을 당시 글자 수 */
+  originalLength: number;
+  /** 지금 문서에 남아 있는 글자 수 */
+  remaining: number;
+}
+
+export interface ProvenanceStats {
+  typed: number;
+  pasted: number;
+  /** 0~1, 글자가 없으면 0 */
+  pastedRatio: number;
+  pastes: PasteSpan[];
+}
+
+/**
+ * 문서의 글자를 "입력"과 "붙여넣기"(pasted 마크)로 나눠 센다.
+ * 마크 기준이라 붙여넣은 뒤 일부를 지우거나 고쳐 써도 남은 만큼만 집계된다.
+ */
+export function computeProvenance(doc: JSONContent): ProvenanceStats {
+  let typed = 0;
+  let pasted = 0;
+  const pastes = new Map<string, PasteSpan>();
+
+  const walk = (node: JSONContent) => {
+    if (node.type === "text") {
+      const length = node.text?.length ?? 0;
+      const mark = node.marks?.find((m) => m.type === "pasted");
+      if (!mark) {
+        typed += length;
+        return;
+      }
+
+      pasted += length;
+      const id = String(mark.attrs?.id ?? "unknown");
+      const span = pastes.get(id) ?? {
+        id,
+        source: (mark.attrs?.source as PasteFormat) ?? "plain",
+        pastedAt: (mark.attrs?.pastedAt as number | null) ?? null,
+        originalLength: Number(mark.attrs?.length) || 0,
+        remaining: 0,
+      };
+      span.remaining += length;
+      pastes.set(id, span);
+      return;
+    }
+    node.content?.forEach(walk);
+  };
+  walk(doc);
+
+  const total = typed + pasted;
+  return {
+    typed,
+    pasted,
+    pastedRatio: total > 0 ? pasted / total : 0,
+    pastes: [...pastes.values()].sort(
+      (a, b) => (a.pastedAt ?? 0) - (b.pastedAt ?? 0)
+    ),
+  };
+}
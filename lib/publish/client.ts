@@ -0,0 +1,39 @@
+import type { PublicationStatus } from "./types";
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(input, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!res.ok) {
+    throw new Error(`${init?.method ?? "GET"} ${input} failed: ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+export function publicationUrl(slug: string) {
+  return `${window.location.origin}/p/${slug}`;
+}
+
+export async function fetchPublication(documentId: string) {
+  const { publication } = await request<{
+    publication: PublicationStatus | null;
+  }>(`/api/documents/${documentId}/publish`);
+  return publication;
+}
+
+export async function publishDocument(documentId: string) {
+  const { publication } = await request<{ publication: PublicationStatus }>(
+    `/api/documents/${documentId}/publish`,
+    { method: "POST" }
+  );
+  return publication;
+}
+
+export async function unpublishDocument(documentId: string) {
+  const { publication } = await request<{ publication: PublicationStatus }>(
+    `/api/documents/${documentId}/publish`,
+    { method: "DELETE" }
+  );
+  return publication;
+}
@@ -0,0 +1,128 @@
+import type { JSONContent } from "@tiptap/core";
+import { describe, expect, it } from "vitest";
+import { toPublishedContent } from "./content";
+
+type Mark = NonNullable<JSONContent["marks"]>[number];
+
+function doc(...content: JSONContent[]): JSONContent {
+  return { type: "doc", content };
+}
+
+function paragraph(...content: JSONContent[]): JSONContent {
+  return { type: "paragraph", content };
+}
+
+function text(value: string, ...marks: Mark[]): JSONContent {
+  return marks.length > 0
+    ? { type: "text", text: value, marks }
+    : { type: "text", text: value };
+}
+
+const suggestion = {
+  id: "s1",
+  authorId: "u2",
+  authorName: "검토자",
+  authorColor: "#e11d48",
+  createdAt: 1,
+};
+
+describe("게시할 내용", () => {
+  it("받아들이지 않은 추가/삭제 제안: 작성자가 쓴 글 그대로", () => {
+    expect(
+      toPublishedContent(
+        doc(
+          paragraph(
+            text("오늘 "),
+            text("어제 ", { type: "deletion", attrs: suggestion }),
+            text("새로 ", { type: "insertion", attrs: suggestion }),
+            text("쓴 글")
+          )
+        )
+      )
+    ).toEqual(doc(paragraph(text("오늘 어제 쓴 글"))));
+  });
+
+  it("서식 제안: 더한 마크는 빼고 뺀 마크는 되살린다", () => {
+    expect(
+      toPublishedContent(
+        doc(
+          paragraph(
+            text(
+              "굵게",
+              { type: "bold" },
+              {
+                type: "formatChange",
+                attrs: { ...suggestion, added: { type: "bold" }, removed: null },
+              }
+            ),
+            text("기울임", {
+              type: "formatChange",
+              attrs: { ...suggestion, added: null, removed: { type: "italic" } },
+            })
+          )
+        )
+      )
+    ).toEqual(doc(paragraph(text("굵게"), text("기울임", { type: "italic" }))));
+  });
+
+  it("블록 서식 제안: 제안 전 블록으로", () => {
+    expect(
+      toPublishedContent(
+        doc({
+          type: "heading",
+          attrs: {
+            level: 2,
+            textAlign: "left",
+            suggestion: {
+              ...suggestion,
+              previous: { type: "paragraph", attrs: { textAlign: "center" } },
+            },
+          },
+          content: [text("소제목")],
+        })
+      )
+    ).toEqual(
+      doc({
+        type: "paragraph",
+        attrs: { textAlign: "center", suggestion: null },
+        content: [text("소제목")],
+      })
+    );
+  });
+
+  it("문서 멘션은 문서 주소 없이 제목 글자로", () => {
+    expect(
+      toPublishedContent(
+        doc(
+          paragraph(
+            text("참고: "),
+            {
+              type: "mention",
+              attrs: { kind: "document", id: "d1", label: "기획서", mentionId: "mn_1" },
+            },
+            text(" "),
+            {
+              type: "mention",
+              attrs: { kind: "person", id: "u1", label: "김하나", mentionId: "mn_2" },
+            }
+          )
+        )
+      )
+    ).toEqual(
+      doc(
+        paragraph(text("참고: 기획서 "), {
+          type: "mention",
+          attrs: { kind: "person", id: "u1", label: "김하나", mentionId: "mn_2" },
+        })
+      )
+    );
+  });
+
+  it("댓글 표시는 뺀다", () => {
+    expect(
+      toPublishedContent(
+        doc(paragraph(text("메모", { type: "comment", attrs: { threadId: "t1" } })))
+      )
+    ).toEqual(doc(paragraph(text("메모"))));
+  });
+});
@@ -0,0 +1,66 @@
+import type { JSONContent } from "@tiptap/core";
+import { stripCommentMarks } from "@/lib/comments/content";
+import { documentMentionsAsLabels } from "@/lib/mentions/content";
+
+// components/editor/SuggestChanges의 제안 마크
+const INSERTION_MARK = "insertion";
+const DELETION_MARK = "deletion";
+const FORMAT_CHANGE_MARK = "formatChange";
+
+type Mark = NonNullable<JSONContent["marks"]>[number];
+
+// 서식 제안을 거절했을 때의 마크: 더한 마크는 빼고 뺀 마크는 되살린다
+function rejectMarks(marks: Mark[]): Mark[] {
+  const change = marks.find((mark) => mark.type === FORMAT_CHANGE_MARK);
+  const added = change?.attrs?.added as Mark | null | undefined;
+  const removed = change?.attrs?.removed as Mark | null | undefined;
+  const kept = marks.filter(
+    (mark) =>
+      mark.type !== DELETION_MARK &&
+      mark.type !== FORMAT_CHANGE_MARK &&
+      mark.type !== added?.type
+  );
+  return removed ? [...kept, removed] : kept;
+}
+
+/**
+ * 아직 받아들이지 않은 제안을 모두 거절한 내용 = 작성자가 쓴 글.
+ * 추가 제안 글자는 빼고, 삭제 제안 글자는 표시만 떼어 남기고,
+ * 서식 제안은 제안 전 마크/블록으로 되돌린다 (SuggestChanges의 resolveSuggestions와 같게).
+ */
+function rejectSuggestions(node: JSONContent): JSONContent {
+  const { type, attrs, marks, content, ...rest } = node;
+  const rejected: JSONContent = { type, ...rest };
+
+  // 블록 서식 제안 (제안 전 타입/속성과 제안한 사람)
+  const previous = attrs?.suggestion?.previous as
+    | { type: string; attrs: Record<string, unknown> }
+    | undefined;
+  if (previous) {
+    rejected.type = previous.type;
+    rejected.attrs = { ...previous.attrs, suggestion: null };
+  } else if (attrs) {
+    rejected.attrs = attrs;
+  }
+
+  const kept = marks && rejectMarks(marks);
+  if (kept && kept.length > 0) rejected.marks = kept;
+
+  if (content) {
+    rejected.content = content
+      .filter(
+        (child) => !child.marks?.some((mark) => mark.type === INSERTION_MARK)
+      )
+      .map(rejectSuggestions);
+  }
+
+  return rejected;
+}
+
+/**
+ * 공개 페이지에 나갈 내용: 댓글은 빼고, 받아들이지 않은 제안은 반영하지 않고,
+ * 문서 멘션은 제목 글자로
+ */
+export function toPublishedContent(content: JSONContent): JSONContent {
+  return stripCommentMarks(documentMentionsAsLabels(rejectSuggestions(content)));
+}
@@ -0,0 +1,127 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import { DATA_DIR, isNotFoundError, readJson, writeJsonAtomic } from "@/lib/storage";
+import type { StoredDocument } from "@/lib/documents/types";
+import { toPublishedContent } from "./content";
+import type { Publication, PublicationStatus } from "./types";
+
+// 로컬 파일 기반 저장소: .data/publications/<slug>.json
+const PUBLICATIONS_DIR = path.join(DATA_DIR, "publications");
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MAX_SLUG_WORDS_LENGTH = 40;
+
+export function isValidSlug(slug: string) {
+  return SLUG_PATTERN.test(slug) && slug.length <= 80;
+}
+
+function publicationPath(slug: string) {
+  if (!isValidSlug(slug)) {
+    throw new Error(`Invalid publication slug: ${slug}`);
+  }
+  return path.join(PUBLICATIONS_DIR, `${slug}.json`);
+}
+
+/** "My First Essay" → "my-first-essay-k3x9qa". 한글 제목은 임의 문자열만 */
+function createSlug(title: string) {
+  const words = title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_SLUG_WORDS_LENGTH)
+    .replace(/-+$/, "");
+  const suffix = randomBytes(4).readUInt32BE().toString(36);
+  return words ? `${words}-${suffix}` : suffix;
+}
+
+export async function readPublication(slug: string) {
+  if (!isValidSlug(slug)) return null;
+  return readJson<Publication>(publicationPath(slug));
+}
+
+/** 공개 페이지용: 게시 취소된 것은 없는 것으로 본다 */
+export async function readLivePublication(slug: string) {
+  const publication = await readPublication(slug);
+  return publication && !publication.unpublishedAt ? publication : null;
+}
+
+async function readAllPublications(): Promise<Publication[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(PUBLICATIONS_DIR);
+  } catch (error) {
+    if (isNotFoundError(error)) return [];
+    throw error;
+  }
+
+  const publications = await Promise.all(
+    entries
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => readPublication(name.slice(0, -".json".length)))
+  );
+
+  return publications.filter((p): p is Publication => p !== null);
+}
+
+/** 문서의 게시본 (문서마다 하나, 게시 취소된 것 포함) */
+export async function findPublication(documentId: string) {
+  const publications = await readAllPublications();
+  return publications.find((p) => p.documentId === documentId) ?? null;
+}
+
+export function getPublicationStatus(
+  publication: Publication,
+  doc: StoredDocument
+): PublicationStatus {
+  return {
+    slug: publication.slug,
+    title: publication.title,
+    publishedAt: publication.publishedAt,
+    unpublishedAt: publication.unpublishedAt,
+    hasUnpublishedChanges: doc.updatedAt > publication.publishedAt,
+  };
+}
+
+/**
+ * 현재 문서를 스냅샷으로 게시한다. 이미 게시한 적이 있으면
+ * 같은 slug를 그대로 써서 (다시 게시) 주소가 바뀌지 않는다.
+ */
+export async function publishDocument(doc: StoredDocument): Promise<Publication> {
+  const existing = await findPublication(doc.id);
+  const now = new Date().toISOString();
+
+  let slug = existing?.slug ?? createSlug(doc.title);
+  if (!existing) {
+    while (await readPublication(slug)) slug = createSlug(doc.title);
+  }
+
+  const publication: Publication = {
+    slug,
+    documentId: doc.id,
+    title: doc.title,
+    // 댓글과 아직 받아들이지 않은 제안은 공개 페이지에 나가지 않는다
+    content: toPublishedContent(doc.content),
+    firstPublishedAt: existing?.firstPublishedAt ?? now,
+    publishedAt: now,
+    unpublishedAt: null,
+  };
+  await writeJsonAtomic(publicationPath(slug), publication);
+  return publication;
+}
+
+/** 게시 취소. 스냅샷은 남겨 두어 다시 게시하면 같은 주소로 열린다 */
+export async function unpublishDocument(
+  documentId: string
+): Promise<Publication | null> {
+  const existing = await findPublication(documentId);
+  if (!existing) return null;
+
+  const publication = {
+    ...existing,
+    unpublishedAt: existing.unpublishedAt ?? new Date().toISOString(),
+  };
+  await writeJsonAtomic(publicationPath(existing.slug), publication);
+  return publication;
+}
@@ -0,0 +1,24 @@
+import type { JSONContent } from "@tiptap/core";
+
+/** 게시본 스냅샷 (.data/publications/<slug>.json) */
+export interface Publication {
+  slug: string;
+  documentId: string;
+  /** 게시 시점의 제목/본문. 이후 편집은 다시 게시할 때까지 반영되지 않는다 */
+  title: string;
+  content: JSONContent;
+  firstPublishedAt: string;
+  publishedAt: string;
+  /** 게시 취소 시각. null이면 공개 중 */
+  unpublishedAt: string | null;
+}
+
+/** 게시 대화상자에 보여줄 상태 (본문 제외) */
+export interface PublicationStatus {
+  slug: string;
+  title: string;
+  publishedAt: string;
+  unpublishedAt: string | null;
+  /** 게시 후 문서가 수정되었는지 (다시 게시 안내용) */
+  hasUnpublishedChanges: boolean;
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { readDocument } from "@/lib/documents/store";
+import type { StoredDocument } from "@/lib/documents/types";
+import { hideDocumentMentionIds } from "@/lib/mentions/content";
+import { readShareLink, shareAccessKey, shareCookieName } from "./store";
+import type {
+  SharedDocumentContent,
+  ShareRole,
+  StoredShareLink,
+} from "./types";
+
+/** 비밀번호를 통과한 브라우저에 남기는 쿠키 */
+export function setShareCookie(response: NextResponse, link: StoredShareLink) {
+  const maxAge = link.expiresAt
+    ? Math.max(0, Math.floor((Date.parse(link.expiresAt) - Date.now()) / 1000))
+    : 60 * 60 * 24 * 30;
+
+  response.cookies.set(shareCookieName(link.token), shareAccessKey(link), {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    maxAge,
+  });
+  return response;
+}
+
+/** 공유 링크 응답에 담을 문서 (이 문서와 멘션한 문서의 id는 빼고) */
+export function toSharedContent({
+  title,
+  content,
+  createdAt,
+  updatedAt,
+  deletedAt,
+}: StoredDocument): SharedDocumentContent {
+  return {
+    title,
+    content: hideDocumentMentionIds(content),
+    createdAt,
+    updatedAt,
+    deletedAt,
+  };
+}
+
+function error(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+type ShareAccess =
+  | { link: StoredShareLink; document: StoredDocument; response?: undefined }
+  | { response: NextResponse };
+
+/**
+ * 공유 링크 요청 공통 검사: 링크/문서 존재, 취소·만료, 비밀번호 쿠키, 역할.
+ * 통과하면 { link, document }, 아니면 그대로 돌려줄 { response }.
+ * skipPassword는 비밀번호를 직접 확인하는 POST에서만 쓴다.
+ */
+export async function authorizeShare(
+  token: string,
+  {
+    roles,
+    skipPassword = false,
+  }: { roles?: ShareRole[]; skipPassword?: boolean } = {}
+): Promise<ShareAccess> {
+  const link = await readShareLink(token);
+  if (!link || link.revokedAt) {
+    return { response: error("Share link not found", 404) };
+  }
+  if (link.expiresAt && Date.parse(link.expiresAt) <= Date.now()) {
+    return { response: error("Share link expired", 410) };
+  }
+
+  const document = await readDocument(link.documentId);
+  if (!document || document.deletedAt) {
+    return { response: error("Share link not found", 404) };
+  }
+
+  if (link.passwordHash && !skipPassword) {
+    const cookie = (await cookies()).get(shareCookieName(token));
+    if (cookie?.value !== shareAccessKey(link)) {
+      return { response: error("Password required", 401) };
+    }
+  }
+
+  if (roles && !roles.includes(link.role)) {
+    return { response: error("Not allowed for this share link", 403) };
+  }
+
+  return { link, document };
+}
@@ -0,0 +1,102 @@
+import type { SaveDocumentInput } from "@/lib/documents/types";
+import type { TraceEvent } from "@/lib/trace/types";
+import type {
+  CreateShareInput,
+  ShareLinkSummary,
+  SharedDocument,
+  SharedDocumentContent,
+} from "./types";
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(input, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!res.ok) {
+    throw new Error(`${init?.method ?? "GET"} ${input} failed: ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+export function shareUrl(token: string) {
+  return `${window.location.origin}/s/${token}`;
+}
+
+export async function fetchShareLinks(documentId: string) {
+  const { links } = await request<{ links: ShareLinkSummary[] }>(
+    `/api/documents/${documentId}/shares`
+  );
+  return links;
+}
+
+export async function createShareLink(
+  documentId: string,
+  input: CreateShareInput
+) {
+  const { link } = await request<{ link: ShareLinkSummary }>(
+    `/api/documents/${documentId}/shares`,
+    { method: "POST", body: JSON.stringify(input) }
+  );
+  return link;
+}
+
+export async function revokeShareLink(documentId: string, token: string) {
+  await request(`/api/documents/${documentId}/shares/${token}`, {
+    method: "DELETE",
+  });
+}
+
+type OpenShareFailure = "password" | "wrong-password" | "expired" | "not-found";
+
+export type OpenShareResult =
+  | { status: "ok"; shared: SharedDocument }
+  | { status: OpenShareFailure };
+
+const FAILURES: Record<number, OpenShareFailure> = {
+  401: "password",
+  403: "wrong-password",
+  404: "not-found",
+  410: "expired",
+};
+
+/** 공유 링크로 문서 열기. password를 주면 확인 후 쿠키가 남는다 */
+export async function openSharedDocument(
+  token: string,
+  password?: string
+): Promise<OpenShareResult> {
+  const res = await fetch(`/api/shares/${token}`, {
+    method: password === undefined ? "GET" : "POST",
+    headers: { "Content-Type": "application/json" },
+    body: password === undefined ? undefined : JSON.stringify({ password }),
+  });
+
+  const failure = FAILURES[res.status];
+  if (failure) return { status: failure };
+  if (!res.ok) {
+    throw new Error(`open share ${token} failed: ${res.status}`);
+  }
+  return { status: "ok", shared: (await res.json()) as SharedDocument };
+}
+
+export async function saveSharedDocument(
+  token: string,
+  input: Partial<SaveDocumentInput>
+) {
+  const { document } = await request<{ document: SharedDocumentContent }>(
+    `/api/shares/${token}`,
+    { method: "PUT", body: JSON.stringify(input) }
+  );
+  return document;
+}
+
+export async function appendSharedTraceEvents(
+  token: string,
+  events: TraceEvent[],
+  { keepalive = false }: { keepalive?: boolean } = {}
+) {
+  await request(`/api/shares/${token}/trace`, {
+    method: "POST",
+    body: JSON.stringify({ events }),
+    keepalive,
+  });
+}
@@ -0,0 +1,150 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  createHash,
+  randomBytes,
+  scrypt as scryptCallback,
+  timingSafeEqual,
+} from "crypto";
+import { promisify } from "util";
+import { DATA_DIR, isNotFoundError, readJson, writeJsonAtomic } from "@/lib/storage";
+import type {
+  CreateShareInput,
+  ShareLinkSummary,
+  StoredShareLink,
+} from "./types";
+
+// 로컬 파일 기반 저장소: .data/shares/<token>.json
+const SHARES_DIR = path.join(DATA_DIR, "shares");
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+const KEY_LENGTH = 32;
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+export function isValidShareToken(token: string) {
+  return TOKEN_PATTERN.test(token);
+}
+
+function sharePath(token: string) {
+  if (!isValidShareToken(token)) {
+    throw new Error(`Invalid share token: ${token}`);
+  }
+  return path.join(SHARES_DIR, `${token}.json`);
+}
+
+async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifySharePassword(
+  link: StoredShareLink,
+  password: string
+) {
+  if (!link.passwordHash) return true;
+  const [salt, expected] = link.passwordHash.split(":");
+  const actual = await scrypt(password, salt, KEY_LENGTH);
+  const stored = Buffer.from(expected ?? "", "hex");
+  return stored.length === actual.length && timingSafeEqual(actual, stored);
+}
+
+export function isShareLinkActive(link: StoredShareLink, now = Date.now()) {
+  if (link.revokedAt) return false;
+  return !link.expiresAt || Date.parse(link.expiresAt) > now;
+}
+
+export function summarizeShareLink(link: StoredShareLink): ShareLinkSummary {
+  return {
+    token: link.token,
+    role: link.role,
+    createdAt: link.createdAt,
+    expiresAt: link.expiresAt,
+    hasPassword: link.passwordHash !== null,
+  };
+}
+
+export function shareCookieName(token: string) {
+  return `wt_share_${token}`;
+}
+
+/**
+ * 비밀번호를 통과했다는 표시로 쿠키에 넣을 값.
+ * 비밀번호 해시에서 만들기 때문에 비밀번호가 바뀌면 (새 링크) 다시 물어본다.
+ */
+export function shareAccessKey(link: StoredShareLink) {
+  return createHash("sha256")
+    .update(`${link.token}:${link.passwordHash ?? ""}`)
+    .digest("base64url");
+}
+
+export async function readShareLink(
+  token: string
+): Promise<StoredShareLink | null> {
+  if (!isValidShareToken(token)) return null;
+  return readJson<StoredShareLink>(sharePath(token));
+}
+
+async function readAllShareLinks(): Promise<StoredShareLink[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(SHARES_DIR);
+  } catch (error) {
+    if (isNotFoundError(error)) return [];
+    throw error;
+  }
+
+  const links = await Promise.all(
+    entries
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => readShareLink(name.slice(0, -".json".length)))
+  );
+
+  return links.filter((link): link is StoredShareLink => link !== null);
+}
+
+/** 문서의 유효한(취소/만료되지 않은) 링크, 최근 생성 순 */
+export async function listShareLinks(
+  documentId: string
+): Promise<ShareLinkSummary[]> {
+  const links = await readAllShareLinks();
+  return links
+    .filter((link) => link.documentId === documentId && isShareLinkActive(link))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(summarizeShareLink);
+}
+
+export async function createShareLink(
+  documentId: string,
+  input: CreateShareInput
+): Promise<StoredShareLink> {
+  const link: StoredShareLink = {
+    token: randomBytes(18).toString("base64url"),
+    documentId,
+    role: input.role,
+    createdAt: new Date().toISOString(),
+    expiresAt: input.expiresAt,
+    passwordHash: input.password ? await hashPassword(input.password) : null,
+    revokedAt: null,
+  };
+  await writeJsonAtomic(sharePath(link.token), link);
+  return link;
+}
+
+/** 링크 취소. 파일은 남겨 두고 revokedAt만 기록한다 */
+export async function revokeShareLink(
+  documentId: string,
+  token: string
+): Promise<StoredShareLink | null> {
+  const link = await readShareLink(token);
+  if (!link || link.documentId !== documentId) return null;
+
+  const revoked = { ...link, revokedAt: link.revokedAt ?? new Date().toISOString() };
+  await writeJsonAtomic(sharePath(token), revoked);
+  return revoked;
+}
@@ -0,0 +1,50 @@
+import type { StoredDocument } from "@/lib/documents/types";
+
+export const SHARE_ROLES = ["viewer", "commenter", "editor"] as const;
+
+export type ShareRole = (typeof SHARE_ROLES)[number];
+
+export const SHARE_ROLE_LABELS: Record<ShareRole, string> = {
+  viewer: "보기",
+  commenter: "댓글",
+  editor: "편집",
+};
+
+/** 서버에 저장되는 공유 링크 (.data/shares/<token>.json) */
+export interface StoredShareLink {
+  token: string;
+  documentId: string;
+  role: ShareRole;
+  createdAt: string;
+  /** null이면 만료 없음 */
+  expiresAt: string | null;
+  /** "salt:hash" (scrypt). null이면 비밀번호 없음 */
+  passwordHash: string | null;
+  revokedAt: string | null;
+}
+
+/** 공유 대화상자에 보여줄 정보 (비밀번호 해시 제외) */
+export interface ShareLinkSummary {
+  token: string;
+  role: ShareRole;
+  createdAt: string;
+  expiresAt: string | null;
+  hasPassword: boolean;
+}
+
+export interface CreateShareInput {
+  role: ShareRole;
+  expiresAt: string | null;
+  password: string | null;
+}
+
+/**
+ * 공유 링크로 연 문서. 문서 id는 빼고 보낸다 — id만 있으면 문서 API와
+ * 공동 편집 서버에 역할 검사 없이 들어갈 수 있다.
+ */
+export type SharedDocumentContent = Omit<StoredDocument, "id">;
+
+export interface SharedDocument {
+  role: ShareRole;
+  document: SharedDocumentContent;
+}
@@ -0,0 +1,29 @@
+import { SHARE_ROLES, type CreateShareInput, type ShareRole } from "./types";
+
+const MAX_PASSWORD_LENGTH = 200;
+
+// 요청 body에서 role/expiresAt/password를 골라낸다. 형식이 틀리면 null.
+export function parseCreateShareInput(body: unknown): CreateShareInput | null {
+  if (!body || typeof body !== "object") return null;
+  const { role, expiresAt, password } = body as Record<string, unknown>;
+
+  if (!SHARE_ROLES.includes(role as ShareRole)) return null;
+
+  let expires: string | null = null;
+  if (expiresAt !== undefined && expiresAt !== null) {
+    if (typeof expiresAt !== "string") return null;
+    const time = Date.parse(expiresAt);
+    if (Number.isNaN(time) || time <= Date.now()) return null;
+    expires = new Date(time).toISOString();
+  }
+
+  let pass: string | null = null;
+  if (password !== undefined && password !== null && password !== "") {
+    if (typeof password !== "string" || password.length > MAX_PASSWORD_LENGTH) {
+      return null;
+    }
+    pass = password;
+  }
+
+  return { role: role as ShareRole, expiresAt: expires, password: pass };
+}
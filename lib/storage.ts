@@ -0,0 +1,28 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// 서버 로컬 저장소 루트 (기본값: <프로젝트>/.data)
+export const DATA_DIR =
+  process.env.WRITETRACER_DATA_DIR ?? path.join(process.cwd(), ".data");
+
+export function isNotFoundError(error: unknown) {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+export async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+export async function writeJsonAtomic(filePath: string, value: unknown) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  // 쓰는 도중 죽어도 기존 파일이 깨지지 않도록 임시 파일 → rename
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(value), "utf8");
+  await fs.rename(tmpPath, filePath);
+}
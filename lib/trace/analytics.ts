@@ -0,0 +1,376 @@
+import type { Schema } from "@tiptap/pm/model";
+import { Step, type StepMap } from "@tiptap/pm/transform";
+import {
+  mergeStreams,
+  PAUSE_THRESHOLD,
+  reconstructFrames,
+  splitStreams,
+} from "./replay";
+import type { StepJSON, TraceEvent } from "./types";
+
+// 이보다 긴 공백은 "쉬는 시간"으로, 짧은 공백은 "쓰는 시간"으로 본다
+export const IDLE_THRESHOLD = 30_000;
+// WPM 계산용: 글자 5개 = 단어 1개 (typing test 관례)
+const CHARS_PER_WORD = 5;
+const MIN_BURST_MS = 1_000;
+
+export const PAUSE_BUCKETS = [
+  { label: "3–10초", min: 3_000, max: 10_000 },
+  { label: "10–30초", min: 10_000, max: 30_000 },
+  { label: "30초–2분", min: 30_000, max: 120_000 },
+  { label: "2–10분", min: 120_000, max: 600_000 },
+  { label: "10분+", min: 600_000, max: Infinity },
+] as const;
+
+export interface Burst {
+  startedAt: number;
+  endedAt: number;
+  chars: number;
+  wpm: number;
+}
+
+export interface SessionMetrics {
+  startedAt: number;
+  endedAt: number;
+  activeMs: number;
+  idleMs: number;
+  bursts: Burst[];
+  avgBurstWpm: number;
+  maxBurstWpm: number;
+  insertedChars: number;
+  deletedChars: number;
+  /** 삭제 글자 / 입력 글자 (입력이 없으면 0) */
+  deletionRatio: number;
+  pasteCount: number;
+  pastedChars: number;
+  /** PAUSE_BUCKETS 순서의 개수 */
+  pauseHistogram: number[];
+}
+
+export interface ParagraphRevisions {
+  index: number;
+  preview: string;
+  revisions: number;
+}
+
+export interface DocumentAnalytics {
+  sessions: SessionMetrics[];
+  total: SessionMetrics;
+  paragraphs: ParagraphRevisions[];
+}
+
+type EditEvent = Exclude<
+  TraceEvent,
+  { kind: "session" | "composition" | "remote" }
+>;
+
+function isEditEvent(event: TraceEvent): event is EditEvent {
+  return (
+    event.kind !== "session" &&
+    event.kind !== "composition" &&
+    event.kind !== "remote"
+  );
+}
+
+/** 한 세션(또는 문서 전체) 이벤트에서 시간/속도/수정 지표를 계산한다 */
+function measure(events: TraceEvent[]): SessionMetrics {
+  const metrics: SessionMetrics = {
+    startedAt: events[0]?.at ?? 0,
+    endedAt: events[events.length - 1]?.at ?? 0,
+    activeMs: 0,
+    idleMs: 0,
+    bursts: [],
+    avgBurstWpm: 0,
+    maxBurstWpm: 0,
+    insertedChars: 0,
+    deletedChars: 0,
+    deletionRatio: 0,
+    pasteCount: 0,
+    pastedChars: 0,
+    pauseHistogram: PAUSE_BUCKETS.map(() => 0),
+  };
+
+  let composing = false;
+  let burst: Burst | null = null;
+
+  const closeBurst = () => {
+    if (burst && burst.endedAt - burst.startedAt >= MIN_BURST_MS) {
+      const minutes = (burst.endedAt - burst.startedAt) / 60_000;
+      burst.wpm = burst.chars / CHARS_PER_WORD / minutes;
+      metrics.bursts.push(burst);
+    }
+    burst = null;
+  };
+
+  events.forEach((event, index) => {
+    // 세션 경계(다음 세션 시작)까지의 공백은 시간/멈춤 어디에도 넣지 않는다
+    if (event.kind === "session") {
+      closeBurst();
+    } else if (index > 0) {
+      const gap = event.at - events[index - 1].at;
+      if (gap < IDLE_THRESHOLD) metrics.activeMs += gap;
+      else metrics.idleMs += gap;
+
+      if (gap >= PAUSE_THRESHOLD) {
+        const bucket = PAUSE_BUCKETS.findIndex(
+          (b) => gap >= b.min && gap < b.max
+        );
+        if (bucket >= 0) metrics.pauseHistogram[bucket] += 1;
+        closeBurst();
+      }
+    }
+
+    if (event.kind === "composition") {
+      composing = event.phase === "start";
+      return;
+    }
+
+    let typed = 0;
+    switch (event.kind) {
+      case "insert":
+        typed = event.text.length;
+        metrics.insertedChars += typed;
+        break;
+      case "delete":
+        metrics.deletedChars += event.text.length;
+        break;
+      case "replace": {
+        // IME 조합 중 replace(ㅎ→하→한)는 늘어난/줄어든 만큼만 센다
+        const inserted = event.inserted.length;
+        const deleted = event.deleted.length;
+        if (composing) {
+          typed = Math.max(0, inserted - deleted);
+          metrics.insertedChars += typed;
+          metrics.deletedChars += Math.max(0, deleted - inserted);
+        } else {
+          typed = inserted;
+          metrics.insertedChars += inserted;
+          metrics.deletedChars += deleted;
+        }
+        break;
+      }
+      case "paste":
+        metrics.pasteCount += 1;
+        metrics.pastedChars += event.text.length;
+        metrics.insertedChars += event.text.length;
+        closeBurst();
+        return;
+      default:
+        return;
+    }
+
+    if (typed > 0) {
+      burst ??= { startedAt: event.at, endedAt: event.at, chars: 0, wpm: 0 };
+      burst.endedAt = event.at;
+      burst.chars += typed;
+    }
+  });
+  closeBurst();
+
+  metrics.deletionRatio =
+    metrics.insertedChars > 0 ? metrics.deletedChars / metrics.insertedChars : 0;
+  if (metrics.bursts.length > 0) {
+    const wpms = metrics.bursts.map((b) => b.wpm);
+    metrics.avgBurstWpm = wpms.reduce((a, b) => a + b, 0) / wpms.length;
+    metrics.maxBurstWpm = Math.max(...wpms);
+  }
+
+  return metrics;
+}
+
+/**
+ * 세션별 이벤트 (시작 순). 공동 편집자의 세션은 같은 시간대에 겹치므로
+ * 흐름마다 따로 나누고, 다른 사람의 변경("remote")은 빼고 잰다.
+ */
+function splitSessions(events: TraceEvent[]) {
+  const sessions: TraceEvent[][] = [];
+  splitStreams(events).forEach((stream) => {
+    const first = sessions.length;
+    stream.forEach((event) => {
+      if (event.kind === "remote") return;
+      if (event.kind === "session" || sessions.length === first) {
+        sessions.push([]);
+      }
+      sessions[sessions.length - 1].push(event);
+    });
+  });
+  return sessions
+    .filter((session) => session.some(isEditEvent))
+    .sort((a, b) => a[0].at - b[0].at);
+}
+
+function firstStepFrom(steps: StepJSON[]) {
+  const from = steps[0]?.from;
+  return typeof from === "number" ? from : null;
+}
+
+function stepMaps(steps: StepJSON[], schema: Schema): StepMap[] {
+  const maps: StepMap[] = [];
+  for (const json of steps) {
+    try {
+      maps.push(Step.fromJSON(schema, json).getMap());
+    } catch {
+      break;
+    }
+  }
+  return maps;
+}
+
+function mapPositions(positions: number[], maps: StepMap[]) {
+  return positions.flatMap((pos) => {
+    let mapped = pos;
+    for (const map of maps) {
+      const result = map.mapResult(mapped, -1);
+      if (result.deleted) return [];
+      mapped = result.pos;
+    }
+    return [mapped];
+  });
+}
+
+/**
+ * 문단별 수정 횟수. 삭제/고쳐 쓰기/서식 변경 위치를 이후 Step들로 계속
+ * 매핑해 최종 문서의 최상위 블록에 배정한다. 지워진 곳의 수정은 버린다.
+ * 위치는 기록한 세션의 문서 기준이라 그 세션의 Step(다른 사람 변경 포함)으로만
+ * 매핑하고, 세션이 끝나면 이어지는 세션(없으면 다음에 시작하는 세션)에 넘긴다.
+ */
+function countParagraphRevisions(
+  events: TraceEvent[],
+  schema: Schema
+): ParagraphRevisions[] {
+  const frames = reconstructFrames(events, schema);
+  const finalDoc = frames[frames.length - 1]?.doc;
+  if (!finalDoc) return [];
+
+  const timeline = mergeStreams(splitStreams(events));
+  // sessionId가 없는 이전 기록은 ""
+  const lastIndex = new Map<string, number>();
+  timeline.forEach((event, index) => lastIndex.set(event.sessionId ?? "", index));
+
+  const live = new Map<string, number[]>();
+  const composing = new Map<string, boolean>();
+  let handedOver: number[] = [];
+
+  timeline.forEach((event, index) => {
+    const key = event.sessionId ?? "";
+    let positions = live.get(key) ?? [];
+
+    if (event.kind === "session") {
+      positions = [...positions, ...handedOver];
+      handedOver = [];
+    } else if (event.kind === "composition") {
+      composing.set(key, event.phase === "start");
+    } else {
+      const isRevision =
+        event.kind === "delete" ||
+        event.kind === "format" ||
+        (event.kind === "replace" && !composing.get(key));
+      if (isRevision) {
+        const from = firstStepFrom(event.steps);
+        if (from !== null) positions.push(from);
+      }
+      positions = mapPositions(positions, stepMaps(event.steps, schema));
+    }
+    live.set(key, positions);
+
+    if (lastIndex.get(key) !== index) return;
+    live.delete(key);
+    let heir: string | null = null;
+    for (const other of live.keys()) {
+      if (heir === null || lastIndex.get(other)! > lastIndex.get(heir)!) {
+        heir = other;
+      }
+    }
+    if (heir === null) handedOver = [...handedOver, ...positions];
+    else live.set(heir, [...live.get(heir)!, ...positions]);
+  });
+  const positions = handedOver;
+
+  const counts = new Array<number>(finalDoc.childCount).fill(0);
+  positions.forEach((pos) => {
+    const clamped = Math.min(Math.max(pos, 0), finalDoc.content.size);
+    const index = finalDoc.resolve(clamped).index(0);
+    if (index < counts.length) counts[index] += 1;
+  });
+
+  const paragraphs: ParagraphRevisions[] = [];
+  finalDoc.forEach((node, _offset, index) => {
+    const text = node.textContent.trim();
+    if (!text && counts[index] === 0) return;
+    paragraphs.push({
+      index,
+      preview: text.length > 48 ? `${text.slice(0, 48)}…` : text || `(${node.type.name})`,
+      revisions: counts[index],
+    });
+  });
+  return paragraphs;
+}
+
+export function analyzeTrace(
+  events: TraceEvent[],
+  schema: Schema
+): DocumentAnalytics {
+  const sessions = splitSessions(events);
+  const sessionMetrics = sessions.map(measure);
+
+  return {
+    sessions: sessionMetrics,
+    // 문서 전체 (세션 사이 공백은 measure에서 제외됨)
+    total: measure(sessions.flat()),
+    paragraphs: countParagraphRevisions(events, schema),
+  };
+}
+
+function csvCell(value: string | number) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** 세션별 + 문서 전체 지표를 CSV로 (강사가 초안끼리 비교할 수 있도록) */
+export function analyticsToCsv(
+  analytics: DocumentAnalytics,
+  documentTitle: string
+) {
+  const header = [
+    "document",
+    "scope",
+    "started_at",
+    "ended_at",
+    "active_sec",
+    "idle_sec",
+    "bursts",
+    "avg_burst_wpm",
+    "max_burst_wpm",
+    "inserted_chars",
+    "deleted_chars",
+    "deletion_ratio",
+    "pastes",
+    "pasted_chars",
+    ...PAUSE_BUCKETS.map((b) => `pauses_${b.label}`),
+  ];
+
+  const row = (scope: string, m: SessionMetrics) => [
+    documentTitle,
+    scope,
+    new Date(m.startedAt).toISOString(),
+    new Date(m.endedAt).toISOString(),
+    Math.round(m.activeMs / 1000),
+    Math.round(m.idleMs / 1000),
+    m.bursts.length,
+    m.avgBurstWpm.toFixed(1),
+    m.maxBurstWpm.toFixed(1),
+    m.insertedChars,
+    m.deletedChars,
+    m.deletionRatio.toFixed(3),
+    m.pasteCount,
+    m.pastedChars,
+    ...m.pauseHistogram,
+  ];
+
+  const rows = [
+    header,
+    ...analytics.sessions.map((m, i) => row(`session ${i + 1}`, m)),
+    row("document", analytics.total),
+  ];
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n");
+}
@@ -0,0 +1,136 @@
+import type { Node as PMNode } from "@tiptap/pm/model";
+import type { Transaction } from "@tiptap/pm/state";
+import {
+  AddMarkStep,
+  AttrStep,
+  RemoveMarkStep,
+  ReplaceAroundStep,
+  ReplaceStep,
+} from "@tiptap/pm/transform";
+import type { PasteFormat, TraceEvent } from "./types";
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+export type UnstampedTraceEvent = DistributiveOmit<TraceEvent, "at">;
+
+// 텍스트가 아니라 "무언가를 넣었다"로 기록할 노드들
+const TRACKED_NODE_TYPES = new Set([
+  "attachment",
+  "image",
+  "table",
+  "youtube",
+  "horizontalRule",
+  "codeBlock",
+]);
+
+function changedAttrs(before: PMNode | null, after: PMNode | null) {
+  if (!before || !after) return [];
+  if (before.type !== after.type) return [after.type.name];
+  return Object.keys(after.attrs).filter(
+    (key) => before.attrs[key] !== after.attrs[key]
+  );
+}
+
+/**
+ * 트랜잭션 하나를 기록용 이벤트로 분류한다. 문서가 바뀌지 않았으면 null.
+ * Step 원본(JSON)은 그대로 담아 재생 때 정확히 다시 적용할 수 있게 한다.
+ */
+export function classifyTransaction(
+  tr: Transaction,
+  pasteFormat: PasteFormat | null
+): UnstampedTraceEvent | null {
+  if (!tr.docChanged) return null;
+
+  const steps = tr.steps.map((step) => step.toJSON());
+  const nodes = new Set<string>();
+  const changes = new Set<string>();
+  let from = -1;
+  let deleted = "";
+  let inserted = "";
+
+  tr.steps.forEach((step, index) => {
+    const doc = tr.docs[index];
+
+    if (step instanceof ReplaceStep) {
+      if (from < 0) from = step.from;
+      deleted += doc.textBetween(step.from, step.to, "\n", "");
+      inserted += step.slice.content.textBetween(
+        0,
+        step.slice.content.size,
+        "\n",
+        ""
+      );
+      step.slice.content.descendants((node) => {
+        if (TRACKED_NODE_TYPES.has(node.type.name)) nodes.add(node.type.name);
+      });
+    } else if (step instanceof AddMarkStep) {
+      changes.add(`+${step.mark.type.name}`);
+    } else if (step instanceof RemoveMarkStep) {
+      changes.add(`-${step.mark.type.name}`);
+    } else if (step instanceof ReplaceAroundStep) {
+      // setNodeMarkup(제목 전환, 정렬 등), 리스트/인용 감싸기·풀기
+      const wrapper = step.slice.content.firstChild;
+      const names = changedAttrs(doc.nodeAt(step.from), wrapper);
+      if (names.length === 0) names.push(wrapper ? wrapper.type.name : "lift");
+      names.forEach((name) => changes.add(name));
+    } else if (step instanceof AttrStep) {
+      changes.add(step.attr);
+    }
+  });
+
+  if (pasteFormat && tr.getMeta("uiEvent") === "paste") {
+    return { kind: "paste", from, text: inserted, format: pasteFormat, steps };
+  }
+  if (nodes.size > 0) {
+    return { kind: "node", nodes: [...nodes], steps };
+  }
+  if (deleted && inserted) {
+    return { kind: "replace", from, deleted, inserted, steps };
+  }
+  if (inserted) {
+    return { kind: "insert", from, text: inserted, steps };
+  }
+  if (deleted) {
+    return { kind: "delete", from, text: deleted, steps };
+  }
+  if (changes.size > 0) {
+    return { kind: "format", changes: [...changes], steps };
+  }
+  return { kind: "structure", steps };
+}
+
+/**
+ * 공동 편집자에게서 받은 변경을 바뀐 구간만 덮는 ReplaceStep 하나로 기록한다.
+ * y-tiptap은 원격 변경마다 문서 전체를 바꾸는 Step을 만들기 때문에
+ * 그대로 담으면 기록이 커지고, 그 Step을 지나는 위치는 모두 지워진 것으로 매핑된다.
+ */
+export function classifyRemoteChange(
+  tr: Transaction
+): UnstampedTraceEvent | null {
+  if (!tr.docChanged) return null;
+
+  const before = tr.before;
+  const after = tr.doc;
+  const start = before.content.findDiffStart(after.content);
+  const end = before.content.findDiffEnd(after.content);
+  if (start === null || !end) return null;
+
+  // 같은 내용이 반복되면 끝이 시작보다 앞에서 잡힐 수 있다
+  const overlap = start - Math.min(end.a, end.b);
+  const endA = overlap > 0 ? end.a + overlap : end.a;
+  const endB = overlap > 0 ? end.b + overlap : end.b;
+
+  let step = new ReplaceStep(start, endA, after.slice(start, endB));
+  try {
+    if (!step.apply(before).doc?.eq(after)) throw new Error("Mismatched diff");
+  } catch {
+    step = new ReplaceStep(
+      0,
+      before.content.size,
+      after.slice(0, after.content.size)
+    );
+  }
+  return { kind: "remote", steps: [step.toJSON()] };
+}
@@ -0,0 +1,26 @@
+import type { TraceEvent, TraceLog } from "./types";
+
+export async function appendTraceEvents(
+  documentId: string,
+  events: TraceEvent[],
+  { keepalive = false }: { keepalive?: boolean } = {}
+) {
+  const res = await fetch(`/api/documents/${documentId}/trace`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ events }),
+    keepalive,
+  });
+  if (!res.ok) {
+    throw new Error(`POST trace failed: ${res.status}`);
+  }
+}
+
+export async function fetchTrace(documentId: string) {
+  const res = await fetch(`/api/documents/${documentId}/trace`);
+  if (!res.ok) {
+    throw new Error(`GET trace failed: ${res.status}`);
+  }
+  const { trace } = (await res.json()) as { trace: TraceLog | null };
+  return trace;
+}
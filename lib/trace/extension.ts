@@ -0,0 +1,107 @@
+import { Extension, type Editor } from "@tiptap/core";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { isRemoteChange } from "@/lib/collab/transactions";
+import { classifyRemoteChange, classifyTransaction } from "./classify";
+import type { PasteFormat, TraceEvent } from "./types";
+
+export interface TraceRecorderStorage {
+  /** 이벤트를 받을 쪽. null이면 기록하지 않는다 */
+  listener: ((event: TraceEvent) => void) | null;
+  /** 직전 paste 이벤트의 클립보드 형식 (paste 트랜잭션 분류용) */
+  pasteFormat: PasteFormat | null;
+}
+
+declare module "@tiptap/core" {
+  interface Storage {
+    traceRecorder: TraceRecorderStorage;
+  }
+}
+
+/**
+ * 에디터의 모든 트랜잭션을 타임스탬프와 함께 TraceEvent로 내보낸다.
+ * 저장은 하지 않는다 — listener(useTraceUploader)가 서버로 보낸다.
+ */
+export const TraceRecorder = Extension.create<unknown, TraceRecorderStorage>({
+  name: "traceRecorder",
+
+  addStorage() {
+    return { listener: null, pasteFormat: null };
+  },
+
+  onTransaction({ transaction }) {
+    // 공동 편집자의 변경은 그 사람의 기록에도 남지만, 이 세션의 문서를
+    // 다시 만들 수 있도록 바뀐 구간만 따로 남긴다
+    if (isRemoteChange(transaction)) {
+      const remote = this.storage.listener && classifyRemoteChange(transaction);
+      if (remote) this.storage.listener?.({ ...remote, at: Date.now() });
+      return;
+    }
+
+    const event = classifyTransaction(transaction, this.storage.pasteFormat);
+    if (transaction.getMeta("uiEvent") === "paste") {
+      this.storage.pasteFormat = null;
+    }
+    if (event) this.storage.listener?.({ ...event, at: Date.now() });
+  },
+
+  addProseMirrorPlugins() {
+    const { storage } = this;
+
+    return [
+      new Plugin({
+        key: new PluginKey("traceRecorder"),
+        props: {
+          handleDOMEvents: {
+            paste: (_view, event) => {
+              const types = event.clipboardData?.types ?? [];
+              storage.pasteFormat = types.includes("text/html")
+                ? "html"
+                : "plain";
+              return false;
+            },
+            compositionstart: () => {
+              storage.listener?.({
+                kind: "composition",
+                phase: "start",
+                at: Date.now(),
+              });
+              return false;
+            },
+            compositionend: (_view, event) => {
+              storage.listener?.({
+                kind: "composition",
+                phase: "end",
+                at: Date.now(),
+                data: event.data,
+              });
+              return false;
+            },
+          },
+        },
+      }),
+    ];
+  },
+});
+
+function createSessionId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+/**
+ * listener를 연결하고 현재 문서를 세션 시작점으로 기록한다.
+ * 이후 이벤트에는 모두 이 세션의 id가 붙는다.
+ */
+export function attachTraceListener(
+  editor: Editor,
+  listener: (event: TraceEvent) => void
+) {
+  const storage = editor.storage.traceRecorder;
+  const sessionId = createSessionId();
+  const record = (event: TraceEvent) => listener({ ...event, sessionId });
+  storage.listener = record;
+  record({ kind: "session", at: Date.now(), doc: editor.getJSON() });
+
+  return () => {
+    if (storage.listener === record) storage.listener = null;
+  };
+}
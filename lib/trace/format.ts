@@ -0,0 +1,169 @@
+import type { JSONContent } from "@tiptap/core";
+import type { PasteFormat, StepJSON, TraceEvent } from "./types";
+
+/**
+ * 저장 포맷 (JSON Lines)
+ *   1행: {"format":"writetracer-trace","v":1,"documentId":"…","startedAt":1700000000000}
+ *   이후: 이벤트 1개당 1행, [startedAt 기준 ms, 종류 코드, ...payload]
+ *   세션 표시: [ms, "w", sessionId] — 다음 "w"까지의 이벤트는 그 세션의 것
+ *
+ * 포맷을 바꾸면 TRACE_FORMAT_VERSION을 올리고 decodeEvent에서 이전 버전을 처리한다.
+ * v2: 세션 표시("w")와 공동 편집자 변경("y")이 생겼다. 둘 다 v1 파일에 이어
+ * 써도 그대로 읽히고, "w"가 나오기 전의 이벤트는 세션 id가 없다.
+ */
+export const TRACE_FORMAT = "writetracer-trace";
+export const TRACE_FORMAT_VERSION = 2;
+
+export interface TraceHeader {
+  format: typeof TRACE_FORMAT;
+  v: number;
+  documentId: string;
+  startedAt: number;
+}
+
+export type EncodedEvent = [number, string, ...unknown[]];
+
+export function encodeEvent(event: TraceEvent, startedAt: number): EncodedEvent {
+  const t = Math.max(0, Math.round(event.at - startedAt));
+
+  switch (event.kind) {
+    case "session":
+      return [t, "s", event.doc];
+    case "insert":
+      return [t, "i", event.from, event.text, event.steps];
+    case "delete":
+      return [t, "d", event.from, event.text, event.steps];
+    case "replace":
+      return [t, "r", event.from, event.deleted, event.inserted, event.steps];
+    case "paste":
+      return [t, "p", event.from, event.text, event.format, event.steps];
+    case "format":
+      return [t, "f", event.changes, event.steps];
+    case "node":
+      return [t, "n", event.nodes, event.steps];
+    case "structure":
+      return [t, "x", event.steps];
+    case "remote":
+      return [t, "y", event.steps];
+    case "composition":
+      return event.data === undefined
+        ? [t, "c", event.phase]
+        : [t, "c", event.phase, event.data];
+  }
+}
+
+export function decodeEvent(
+  encoded: EncodedEvent,
+  startedAt: number
+): TraceEvent | null {
+  const [t, code, ...p] = encoded;
+  const at = startedAt + t;
+
+  switch (code) {
+    case "s":
+      return { kind: "session", at, doc: p[0] as JSONContent };
+    case "i":
+      return {
+        kind: "insert",
+        at,
+        from: p[0] as number,
+        text: p[1] as string,
+        steps: p[2] as StepJSON[],
+      };
+    case "d":
+      return {
+        kind: "delete",
+        at,
+        from: p[0] as number,
+        text: p[1] as string,
+        steps: p[2] as StepJSON[],
+      };
+    case "r":
+      return {
+        kind: "replace",
+        at,
+        from: p[0] as number,
+        deleted: p[1] as string,
+        inserted: p[2] as string,
+        steps: p[3] as StepJSON[],
+      };
+    case "p":
+      return {
+        kind: "paste",
+        at,
+        from: p[0] as number,
+        text: p[1] as string,
+        format: p[2] as PasteFormat,
+        steps: p[3] as StepJSON[],
+      };
+    case "f":
+      return {
+        kind: "format",
+        at,
+        changes: p[0] as string[],
+        steps: p[1] as StepJSON[],
+      };
+    case "n":
+      return {
+        kind: "node",
+        at,
+        nodes: p[0] as string[],
+        steps: p[1] as StepJSON[],
+      };
+    case "x":
+      return { kind: "structure", at, steps: p[0] as StepJSON[] };
+    case "y":
+      return { kind: "remote", at, steps: p[0] as StepJSON[] };
+    case "c":
+      return {
+        kind: "composition",
+        at,
+        phase: p[0] as "start" | "end",
+        ...(p[1] === undefined ? {} : { data: p[1] as string }),
+      };
+    default:
+      // 알 수 없는 코드는 건너뛴다 (새 버전에서 추가된 이벤트)
+      return null;
+  }
+}
+
+/**
+ * 한 번에 붙이는 이벤트 묶음을 줄들로. 묶음 첫 줄과 세션이 바뀌는 곳마다
+ * 세션 표시를 넣는다 (여러 사람의 묶음이 한 파일에 번갈아 붙기 때문).
+ */
+export function encodeEvents(
+  events: TraceEvent[],
+  startedAt: number
+): EncodedEvent[] {
+  const lines: EncodedEvent[] = [];
+  let sessionId: string | undefined;
+
+  events.forEach((event, index) => {
+    if (event.sessionId && (index === 0 || event.sessionId !== sessionId)) {
+      const t = Math.max(0, Math.round(event.at - startedAt));
+      lines.push([t, "w", event.sessionId]);
+    }
+    sessionId = event.sessionId;
+    lines.push(encodeEvent(event, startedAt));
+  });
+  return lines;
+}
+
+/** 파일의 줄들을 이벤트로. 세션 표시는 뒤따르는 이벤트의 sessionId가 된다 */
+export function decodeEvents(
+  lines: EncodedEvent[],
+  startedAt: number
+): TraceEvent[] {
+  const events: TraceEvent[] = [];
+  let sessionId: string | undefined;
+
+  for (const line of lines) {
+    if (line[1] === "w") {
+      sessionId = typeof line[2] === "string" ? line[2] : undefined;
+      continue;
+    }
+    const event = decodeEvent(line, startedAt);
+    if (event) events.push(sessionId ? { ...event, sessionId } : event);
+  }
+  return events;
+}
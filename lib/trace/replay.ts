@@ -0,0 +1,171 @@
+import { Node as PMNode, type Schema } from "@tiptap/pm/model";
+import { Step } from "@tiptap/pm/transform";
+import type { StepJSON, TraceEvent } from "./types";
+
+export interface ReplayFrame {
+  event: TraceEvent;
+  /** 이 이벤트가 적용된 직후의 문서 */
+  doc: PMNode;
+}
+
+export type ReplayMarkerKind = "pause" | "delete" | "paste";
+
+export interface ReplayMarker {
+  kind: ReplayMarkerKind;
+  /** 재생 시간축 위치 (ms) */
+  time: number;
+  /** pause: 실제로 멈춰 있던 시간 (ms) */
+  duration?: number;
+}
+
+export interface ReplayTimeline {
+  /** frames[i]가 보이기 시작하는 재생 시간 (ms) */
+  times: number[];
+  markers: ReplayMarker[];
+  duration: number;
+}
+
+// 이 이상 손을 뗀 구간은 "머뭇거림"으로 표시
+export const PAUSE_THRESHOLD = 3_000;
+// skip idle 모드에서 긴 공백은 이 길이로 압축
+const IDLE_GAP_CAP = 1_000;
+
+/**
+ * 기록을 세션(sessionId)별 흐름으로 나눈다. 흐름 안의 순서는 파일 순서 그대로다.
+ * sessionId가 없는 이전 기록은 한 흐름으로 본다.
+ */
+export function splitStreams(events: TraceEvent[]): TraceEvent[][] {
+  const streams = new Map<string | undefined, TraceEvent[]>();
+  for (const event of events) {
+    const stream = streams.get(event.sessionId);
+    if (stream) stream.push(event);
+    else streams.set(event.sessionId, [event]);
+  }
+  return [...streams.values()];
+}
+
+/**
+ * 흐름들을 시간순으로 합친다. 공동 편집자들의 묶음은 올린 순서대로 파일에
+ * 붙어 있어 파일 순서가 시간 순서가 아니다. 흐름 안의 순서는 바꾸지 않는다.
+ */
+export function mergeStreams(streams: TraceEvent[][]): TraceEvent[] {
+  const merged: TraceEvent[] = [];
+  const cursors = streams.map(() => 0);
+
+  for (;;) {
+    let next = -1;
+    streams.forEach((stream, index) => {
+      const event = stream[cursors[index]];
+      if (!event) return;
+      if (next < 0 || event.at < streams[next][cursors[next]].at) next = index;
+    });
+    if (next < 0) return merged;
+    merged.push(streams[next][cursors[next]]);
+    cursors[next] += 1;
+  }
+}
+
+/** doc에 Step들을 차례로 적용한다. 적용할 수 없는 Step부터는 버린다 */
+function applySteps(doc: PMNode, steps: StepJSON[], schema: Schema) {
+  let next = doc;
+  for (const json of steps) {
+    try {
+      const result = Step.fromJSON(schema, json).apply(next);
+      if (!result.doc) break;
+      next = result.doc;
+    } catch {
+      break;
+    }
+  }
+  return next;
+}
+
+/**
+ * 기록된 Step들을 세션 시작 문서에 차례로 적용해 이벤트마다의 문서를 만든다.
+ * 세션마다 문서를 따로 두고, 각 이벤트는 자기 세션의 문서에만 적용한다
+ * (공동 편집이면 각 세션의 기록에 다른 사람의 변경도 "remote"로 들어 있다).
+ * "remote"는 그 세션의 문서만 따라가고 프레임은 만들지 않는다 — 같은 편집이
+ * 그 사람의 세션에 이미 있다.
+ * ProseMirror 문서는 불변 구조라 이전 상태와 대부분의 노드를 공유한다.
+ * 업로드 실패 등으로 Step을 적용할 수 없으면 그 이벤트는 문서를 바꾸지 않는다.
+ */
+export function reconstructFrames(
+  events: TraceEvent[],
+  schema: Schema
+): ReplayFrame[] {
+  const frames: ReplayFrame[] = [];
+  const docs = new Map<string | undefined, PMNode>();
+
+  for (const event of mergeStreams(splitStreams(events))) {
+    if (event.kind === "composition") continue;
+
+    if (event.kind === "session") {
+      let doc: PMNode;
+      try {
+        doc = PMNode.fromJSON(schema, event.doc);
+      } catch {
+        continue;
+      }
+      docs.set(event.sessionId, doc);
+      frames.push({ event, doc });
+      continue;
+    }
+
+    const doc = docs.get(event.sessionId);
+    if (!doc) continue;
+
+    const next = applySteps(doc, event.steps, schema);
+    docs.set(event.sessionId, next);
+    if (event.kind !== "remote") frames.push({ event, doc: next });
+  }
+
+  return frames;
+}
+
+export function layoutTimeline(
+  frames: ReplayFrame[],
+  { skipIdle }: { skipIdle: boolean }
+): ReplayTimeline {
+  const times: number[] = [];
+  const markers: ReplayMarker[] = [];
+  let time = 0;
+
+  frames.forEach((frame, index) => {
+    if (index > 0) {
+      const gap = frame.event.at - frames[index - 1].event.at;
+      if (gap >= PAUSE_THRESHOLD) {
+        markers.push({ kind: "pause", time, duration: gap });
+      }
+      // 세션 사이 공백(며칠일 수도 있음)은 항상 압축
+      const compress = skipIdle || frame.event.kind === "session";
+      time += compress ? Math.min(gap, IDLE_GAP_CAP) : gap;
+    }
+    times.push(time);
+
+    const { kind } = frame.event;
+    if (kind === "delete" || kind === "replace") {
+      markers.push({ kind: "delete", time });
+    } else if (kind === "paste") {
+      markers.push({ kind: "paste", time });
+    }
+  });
+
+  return { times, markers, duration: time };
+}
+
+/** time 시점에 보여야 할 프레임 인덱스 (times는 오름차순) */
+export function frameIndexAt(times: number[], time: number) {
+  let lo = 0;
+  let hi = times.length - 1;
+  let found = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
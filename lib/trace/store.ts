@@ -0,0 +1,107 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { isValidDocumentId } from "@/lib/documents/store";
+import { DATA_DIR, isNotFoundError } from "@/lib/storage";
+import {
+  decodeEvents,
+  encodeEvents,
+  TRACE_FORMAT,
+  TRACE_FORMAT_VERSION,
+  type EncodedEvent,
+  type TraceHeader,
+} from "./format";
+import type { TraceEvent, TraceLog } from "./types";
+
+const TRACES_DIR = path.join(DATA_DIR, "traces");
+
+function tracePath(documentId: string) {
+  if (!isValidDocumentId(documentId)) {
+    throw new Error(`Invalid document id: ${documentId}`);
+  }
+  return path.join(TRACES_DIR, `${documentId}.jsonl`);
+}
+
+async function readHeader(filePath: string): Promise<TraceHeader | null> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8");
+    const firstLine = raw.slice(0, raw.indexOf("\n"));
+    return JSON.parse(firstLine) as TraceHeader;
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+async function ensureHeader(
+  documentId: string,
+  startedAt: number
+): Promise<TraceHeader> {
+  const filePath = tracePath(documentId);
+  const existing = await readHeader(filePath);
+  if (existing) return existing;
+
+  const header: TraceHeader = {
+    format: TRACE_FORMAT,
+    v: TRACE_FORMAT_VERSION,
+    documentId,
+    startedAt,
+  };
+  await fs.mkdir(TRACES_DIR, { recursive: true });
+  try {
+    // 동시에 두 요청이 와도 헤더는 한 번만 쓰이도록 wx
+    await fs.writeFile(filePath, `${JSON.stringify(header)}\n`, {
+      encoding: "utf8",
+      flag: "wx",
+    });
+    return header;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    return (await readHeader(filePath))!;
+  }
+}
+
+export async function appendTraceEvents(
+  documentId: string,
+  events: TraceEvent[]
+) {
+  if (events.length === 0) return;
+
+  const header = await ensureHeader(documentId, events[0].at);
+  const lines = encodeEvents(events, header.startedAt)
+    .map((line) => JSON.stringify(line))
+    .join("\n");
+  await fs.appendFile(tracePath(documentId), `${lines}\n`, "utf8");
+}
+
+export async function readTrace(documentId: string): Promise<TraceLog | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(tracePath(documentId), "utf8");
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+
+  const [headerLine, ...lines] = raw.split("\n").filter(Boolean);
+  const header = JSON.parse(headerLine) as TraceHeader;
+  if (header.format !== TRACE_FORMAT || header.v > TRACE_FORMAT_VERSION) {
+    throw new Error(`Unsupported trace format: ${header.format} v${header.v}`);
+  }
+
+  const encoded: EncodedEvent[] = [];
+  for (const line of lines) {
+    try {
+      encoded.push(JSON.parse(line) as EncodedEvent);
+    } catch {
+      // 쓰다가 끊긴 마지막 줄은 무시
+    }
+  }
+  const events = decodeEvents(encoded, header.startedAt);
+
+  return {
+    version: header.v,
+    documentId: header.documentId,
+    startedAt: header.startedAt,
+    events,
+  };
+}
@@ -0,0 +1,62 @@
+import type { JSONContent } from "@tiptap/core";
+
+/** 트랜잭션 하나에 담긴 ProseMirror Step들 (step.toJSON()) */
+export type StepJSON = Record<string, unknown>;
+
+export type PasteFormat = "html" | "plain";
+
+interface BaseEvent {
+  /** epoch ms */
+  at: number;
+  /**
+   * 이벤트를 기록한 편집기 세션 (attachTraceListener마다 새로).
+   * 공동 편집이면 여러 사람의 기록이 한 파일에 섞이므로 세션별로 따로 재생한다.
+   * 이전 기록에는 없다 — 그런 이벤트들은 하나의 흐름으로 본다.
+   */
+  sessionId?: string;
+}
+
+interface StepEvent extends BaseEvent {
+  steps: StepJSON[];
+}
+
+export type TraceEvent =
+  // 세션 시작 시점의 문서 전체 (재생 기준점)
+  | (BaseEvent & { kind: "session"; doc: JSONContent })
+  | (StepEvent & { kind: "insert"; from: number; text: string })
+  | (StepEvent & { kind: "delete"; from: number; text: string })
+  | (StepEvent & {
+      kind: "replace";
+      from: number;
+      deleted: string;
+      inserted: string;
+    })
+  | (StepEvent & {
+      kind: "paste";
+      from: number;
+      text: string;
+      format: PasteFormat;
+    })
+  // "+bold", "-italic", "heading", "textAlign" 처럼 바뀐 서식 이름
+  | (StepEvent & { kind: "format"; changes: string[] })
+  // attachment, image, table 등 텍스트가 아닌 노드 삽입
+  | (StepEvent & { kind: "node"; nodes: string[] })
+  // 블록 병합, 리스트 이동 등 텍스트 변화 없는 구조 변경 (줄바꿈은 insert "\n")
+  | (StepEvent & { kind: "structure" })
+  // 공동 편집자에게서 받은 변경. 이 세션의 문서를 따라가기 위한 것으로,
+  // 재생 프레임이나 작성 지표에는 넣지 않는다
+  | (StepEvent & { kind: "remote" })
+  | (BaseEvent & {
+      kind: "composition";
+      phase: "start" | "end";
+      data?: string;
+    });
+
+export type TraceEventKind = TraceEvent["kind"];
+
+export interface TraceLog {
+  version: number;
+  documentId: string;
+  startedAt: number;
+  events: TraceEvent[];
+}
@@ -0,0 +1,35 @@
+import type { TraceEvent, TraceEventKind } from "./types";
+
+const KINDS = new Set<TraceEventKind>([
+  "session",
+  "insert",
+  "delete",
+  "replace",
+  "paste",
+  "format",
+  "node",
+  "structure",
+  "remote",
+  "composition",
+]);
+
+function isSessionId(value: unknown) {
+  return typeof value === "string" && /^[a-z0-9]{1,32}$/.test(value);
+}
+
+// 요청 body의 이벤트 배열을 최소한으로 검사한다. 형식이 틀리면 null.
+export function parseTraceEvents(body: unknown): TraceEvent[] | null {
+  const events = (body as { events?: unknown } | null)?.events;
+  if (!Array.isArray(events)) return null;
+
+  const valid = events.every(
+    (event) =>
+      event &&
+      typeof event === "object" &&
+      KINDS.has(event.kind) &&
+      typeof event.at === "number" &&
+      Number.isFinite(event.at) &&
+      (event.sessionId === undefined || isSessionId(event.sessionId))
+  );
+  return valid ? (events as TraceEvent[]) : null;
+}
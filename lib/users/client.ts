@@ -0,0 +1,27 @@
+import type { CollaboratorIdentity } from "@/lib/collab/presence";
+import type { UserProfile } from "./types";
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(input, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!res.ok) {
+    throw new Error(`${init?.method ?? "GET"} ${input} failed: ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+export async function fetchUsers() {
+  const { users } = await request<{ users: UserProfile[] }>("/api/users");
+  return users;
+}
+
+/** 이 브라우저의 신원을 멘션할 수 있는 사람 목록에 올린다 */
+export async function registerUser({ id, name, color }: CollaboratorIdentity) {
+  const { user } = await request<{ user: UserProfile }>(`/api/users/${id}`, {
+    method: "PUT",
+    body: JSON.stringify({ name, color }),
+  });
+  return user;
+}
@@ -0,0 +1,40 @@
+import path from "path";
+import { DATA_DIR, readJson, writeJsonAtomic } from "@/lib/storage";
+import type { RegisterUserInput, StoredUsers, UserProfile } from "./types";
+
+// 사람 목록 전체: .data/users.json
+const USERS_PATH = path.join(DATA_DIR, "users.json");
+
+async function readUsers(): Promise<StoredUsers> {
+  return (await readJson<StoredUsers>(USERS_PATH)) ?? { users: [] };
+}
+
+/** 최근에 본 순서 */
+export async function listUsers() {
+  const { users } = await readUsers();
+  return [...users].sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+export async function getUser(id: string): Promise<UserProfile | null> {
+  const { users } = await readUsers();
+  return users.find((user) => user.id === id) ?? null;
+}
+
+/** 없으면 추가, 있으면 이름/색을 지금 값으로 (이름을 바꾸면 멘션 표시도 따라간다) */
+export async function registerUser(
+  id: string,
+  input: RegisterUserInput
+): Promise<UserProfile> {
+  const stored = await readUsers();
+  const user: UserProfile = {
+    id,
+    name: input.name,
+    color: input.color,
+    lastSeenAt: new Date().toISOString(),
+  };
+  const index = stored.users.findIndex((saved) => saved.id === id);
+  if (index === -1) stored.users.push(user);
+  else stored.users[index] = user;
+  await writeJsonAtomic(USERS_PATH, stored);
+  return user;
+}
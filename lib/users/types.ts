@@ -0,0 +1,21 @@
+/**
+ * 멘션할 수 있는 사람 목록. 계정이 없으므로 편집기를 연 브라우저의
+ * 익명 신원(lib/collab/presence)을 서버가 모아 둔 것이다.
+ */
+export interface UserProfile {
+  id: string;
+  name: string;
+  color: string;
+  /** 마지막으로 앱을 연 시각 (최근에 본 사람부터 보여준다) */
+  lastSeenAt: string;
+}
+
+/** .data/users.json */
+export interface StoredUsers {
+  users: UserProfile[];
+}
+
+export interface RegisterUserInput {
+  name: string;
+  color: string;
+}
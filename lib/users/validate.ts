@@ -0,0 +1,25 @@
+import type { RegisterUserInput } from "./types";
+
+const MAX_NAME_LENGTH = 80;
+
+const USER_ID_PATTERN = /^[A-Za-z0-9_-]{1,80}$/;
+
+export function isValidUserId(id: string) {
+  return USER_ID_PATTERN.test(id);
+}
+
+// 요청 body에서 name/color를 골라낸다. 형식이 틀리면 null.
+export function parseRegisterUserInput(body: unknown): RegisterUserInput | null {
+  if (!body || typeof body !== "object") return null;
+  const { name, color } = body as Record<string, unknown>;
+  if (
+    typeof name !== "string" ||
+    !name.trim() ||
+    name.length > MAX_NAME_LENGTH ||
+    typeof color !== "string" ||
+    !/^#[0-9a-f]{6}$/i.test(color)
+  ) {
+    return null;
+  }
+  return { name: name.trim(), color };
+}
@@ -0,0 +1,41 @@
+import type {
+  CreateVersionInput,
+  StoredVersion,
+  VersionSummary,
+} from "./types";
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(input, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!res.ok) {
+    throw new Error(`${init?.method ?? "GET"} ${input} failed: ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+export async function fetchVersions(documentId: string) {
+  const { versions } = await request<{ versions: VersionSummary[] }>(
+    `/api/documents/${documentId}/versions`
+  );
+  return versions;
+}
+
+export async function fetchVersion(documentId: string, versionId: string) {
+  const { version } = await request<{ version: StoredVersion }>(
+    `/api/documents/${documentId}/versions/${versionId}`
+  );
+  return version;
+}
+
+export async function createVersion(
+  documentId: string,
+  input: CreateVersionInput
+) {
+  const { version } = await request<{ version: StoredVersion }>(
+    `/api/documents/${documentId}/versions`,
+    { method: "POST", body: JSON.stringify(input) }
+  );
+  return version;
+}
@@ -0,0 +1,349 @@
+import type { JSONContent } from "@tiptap/core";
+import { flattenMentions } from "@/lib/mentions/content";
+
+/**
+ * 두 버전의 ProseMirror JSON을 블록 → 단어 순서로 비교한다.
+ * 1) 문서를 글 블록(문단/제목/코드, 목록·표·인용 안쪽까지) 목록으로 펼치고
+ * 2) 블록 글자를 기준으로 LCS를 맞춘 뒤
+ * 3) 짝이 된 블록끼리는 단어 단위로 다시 비교한다 (같은 단어의 서식 변화 포함).
+ */
+
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+  /** 이 글자의 마크 이름 (비교 후 버전 기준, 삭제면 이전 버전 기준) */
+  marks: string[];
+  /** 글자는 같은데 서식만 바뀐 경우 */
+  format?: { added: string[]; removed: string[] };
+}
+
+export type DiffBlockStatus = "equal" | "insert" | "delete" | "change";
+
+export interface DiffBlockInfo {
+  type: string;
+  attrs: Record<string, unknown>;
+  /** 이 블록을 감싼 목록/표/인용 (바깥부터) */
+  containers: string[];
+}
+
+export interface DiffBlock {
+  status: DiffBlockStatus;
+  before: DiffBlockInfo | null;
+  after: DiffBlockInfo | null;
+  segments: DiffSegment[];
+}
+
+export interface DiffSummary {
+  inserted: number;
+  deleted: number;
+  formatted: number;
+}
+
+interface Token {
+  text: string;
+  marks: string[];
+}
+
+interface FlatBlock extends DiffBlockInfo {
+  tokens: Token[];
+  text: string;
+}
+
+// 이보다 크면 단어 비교를 포기하고 통째로 삭제/추가로 본다
+const MAX_TOKEN_CELLS = 1_000_000;
+
+// 바뀐 구간의 블록이 이보다 많으면 LCS 없이 순서대로 짝짓는다
+const MAX_BLOCK_CELLS = 4_000_000;
+
+// 짝지은 블록의 공통 글자가 이보다 적으면 다른 블록으로 본다
+const MIN_SIMILARITY = 0.3;
+
+const ATOM_PLACEHOLDERS: Record<string, (attrs: Record<string, unknown>) => string> = {
+  image: (attrs) => `[이미지${attrs.alt ? `: ${attrs.alt}` : ""}]`,
+  attachment: (attrs) => `[첨부: ${attrs.name ?? "파일"}]`,
+  youtube: () => "[동영상]",
+  horizontalRule: () => "[구분선]",
+  tableOfContents: () => "[목차]",
+};
+
+function markNames(node: JSONContent) {
+  return (node.marks ?? [])
+    .map((mark) => mark.type)
+    .filter((type) => type !== "comment" && type !== "pasted")
+    .sort();
+}
+
+// 공백도 토큰으로 남겨서 다시 이어 붙이면 원문이 된다
+function tokenize(text: string, marks: string[]): Token[] {
+  return text
+    .split(/(\s+)/)
+    .filter((part) => part.length > 0)
+    .map((part) => ({ text: part, marks }));
+}
+
+// 제안 표시(suggestion)와 블록 링크 id(blockId)는 서식 비교에서 뺀다
+const IGNORED_ATTRS = new Set(["suggestion", "blockId"]);
+
+function blockAttrs(node: JSONContent): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(node.attrs ?? {})
+      .filter(([key]) => !IGNORED_ATTRS.has(key))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+function flatten(doc: JSONContent) {
+  const blocks: FlatBlock[] = [];
+
+  const visit = (node: JSONContent, containers: string[]) => {
+    const type = node.type ?? "";
+    const placeholder = ATOM_PLACEHOLDERS[type];
+    if (placeholder) {
+      const text = placeholder(node.attrs ?? {});
+      blocks.push({
+        type,
+        attrs: blockAttrs(node),
+        containers,
+        tokens: [{ text, marks: [] }],
+        text,
+      });
+      return;
+    }
+
+    const children = node.content ?? [];
+    const isTextBlock =
+      children.length === 0 ||
+      children.some((child) => child.type === "text" || child.type === "hardBreak");
+    if (isTextBlock && type !== "doc") {
+      const tokens = children.flatMap((child) =>
+        child.type === "hardBreak"
+          ? [{ text: "\n", marks: [] }]
+          : tokenize(child.text ?? "", markNames(child))
+      );
+      blocks.push({
+        type,
+        attrs: blockAttrs(node),
+        containers,
+        tokens,
+        text: tokens.map((token) => token.text).join(""),
+      });
+      return;
+    }
+
+    const inner = type === "doc" ? containers : [...containers, type];
+    children.forEach((child) => visit(child, inner));
+  };
+
+  visit(doc, []);
+  return blocks;
+}
+
+/** a[i] === b[j] 기준 LCS 짝 (i, j) 목록 */
+function lcsPairs<T>(a: T[], b: T[], same: (x: T, y: T) => boolean) {
+  const n = a.length;
+  const m = b.length;
+  const table = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[at(i, j)] = same(a[i], b[j])
+        ? table[at(i + 1, j + 1)] + 1
+        : Math.max(table[at(i + 1, j)], table[at(i, j + 1)]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (same(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[at(i + 1, j)] >= table[at(i, j + 1)]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+function sameMarks(a: string[], b: string[]) {
+  return a.length === b.length && a.every((mark, index) => mark === b[index]);
+}
+
+function pushSegment(segments: DiffSegment[], segment: DiffSegment) {
+  const last = segments[segments.length - 1];
+  if (
+    last &&
+    last.op === segment.op &&
+    sameMarks(last.marks, segment.marks) &&
+    JSON.stringify(last.format) === JSON.stringify(segment.format)
+  ) {
+    last.text += segment.text;
+  } else {
+    segments.push({ ...segment });
+  }
+}
+
+function tokenSegments(tokens: Token[], op: DiffOp) {
+  const segments: DiffSegment[] = [];
+  tokens.forEach((token) =>
+    pushSegment(segments, { op, text: token.text, marks: token.marks })
+  );
+  return segments;
+}
+
+/** 단어 단위 비교. 너무 크면 null */
+function diffTokens(before: Token[], after: Token[]) {
+  if (before.length * after.length > MAX_TOKEN_CELLS) return null;
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  const flushUntil = (untilI: number, untilJ: number) => {
+    for (; i < untilI; i++) {
+      pushSegment(segments, { op: "delete", text: before[i].text, marks: before[i].marks });
+    }
+    for (; j < untilJ; j++) {
+      pushSegment(segments, { op: "insert", text: after[j].text, marks: after[j].marks });
+    }
+  };
+
+  for (const [pi, pj] of lcsPairs(before, after, (x, y) => x.text === y.text)) {
+    flushUntil(pi, pj);
+    const old = before[pi];
+    const next = after[pj];
+    const changed = !sameMarks(old.marks, next.marks) && next.text.trim() !== "";
+    pushSegment(segments, {
+      op: "equal",
+      text: next.text,
+      marks: next.marks,
+      ...(changed && {
+        format: {
+          added: next.marks.filter((mark) => !old.marks.includes(mark)),
+          removed: old.marks.filter((mark) => !next.marks.includes(mark)),
+        },
+      }),
+    });
+    i = pi + 1;
+    j = pj + 1;
+  }
+  flushUntil(before.length, after.length);
+  return segments;
+}
+
+function info({ type, attrs, containers }: FlatBlock): DiffBlockInfo {
+  return { type, attrs, containers };
+}
+
+function sameInfo(a: FlatBlock, b: FlatBlock) {
+  return (
+    a.type === b.type &&
+    JSON.stringify(a.attrs) === JSON.stringify(b.attrs) &&
+    a.containers.join("/") === b.containers.join("/")
+  );
+}
+
+function changedBlock(before: FlatBlock, after: FlatBlock): DiffBlock[] {
+  const segments = diffTokens(before.tokens, after.tokens);
+  const common = (segments ?? [])
+    .filter((segment) => segment.op === "equal")
+    .reduce((sum, segment) => sum + segment.text.trim().length, 0);
+  const longest = Math.max(before.text.trim().length, after.text.trim().length);
+
+  if (!segments || (longest > 0 && common / longest < MIN_SIMILARITY)) {
+    return [
+      { status: "delete", before: info(before), after: null, segments: tokenSegments(before.tokens, "delete") },
+      { status: "insert", before: null, after: info(after), segments: tokenSegments(after.tokens, "insert") },
+    ];
+  }
+
+  const status =
+    sameInfo(before, after) && segments.every((s) => s.op === "equal" && !s.format)
+      ? "equal"
+      : "change";
+  return [{ status, before: info(before), after: info(after), segments }];
+}
+
+export function diffDocuments(before: JSONContent, after: JSONContent): DiffBlock[] {
+  const a = flatten(flattenMentions(before));
+  const b = flatten(flattenMentions(after));
+  const result: DiffBlock[] = [];
+
+  // 짝이 없는 구간: 앞에서부터 하나씩 짝지어 비교하고 남는 것은 삭제/추가
+  const flushRun = (deleted: FlatBlock[], inserted: FlatBlock[]) => {
+    const paired = Math.min(deleted.length, inserted.length);
+    for (let k = 0; k < paired; k++) {
+      result.push(...changedBlock(deleted[k], inserted[k]));
+    }
+    deleted.slice(paired).forEach((block) =>
+      result.push({ status: "delete", before: info(block), after: null, segments: tokenSegments(block.tokens, "delete") })
+    );
+    inserted.slice(paired).forEach((block) =>
+      result.push({ status: "insert", before: null, after: info(block), segments: tokenSegments(block.tokens, "insert") })
+    );
+  };
+
+  // 보통은 한 곳만 고치므로 같은 앞/뒤 블록은 LCS 없이 짝짓는다
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix].text === b[prefix].text) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix].text === b[b.length - 1 - suffix].text
+  ) {
+    suffix++;
+  }
+
+  for (let k = 0; k < prefix; k++) result.push(...changedBlock(a[k], b[k]));
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const pairs =
+    middleA.length * middleB.length > MAX_BLOCK_CELLS
+      ? []
+      : lcsPairs(middleA, middleB, (x, y) => x.text === y.text);
+  let i = 0;
+  let j = 0;
+  for (const [pi, pj] of pairs) {
+    flushRun(middleA.slice(i, pi), middleB.slice(j, pj));
+    result.push(...changedBlock(middleA[pi], middleB[pj]));
+    i = pi + 1;
+    j = pj + 1;
+  }
+  flushRun(middleA.slice(i), middleB.slice(j));
+
+  for (let k = suffix; k > 0; k--) {
+    result.push(...changedBlock(a[a.length - k], b[b.length - k]));
+  }
+  return result;
+}
+
+export function summarizeDiff(blocks: DiffBlock[]): DiffSummary {
+  const summary: DiffSummary = { inserted: 0, deleted: 0, formatted: 0 };
+  blocks.forEach((block) => {
+    block.segments.forEach((segment) => {
+      if (segment.op === "insert") summary.inserted += segment.text.trim().length;
+      if (segment.op === "delete") summary.deleted += segment.text.trim().length;
+      if (segment.format) summary.formatted += 1;
+    });
+    if (
+      block.status === "change" &&
+      block.before &&
+      block.after &&
+      (block.before.type !== block.after.type ||
+        JSON.stringify(block.before.attrs) !== JSON.stringify(block.after.attrs))
+    ) {
+      summary.formatted += 1;
+    }
+  });
+  return summary;
+}
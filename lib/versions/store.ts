@@ -0,0 +1,144 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import type { JSONContent } from "@tiptap/core";
+import { isValidDocumentId } from "@/lib/documents/store";
+import { getDocumentText } from "@/lib/documents/text";
+import type { StoredDocument } from "@/lib/documents/types";
+import { DATA_DIR, readJson, writeJsonAtomic } from "@/lib/storage";
+import {
+  AUTO_VERSION_INTERVAL,
+  type CreateVersionInput,
+  type StoredVersion,
+  type VersionIndex,
+  type VersionKind,
+  type VersionSummary,
+} from "./types";
+import { isValidVersionId } from "./validate";
+
+// 버전 목록: .data/versions/<documentId>.json
+// 버전 본문: .data/versions/<documentId>/<versionId>.json
+const VERSIONS_DIR = path.join(DATA_DIR, "versions");
+
+function indexPath(documentId: string) {
+  if (!isValidDocumentId(documentId)) {
+    throw new Error(`Invalid document id: ${documentId}`);
+  }
+  return path.join(VERSIONS_DIR, `${documentId}.json`);
+}
+
+function versionPath(documentId: string, versionId: string) {
+  if (!isValidDocumentId(documentId) || !isValidVersionId(versionId)) {
+    throw new Error(`Invalid version id: ${documentId}/${versionId}`);
+  }
+  return path.join(VERSIONS_DIR, documentId, `${versionId}.json`);
+}
+
+async function readIndex(documentId: string): Promise<VersionIndex> {
+  return (
+    (await readJson<VersionIndex>(indexPath(documentId))) ?? {
+      documentId,
+      versions: [],
+    }
+  );
+}
+
+async function writeVersion(
+  documentId: string,
+  snapshot: { title: string; content: JSONContent },
+  kind: VersionKind,
+  extra: { name?: string | null; restoredFrom?: string | null } = {}
+): Promise<StoredVersion> {
+  const version: StoredVersion = {
+    id: randomUUID(),
+    documentId,
+    kind,
+    name: extra.name ?? null,
+    title: snapshot.title,
+    characters: getDocumentText(snapshot.content).length,
+    createdAt: new Date().toISOString(),
+    restoredFrom: extra.restoredFrom ?? null,
+    content: snapshot.content,
+  };
+
+  // 본문을 먼저 쓰고 목록에 올린다 (목록에 있는데 본문이 없는 일이 없게)
+  await writeJsonAtomic(versionPath(documentId, version.id), version);
+  const index = await readIndex(documentId);
+  index.versions.push(toSummary(version));
+  await writeJsonAtomic(indexPath(documentId), index);
+  return version;
+}
+
+function toSummary(version: StoredVersion): VersionSummary {
+  return {
+    id: version.id,
+    documentId: version.documentId,
+    kind: version.kind,
+    name: version.name,
+    title: version.title,
+    characters: version.characters,
+    createdAt: version.createdAt,
+    restoredFrom: version.restoredFrom,
+  };
+}
+
+/** 최신 버전이 마지막 */
+export async function listVersions(documentId: string) {
+  const { versions } = await readIndex(documentId);
+  return versions;
+}
+
+export async function readVersion(documentId: string, versionId: string) {
+  if (!isValidVersionId(versionId)) return null;
+  return readJson<StoredVersion>(versionPath(documentId, versionId));
+}
+
+/** 마지막 버전과 제목/본문이 같은가 */
+async function matchesLatest(doc: StoredDocument, latest: VersionSummary) {
+  const previous = await readVersion(doc.id, latest.id);
+  return (
+    previous !== null &&
+    previous.title === doc.title &&
+    JSON.stringify(previous.content) === JSON.stringify(doc.content)
+  );
+}
+
+/**
+ * 이름 붙인 버전은 지금 저장된 문서를, 복원 버전은 되돌린 버전의 내용을 남긴다.
+ * 복원하기 전 상태가 버전에 없으면 자동 버전으로 먼저 남겨 되돌아갈 수 있게 한다.
+ * 되돌릴 버전이 없으면 null.
+ */
+export async function createVersion(
+  doc: StoredDocument,
+  input: CreateVersionInput
+): Promise<StoredVersion | null> {
+  if (input.kind === "manual") {
+    return writeVersion(doc.id, doc, "manual", { name: input.name });
+  }
+
+  const source = await readVersion(doc.id, input.restoredFrom);
+  if (!source) return null;
+
+  const { versions } = await readIndex(doc.id);
+  const latest = versions[versions.length - 1];
+  if (latest && !(await matchesLatest(doc, latest))) {
+    await writeVersion(doc.id, doc, "auto");
+  }
+  return writeVersion(doc.id, source, "restore", {
+    restoredFrom: source.id,
+  });
+}
+
+/**
+ * 저장할 때마다 부른다. 마지막 버전 이후 AUTO_VERSION_INTERVAL이 지났고
+ * 내용이 바뀌었으면 자동 버전을 남긴다 (= 편집하는 동안만 쌓인다).
+ */
+export async function recordAutoVersion(doc: StoredDocument) {
+  const { versions } = await readIndex(doc.id);
+  const latest = versions[versions.length - 1];
+  if (latest) {
+    const elapsed = Date.now() - Date.parse(latest.createdAt);
+    if (elapsed < AUTO_VERSION_INTERVAL) return null;
+    if (await matchesLatest(doc, latest)) return null;
+  }
+  return writeVersion(doc.id, doc, "auto");
+}
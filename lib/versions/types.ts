@@ -0,0 +1,47 @@
+import type { JSONContent } from "@tiptap/core";
+
+/**
+ * - auto: 편집하는 동안 AUTO_VERSION_INTERVAL마다 저장 시점에 자동으로
+ * - manual: 사용자가 이름을 붙여 저장 ("지도교수님께 보낸 초안")
+ * - restore: 이전 버전으로 되돌린 직후의 상태
+ */
+export const VERSION_KINDS = ["auto", "manual", "restore"] as const;
+
+export type VersionKind = (typeof VERSION_KINDS)[number];
+
+/** 마지막 버전 이후 이만큼 지나서 저장되면 자동 버전을 남긴다 */
+export const AUTO_VERSION_INTERVAL = 10 * 60_000;
+
+export const VERSION_KIND_LABELS: Record<VersionKind, string> = {
+  auto: "자동 저장",
+  manual: "이름 붙인 버전",
+  restore: "복원",
+};
+
+/** 목록용 (본문 제외) */
+export interface VersionSummary {
+  id: string;
+  documentId: string;
+  kind: VersionKind;
+  name: string | null;
+  title: string;
+  characters: number;
+  createdAt: string;
+  /** restore 버전이면 되돌린 원본 버전 */
+  restoredFrom: string | null;
+}
+
+/** .data/versions/<documentId>/<versionId>.json */
+export interface StoredVersion extends VersionSummary {
+  content: JSONContent;
+}
+
+/** .data/versions/<documentId>.json (최신 버전이 마지막) */
+export interface VersionIndex {
+  documentId: string;
+  versions: VersionSummary[];
+}
+
+export type CreateVersionInput =
+  | { kind: "manual"; name: string | null }
+  | { kind: "restore"; restoredFrom: string };
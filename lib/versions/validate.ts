@@ -0,0 +1,31 @@
+import type { CreateVersionInput } from "./types";
+
+const MAX_NAME_LENGTH = 100;
+
+const VERSION_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export function isValidVersionId(id: string) {
+  return VERSION_ID_PATTERN.test(id);
+}
+
+// 요청 body에서 이름 붙인 버전 / 복원 요청을 골라낸다. 형식이 틀리면 null.
+// 자동 버전은 저장 API가 만들므로 여기서는 받지 않는다.
+export function parseCreateVersionInput(body: unknown): CreateVersionInput | null {
+  if (!body || typeof body !== "object") return null;
+  const { kind, name, restoredFrom } = body as Record<string, unknown>;
+
+  if (kind === "manual") {
+    if (name === undefined || name === null) return { kind, name: null };
+    if (typeof name !== "string" || name.length > MAX_NAME_LENGTH) return null;
+    return { kind, name: name.trim() || null };
+  }
+
+  if (kind === "restore") {
+    if (typeof restoredFrom !== "string" || !isValidVersionId(restoredFrom)) {
+      return null;
+    }
+    return { kind, restoredFrom };
+  }
+
+  return null;
+}
@@ -0,0 +1,78 @@
+/**
+ * 문서에 data URL로 들어 있던 이미지를 이미지 에셋(/api/images)으로 옮긴다.
+ *
+ *   npm run migrate:images
+ *
+ * 공동 편집 서버가 메모리에 든 상태로 덮어쓰지 않도록
+ * `npm run collab`을 끈 뒤에 실행한다.
+ */
+import * as Y from "yjs";
+import { loadYjsState, saveYjsState } from "@/lib/collab/persistence";
+import { COLLAB_FIELD } from "@/lib/collab/seed";
+import {
+  listDocuments,
+  readDocument,
+  replaceDocumentContent,
+} from "@/lib/documents/store";
+import {
+  migrateContentImages,
+  migrateYjsImages,
+  type MigrationCache,
+} from "@/lib/images/migrate";
+
+async function migrateDocument(id: string, cache: MigrationCache) {
+  const doc = await readDocument(id);
+  if (!doc) return { migrated: 0, skipped: 0 };
+
+  const result = await migrateContentImages(doc.content, cache);
+  if (result.migrated > 0) {
+    await replaceDocumentContent(id, result.content);
+  }
+  return result;
+}
+
+async function migrateYjsState(id: string, cache: MigrationCache) {
+  const state = await loadYjsState(id);
+  if (!state) return { migrated: 0, skipped: 0 };
+
+  const ydoc = new Y.Doc();
+  Y.applyUpdate(ydoc, state);
+  const result = await migrateYjsImages(ydoc.getXmlFragment(COLLAB_FIELD), cache);
+  if (result.migrated > 0) {
+    await saveYjsState(id, Y.encodeStateAsUpdate(ydoc));
+  }
+  ydoc.destroy();
+  return result;
+}
+
+async function main() {
+  // 문서 JSON과 Yjs 상태에 같은 이미지가 들어 있으므로 결과를 함께 쓴다
+  const cache: MigrationCache = new Map();
+  const summaries = [
+    ...(await listDocuments()),
+    ...(await listDocuments({ trashed: true })),
+  ];
+
+  let total = 0;
+  for (const { id, title } of summaries) {
+    const doc = await migrateDocument(id, cache);
+    const yjs = await migrateYjsState(id, cache);
+    const migrated = doc.migrated + yjs.migrated;
+    const skipped = doc.skipped + yjs.skipped;
+    if (migrated + skipped === 0) continue;
+
+    total += migrated;
+    console.log(
+      `${id} "${title}": ${migrated}개 변환${skipped ? `, ${skipped}개 건너뜀` : ""}`
+    );
+  }
+
+  console.log(
+    `문서 ${summaries.length}개, 이미지 ${total}개 변환`
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,372 @@
+/**
+ * Writetracer 실시간 공동 편집 서버 (y-protocols sync + awareness)
+ *
+ *   npm run collab            # 기본 ws://localhost:1234
+ *   COLLAB_PORT=4000 npm run collab
+ *
+ * 클라이언트(y-websocket)는 ws://host:port/<documentId> 로 접속한다.
+ * 공유 링크로 연 사람은 ws://host:port/share/<token> 으로 접속하고,
+ * 서버가 링크의 역할에 따라 보기 전용/댓글 권한의 변경을 걸러 낸다.
+ * 문서별 Y.Doc 상태는 .data/yjs/<id>.bin 에 저장된다.
+ */
+import type { IncomingMessage } from "http";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+import * as Y from "yjs";
+import * as syncProtocol from "y-protocols/sync";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+import { getSchema } from "@tiptap/core";
+import { yXmlFragmentToProsemirrorJSON } from "@tiptap/y-tiptap";
+import { createEditorExtensions } from "@/components/editor/extensions";
+import { loadYjsState, saveYjsState } from "@/lib/collab/persistence";
+import { parseRoomName } from "@/lib/collab/rooms";
+import { COLLAB_FIELD, seedFromStoredDocument } from "@/lib/collab/seed";
+import { isSameIgnoringComments } from "@/lib/comments/content";
+import { isValidDocumentId, readDocument } from "@/lib/documents/store";
+import {
+  isShareLinkActive,
+  readShareLink,
+  shareAccessKey,
+  shareCookieName,
+} from "@/lib/shares/store";
+import type { ShareRole } from "@/lib/shares/types";
+
+const PORT = Number(process.env.COLLAB_PORT ?? 1234);
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const PERSIST_DELAY = 1_000;
+const PING_INTERVAL = 30_000;
+
+// 댓글 권한 연결의 변경을 검사할 때 쓰는 편집기 스키마
+const schema = getSchema(createEditorExtensions());
+
+interface Room {
+  name: string;
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  /** 연결마다 그 연결이 관리하는 awareness clientID 목록 */
+  conns: Map<WebSocket, Set<number>>;
+  persistTimer: NodeJS.Timeout | null;
+}
+
+/** 연결 하나가 들어간 방과 권한 (문서 id로 들어온 연결은 editor) */
+interface Session {
+  room: Room;
+  role: ShareRole;
+}
+
+const rooms = new Map<string, Promise<Room>>();
+
+function send(conn: WebSocket, message: Uint8Array) {
+  if (conn.readyState !== WebSocket.OPEN) return;
+  conn.send(message, (error) => {
+    if (error) conn.close();
+  });
+}
+
+function broadcast(room: Room, message: Uint8Array) {
+  room.conns.forEach((_ids, conn) => send(conn, message));
+}
+
+async function persist(room: Room) {
+  if (room.persistTimer) {
+    clearTimeout(room.persistTimer);
+    room.persistTimer = null;
+  }
+  try {
+    await saveYjsState(room.name, Y.encodeStateAsUpdate(room.doc));
+  } catch (error) {
+    console.error(`[collab] failed to persist ${room.name}`, error);
+  }
+}
+
+async function createRoom(name: string): Promise<Room> {
+  const doc = new Y.Doc();
+  const saved = await loadYjsState(name);
+  if (saved) {
+    Y.applyUpdate(doc, saved);
+  } else {
+    await seedFromStoredDocument(doc, name);
+  }
+
+  const awareness = new awarenessProtocol.Awareness(doc);
+  awareness.setLocalState(null);
+
+  const room: Room = { name, doc, awareness, conns: new Map(), persistTimer: null };
+
+  doc.on("update", (update: Uint8Array) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    broadcast(room, encoding.toUint8Array(encoder));
+
+    if (!room.persistTimer) {
+      room.persistTimer = setTimeout(() => void persist(room), PERSIST_DELAY);
+    }
+  });
+
+  awareness.on(
+    "update",
+    (
+      {
+        added,
+        updated,
+        removed,
+      }: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      const changed = [...added, ...updated, ...removed];
+      const ids = origin instanceof WebSocket ? room.conns.get(origin) : null;
+      if (ids) {
+        added.forEach((id) => ids.add(id));
+        removed.forEach((id) => ids.delete(id));
+      }
+
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(
+        encoder,
+        awarenessProtocol.encodeAwarenessUpdate(awareness, changed)
+      );
+      broadcast(room, encoding.toUint8Array(encoder));
+    }
+  );
+
+  return room;
+}
+
+function getRoom(name: string) {
+  let room = rooms.get(name);
+  if (!room) {
+    room = createRoom(name);
+    rooms.set(name, room);
+    // 로딩에 실패하면 다음 접속 때 다시 시도
+    room.catch(() => rooms.delete(name));
+  }
+  return room;
+}
+
+async function closeConnection(room: Room, conn: WebSocket) {
+  const ids = room.conns.get(conn);
+  if (!ids) return;
+
+  room.conns.delete(conn);
+  awarenessProtocol.removeAwarenessStates(room.awareness, [...ids], null);
+
+  if (room.conns.size === 0) {
+    await persist(room);
+    // 그 사이에 새 연결이 없을 때만 정리
+    if (room.conns.size === 0) {
+      room.doc.destroy();
+      rooms.delete(room.name);
+    }
+  }
+}
+
+function readCookie(request: IncomingMessage, name: string) {
+  for (const part of (request.headers.cookie ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+/**
+ * 방 이름을 문서 id와 권한으로 바꾼다. 공유 토큰이면 /api/shares/[token]과
+ * 같은 검사(취소·만료, 문서 삭제, 비밀번호 쿠키)를 하고, 통과하지 못하면 null.
+ */
+async function resolveAccess(
+  name: string,
+  request: IncomingMessage
+): Promise<{ documentId: string; role: ShareRole } | null> {
+  const target = parseRoomName(name);
+  if ("documentId" in target) {
+    return isValidDocumentId(target.documentId)
+      ? { documentId: target.documentId, role: "editor" }
+      : null;
+  }
+
+  const link = await readShareLink(target.shareToken);
+  if (!link || !isShareLinkActive(link)) return null;
+
+  const document = await readDocument(link.documentId);
+  if (!document || document.deletedAt) return null;
+
+  if (
+    link.passwordHash &&
+    readCookie(request, shareCookieName(link.token)) !== shareAccessKey(link)
+  ) {
+    return null;
+  }
+  return { documentId: link.documentId, role: link.role };
+}
+
+/** update를 적용해도 댓글 마크 말고는 본문이 그대로인지 */
+function changesOnlyComments(doc: Y.Doc, update: Uint8Array) {
+  const next = new Y.Doc();
+  try {
+    Y.applyUpdate(next, Y.encodeStateAsUpdate(doc));
+    const before = yXmlFragmentToProsemirrorJSON(next.getXmlFragment(COLLAB_FIELD));
+    Y.applyUpdate(next, update);
+    const after = yXmlFragmentToProsemirrorJSON(next.getXmlFragment(COLLAB_FIELD));
+    return isSameIgnoringComments(schema, before, after);
+  } finally {
+    next.destroy();
+  }
+}
+
+/**
+ * 편집 권한이 없는 연결의 sync 메시지. step 1(상태 요청)에는 답하지만
+ * 보기 전용 링크의 변경은 버리고, 댓글 권한은 댓글 마크만 바꾼 변경만 받는다.
+ */
+function readRestrictedSyncMessage(
+  decoder: decoding.Decoder,
+  encoder: encoding.Encoder,
+  { room, role }: Session,
+  conn: WebSocket
+) {
+  const type = decoding.readVarUint(decoder);
+  if (type === syncProtocol.messageYjsSyncStep1) {
+    syncProtocol.readSyncStep1(decoder, encoder, room.doc);
+    return;
+  }
+
+  const update = decoding.readVarUint8Array(decoder);
+  if (role !== "commenter") return;
+  if (changesOnlyComments(room.doc, update)) {
+    Y.applyUpdate(room.doc, update, conn);
+  } else {
+    console.warn(`[collab] dropped a content change from a commenter in ${room.name}`);
+  }
+}
+
+function handleMessage(session: Session, conn: WebSocket, data: Uint8Array) {
+  const { room, role } = session;
+  const decoder = decoding.createDecoder(data);
+  const encoder = encoding.createEncoder();
+
+  switch (decoding.readVarUint(decoder)) {
+    case MESSAGE_SYNC:
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      if (role === "editor") {
+        syncProtocol.readSyncMessage(decoder, encoder, room.doc, conn);
+      } else {
+        readRestrictedSyncMessage(decoder, encoder, session, conn);
+      }
+      // sync step 1에는 step 2로 답한다
+      if (encoding.length(encoder) > 1) {
+        send(conn, encoding.toUint8Array(encoder));
+      }
+      break;
+    case MESSAGE_AWARENESS:
+      awarenessProtocol.applyAwarenessUpdate(
+        room.awareness,
+        decoding.readVarUint8Array(decoder),
+        conn
+      );
+      break;
+  }
+}
+
+function toUint8Array(data: RawData) {
+  if (Array.isArray(data)) return new Uint8Array(Buffer.concat(data));
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function handleConnection(conn: WebSocket, request: IncomingMessage) {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const name = decodeURIComponent(url.pathname.slice(1));
+
+  conn.binaryType = "arraybuffer";
+  // 권한 확인에 실패하면 null (연결은 아래에서 닫는다)
+  const sessionPromise = resolveAccess(name, request).then(
+    async (access): Promise<Session | null> =>
+      access && { room: await getRoom(access.documentId), role: access.role }
+  );
+
+  // 방이 준비되기 전에 온 메시지도 순서대로 처리되도록 promise에 이어 붙인다
+  conn.on("message", (data) => {
+    void sessionPromise.then((session) => {
+      if (!session) return;
+      try {
+        handleMessage(session, conn, toUint8Array(data));
+      } catch (error) {
+        console.error(`[collab] bad message in ${name}`, error);
+      }
+    });
+  });
+
+  let alive = true;
+  conn.on("pong", () => {
+    alive = true;
+  });
+  const ping = setInterval(() => {
+    if (!alive) {
+      conn.terminate();
+      return;
+    }
+    alive = false;
+    conn.ping();
+  }, PING_INTERVAL);
+
+  conn.on("close", () => {
+    clearInterval(ping);
+    void sessionPromise.then(
+      (session) => session && closeConnection(session.room, conn)
+    );
+  });
+
+  sessionPromise
+    .then((session) => {
+      if (!session) {
+        conn.close(4403, "not allowed");
+        return;
+      }
+      const { room } = session;
+      room.conns.set(conn, new Set());
+
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeSyncStep1(encoder, room.doc);
+      send(conn, encoding.toUint8Array(encoder));
+
+      const states = room.awareness.getStates();
+      if (states.size > 0) {
+        const awarenessEncoder = encoding.createEncoder();
+        encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(
+          awarenessEncoder,
+          awarenessProtocol.encodeAwarenessUpdate(room.awareness, [
+            ...states.keys(),
+          ])
+        );
+        send(conn, encoding.toUint8Array(awarenessEncoder));
+      }
+    })
+    .catch((error) => {
+      console.error(`[collab] failed to open ${name}`, error);
+      conn.close(1011, "failed to load document");
+    });
+}
+
+const wss = new WebSocketServer({ port: PORT });
+wss.on("connection", handleConnection);
+wss.on("listening", () => {
+  console.log(`[collab] listening on ws://localhost:${PORT}`);
+});
+
+async function shutdown() {
+  wss.close();
+  const open = await Promise.allSettled(rooms.values());
+  await Promise.all(
+    open.flatMap((result) =>
+      result.status === "fulfilled" ? [persist(result.value)] : []
+    )
+  );
+  process.exit(0);
+}
+
+process.on("SIGINT", () => void shutdown());
+process.on("SIGTERM", () => void shutdown());